@@ -0,0 +1,174 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { executeBatch, GeoJSONFeature, GeoJSONFeatureCollection } from '../batch';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
+import { COMMON_CRS } from '../utils/crs';
+import { zonesFromGeoJSON } from '../utils/zoning';
+
+describe('Batch Execution', () => {
+  const utm = COMMON_CRS.BUENOS_AIRES_UTM;
+
+  const parcels: GeoJSONFeatureCollection = JSON.parse(
+    readFileSync(join(__dirname, '../../../../data/samples/parcels.geojson'), 'utf8')
+  );
+
+  // Square lot in UTM 21S metres, closed like GeoJSON rings
+  const square = (x: number, y: number, size: number, properties: Record<string, any> = {}): GeoJSONFeature => ({
+    type: 'Feature',
+    properties,
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]]]
+    }
+  });
+
+  test('runs every parcel in the working CRS with properties as attributes', async () => {
+    const progress: number[] = [];
+    const batch = await executeBatch({
+      name: 'Height Limit',
+      rules: [{ op: 'extrude', h: 'height_limit' }]
+    }, parcels, { crs: utm, onProgress: done => progress.push(done) });
+
+    expect(batch.totals).toMatchObject({ features: 3, succeeded: 3, failed: 0 });
+    expect(progress).toEqual([1, 2, 3]);
+    expect(batch.features.map(feature => feature.id)).toEqual([1, 2, 3]);
+
+    const [palermo] = batch.features;
+    // 0.0004° x 0.0003° at 34.6°S is roughly 36.7 m x 33.3 m
+    expect(palermo.metrics!.lotArea).toBeGreaterThan(1150);
+    expect(palermo.metrics!.lotArea).toBeLessThan(1300);
+    expect(palermo.result!.attributes.district).toBe('Palermo');
+    expect(palermo.result!.crsCode).toBe('EPSG:32721');
+    expect(palermo.result!.geometry!.vertices[0][0]).toBeGreaterThan(100000); // Metres, not degrees
+
+    batch.features.forEach(feature => {
+      const { lotArea, footprintArea, gfa, volume, height } = feature.metrics!;
+      const limit = parcels.features[feature.index].properties!.height_limit;
+      expect(footprintArea).toBeCloseTo(lotArea, 3);
+      expect(height).toBe(limit);
+      expect(gfa).toBeCloseTo(lotArea * limit / 3, 3);
+      expect(volume / (lotArea * limit)).toBeCloseTo(1, 6);
+    });
+    expect(batch.totals.gfa).toBeCloseTo(batch.features.reduce((sum, feature) => sum + feature.metrics!.gfa, 0), 6);
+  });
+
+  test('bad parcels are reported without aborting the run', async () => {
+    const collection: GeoJSONFeatureCollection = {
+      type: 'FeatureCollection',
+      features: [
+        square(394000, 6135000, 20, { id: 'ok' }),
+        { type: 'Feature', id: 'point', properties: {}, geometry: { type: 'Point', coordinates: [394000, 6135000] } },
+        { type: 'Feature', id: 'sliver', properties: {}, geometry: { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [0, 0]]] } },
+        square(394100, 6135000, 6, { id: 'small' }),
+        square(394200, 6135000, 30, { id: 'big' })
+      ]
+    };
+
+    const batch = await executeBatch({
+      name: 'Offset Tower',
+      rules: [{ op: 'offset', d: 4 }, { op: 'extrude', h: 9 }]
+    }, collection, { crs: utm, sourceCrs: utm });
+
+    expect(batch.totals).toMatchObject({ features: 5, succeeded: 2, failed: 3 });
+    expect(batch.failures.map(failure => failure.id)).toEqual(['point', 'sliver', 'small']);
+    expect(batch.failures[0].reason).toMatch(/Unsupported geometry type: Point/);
+    expect(batch.failures[1].reason).toMatch(/at least 3 vertices/);
+    expect(batch.failures[2].reason).toBeTruthy();
+    expect(batch.features[3].result?.success).toBe(false);
+
+    // 12 x 12 and 22 x 22 after the 4 m offset, three 3 m storeys each
+    expect(batch.totals.footprintArea).toBeCloseTo(144 + 484, 6);
+    expect(batch.totals.gfa).toBeCloseTo((144 + 484) * 3, 6);
+    expect(batch.totals.volume).toBeCloseTo((144 + 484) * 9, 6);
+    expect(batch.totals.lotArea).toBeCloseTo(400 + 900, 6);
+  });
+
+  test('storeys follow floorHeight attributes and leave out roofs', async () => {
+    const collection: GeoJSONFeatureCollection = {
+      type: 'FeatureCollection',
+      crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::32721' } },
+      features: [square(394000, 6135000, 10, { id: 1, floorHeight: 4 })]
+    };
+
+    const batch = await executeBatch({
+      name: 'House',
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      rules: [{ op: 'extrude', h: 10 }, { op: 'roof', kind: 'hip', pitch: 45 }]
+    }, collection, { crs: utm });
+    const metrics = batch.features[0].metrics!;
+
+    expect(batch.features[0].result!.geometry!.vertices[0]).toEqual([394000, 6135000, 0]);
+    expect(metrics.gfa).toBeCloseTo(100 * 3, 6); // 10 m of wall at 4 m per storey, rounded
+    expect(metrics.height).toBeCloseTo(15, 6);
+    expect(metrics.volume).toBeCloseTo(1000 + 100 * 5 / 3, 6); // Box plus a 5 m pyramid
+  });
+
+  test('interior rings become courtyards', async () => {
+    const lot = square(394000, 6135000, 30);
+    lot.geometry!.coordinates.push([[394010, 6135010], [394010, 6135020], [394020, 6135020], [394020, 6135010], [394010, 6135010]]);
+
+    const batch = await executeBatch({
+      name: 'Courtyard Block',
+      rules: [{ op: 'extrude', h: 9 }]
+    }, { type: 'FeatureCollection', features: [lot] }, { crs: utm, sourceCrs: utm });
+    const metrics = batch.features[0].metrics!;
+
+    expect(metrics.lotArea).toBeCloseTo(800, 6);
+    expect(metrics.footprintArea).toBeCloseTo(800, 6);
+    expect(metrics.gfa).toBeCloseTo(800 * 3, 6);
+    expect(metrics.volume).toBeCloseTo(800 * 9, 6);
+  });
+
+  test('rings without area are reported per feature', async () => {
+    const flat: GeoJSONFeature = {
+      type: 'Feature',
+      id: 'flat',
+      properties: {},
+      geometry: { type: 'Polygon', coordinates: [[[394000, 6135000], [394010, 6135000], [394020, 6135000], [394000, 6135000]]] }
+    };
+    const slit = square(394100, 6135000, 30, { id: 'slit' });
+    slit.geometry!.coordinates.push([[394110, 6135010], [394120, 6135010], [394110, 6135010]]);
+
+    const batch = await executeBatch({
+      name: 'Block',
+      rules: [{ op: 'extrude', h: 9 }]
+    }, { type: 'FeatureCollection', features: [flat, slit, square(394200, 6135000, 20, { id: 'ok' })] }, { crs: utm, sourceCrs: utm });
+
+    expect(batch.totals).toMatchObject({ features: 3, succeeded: 1, failed: 2 });
+    expect(batch.failures).toEqual([
+      { index: 0, id: 'flat', reason: 'Polygon has zero area' },
+      { index: 1, id: 'slit', reason: 'Polygon hole 1 has zero area' }
+    ]);
+  });
+
+  test('envelope programs take the zone of each parcel', async () => {
+    const zones = zonesFromGeoJSON(JSON.parse(
+      readFileSync(join(__dirname, '../../../../data/samples/zoning.geojson'), 'utf8')
+    ));
+
+    const batch = await executeBatch({
+      name: 'Zoned Tower',
+      envelope: true,
+      rules: [{ op: 'extrude', h: 100 }]
+    }, parcels, { crs: utm, zones });
+
+    const [palermo, puertoMadero, sanTelmo] = batch.features;
+
+    expect(batch.totals).toMatchObject({ features: 3, succeeded: 2, failed: 1 });
+    expect(palermo.result!.attributes.zone).toBe('R4');
+    expect(palermo.result!.attributes.floorAreaRatio).toBeCloseTo(3.5, 6);
+    expect(palermo.metrics!.height).toBeLessThanOrEqual(45);
+    expect(sanTelmo.result!.attributes.zone).toBe('M1');
+    expect(sanTelmo.result!.attributes.zoningLimits).toEqual({ maxHeight: 35, maxFar: 2.8, minSetback: 2 });
+    // Just south of the C3 district
+    expect(puertoMadero.error).toMatch(/the lot lies in no zone/);
+  });
+
+  test('unsupported collection CRS fails the batch up front', async () => {
+    await expect(executeBatch({ name: 'Any', rules: [] }, {
+      type: 'FeatureCollection',
+      crs: { type: 'name', properties: { name: 'EPSG:2154' } },
+      features: []
+    }, { crs: utm })).rejects.toThrow('Unsupported collection CRS: EPSG:2154');
+  });
+});
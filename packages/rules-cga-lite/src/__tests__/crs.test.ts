@@ -8,6 +8,10 @@ import {
   validateChancayCoordinates,
   getRecommendedChancayCRS,
   getChancayCRSOptions,
+  reprojectCoordinates,
+  transformPoint,
+  canTransform,
+  toITwinCoordinates,
   COMMON_CRS,
   CRSPolygon
 } from '../utils/crs';
@@ -322,6 +326,59 @@ describe('CRS Validation and Utilities', () => {
     });
   });
 
+  describe('Polygons with Holes', () => {
+    // Local metres placed in UTM 21S
+    const utm = (ring: number[][]) => ring.map(([x, y]) => [394000 + x, 6135000 + y]);
+    const lot = utm([[0, 0], [30, 0], [30, 30], [0, 30], [0, 0]]);
+    const courtyard = utm([[10, 10], [10, 20], [20, 20], [20, 10], [10, 10]]);
+
+    test('should subtract holes from the area', () => {
+      expect(calculatePolygonArea({
+        coordinates: lot,
+        holes: [courtyard],
+        crs: COMMON_CRS.BUENOS_AIRES_UTM
+      })).toBe(800);
+    });
+
+    test('should accept a hole wound against the exterior', () => {
+      const result = validateGeometryForRules(lot, COMMON_CRS.BUENOS_AIRES_UTM, [courtyard]);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    test('should warn about holes wound like the exterior', () => {
+      const result = validateGeometryForRules(lot, COMMON_CRS.BUENOS_AIRES_UTM, [[...courtyard].reverse()]);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContain('Hole 0 winds the same way as the exterior - will be reversed for processing');
+    });
+
+    test('should reject holes outside or crossing the exterior', () => {
+      const outside = utm([[40, 40], [40, 50], [50, 50], [50, 40]]);
+      const crossing = utm([[25, 10], [25, 20], [35, 20], [35, 10]]);
+      const result = validateGeometryForRules(lot, COMMON_CRS.BUENOS_AIRES_UTM, [outside, crossing]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['Hole 0 is not inside the polygon', 'Hole 1 is not inside the polygon']);
+    });
+
+    test('should reject overlapping, nested and degenerate holes', () => {
+      const nested = utm([[12, 12], [12, 14], [14, 14], [14, 12]]);
+      const overlapping = utm([[15, 15], [15, 25], [25, 25], [25, 15]]);
+      const result = validateGeometryForRules(lot, COMMON_CRS.BUENOS_AIRES_UTM, [
+        courtyard, nested, overlapping, utm([[2, 2], [4, 4]])
+      ]);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'Holes 0 and 1 overlap',
+        'Holes 0 and 2 overlap',
+        'Hole 3 must have at least 3 vertices'
+      ]);
+    });
+  });
+
   describe('Buenos Aires Specific Tests', () => {
     test('should validate typical Buenos Aires parcel', () => {
       // 8.66m x 50m typical Buenos Aires lot (PH standard)
@@ -559,4 +616,99 @@ describe('CRS Validation and Utilities', () => {
       expect(area).toBeCloseTo(75, 1);
     });
   });
-});
\ No newline at end of file
+
+  describe('Reprojection', () => {
+    const { PERU_GEO, CHANCAY_UTM_WGS84, CHANCAY_UTM_PERU96, BUENOS_AIRES_UTM, POSGAR_2007 } = COMMON_CRS;
+    // Chancay harbour area, lon/lat
+    const chancay = [-77.27, -11.57];
+
+    test('should project WGS84 geographic to UTM 18S and back', () => {
+      const [projected] = reprojectCoordinates([[...chancay, 12]], PERU_GEO, CHANCAY_UTM_WGS84);
+
+      expect(projected[0]).toBeCloseTo(252445.16, 2);
+      expect(projected[1]).toBeCloseTo(8720010.26, 2);
+      expect(projected[2]).toBe(12); // Heights pass through
+
+      const [back] = reprojectCoordinates([projected], CHANCAY_UTM_WGS84, PERU_GEO);
+      expect(back[0]).toBeCloseTo(chancay[0], 9);
+      expect(back[1]).toBeCloseTo(chancay[1], 9);
+    });
+
+    test('should apply the Peru96 null datum shift instead of treating it as WGS84 metres', () => {
+      const [wgs84] = reprojectCoordinates([chancay], PERU_GEO, CHANCAY_UTM_WGS84);
+      const [peru96] = reprojectCoordinates([chancay], PERU_GEO, CHANCAY_UTM_PERU96);
+      const [converted] = reprojectCoordinates([peru96], CHANCAY_UTM_PERU96, CHANCAY_UTM_WGS84);
+
+      // GRS80 and WGS84 differ by well under a millimetre at this latitude
+      expect(Math.hypot(peru96[0] - wgs84[0], peru96[1] - wgs84[1])).toBeLessThan(0.001);
+      expect(converted[0]).toBeCloseTo(wgs84[0], 3);
+      expect(converted[1]).toBeCloseTo(wgs84[1], 3);
+    });
+
+    test('should transform Buenos Aires UTM 21S to POSGAR 2007 / Argentina 4', () => {
+      const puertoMadero = { x: 374000, y: 6167000, crs: BUENOS_AIRES_UTM };
+      const posgar = transformPoint(puertoMadero, POSGAR_2007);
+      const [onMeridian] = reprojectCoordinates([[-63, -34.6]], PERU_GEO, POSGAR_2007);
+
+      expect(onMeridian[0]).toBeCloseTo(4500000, 3); // False easting on the central meridian
+      expect(posgar.crs).toBe(POSGAR_2007);
+      // Buenos Aires (-58.4°) lies ~4.6° (~424 km) east of the -63° meridian
+      expect(posgar.x).toBeGreaterThan(4900000);
+      expect(posgar.x).toBeLessThan(4950000);
+      const back = transformPoint(posgar, BUENOS_AIRES_UTM);
+      expect(back.x).toBeCloseTo(puertoMadero.x, 3);
+      expect(back.y).toBeCloseTo(puertoMadero.y, 3);
+    });
+
+    test('should reject CRSs without a definition unless one is supplied', () => {
+      const webMercator = { epsg: 3857, name: 'WGS 84 / Pseudo-Mercator', units: 'meters' as const, type: 'projected' as const };
+
+      expect(canTransform(webMercator)).toBe(false);
+      expect(() => reprojectCoordinates([chancay], PERU_GEO, webMercator)).toThrow('No projection definition for EPSG:3857');
+
+      const defined = { ...webMercator, proj4: '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +no_defs' };
+      expect(canTransform(defined)).toBe(true);
+      const [[x, y]] = reprojectCoordinates([[0, 0]], PERU_GEO, defined);
+      expect(x).toBeCloseTo(0, 6);
+      expect(y).toBeCloseTo(0, 6);
+    });
+  });
+
+  describe('iTwin Coordinates', () => {
+    const { PERU_GEO, CHANCAY_UTM_WGS84, CHANCAY_UTM_PERU96 } = COMMON_CRS;
+    const lot = [[-77.27, -11.57, 30], [-77.2699, -11.57, 30], [-77.2699, -11.5699, 30], [-77.27, -11.5699, 30]];
+    const [origin] = reprojectCoordinates([lot[0]], PERU_GEO, CHANCAY_UTM_WGS84);
+
+    test('should place geographic input relative to the project origin', () => {
+      const local = toITwinCoordinates(lot, PERU_GEO, 'ellipsoidal', { origin: [origin[0], origin[1]] });
+
+      expect(local[0][0]).toBeCloseTo(0, 6);
+      expect(local[0][1]).toBeCloseTo(0, 6);
+      expect(local[0][2]).toBe(30);
+      expect(validateWindingOrder(local)).toBe('ccw');
+      // 0.0001° is about 11 m at this latitude
+      expect(Math.max(...local.map(point => point[0]))).toBeGreaterThan(10);
+      expect(Math.max(...local.map(point => point[0]))).toBeLessThan(12);
+    });
+
+    test('should convert ellipsoidal heights with the geoid undulation', () => {
+      const options = { origin: [...origin.slice(0, 2), 5], targetHeightReference: 'orthometric' as const, geoidUndulation: 22.5 };
+
+      expect(toITwinCoordinates(lot, PERU_GEO, 'ellipsoidal', options)[0][2]).toBeCloseTo(30 - 22.5 - 5, 9);
+      expect(toITwinCoordinates(lot, PERU_GEO, 'orthometric', { ...options, targetHeightReference: 'ellipsoidal' })[0][2])
+        .toBeCloseTo(30 + 22.5 - 5, 9);
+      expect(() => toITwinCoordinates(lot, PERU_GEO, 'ellipsoidal', { targetHeightReference: 'orthometric' }))
+        .toThrow('Converting ellipsoidal to orthometric heights needs a geoidUndulation');
+    });
+
+    test('should reproject Peru96 input into the iModel CRS', () => {
+      const peru96 = reprojectCoordinates(lot, PERU_GEO, CHANCAY_UTM_PERU96);
+      const placed = toITwinCoordinates(peru96, CHANCAY_UTM_PERU96, 'ellipsoidal', { origin });
+
+      expect(Math.abs(placed[0][0])).toBeLessThan(0.001);
+      expect(Math.abs(placed[0][1])).toBeLessThan(0.001);
+      expect(() => toITwinCoordinates(lot, PERU_GEO, 'ellipsoidal', { targetCRS: PERU_GEO }))
+        .toThrow('iModel CRS must be projected');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { parseRuleText, printRuleText, RuleSyntaxError } from '../dsl';
+import { lintProgram } from '../lint';
+import { SAMPLE_RULES } from '../samples';
+import { RuleProgram, RuleProgramSchema } from '../types';
+
+describe('Rule Text DSL', () => {
+  const syntaxError = (text: string): RuleSyntaxError => {
+    try {
+      parseRuleText(text);
+    } catch (error) {
+      expect(error).toBeInstanceOf(RuleSyntaxError);
+      return error as RuleSyntaxError;
+    }
+    throw new Error('Expected a syntax error');
+  };
+
+  test.each(Object.keys(SAMPLE_RULES))('sample %s round-trips through text', key => {
+    const program = SAMPLE_RULES[key as keyof typeof SAMPLE_RULES];
+    const text = printRuleText(program);
+
+    expect(parseRuleText(text)).toEqual(program);
+    expect(printRuleText(parseRuleText(text))).toBe(text);
+  });
+
+  test('parses a compact lot rule', () => {
+    const program = parseRuleText(`
+      @name "Gable House"
+      Lot --> extrude(12) roof("gable", 30)
+    `);
+
+    expect(program).toEqual({
+      name: 'Gable House',
+      rules: [
+        { op: 'extrude', h: 12 },
+        { op: 'roof', kind: 'gable', pitch: 30 }
+      ]
+    });
+  });
+
+  test('definitions, calls, splits and branches', () => {
+    const program = parseRuleText([
+      '@name "Mixed"',
+      '@schemaVersion 2',
+      '@seed 7',
+      'attr floorHeight = 3.5',
+      'attr use = "office"',
+      '',
+      '// Podium and tower',
+      'Lot --> setback(2, front, edges: street && roadWidth > 10)',
+      '  extrude(max(12, floorHeight * 4), world)',
+      '  split(z) { 4: Podium | *: "Upper Floors" }',
+      '  set(use, "retail", target: Podium)',
+      '  set(gfa, scope.sx * scope.sy, target: Podium)',
+      '  Floors',
+      '',
+      'Floors --> repeat(z, floorHeight, limit: 10) { Floor }',
+      '  case(baseArea > 800 ? true : false: Tower, else: House)',
+      '  random(25.5%: Tower, else: House)',
+      'Tower --> roof("flat")',
+      'House --> roof("hip", height: 3) call(Floors, target: Floor)'
+    ].join('\n'));
+
+    expect(program.seed).toBe(7);
+    expect(program.attrs).toEqual({ floorHeight: 3.5, use: 'office' });
+    expect(program.rules).toEqual([
+      { op: 'setback', d: 2, faces: ['front'], edges: 'street && roadWidth > 10' },
+      { op: 'extrude', h: 'max(12, floorHeight * 4)', mode: 'world' },
+      { op: 'split', axis: 'z', sizes: [4, '*'], names: ['Podium', 'Upper Floors'] },
+      { op: 'attr', name: 'use', value: 'retail', target: 'Podium' },
+      { op: 'attr', name: 'gfa', expr: 'scope.sx * scope.sy', target: 'Podium' },
+      { op: 'call', rule: 'Floors' }
+    ]);
+    expect(program.definitions).toEqual({
+      Floors: [
+        { op: 'repeat', axis: 'z', step: 'floorHeight', limit: 10, name: 'Floor' },
+        { op: 'case', branches: [{ when: 'baseArea > 800 ? true : false', rule: 'Tower' }], else: 'House' },
+        { op: 'random', branches: [{ percent: 25.5, rule: 'Tower' }], else: 'House' }
+      ],
+      Tower: [{ op: 'roof', kind: 'flat' }],
+      House: [{ op: 'roof', kind: 'hip', height: 3 }, { op: 'call', rule: 'Floors', target: 'Floor' }]
+    });
+    expect(parseRuleText(printRuleText(program))).toEqual(program);
+  });
+
+  test('component text form', () => {
+    const program = parseRuleText([
+      '@name "Facade"',
+      '@schemaVersion 2',
+      'Lot --> extrude(9) repeat(x, 5) { Tile }',
+      '  component("window", front, back, width: 1.5, sill: floorHeight / 3) { Opening }',
+      '  component("balcony", depth: 1.4, target: Tile)'
+    ].join('\n'));
+
+    expect(program.rules.slice(2)).toEqual([
+      { op: 'component', kind: 'window', faces: ['front', 'back'], width: 1.5, sill: 'floorHeight / 3', name: 'Opening' },
+      { op: 'component', kind: 'balcony', depth: 1.4, target: 'Tile' }
+    ]);
+    expect(parseRuleText(printRuleText(program))).toEqual(program);
+    expect(() => parseRuleText('@name "Bad"\nLot --> component("skylight")')).toThrow(/Component kind must be/);
+  });
+
+  test('envelope text form', () => {
+    const program = parseRuleText([
+      '@name "Zoned"',
+      '@schemaVersion 2',
+      '@envelope true',
+      'Lot --> extrude(60) envelope(maxHeight: 45, minSetback: 3, target: Lot) repeat(z, 3) { Floor }'
+    ].join('\n'));
+
+    expect(program.envelope).toBe(true);
+    expect(program.rules[1]).toEqual({ op: 'envelope', maxHeight: 45, minSetback: 3, target: 'Lot' });
+    expect(parseRuleText(printRuleText(program))).toEqual(program);
+    expect(() => parseRuleText('@name "Bad"\nLot --> envelope(maxFar: lotArea / 100)')).toThrow(/maxFar needs a number/);
+    expect(() => parseRuleText('@name "Bad"\n@envelope yes\nLot --> extrude(3)')).toThrow(/@envelope needs true or false/);
+  });
+
+  test('mesh repair directive', () => {
+    const program: RuleProgram = { name: 'Raw', schemaVersion: 2, meshRepair: false, rules: [{ op: 'extrude', h: 3 }] };
+    const text = printRuleText(program);
+
+    expect(text).toContain('@meshRepair false');
+    expect(parseRuleText(text)).toEqual(program);
+    expect(() => parseRuleText('@name "Bad"\n@meshRepair off\nLot --> extrude(3)')).toThrow(/@meshRepair needs true or false/);
+  });
+
+  test('long chains print one operation per line', () => {
+    const program: RuleProgram = {
+      name: 'Long',
+      schemaVersion: 2,
+      rules: Array.from({ length: 8 }, (_, i) => ({ op: 'textureTag' as const, tag: `facade_${i}`, faces: ['front' as const] }))
+    };
+    const lines = printRuleText(program).trim().split('\n');
+
+    expect(lines.slice(3)).toEqual(['Lot -->', ...program.rules.map((_, i) => `  textureTag("facade_${i}", front)`)]);
+  });
+
+  test('errors report line and column', () => {
+    const unknown = syntaxError('@name "Bad"\nLot --> extrude(10)\n  twist(30)');
+    expect([unknown.line, unknown.column]).toEqual([3, 3]);
+    expect(unknown.message).toBe('Unknown operation "twist" at line 3, column 3');
+
+    const expression = syntaxError('@name "Bad"\nLot --> extrude(height *)');
+    expect(expression.line).toBe(2);
+    expect(expression.column).toBeGreaterThanOrEqual(17);
+
+    const unclosed = syntaxError('@name "Bad"\nLot --> split(x) { 5: A | *: B');
+    expect(unclosed.message).toMatch(/^Missing "}" at line 2, column 18$/);
+
+    const schema = syntaxError('@name "Bad"\nLot --> extrude(10)\n  offset(-3)');
+    expect([schema.line, schema.column]).toEqual([3, 3]);
+
+    expect(syntaxError('Lot --> extrude(10)').message).toBe('Missing @name at line 1, column 1');
+    expect(syntaxError('@name "x"\nLot --> split(z) { 4: A | * }').message).toMatch(/all be named or none/);
+    expect(syntaxError('@name "x"\nLot --> extrude(3)\nLot --> extrude(4)').line).toBe(3);
+  });
+
+  test('a definition named Lot is not a valid program', () => {
+    const clash = { name: 'Clash', rules: [{ op: 'call', rule: 'Lot' }], definitions: { Lot: [{ op: 'extrude', h: 3 }] } } as RuleProgram;
+
+    expect(RuleProgramSchema.safeParse(clash).success).toBe(false);
+    expect(lintProgram(clash)).toEqual([expect.objectContaining({
+      severity: 'error',
+      code: 'schema',
+      path: ['definitions', 'Lot'],
+      message: expect.stringMatching(/^"Lot" names the start rule and cannot be a definition/)
+    })]);
+    expect(() => printRuleText(clash)).toThrow(/clashes with the start rule/);
+  });
+});
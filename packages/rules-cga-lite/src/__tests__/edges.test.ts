@@ -0,0 +1,53 @@
+import { annotateLotEdges, edgeSides, inheritEdges, roadsFromGeoJSON } from '../utils/edges';
+
+describe('Lot Edges', () => {
+  const lot = [[0, 0], [20, 0], [20, 30], [0, 30]];
+
+  test('roads are read from LineString and MultiLineString features', () => {
+    const roads = roadsFromGeoJSON({
+      features: [
+        { properties: { id: 1, name: 'Main', type: 'arterial', width: 20 }, geometry: { type: 'LineString', coordinates: [[0, 0], [10, 0]] } },
+        { properties: { id: 2 }, geometry: { type: 'MultiLineString', coordinates: [[[0, 0], [0, 5]], [[0, 5], [5, 5]]] } },
+        { properties: { id: 3 }, geometry: { type: 'Point', coordinates: [0, 0] } }
+      ]
+    });
+
+    expect(roads).toHaveLength(3);
+    expect(roads[0]).toEqual({ id: 1, name: 'Main', type: 'arterial', width: 20, coordinates: [[0, 0], [10, 0]] });
+    expect(roads.slice(1).map(road => road.id)).toEqual([2, 2]);
+  });
+
+  test('only parallel roads within reach on the outer side front an edge', () => {
+    const edges = annotateLotEdges(lot, {
+      roads: [
+        { name: 'North', width: 10, coordinates: [[-10, 35], [30, 35]] },
+        { name: 'Far', width: 10, coordinates: [[-10, -40], [30, -40]] },
+        { name: 'Inside', width: 4, coordinates: [[15, -5], [15, 35]] },
+        { name: 'Diagonal', width: 10, coordinates: [[20, -10], [40, 30]] }
+      ]
+    });
+
+    expect(edges.map(edge => edge.street)).toEqual([undefined, undefined, 'North', undefined]);
+    expect(edges.map(edge => edge.length)).toEqual([20, 30, 20, 30]);
+  });
+
+  test('edges lying on a neighbouring lot are marked shared', () => {
+    const edges = annotateLotEdges(lot, {
+      neighbours: [{ id: 'east', polygon: [[20, -5], [40, -5], [40, 40], [20, 40]] }]
+    });
+
+    expect(edges.map(edge => edge.neighbour)).toEqual([undefined, 'east', undefined, undefined]);
+  });
+
+  test('sides are relative to the frontage and cut edges inherit nothing', () => {
+    const lotEdges = [{}, {}, { street: 'North' }, {}];
+    // West half of the lot: its east edge is a cut
+    const part = [[0, 0], [10, 0], [10, 30], [0, 30]];
+    const edges = inheritEdges(part, lot, lotEdges);
+
+    expect(edges.map(edge => edge.street)).toEqual([undefined, undefined, 'North', undefined]);
+    expect(edgeSides(part, edges, [0, 1])).toEqual(['back', 'left', 'front', 'right']);
+    // Without frontage the legacy axis labels apply
+    expect(edgeSides(part, [])).toEqual(['front', 'right', 'back', 'left']);
+  });
+});
@@ -1,6 +1,13 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import { RulesEngine } from '../engine';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
 import { RuleProgram, GeometryContext } from '../types';
-import { COMMON_CRS } from '../utils/crs';
+import { COMMON_CRS, reprojectCoordinates } from '../utils/crs';
+import { elevationRange, footprintHoles, footprintOf, geometryBounds, polygonArea } from '../utils/geometry';
+import { geometryVolume } from '../utils/mesh';
+import { zonesFromGeoJSON } from '../utils/zoning';
+import { ADAPTIVE_LOT_RULE, COMMERCIAL_STRIP_RULE, MIXED_USE_RULE, TOWER_RULE } from '../samples';
 
 describe('CGA-lite Rules Engine', () => {
   let engine: RulesEngine;
@@ -277,6 +284,7 @@ describe('CGA-lite Rules Engine', () => {
     test('should create gable roof with pitch', async () => {
       const rule: RuleProgram = {
         name: 'Gable Roof',
+        schemaVersion: CURRENT_SCHEMA_VERSION,
         rules: [
           { op: 'extrude', h: 10 },
           { op: 'roof', kind: 'gable', pitch: 30 }
@@ -502,4 +510,1008 @@ describe('CGA-lite Rules Engine', () => {
       expect(result.attributes.totalVolume).toBeCloseTo(1560, 10); // 1080 + 480
     });
   });
-});
\ No newline at end of file
+
+  describe('Shape Tree', () => {
+    test('split emits named child shapes with lineage', async () => {
+      const rule: RuleProgram = {
+        name: 'Floor Split',
+        rules: [
+          { op: 'extrude', h: 12 },
+          { op: 'split', axis: 'z', sizes: [4, '*'], names: ['Ground', 'Upper'] }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves?.map(leaf => leaf.name)).toEqual(['Ground', 'Upper']);
+
+      const root = result.shapes?.[0];
+      expect(root?.name).toBe('Lot');
+      expect(root?.childIds).toEqual(result.leaves?.map(leaf => leaf.id));
+      expect(result.leaves?.every(leaf => leaf.parentId === root?.id && leaf.depth === 1)).toBe(true);
+
+      const [ground, upper] = result.leaves!;
+      const groundZ = ground.geometry.vertices.map(v => v[2]);
+      const upperZ = upper.geometry.vertices.map(v => v[2]);
+      expect(Math.min(...groundZ)).toBe(0);
+      expect(Math.max(...groundZ)).toBe(4);
+      expect(Math.min(...upperZ)).toBe(4);
+      expect(Math.max(...upperZ)).toBe(12);
+    });
+
+    test('split along x clips the footprint of each part', async () => {
+      const rule: RuleProgram = {
+        name: 'X Split Parts',
+        rules: [
+          { op: 'split', axis: 'x', sizes: [3, '*'] },
+          { op: 'extrude', h: 10 }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves).toHaveLength(2);
+      expect(result.leaves?.map(leaf => leaf.attributes.volume)).toEqual([300, 700]);
+      expect(result.attributes.totalVolume).toBe(1000);
+      expect(result.geometry?.type).toBe('mesh');
+    });
+
+    test('targeted rules only apply to matching leaves', async () => {
+      const rule: RuleProgram = {
+        name: 'Targeted',
+        rules: [
+          { op: 'extrude', h: 10 },
+          { op: 'split', axis: 'z', sizes: [4, '*'], names: ['Shop', 'Flats'] },
+          { op: 'attr', name: 'use', value: 'retail', target: 'Shop' },
+          { op: 'attr', name: 'use', value: 'housing', target: 'Flats' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.leaves?.map(leaf => leaf.attributes.use)).toEqual(['retail', 'housing']);
+    });
+
+    test('repeat tiles a shape into children', async () => {
+      const rule: RuleProgram = {
+        name: 'Floors',
+        rules: [
+          { op: 'extrude', h: 9 },
+          { op: 'repeat', axis: 'z', step: 3, name: 'Floor' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.leaves).toHaveLength(3);
+      expect(result.leaves?.every(leaf => leaf.name === 'Floor')).toBe(true);
+      expect(result.leaves?.map(leaf => leaf.attributes.repeatIndex)).toEqual([0, 1, 2]);
+    });
+
+    test('reject split names that do not match sizes', async () => {
+      const rule: RuleProgram = {
+        name: 'Bad Names',
+        rules: [
+          { op: 'split', axis: 'x', sizes: [5, 5], names: ['A'] }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('names');
+    });
+
+    test('mixed-use sample puts retail on the ground floor and housing above', async () => {
+      const result = await engine.executeRules(MIXED_USE_RULE, baseGeometry);
+
+      expect(result.success).toBe(true);
+      const [ground, ...floors] = result.leaves!;
+      expect(ground.name).toBe('GroundFloor');
+      expect(ground.attributes.use).toBe('retail');
+      expect(floors).toHaveLength(8);
+      expect(floors.every(floor => floor.attributes.use === 'housing')).toBe(true);
+      expect(floors.every(floor => floor.depth === 2)).toBe(true);
+    });
+  });
+
+  describe('Rule Definitions', () => {
+    test('call runs a named rule on the current shape', async () => {
+      const rule: RuleProgram = {
+        name: 'Lot to Footprint',
+        definitions: {
+          Footprint: [
+            { op: 'offset', d: 1 },
+            { op: 'call', rule: 'Mass' }
+          ],
+          Mass: [
+            { op: 'extrude', h: 10 }
+          ]
+        },
+        rules: [
+          { op: 'call', rule: 'Footprint' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.volume).toBeCloseTo(640, 5); // 8 * 8 * 10
+      expect(result.geometry?.type).toBe('solid');
+    });
+
+    test('call on child shapes only affects the targeted subtree', async () => {
+      const rule: RuleProgram = {
+        name: 'Podium and Tower',
+        definitions: {
+          Tower: [
+            { op: 'repeat', axis: 'z', step: 4, name: 'TowerFloor' }
+          ]
+        },
+        rules: [
+          { op: 'extrude', h: 20 },
+          { op: 'split', axis: 'z', sizes: [4, '*'], names: ['Podium', 'Upper'] },
+          { op: 'call', rule: 'Tower', target: 'Upper' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves?.map(leaf => leaf.name)).toEqual(['Podium', 'TowerFloor', 'TowerFloor', 'TowerFloor', 'TowerFloor']);
+    });
+
+    test('stop recursion deeper than maxDepth', async () => {
+      const rule: RuleProgram = {
+        name: 'Recursive Halving',
+        maxDepth: 3,
+        definitions: {
+          Halve: [
+            { op: 'split', axis: 'x', sizes: ['*', '*'] },
+            { op: 'call', rule: 'Halve' }
+          ]
+        },
+        rules: [
+          { op: 'call', rule: 'Halve' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Maximum rule depth (3)');
+    });
+
+    test('detect cycles on the same shape', async () => {
+      const rule: RuleProgram = {
+        name: 'Cycle',
+        definitions: {
+          A: [{ op: 'call', rule: 'B' }],
+          B: [{ op: 'call', rule: 'A' }]
+        },
+        rules: [
+          { op: 'call', rule: 'A' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('cycle');
+      expect(result.error).toContain('A -> B -> A');
+    });
+
+    test('reject calls to undefined rules before execution', async () => {
+      const rule: RuleProgram = {
+        name: 'Missing',
+        rules: [
+          { op: 'extrude', h: 10 },
+          { op: 'call', rule: 'Nowhere' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown rule: Nowhere');
+      expect(result.metadata?.operationCount).toBe(0);
+    });
+
+    test('tower sample reuses the shared floor recipe', async () => {
+      const result = await engine.executeRules(TOWER_RULE, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves).toHaveLength(10);
+      expect(result.leaves?.every(leaf => leaf.attributes.floorHeight === 3)).toBe(true);
+    });
+  });
+
+  describe('Expressions', () => {
+    test('should evaluate parameters from program attributes', async () => {
+      const rule: RuleProgram = {
+        name: 'Parametric Tower',
+        attrs: { floors: 4, floorHeight: 3.5 },
+        rules: [
+          { op: 'extrude', h: 'floors * floorHeight' },
+          { op: 'attr', name: 'gfa', expr: 'floors * geometry.area' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.height).toBe(14);
+      expect(result.attributes.gfa).toBe(400);
+    });
+
+    test('should evaluate expressions per shape', async () => {
+      const rule: RuleProgram = {
+        name: 'Per Shape',
+        rules: [
+          { op: 'split', axis: 'x', sizes: [4, '*'], names: ['Narrow', 'Wide'] },
+          { op: 'extrude', h: 'scope.sx * 2' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves?.map(leaf => leaf.attributes.height)).toEqual([8, 12]);
+    });
+
+    test('should accept expressions in split sizes', async () => {
+      const rule: RuleProgram = {
+        name: 'Split Expression',
+        attrs: { frontDepth: 3 },
+        rules: [
+          { op: 'split', axis: 'y', sizes: ['frontDepth', '*'] }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves?.map(leaf => leaf.attributes.splitSize)).toEqual([3, 7]);
+    });
+
+    test('should report syntax errors before execution', async () => {
+      const rule: RuleProgram = {
+        name: 'Bad Syntax',
+        definitions: {
+          Mass: [{ op: 'extrude', h: 'floors *' }]
+        },
+        rules: [
+          { op: 'setback', d: 2 },
+          { op: 'call', rule: 'Mass' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('definitions.Mass[0] (extrude) h: Unexpected end of expression');
+      expect(result.metadata?.operationCount).toBe(0);
+    });
+
+    test('should report unknown attributes with the rule location', async () => {
+      const rule: RuleProgram = {
+        name: 'Unknown Attribute',
+        rules: [
+          { op: 'extrude', h: 10 },
+          { op: 'extrude', h: 'podiumHeight + 2' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('rules[1] (extrude) h: Unknown attribute "podiumHeight"');
+    });
+
+    test('should validate evaluated values against the rule schema', async () => {
+      const rule: RuleProgram = {
+        name: 'Negative Height',
+        attrs: { maxHeight: 10 },
+        rules: [
+          { op: 'extrude', h: '8 - maxHeight' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('rules[0] (extrude) h:');
+      expect(result.error).toContain('(got -2)');
+    });
+
+    test('should require exactly one of value or expr on attr', async () => {
+      const rule: RuleProgram = {
+        name: 'Ambiguous Attr',
+        rules: [
+          { op: 'attr', name: 'floors', value: 3, expr: '4' }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('rules[0] (attr) floors');
+    });
+
+    test('commercial strip sample caps its parking setback by lot depth', async () => {
+      const result = await engine.executeRules(COMMERCIAL_STRIP_RULE, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.setbackDistance).toBe(2.5); // 0.25 * 10 m
+    });
+  });
+
+  describe('Conditional and Random Operations', () => {
+    const largeLot: GeometryContext = {
+      polygon: [[0, 0], [40, 0], [40, 40], [0, 40], [0, 0]],
+      attributes: {},
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 40, y: 40, z: 0 } }
+    };
+
+    // 100 one-metre strips, each drawing a roof independently
+    const roofLottery = (seed: number): RuleProgram => ({
+      name: 'Roof Lottery',
+      seed,
+      definitions: {
+        Gable: [{ op: 'roof', kind: 'gable' }],
+        Flat: [{ op: 'roof', kind: 'flat' }]
+      },
+      rules: [
+        { op: 'extrude', h: 6 },
+        { op: 'split', axis: 'x', sizes: ['*', '*', '*', '*', '*', '*', '*', '*', '*', '*'] },
+        { op: 'repeat', axis: 'y', step: 1 },
+        { op: 'random', branches: [{ percent: 30, rule: 'Gable' }], else: 'Flat' }
+      ]
+    });
+
+    const sizeCase: RuleProgram = {
+      name: 'Size Case',
+      definitions: {
+        Tower: [{ op: 'extrude', h: 60 }],
+        House: [{ op: 'extrude', h: 6 }]
+      },
+      rules: [
+        { op: 'case', branches: [{ when: 'baseArea > 800', rule: 'Tower' }], else: 'House' }
+      ]
+    };
+
+    test('case calls the first branch whose condition holds', async () => {
+      const small = await engine.executeRules(sizeCase, baseGeometry);
+      const large = await engine.executeRules(sizeCase, largeLot);
+
+      expect(small.success).toBe(true);
+      expect(small.attributes.height).toBe(6);
+      expect(large.success).toBe(true);
+      expect(large.attributes.height).toBe(60);
+    });
+
+    test('case without a matching branch or else leaves the shape unchanged', async () => {
+      const rule: RuleProgram = {
+        name: 'No Match',
+        definitions: { Tower: [{ op: 'extrude', h: 60 }] },
+        rules: [
+          { op: 'case', branches: [{ when: 'baseArea > 800', rule: 'Tower' }] }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.geometry?.type).toBe('polygon');
+      expect(result.attributes.height).toBeUndefined();
+    });
+
+    test('case reports condition errors with the rule location', async () => {
+      const rule: RuleProgram = {
+        name: 'Bad Condition',
+        definitions: { Tower: [{ op: 'extrude', h: 60 }] },
+        rules: [
+          { op: 'case', branches: [{ when: 'lotDepth > 30', rule: 'Tower' }] }
+        ]
+      };
+
+      const result = await engine.executeRules(rule, baseGeometry);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('rules[0] (case) branches[0].when: Unknown attribute "lotDepth"');
+    });
+
+    test('random draws are reproducible for the same seed', async () => {
+      const roofs = (result: { leaves?: Array<{ attributes: Record<string, any> }> }) =>
+        result.leaves?.map(leaf => leaf.attributes.roofType);
+
+      const first = await engine.executeRules(roofLottery(7), baseGeometry);
+      const second = await engine.executeRules(roofLottery(7), baseGeometry);
+      const other = await engine.executeRules(roofLottery(8), baseGeometry);
+
+      expect(first.success).toBe(true);
+      expect(roofs(first)).toHaveLength(100);
+      expect(roofs(second)).toEqual(roofs(first));
+      expect(roofs(other)).not.toEqual(roofs(first));
+    });
+
+    test('random branches follow their percentages', async () => {
+      const result = await engine.executeRules(roofLottery(1), baseGeometry);
+      const gables = result.leaves?.filter(leaf => leaf.attributes.roofType === 'gable').length ?? 0;
+
+      expect(gables).toBeGreaterThan(15);
+      expect(gables).toBeLessThan(45);
+    });
+
+    test('reject undefined branch rules and percentages over 100', async () => {
+      const missing = await engine.executeRules({
+        name: 'Missing Branch',
+        rules: [{ op: 'random', branches: [{ percent: 50, rule: 'Gable' }], else: 'Flat' }]
+      }, baseGeometry);
+      const overfull = await engine.executeRules({
+        name: 'Overfull',
+        definitions: { A: [], B: [] },
+        rules: [{ op: 'random', branches: [{ percent: 60, rule: 'A' }, { percent: 50, rule: 'B' }] }]
+      }, baseGeometry);
+
+      expect(missing.success).toBe(false);
+      expect(missing.error).toBe('Unknown rule: Gable, Flat');
+      expect(overfull.success).toBe(false);
+      expect(overfull.error).toContain('must not exceed 100');
+    });
+
+    test('adaptive sample builds towers on large lots and houses on small ones', async () => {
+      const house = await engine.executeRules(ADAPTIVE_LOT_RULE, baseGeometry);
+      const tower = await engine.executeRules(ADAPTIVE_LOT_RULE, largeLot);
+
+      expect(house.success).toBe(true);
+      expect(house.attributes.buildingType).toBe('house');
+      expect(['gable', 'flat']).toContain(house.attributes.roofType);
+      expect(tower.success).toBe(true);
+      expect(tower.attributes.buildingType).toBe('tower');
+      expect(tower.attributes.totalHeight).toBe(32); // sqrt of the 32 m x 32 m footprint left by the 4 m setback
+    });
+  });
+
+  describe('Arbitrary Polygons', () => {
+    const lShape: GeometryContext = {
+      polygon: [[0, 0], [10, 0], [10, 6], [4, 6], [4, 10], [0, 10], [0, 0]],
+      attributes: {},
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 10, y: 10, z: 0 } }
+    };
+
+    const maxZ = (vertices: number[][]) => Math.max(...vertices.map(v => v[2] ?? 0));
+
+    test('offset keeps sharp corners on concave lots', async () => {
+      const inward = await engine.executeRules({ name: 'L Inset', rules: [{ op: 'offset', d: 1 }] }, lShape);
+      const outward = await engine.executeRules({ name: 'L Outset', rules: [{ op: 'offset', d: 1, mode: 'out' }] }, lShape);
+
+      expect(inward.success).toBe(true);
+      expect(inward.attributes.area).toBeCloseTo(40, 6); // 8 * 4 + 2 * 4
+      expect(inward.geometry?.vertices).toHaveLength(6);
+      expect(outward.success).toBe(true);
+      expect(outward.attributes.area).toBeCloseTo(120, 6); // 12 * 8 + 6 * 4
+    });
+
+    test('setback only moves the edges facing the given sides', async () => {
+      const result = await engine.executeRules({
+        name: 'L Front Setback',
+        rules: [{ op: 'setback', d: 2, faces: ['front'] }]
+      }, lShape);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.area).toBeCloseTo(56, 6); // 76 - 10 * 2
+      expect(Math.min(...result.geometry!.vertices.map(v => v[1]))).toBeCloseTo(2, 6);
+    });
+
+    test('offset that pinches the lot emits one child shape per part', async () => {
+      const dumbbell: GeometryContext = {
+        polygon: [[0, 0], [4, 0], [4, 4], [6, 4], [6, 0], [10, 0], [10, 10], [6, 10], [6, 6], [4, 6], [4, 10], [0, 10]],
+        attributes: {},
+        boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 10, y: 10, z: 0 } }
+      };
+
+      const result = await engine.executeRules({ name: 'Pinch', rules: [{ op: 'offset', d: 1.5 }] }, dumbbell);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves).toHaveLength(2);
+      expect(result.leaves?.map(leaf => leaf.attributes.offsetPart)).toEqual([0, 1]);
+      result.leaves?.forEach(leaf => expect(leaf.attributes.area).toBeCloseTo(7, 6)); // 1 * 7 strips
+    });
+
+    test('hip roof follows the straight skeleton of the footprint', async () => {
+      const result = await engine.executeRules({
+        name: 'L Hip',
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        rules: [
+          { op: 'extrude', h: 10 },
+          { op: 'roof', kind: 'hip', pitch: 45 }
+        ]
+      }, lShape);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.roofHeight).toBeCloseTo(3, 6); // Half of the 6 m wide wing
+      expect(maxZ(result.geometry!.vertices)).toBeCloseTo(13, 6);
+      // Bottom, 6 walls and one roof slope per footprint edge
+      expect(result.geometry?.faces).toHaveLength(1 + 6 + 6);
+    });
+
+    test('gable roof raises the end slopes into vertical walls', async () => {
+      const rectangle: GeometryContext = {
+        polygon: [[0, 0], [12, 0], [12, 6], [0, 6]],
+        attributes: {},
+        boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 12, y: 6, z: 0 } }
+      };
+
+      const result = await engine.executeRules({
+        name: 'Gable',
+        rules: [
+          { op: 'extrude', h: 6 },
+          { op: 'roof', kind: 'gable', height: 3 }
+        ]
+      }, rectangle);
+
+      expect(result.success).toBe(true);
+      const ridge = result.geometry!.vertices.filter(v => Math.abs(v[2] - 9) < 1e-9);
+      expect(ridge.map(v => v[0]).sort((a, b) => a - b)).toEqual([0, 12]);
+      expect(ridge.every(v => Math.abs(v[1] - 3) < 1e-9)).toBe(true);
+      expect(result.attributes.roofPitch).toBeCloseTo(45, 6);
+    });
+
+    test('shed roof rises from the front edge', async () => {
+      const result = await engine.executeRules({
+        name: 'Shed',
+        rules: [
+          { op: 'extrude', h: 4 },
+          { op: 'roof', kind: 'shed', height: 2 }
+        ]
+      }, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.roofHeight).toBeCloseTo(2, 6);
+      const top = result.geometry!.vertices.filter(v => v[2] > 4 + 1e-9);
+      expect(top.every(v => Math.abs(v[2] - (4 + v[1] * 0.2)) < 1e-9)).toBe(true);
+    });
+  });
+
+  describe('Street Frontage', () => {
+    // 20 x 30 lot; edges: 0 south, 1 east, 2 north, 3 west
+    const lot = (extra: Partial<GeometryContext> = {}): GeometryContext => ({
+      polygon: [[0, 0], [20, 0], [20, 30], [0, 30]],
+      attributes: {},
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 20, y: 30, z: 0 } },
+      ...extra
+    });
+    const northRoad = { name: 'Main', type: 'arterial', width: 10, coordinates: [[-10, 35], [30, 35]] };
+    const eastRoad = { name: 'Side', type: 'residential', width: 8, coordinates: [[24, -10], [24, 40]] };
+    const ys = (vertices: number[][]) => vertices.map(v => v[1]);
+
+    test('front follows the street instead of the -y side', async () => {
+      const result = await engine.executeRules({
+        name: 'North Front',
+        rules: [{ op: 'setback', d: 3, faces: ['front'] }]
+      }, lot({ roads: [northRoad] }));
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.area).toBeCloseTo(540, 6); // 20 * 27
+      expect(Math.max(...ys(result.geometry!.vertices))).toBeCloseTo(27, 6);
+      expect(Math.min(...ys(result.geometry!.vertices))).toBeCloseTo(0, 6);
+      expect(result.attributes.setbackEdges).toEqual([2]);
+    });
+
+    test('corner lots treat every street edge as front', async () => {
+      const result = await engine.executeRules({
+        name: 'Corner Front',
+        rules: [{ op: 'setback', d: 3, faces: ['front'] }]
+      }, lot({ roads: [northRoad, eastRoad] }));
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.area).toBeCloseTo(459, 6); // 17 * 27
+      expect(result.attributes.setbackEdges).toEqual([1, 2]);
+    });
+
+    test('edges selector targets edges by road metadata', async () => {
+      const result = await engine.executeRules({
+        name: 'Arterial Setback',
+        rules: [{ op: 'setback', d: 5, edges: 'edge.roadType == "arterial"' }]
+      }, lot({ roads: [northRoad, eastRoad] }));
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.area).toBeCloseTo(500, 6); // 20 * 25
+      expect(result.attributes.setbackEdges).toEqual([2]);
+    });
+
+    test('explicit edge metadata drives the selector', async () => {
+      const result = await engine.executeRules({
+        name: 'Free Sides',
+        rules: [{ op: 'setback', d: 2, edges: '!edge.street && edge.neighbour == "" && edge.length > 25' }]
+      }, lot({ edges: [{}, { neighbour: 'lot-2' }, { street: 'Main' }, {}] }));
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.setbackEdges).toEqual([3]);
+      expect(result.attributes.area).toBeCloseTo(540, 6); // 18 * 30
+    });
+
+    test('split parts keep the lot frontage', async () => {
+      const result = await engine.executeRules({
+        name: 'Split Frontage',
+        rules: [
+          { op: 'split', axis: 'x', sizes: [10, 10] },
+          { op: 'setback', d: 2, faces: ['front'] }
+        ]
+      }, lot({ roads: [northRoad] }));
+
+      expect(result.success).toBe(true);
+      expect(result.leaves).toHaveLength(2);
+      result.leaves?.forEach(leaf => {
+        expect(leaf.attributes.area).toBeCloseTo(280, 6); // 10 * 28
+        expect(Math.max(...ys(leaf.geometry.vertices))).toBeCloseTo(28, 6);
+      });
+    });
+
+    test('selector matching no edge fails', async () => {
+      const result = await engine.executeRules({
+        name: 'No Street',
+        rules: [{ op: 'setback', d: 2, edges: 'edge.street' }]
+      }, lot());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Setback selects no edges');
+    });
+
+    test('selector syntax errors are reported before execution', async () => {
+      const result = await engine.executeRules({
+        name: 'Bad Selector',
+        rules: [{ op: 'setback', d: 2, edges: 'edge.street &&' }]
+      }, lot());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^Invalid expression: rules\[0\] \(setback\) edges:/);
+    });
+  });
+
+  describe('Courtyard Polygons', () => {
+    // 30 x 30 lot around a 10 x 10 courtyard
+    const courtyard: GeometryContext = {
+      polygon: [[0, 0], [30, 0], [30, 30], [0, 30], [0, 0]],
+      holes: [[[10, 10], [20, 10], [20, 20], [10, 20], [10, 10]]],
+      attributes: {},
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 30, y: 30, z: 0 } }
+    };
+
+    test('area and extrusion leave out the hole', async () => {
+      const result = await engine.executeRules({
+        name: 'Courtyard Block',
+        rules: [
+          { op: 'attr', name: 'lot', expr: 'baseArea' },
+          { op: 'extrude', h: 12 }
+        ]
+      }, courtyard);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.lot).toBe(800);
+      expect(result.attributes.volume).toBe(9600);
+      expect(result.geometry?.faces).toHaveLength(2 + 4 + 4); // Caps, outer walls, courtyard walls
+      expect(result.geometry?.faceHoles?.[0]).toHaveLength(1);
+      expect(result.geometry?.faceHoles?.[1]).toHaveLength(1);
+    });
+
+    test('inward offset widens the courtyard', async () => {
+      const result = await engine.executeRules({
+        name: 'Offset Courtyard',
+        rules: [{ op: 'offset', d: 2 }]
+      }, courtyard);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.area).toBeCloseTo(26 * 26 - 14 * 14, 6);
+      expect(result.geometry?.holes).toHaveLength(1);
+    });
+
+    test('setbacks move the lot lines but keep the courtyard', async () => {
+      const result = await engine.executeRules({
+        name: 'Courtyard Setback',
+        rules: [{ op: 'setback', d: 2 }]
+      }, courtyard);
+
+      expect(result.success).toBe(true);
+      expect(result.attributes.area).toBeCloseTo(26 * 26 - 100, 6);
+    });
+
+    test('splits keep the courtyard in the parts that cross it', async () => {
+      const result = await engine.executeRules({
+        name: 'Split Courtyard',
+        rules: [
+          { op: 'extrude', h: 9 },
+          { op: 'split', axis: 'z', sizes: [3, '*'] },
+          { op: 'split', axis: 'x', sizes: [15, 15] }
+        ]
+      }, courtyard);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves).toHaveLength(4);
+      const volume = result.leaves!.reduce((sum, leaf) => {
+        const range = elevationRange(leaf.geometry);
+        return sum + polygonArea(footprintOf(leaf.geometry), footprintHoles(leaf.geometry)) * (range.max - range.min);
+      }, 0);
+      expect(volume).toBeCloseTo(800 * 9, 6);
+    });
+
+    test('pitched roofs cannot cover a courtyard', async () => {
+      const result = await engine.executeRules({
+        name: 'Courtyard Gable',
+        rules: [
+          { op: 'extrude', h: 6 },
+          { op: 'roof', kind: 'gable' }
+        ]
+      }, courtyard);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/gable roof cannot cover a footprint with holes/);
+    });
+
+    test('holes outside the lot are rejected', async () => {
+      const result = await engine.executeRules({ name: 'Bad Hole', rules: [] }, {
+        ...courtyard,
+        holes: [[[25, 25], [35, 25], [35, 35], [25, 35]]]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Hole 0 is not inside the polygon');
+    });
+  });
+
+  describe('Coordinate Reference Systems', () => {
+    const extrude: RuleProgram = { name: 'Box', rules: [{ op: 'extrude', h: 10 }] };
+
+    // 40 x 25 m lot in Chancay, UTM 18S
+    const chancayLot: GeometryContext = {
+      polygon: [[252000, 8724000], [252040, 8724000], [252040, 8724025], [252000, 8724025]],
+      crs: COMMON_CRS.CHANCAY_UTM_WGS84,
+      attributes: {},
+      boundingBox: { min: { x: 252000, y: 8724000, z: 0 }, max: { x: 252040, y: 8724025, z: 0 } }
+    };
+
+    test('metrics are computed and recorded in the context CRS', async () => {
+      const result = await engine.executeRules(extrude, chancayLot);
+
+      expect(result.success).toBe(true);
+      expect(result.crsCode).toBe('EPSG:32718');
+      expect(result.attributes.baseArea).toBe(1000);
+      expect(result.attributes.volume).toBe(10000);
+    });
+
+    test('contexts without a CRS are local metres', async () => {
+      const result = await engine.executeRules(extrude, baseGeometry);
+
+      expect(result.success).toBe(true);
+      expect(result.crsCode).toBe('LOCAL');
+    });
+
+    test('geographic lots are projected to their UTM zone before measuring', async () => {
+      const polygon = reprojectCoordinates(chancayLot.polygon, COMMON_CRS.CHANCAY_UTM_WGS84, COMMON_CRS.PERU_GEO);
+      const result = await engine.executeRules(extrude, {
+        ...chancayLot,
+        polygon,
+        crs: COMMON_CRS.PERU_GEO,
+        boundingBox: { min: { x: -77.3, y: -11.6, z: 0 }, max: { x: -77.2, y: -11.5, z: 0 } }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.crsCode).toBe('EPSG:32718');
+      expect(result.attributes.baseArea).toBeCloseTo(1000, 3);
+      expect(result.geometry!.vertices[0][0]).toBeCloseTo(252000, 3);
+    });
+
+    test('geographic lots without a projection and misplaced coordinates are rejected', async () => {
+      const unknown = await engine.executeRules(extrude, {
+        ...baseGeometry,
+        crs: { epsg: 4258, name: 'ETRS89', units: 'degrees', type: 'geographic' }
+      });
+      expect(unknown.success).toBe(false);
+      expect(unknown.error).toBe('Cannot compute metrics in degrees: no projection for EPSG:4258 (ETRS89)');
+
+      const local = await engine.executeRules(extrude, { ...baseGeometry, crs: COMMON_CRS.CHANCAY_UTM_WGS84 });
+      expect(local.success).toBe(false);
+      expect(local.error).toContain('out of expected range for UTM');
+    });
+  });
+
+  describe('Facade Components', () => {
+    // 20 m wide, 10 m deep block of three 3 m floors cut into 5 m facade tiles
+    const block: GeometryContext = {
+      polygon: [[0, 0], [20, 0], [20, 10], [0, 10]],
+      attributes: {},
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 20, y: 10, z: 0 } }
+    };
+    const tiles: RuleProgram['rules'] = [
+      { op: 'extrude', h: 9 },
+      { op: 'split', axis: 'z', sizes: ['*', '*', '*'], names: ['GroundFloor', 'Floor', 'Floor'] },
+      { op: 'repeat', axis: 'x', step: 5, name: 'Tile' }
+    ];
+
+    test('places one window per outside wall of each tile and reports the window-to-wall ratio', async () => {
+      const result = await engine.executeRules({
+        name: 'Windows',
+        rules: [...tiles, { op: 'component', kind: 'window' }, { op: 'textureTag', tag: 'glass', target: 'Window' }]
+      }, block);
+
+      expect(result.success).toBe(true);
+      const windows = result.leaves!.filter(leaf => leaf.name === 'Window');
+      // Front and back of 12 tiles, plus the two end walls of each floor; no windows on partitions
+      expect(windows).toHaveLength(30);
+      expect(windows.filter(leaf => leaf.attributes.componentSide === 'left')).toHaveLength(3);
+      expect(windows.every(leaf => leaf.attributes.textureTag === 'glass')).toBe(true);
+      // Tiles keep their wall as a leaf of their own name
+      expect(result.leaves!.filter(leaf => leaf.name === 'Tile')).toHaveLength(12);
+
+      expect(result.attributes.facadeArea).toBeCloseTo(60 * 9, 6);
+      expect(result.attributes.windowArea).toBeCloseTo(30 * 1.2 * 1.5, 6);
+      expect(result.attributes.windowToWallRatio).toBeCloseTo(30 * 1.2 * 1.5 / 540, 6);
+      expect(result.attributes.doorArea).toBe(0);
+    });
+
+    test('components stand out of the wall they face, centred at the sill height', async () => {
+      const result = await engine.executeRules({
+        name: 'Front Windows',
+        rules: [...tiles, { op: 'component', kind: 'window', faces: ['front'], width: 2, height: 'scope.sz / 2', sill: 1 }]
+      }, block);
+      const [first] = result.leaves!.filter(leaf => leaf.name === 'Window');
+      const { min, max } = geometryBounds(first.geometry);
+
+      expect(first.attributes.componentSide).toBe('front');
+      expect([min.x, max.x]).toEqual([1.5, 3.5]);
+      expect(min.y).toBeCloseTo(-0.1, 9);
+      expect(max.y).toBeCloseTo(0, 9);
+      expect([min.z, max.z]).toEqual([1, 2.5]);
+    });
+
+    test('doors, balconies and components that do not fit', async () => {
+      const result = await engine.executeRules({
+        name: 'Entrances',
+        rules: [
+          ...tiles.slice(0, 2),
+          { op: 'component', kind: 'door', faces: ['front'], target: 'GroundFloor' },
+          { op: 'repeat', axis: 'x', step: 5, name: 'Tile', target: 'Floor' },
+          { op: 'component', kind: 'balcony', faces: ['back'], width: 4, target: 'Tile' },
+          { op: 'component', kind: 'window', height: 4, name: 'TallWindow', target: 'Tile' }
+        ]
+      }, block);
+
+      expect(result.success).toBe(true);
+      expect(result.leaves!.filter(leaf => leaf.name === 'Door')).toHaveLength(1);
+      expect(result.leaves!.filter(leaf => leaf.name === 'TallWindow')).toHaveLength(0);
+      const balconies = result.leaves!.filter(leaf => leaf.name === 'Balcony');
+      expect(balconies).toHaveLength(8);
+      expect(geometryBounds(balconies[0].geometry).max.y).toBeCloseTo(11.2, 9);
+      expect(result.attributes.balconyCount).toBe(8);
+      expect(result.attributes.doorArea).toBeCloseTo(1 * 2.2, 6);
+      expect(result.attributes.windowToWallRatio).toBe(0);
+    });
+
+    test('courtyard walls are facade too, and flat shapes have none', async () => {
+      const courtyard = await engine.executeRules({
+        name: 'Courtyard Windows',
+        rules: [{ op: 'extrude', h: 3 }, { op: 'component', kind: 'window' }]
+      }, { ...courtyardLot(), attributes: {} });
+
+      expect(courtyard.leaves!.filter(leaf => leaf.name === 'Window')).toHaveLength(8);
+      expect(courtyard.attributes.facadeArea).toBeCloseTo((80 + 32) * 3, 6);
+
+      const flat = await engine.executeRules({ name: 'Flat', rules: [{ op: 'component', kind: 'door' }] }, block);
+      expect(flat.success).toBe(false);
+      expect(flat.error).toBe('A door needs a facade: extrude the shape first');
+    });
+
+    // 20 x 20 block around an 8 x 8 courtyard
+    const courtyardLot = (): GeometryContext => ({
+      polygon: [[0, 0], [20, 0], [20, 20], [0, 20]],
+      holes: [[[6, 6], [6, 14], [14, 14], [14, 6]]],
+      attributes: {},
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 20, y: 20, z: 0 } }
+    });
+  });
+
+  describe('Zoning Envelope', () => {
+    const site = (width: number, depth: number): GeometryContext => ({
+      polygon: [[0, 0], [width, 0], [width, depth], [0, depth]],
+      attributes: {},
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: width, y: depth, z: 0 } }
+    });
+
+    test('clips the mass to the setback and height plane and reports both as binding', async () => {
+      const result = await engine.executeRules({
+        name: 'Too Big',
+        rules: [{ op: 'extrude', h: 60 }, { op: 'envelope', maxHeight: 45, minSetback: 3 }]
+      }, site(20, 30));
+
+      expect(result.success).toBe(true);
+      expect(geometryBounds(result.geometry!)).toEqual({ min: { x: 3, y: 3, z: 0 }, max: { x: 17, y: 27, z: 45 } });
+      expect(result.attributes.envelopeBinding).toEqual(['setback', 'height']);
+      expect(result.leaves![0].attributes.envelopeBound).toEqual(['setback', 'height']);
+      expect(result.attributes.zoningLimits).toEqual({ maxHeight: 45, minSetback: 3 });
+      expect(result.attributes.totalHeight).toBe(45);
+      expect(result.attributes.totalVolume).toBeCloseTo(14 * 24 * 45, 6);
+      expect(geometryVolume(result.geometry!)).toBeCloseTo(14 * 24 * 45, 6);
+    });
+
+    test('the floor area ratio caps the floors, and floors above the cap are removed', async () => {
+      const result = await engine.executeRules({
+        name: 'Slab',
+        rules: [
+          { op: 'extrude', h: 30 },
+          { op: 'repeat', axis: 'z', step: 3, name: 'Floor' },
+          { op: 'envelope', maxFar: 2, maxHeight: 45 }
+        ]
+      }, site(20, 30));
+
+      expect(result.success).toBe(true);
+      expect(result.leaves!.map(leaf => leaf.name)).toEqual(['Floor', 'Floor']);
+      expect(result.attributes.envelopeBinding).toEqual(['far']);
+      expect(result.attributes.floorArea).toBeCloseTo(1200, 6);
+      expect(result.attributes.floorAreaRatio).toBeCloseTo(2, 6);
+      expect(elevationRange(result.geometry!).max).toBeCloseTo(6, 6);
+      expect(result.shapes!.filter(shape => shape.name === 'Floor')).toHaveLength(2);
+    });
+
+    test('sky-exposure planes slope back from the street front', async () => {
+      const result = await engine.executeRules({
+        name: 'Street Wall',
+        rules: [{ op: 'extrude', h: 40 }, { op: 'envelope', skyExposureHeight: 20, skyExposureSlope: 2 }]
+      }, site(20, 30));
+
+      const { vertices } = result.geometry!;
+      expect(result.attributes.envelopeBinding).toEqual(['skyExposure']);
+      // 20 m at the street line, rising 2 m per metre until it meets the 40 m mass at y = 10
+      expect(Math.max(...vertices.filter(vertex => vertex[1] === 0).map(vertex => vertex[2]))).toBeCloseTo(20, 9);
+      expect(vertices.some(vertex => Math.abs(vertex[1] - 10) < 1e-9 && Math.abs(vertex[2] - 40) < 1e-9)).toBe(true);
+      expect(geometryVolume(result.geometry!)).toBeCloseTo(20 * (10 * 30 + 20 * 40), 6);
+      expect(result.leaves![0].attributes.height).toBe(40);
+    });
+
+    test('limits come from the zone of the lot, here R4 in zoning.geojson', async () => {
+      const zones = zonesFromGeoJSON(JSON.parse(
+        readFileSync(join(__dirname, '../../../../data/samples/zoning.geojson'), 'utf8')
+      ));
+      // 30 x 30 m lot in Palermo, Buenos Aires
+      const [x, y] = reprojectCoordinates([[-58.44, -34.575]], COMMON_CRS.ARGENTINA_GEO, COMMON_CRS.BUENOS_AIRES_UTM)[0];
+      const polygon = reprojectCoordinates(
+        [[x, y], [x + 30, y], [x + 30, y + 30], [x, y + 30]],
+        COMMON_CRS.BUENOS_AIRES_UTM,
+        COMMON_CRS.ARGENTINA_GEO
+      );
+      const program: RuleProgram = {
+        name: 'Tower',
+        envelope: true,
+        rules: [{ op: 'extrude', h: 60 }, { op: 'repeat', axis: 'z', step: 3, name: 'Floor' }]
+      };
+
+      const result = await engine.executeRules(program, { ...site(0, 0), polygon, crs: COMMON_CRS.ARGENTINA_GEO, zones });
+
+      expect(zones.map(zone => zone.type)).toEqual(['R4', 'C3', 'M1']);
+      expect(result.success).toBe(true);
+      expect(result.attributes.zone).toBe('R4');
+      expect(result.attributes.zoningLimits).toEqual({ maxHeight: 45, maxFar: 3.5, minSetback: 3 });
+      expect(result.attributes.envelopeBinding).toEqual(['setback', 'far']);
+      expect(result.attributes.floorAreaRatio).toBeCloseTo(3.5, 6);
+      // 3.5 x 900 m2 over 24 x 24 m floors: five whole floors and part of a sixth
+      expect(result.leaves).toHaveLength(6);
+      expect(elevationRange(result.geometry!).max).toBeCloseTo(3.5 * 900 * 3 / 576, 1);
+
+      const outside = await engine.executeRules(program, { ...site(20, 30), zones });
+      expect(outside.success).toBe(false);
+      expect(outside.error).toBe('Zoning envelope has no limits: the lot lies in no zone and the rule sets none');
+    });
+
+    test('a setback that leaves no buildable area is an error', async () => {
+      const result = await engine.executeRules({
+        name: 'Narrow',
+        rules: [{ op: 'extrude', h: 10 }, { op: 'envelope', minSetback: 6 }]
+      }, site(10, 30));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Zoning setback of 6 m leaves no buildable area');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  evaluateExpression,
+  evaluateNumber,
+  expressionIdentifiers,
+  parseExpression,
+  ExpressionError,
+  PARSE_CACHE_SIZE
+} from '../expressions';
+
+describe('Rule Expressions', () => {
+  describe('Evaluation', () => {
+    test('should respect operator precedence', () => {
+      expect(evaluateNumber('2 + 3 * 4', {})).toBe(14);
+      expect(evaluateNumber('(2 + 3) * 4', {})).toBe(20);
+      expect(evaluateNumber('-2 * -3', {})).toBe(6);
+      expect(evaluateNumber('7 % 4', {})).toBe(3);
+    });
+
+    test('should resolve attribute references', () => {
+      const variables = { floors: 10, floorHeight: 3.5, 'scope.sy': 40 };
+
+      expect(evaluateNumber('floors * floorHeight', variables)).toBe(35);
+      expect(evaluateNumber('min(8, 0.25 * scope.sy)', variables)).toBe(8);
+    });
+
+    test('should evaluate conditionals and comparisons', () => {
+      const variables = { baseArea: 1200, zone: 'R2' };
+
+      expect(evaluateNumber('baseArea > 800 ? 45 : 12', variables)).toBe(45);
+      expect(evaluateExpression('zone == "R2" && baseArea >= 1200', variables)).toBe(true);
+      expect(evaluateExpression("zone != 'C1' ? 'housing' : 'retail'", variables)).toBe('housing');
+    });
+
+    test('should call built-in functions', () => {
+      expect(evaluateNumber('clamp(15, 0, 10)', {})).toBe(10);
+      expect(evaluateNumber('floor(7.9) + ceil(0.1) + round(2.5)', {})).toBe(11);
+      expect(evaluateNumber('sqrt(abs(-16))', {})).toBe(4);
+    });
+  });
+
+  describe('Errors', () => {
+    test('should report syntax errors with a position', () => {
+      expect(() => parseExpression('floors * ')).toThrow('Unexpected end of expression at position 9');
+      expect(() => parseExpression('2 $ 3')).toThrow('Unexpected character "$" at position 2');
+    });
+
+    test('should reject unknown functions and wrong arity', () => {
+      expect(() => parseExpression('pow(2, 3)')).toThrow('Unknown function "pow"');
+      expect(() => parseExpression('clamp(1, 2)')).toThrow('Wrong number of arguments for clamp()');
+      expect(() => parseExpression('constructor(1)')).toThrow(ExpressionError);
+    });
+
+    test('should reject unknown attributes and non-numeric results', () => {
+      expect(() => evaluateNumber('floors * 3', {})).toThrow('Unknown attribute "floors"');
+      expect(() => evaluateNumber('zone', { zone: 'R2' })).toThrow('Expected a number');
+      expect(() => evaluateNumber('1 / (floors - 10)', { floors: 10 })).toThrow('Division by zero');
+    });
+  });
+
+  test('should list referenced attributes', () => {
+    expect(expressionIdentifiers('max(floors, 2) * floorHeight + floors').sort()).toEqual(['floorHeight', 'floors']);
+  });
+
+  test('should keep only the most recently used parses', () => {
+    const recent = parseExpression('floors * 3');
+    const oldest = parseExpression('floors * 4');
+    for (let i = 0; i < PARSE_CACHE_SIZE - 1; i++) {
+      parseExpression(`floors + ${i}`);
+      expect(parseExpression('floors * 3')).toBe(recent);
+    }
+
+    expect(parseExpression('floors * 3')).toBe(recent);
+    expect(parseExpression('floors * 4')).not.toBe(oldest);
+    expect(parseExpression('floors * 4')).toEqual(oldest);
+  });
+});
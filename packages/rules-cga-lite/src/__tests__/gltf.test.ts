@@ -0,0 +1,173 @@
+import { RulesEngine } from '../engine';
+import { buildGltf, decodeGlb, encodeGlb, exportGlb, GltfAsset, DEFAULT_MATERIAL } from '../gltf';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
+import { GeometryContext, RuleExecutionResult } from '../types';
+
+describe('glTF Export', () => {
+  let engine: RulesEngine;
+
+  const lot: GeometryContext = {
+    polygon: [[0, 0], [20, 0], [20, 10], [0, 10]],
+    attributes: {},
+    boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 20, y: 10, z: 0 } }
+  };
+
+  beforeEach(() => {
+    engine = new RulesEngine();
+  });
+
+  // Typed view of an accessor's data in the binary buffer
+  const readAccessor = (asset: GltfAsset, index: number): Float32Array | Uint32Array => {
+    const accessor = asset.json.accessors![index];
+    const view = asset.json.bufferViews![accessor.bufferView!];
+    const components = accessor.type === 'VEC3' ? 3 : 1;
+    const bytes = asset.binary.slice(view.byteOffset ?? 0, (view.byteOffset ?? 0) + view.byteLength);
+    const data = accessor.componentType === 5126 ? new Float32Array(bytes.buffer) : new Uint32Array(bytes.buffer);
+    expect(data.length).toBe(accessor.count * components);
+    return data;
+  };
+
+  // Volume enclosed by every triangle of a mesh (positive when faces point outward)
+  const meshVolume = (asset: GltfAsset, meshIndex: number): number => {
+    let volume = 0;
+    for (const primitive of asset.json.meshes![meshIndex].primitives) {
+      const positions = readAccessor(asset, primitive.attributes.POSITION);
+      const indices = readAccessor(asset, primitive.indices!);
+      for (let i = 0; i < indices.length; i += 3) {
+        const [a, b, c] = [0, 1, 2].map(k => Array.from(positions.slice(indices[i + k] * 3, indices[i + k] * 3 + 3)));
+        volume += (a[0] * (b[1] * c[2] - b[2] * c[1]) - a[1] * (b[0] * c[2] - b[2] * c[0]) + a[2] * (b[0] * c[1] - b[1] * c[0])) / 6;
+      }
+    }
+    return volume;
+  };
+
+  const splitTower = async (): Promise<RuleExecutionResult> => engine.executeRules({
+    name: 'Tagged Split',
+    rules: [
+      { op: 'split', axis: 'x', sizes: ['*', '*'], names: ['West', 'East'] },
+      { op: 'extrude', h: 12 },
+      { op: 'textureTag', tag: 'brick' },
+      { op: 'textureTag', tag: 'glass', faces: ['front'], target: 'East' },
+      { op: 'textureTag', tag: 'roof', faces: ['top'] }
+    ]
+  }, lot);
+
+  test('GLB round-trips with a valid header and chunks', async () => {
+    const result = await splitTower();
+    const glb = exportGlb(result);
+    const asset = decodeGlb(glb);
+    const view = new DataView(glb.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x46546c67);
+    expect(view.getUint32(4, true)).toBe(2);
+    expect(view.getUint32(8, true)).toBe(glb.byteLength);
+    expect(view.getUint32(12, true) % 4).toBe(0);
+    expect(asset.json.asset.version).toBe('2.0');
+    expect(asset.json.buffers).toEqual([{ byteLength: asset.binary.byteLength }]);
+    asset.json.bufferViews!.forEach(bufferView => {
+      expect((bufferView.byteOffset ?? 0) % 4).toBe(0);
+      expect((bufferView.byteOffset ?? 0) + bufferView.byteLength).toBeLessThanOrEqual(asset.binary.byteLength);
+    });
+  });
+
+  test('the JSON chunk is UTF-8', () => {
+    const asset: GltfAsset = { json: { asset: { version: '2.0' }, nodes: [{ name: 'Plaza Ñandú – 🏙' }] }, binary: new Uint8Array(0) };
+    const glb = encodeGlb(asset);
+
+    expect(new DataView(glb.buffer).getUint32(12, true)).toBe(Math.ceil(Buffer.byteLength(JSON.stringify(asset.json)) / 4) * 4);
+    expect(decodeGlb(glb).json.nodes![0].name).toBe('Plaza Ñandú – 🏙');
+  });
+
+  test('nodes mirror the shape tree', async () => {
+    const result = await splitTower();
+    const { json } = buildGltf(result);
+
+    expect(json.scenes![json.scene!].nodes).toEqual([0]);
+    expect(json.nodes).toHaveLength(result.shapes!.length);
+    expect(json.nodes![0].name).toBe('Lot');
+    expect(json.nodes![0].children).toHaveLength(2);
+    expect(json.nodes![0].mesh).toBeUndefined();
+
+    const children = json.nodes![0].children!.map(index => json.nodes![index]);
+    expect(children.map(node => node.name)).toEqual(['West', 'East']);
+    expect(children.map(node => node.extras?.shapeId)).toEqual(result.leaves!.map(leaf => leaf.id));
+    expect(children.every(node => node.mesh !== undefined)).toBe(true);
+    expect(json.meshes).toHaveLength(2);
+  });
+
+  test('faces get the material of the last texture tag naming their side', async () => {
+    const result = await splitTower();
+    const { json } = buildGltf(result);
+    const materialNames = json.materials!.map(material => material.name);
+    const primitiveMaterials = (mesh: number) => json.meshes![mesh].primitives.map(p => materialNames[p.material!]).sort();
+
+    expect(materialNames).not.toContain(DEFAULT_MATERIAL);
+    expect(primitiveMaterials(0)).toEqual(['brick', 'roof']);
+    expect(primitiveMaterials(1)).toEqual(['brick', 'glass', 'roof']);
+
+    const roof = json.meshes![1].primitives.find(p => materialNames[p.material!] === 'roof')!;
+    const glass = json.meshes![1].primitives.find(p => materialNames[p.material!] === 'glass')!;
+    expect(json.accessors![roof.indices!].count).toBe(6); // Top rectangle, 2 triangles
+    expect(json.accessors![glass.indices!].count).toBe(6); // Front wall
+  });
+
+  test('meshes are closed, outward facing and y-up', async () => {
+    const result = await engine.executeRules({
+      name: 'L Tower',
+      rules: [{ op: 'extrude', h: 10 }]
+    }, {
+      polygon: [[100, 200], [110, 200], [110, 206], [104, 206], [104, 210], [100, 210]],
+      attributes: {},
+      boundingBox: { min: { x: 100, y: 200, z: 0 }, max: { x: 110, y: 210, z: 0 } }
+    });
+    const asset = decodeGlb(exportGlb(result));
+    const position = asset.json.accessors![asset.json.meshes![0].primitives[0].attributes.POSITION];
+
+    expect(meshVolume(asset, 0)).toBeCloseTo(result.attributes.volume, 3); // 76 m² * 10 m
+    expect(asset.json.materials!.map(material => material.name)).toEqual([DEFAULT_MATERIAL]);
+    // Positions are relative to the model corner, which the root node restores
+    expect(asset.json.nodes![0].translation).toEqual([100, 0, -200]);
+    expect(position.min).toEqual([0, 0, -10]);
+    expect(position.max).toEqual([10, 10, 0]);
+  });
+
+  test('hip roofs triangulate into a closed mesh', async () => {
+    const result = await engine.executeRules({
+      name: 'Hip',
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      rules: [
+        { op: 'extrude', h: 6 },
+        { op: 'roof', kind: 'hip', pitch: 45 }
+      ]
+    }, lot);
+    const asset = decodeGlb(exportGlb(result));
+
+    // 20 x 10 x 6 box, plus a 5 m high gable prism less two hip-end wedges of 125/3 m³
+    expect(meshVolume(asset, 0)).toBeCloseTo(1200 + 500 - 2 * 125 / 3, 3);
+  });
+
+  test('courtyards triangulate into a closed mesh', async () => {
+    const result = await engine.executeRules({
+      name: 'Courtyard',
+      rules: [{ op: 'extrude', h: 12 }]
+    }, {
+      polygon: [[0, 0], [30, 0], [30, 30], [0, 30]],
+      holes: [[[10, 10], [10, 20], [20, 20], [20, 10]]],
+      attributes: {},
+      boundingBox: { min: { x: 0, y: 0, z: 0 }, max: { x: 30, y: 30, z: 0 } }
+    });
+    const asset = decodeGlb(exportGlb(result));
+
+    expect(meshVolume(asset, 0)).toBeCloseTo(800 * 12, 3);
+  });
+
+  test('failed executions cannot be exported', async () => {
+    const result = await engine.executeRules({
+      name: 'Too Deep',
+      rules: [{ op: 'offset', d: 50 }]
+    }, lot);
+
+    expect(result.success).toBe(false);
+    expect(() => exportGlb(result)).toThrow(/^Cannot export a failed rule execution/);
+  });
+});
@@ -0,0 +1,95 @@
+import { RulesEngine } from '../engine';
+import { applyLegacyRules, LegacyGeometry, LegacyRule, legacyContext, legacyRulesToProgram, toLegacyGeometry } from '../legacy';
+
+describe('Legacy Rule Adapter', () => {
+  // 20 x 25 m lot in the legacy geometry format
+  const lot: LegacyGeometry = {
+    polygons: [{ vertices: [[0, 0, 0], [20, 0, 0], [20, 25, 0], [0, 25, 0]] }],
+    attributes: { category: 'Lot', lotId: 'L1' }
+  };
+
+  const building: LegacyRule[] = [
+    { operator: 'setback', parameters: { setbacks: { front: 5, side: 3 } } },
+    { operator: 'extrude', parameters: { height: 12 } },
+    { operator: 'split', parameters: { axis: 'z', divisions: [1, 1, 2] } },
+    { operator: 'roof', parameters: { type: 'hip', height: 2, overhang: 1 } }
+  ];
+
+  test('translates operators and parameters into a rule program', () => {
+    const program = legacyRulesToProgram('Building', [
+      ...building,
+      { operator: 'offset', parameters: { distance: -1.5 } },
+      { operator: 'offset', parameters: {} },
+      { operator: 'repeat', parameters: { axis: 'y', spacing: 4 } },
+      { operator: 'split', parameters: { axis: 'x' } }
+    ]);
+
+    expect(program.rules).toEqual([
+      { op: 'setback', d: 5, faces: ['front'] },
+      { op: 'setback', d: 3, faces: ['left', 'right'] },
+      { op: 'extrude', h: 12 },
+      { op: 'split', axis: 'z', sizes: ['scope.sz * 0.25', 'scope.sz * 0.25', 'scope.sz * 0.5'], names: ['Floor', 'Floor', 'TopFloor'] },
+      { op: 'roof', kind: 'hip', height: 2, target: 'TopFloor' },
+      { op: 'offset', d: 1.5, mode: 'in' },
+      { op: 'offset', d: 2, mode: 'in' },
+      { op: 'repeat', axis: 'y', step: 4, limit: 3 },
+      { op: 'split', axis: 'x', sizes: ['*', '*'] }
+    ]);
+  });
+
+  test('reports the geometry after every rule, with one result per split part', async () => {
+    const results = await applyLegacyRules(lot, building);
+
+    expect(results.map(result => result.geometry.attributes.operation)).toEqual(['setback', 'extrude', 'split', 'split', 'split', 'roof']);
+    expect(results.every(result => result.success)).toBe(true);
+
+    const [setback, extrude, ...rest] = results;
+    expect(setback.geometry.polygons).toHaveLength(1);
+    expect(setback.geometry.attributes.lotId).toBe('L1');
+    expect(extrude.geometry.attributes.volume).toBeCloseTo(14 * 20 * 12, 6); // 14 x 20 after setbacks
+    expect(rest.slice(0, 3).map(part => part.geometry.attributes.height)).toEqual([3, 3, 6]);
+    expect(rest[3].geometry.polygons.length).toBeGreaterThan(rest[0].geometry.polygons.length);
+  });
+
+  test('failed rules are reported and skipped', async () => {
+    const results = await applyLegacyRules(lot, [
+      { operator: 'extrude', parameters: { height: 20 } },
+      { operator: 'offset', parameters: { distance: -50 } },
+      { operator: 'twist' as LegacyRule['operator'], parameters: {} },
+      { operator: 'roof', parameters: { type: 'flat' } }
+    ]);
+
+    expect(results.map(result => result.success)).toEqual([true, false, false, true]);
+    expect(results[1].message).toMatch(/^offset failed: /);
+    expect(results[2].message).toBe('Unknown operator: twist');
+    expect(results[3].geometry.attributes.volume).toBe(20 * 25 * 20);
+  });
+
+  test('runs the rules once, and again only after a failure', async () => {
+    const engine = new RulesEngine();
+    const executeProgram = jest.spyOn(engine, 'executeProgram');
+
+    await applyLegacyRules(lot, building, { engine });
+    expect(executeProgram).toHaveBeenCalledTimes(1);
+
+    executeProgram.mockClear();
+    const results = await applyLegacyRules(lot, [
+      { operator: 'extrude', parameters: { height: 10 } },
+      { operator: 'extrude', parameters: { height: -5 } },
+      { operator: 'roof', parameters: { type: 'flat' } }
+    ], { engine });
+
+    expect(results.map(result => result.success)).toEqual([true, false, true]);
+    expect(results[1].message).toMatch(/^extrude failed: /);
+    expect(results[2].geometry.attributes.volume).toBe(20 * 25 * 10);
+    expect(executeProgram).toHaveBeenCalledTimes(4); // All, then one at a time up to the refused rule, then the rest
+  });
+
+  test('the last results match a direct run of the translated program', async () => {
+    const results = await applyLegacyRules(lot, building.slice(0, 3));
+    const direct = await new RulesEngine().executeProgram(legacyRulesToProgram('Building', building.slice(0, 3)), legacyContext(lot));
+
+    expect(results.slice(-3).map(result => result.geometry.polygons))
+      .toEqual(direct.leaves!.map(leaf => toLegacyGeometry(leaf.geometry).polygons));
+  });
+});
@@ -0,0 +1,164 @@
+import { jsonPathRange, lintProgram, LintDiagnostic } from '../lint';
+import { SAMPLE_RULES } from '../samples';
+
+describe('Rule Program Linter', () => {
+  const lot = { polygon: [[0, 0], [20, 0], [20, 30], [0, 30]] };
+  const codes = (diagnostics: LintDiagnostic[]) => diagnostics.map(diagnostic => diagnostic.code);
+
+  test.each(Object.keys(SAMPLE_RULES))('sample %s lints clean', key => {
+    expect(lintProgram(SAMPLE_RULES[key as keyof typeof SAMPLE_RULES], lot)).toEqual([]);
+  });
+
+  test('schema errors keep their rule index and path', () => {
+    const diagnostics = lintProgram({
+      name: 'Broken',
+      rules: [
+        { op: 'extrude', h: 10 },
+        { op: 'extrude', h: -5 },
+        { op: 'twist', angle: 30 }
+      ]
+    });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'schema', severity: 'error', ruleIndex: 1, path: ['rules', 1, 'h'] }),
+      expect.objectContaining({ code: 'schema', ruleIndex: 2, path: ['rules', 2, 'op'] })
+    ]);
+    expect(diagnostics[1].message).toMatch(/^Unknown operation "twist"; expected one of extrude, offset/);
+  });
+
+  test('ops after a zero-height extrude are unreachable', () => {
+    const diagnostics = lintProgram({
+      name: 'Flat',
+      rules: [
+        { op: 'extrude', h: 0 },
+        { op: 'attr', name: 'use', value: 'plaza' },
+        { op: 'roof', kind: 'hip' },
+        { op: 'split', axis: 'z', sizes: ['*', '*'] },
+        { op: 'extrude', h: 10 },
+        { op: 'roof', kind: 'hip' }
+      ]
+    });
+
+    expect(codes(diagnostics)).toEqual(['unreachable', 'unreachable']);
+    expect(diagnostics.map(diagnostic => diagnostic.ruleIndex)).toEqual([2, 3]);
+  });
+
+  test('roof before extrude is flagged on the lot but not in definitions', () => {
+    const diagnostics = lintProgram({
+      name: 'Roof First',
+      definitions: { Top: [{ op: 'roof', kind: 'gable' }] },
+      rules: [
+        { op: 'roof', kind: 'gable' },
+        { op: 'extrude', h: 10 },
+        { op: 'call', rule: 'Top' }
+      ]
+    });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'roof-before-extrude', severity: 'warning', path: ['rules', 0, 'op'] })
+    ]);
+  });
+
+  test('components need an extruded shape', () => {
+    const diagnostics = lintProgram({
+      name: 'Flat Windows',
+      rules: [
+        { op: 'component', kind: 'window' },
+        { op: 'extrude', h: 10 },
+        { op: 'component', kind: 'door', height: 'doorHeight + ' }
+      ]
+    });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'component-before-extrude', severity: 'error', path: ['rules', 0, 'op'] }),
+      expect.objectContaining({ code: 'expression', path: ['rules', 2, 'height'] })
+    ]);
+  });
+
+  test('split sizes that cannot fit the shape', () => {
+    const diagnostics = lintProgram({
+      name: 'Overflow',
+      rules: [
+        { op: 'split', axis: 'x', sizes: [15, 10], names: ['A', 'B', 'C'] },
+        { op: 'extrude', h: 12 },
+        { op: 'split', axis: 'z', sizes: [8, 8] },
+        { op: 'repeat', axis: 'y', step: 40 }
+      ]
+    }, lot);
+
+    expect(diagnostics.map(d => [d.code, d.path])).toEqual([
+      ['split-names', ['rules', 0, 'names']],
+      ['split-overflow', ['rules', 0, 'sizes']],
+      ['split-overflow', ['rules', 2, 'sizes']],
+      ['repeat-empty', ['rules', 3, 'step']]
+    ]);
+    expect(diagnostics[1].message).toBe('Split sizes add up to 25 but the shape is only 20 along x');
+    expect(diagnostics[2].message).toBe('Split sizes add up to 16 but the shape is only 12 along z');
+  });
+
+  test('attributes overwritten before they are read', () => {
+    const diagnostics = lintProgram({
+      name: 'Attrs',
+      rules: [
+        { op: 'attr', name: 'floors', value: 3 },
+        { op: 'attr', name: 'floors', value: 4 },
+        { op: 'extrude', h: 'floors * 3' },
+        { op: 'attr', name: 'floors', value: 5 },
+        { op: 'attr', name: 'use', value: 'office', target: 'Podium' },
+        { op: 'attr', name: 'use', value: 'retail', target: 'Podium' }
+      ]
+    });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'duplicate-attr', ruleIndex: 1, path: ['rules', 1, 'name'] })
+    ]);
+  });
+
+  test('offsets and setbacks larger than the lot', () => {
+    const diagnostics = lintProgram({
+      name: 'Too Far',
+      rules: [
+        { op: 'setback', d: 8, faces: ['front', 'back'] },
+        { op: 'offset', d: 8 },
+        { op: 'offset', d: 11 }
+      ]
+    }, lot);
+
+    // 20 x 30 lot, then 20 x 14 after the setback: the 8 m offset already eliminates it
+    expect(diagnostics.map(d => [d.code, d.ruleIndex])).toEqual([['offset-too-large', 1]]);
+    expect(diagnostics[0].path).toEqual(['rules', 1, 'd']);
+    expect(lintProgram({ name: 'No Lot', rules: [{ op: 'offset', d: 100 }] })).toEqual([]);
+  });
+
+  test('references, expressions and unused definitions', () => {
+    const diagnostics = lintProgram({
+      name: 'Definitions',
+      definitions: {
+        Tower: [{ op: 'extrude', h: 'height *' }],
+        Orphan: [{ op: 'call', rule: 'Missing' }]
+      },
+      rules: [{ op: 'case', branches: [{ when: 'area > 100', rule: 'Tower' }], else: 'House' }]
+    });
+
+    expect(diagnostics.map(d => [d.code, d.severity, d.path])).toEqual([
+      ['undefined-rule', 'error', ['rules', 0, 'else']],
+      ['expression', 'error', ['definitions', 'Tower', 0, 'h']],
+      ['unused-definition', 'warning', ['definitions', 'Orphan']],
+      ['undefined-rule', 'error', ['definitions', 'Orphan', 0, 'rule']]
+    ]);
+    expect(diagnostics[3].definition).toBe('Orphan');
+  });
+
+  test('JSON paths map back to text ranges', () => {
+    const text = JSON.stringify({ name: 'Ranges', rules: [{ op: 'extrude', h: 10 }, { op: 'split', axis: 'x', sizes: [5, '*'] }] }, null, 2);
+    const slice = (path: Array<string | number>) => {
+      const range = jsonPathRange(text, path);
+      return range && text.slice(range.start, range.end);
+    };
+
+    expect(slice(['rules', 0, 'h'])).toBe('10');
+    expect(slice(['rules', 1, 'sizes', 1])).toBe('"*"');
+    expect(slice(['rules', 1, 'names'])).toBe(slice(['rules', 1]));
+    expect(jsonPathRange('{ "rules": [', ['rules'])).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { RulesEngine } from '../engine';
+import { lintProgram } from '../lint';
+import { parseRuleText, printRuleText } from '../dsl';
+import {
+  CURRENT_SCHEMA_VERSION,
+  formatMigrationChanges,
+  migrateProgram,
+  RuleMigration,
+  RuleProgramVersionError
+} from '../migrations';
+import { SAMPLE_LOTS } from '../samples';
+import { RuleProgram } from '../types';
+
+describe('Rule Program Migrations', () => {
+  const v1: RuleProgram = {
+    name: 'Gabled',
+    schemaVersion: 1,
+    rules: [{ op: 'extrude', h: 9 }, { op: 'call', rule: 'Roof' }],
+    definitions: {
+      Roof: [
+        { op: 'roof', kind: 'gable', pitch: 45 },
+        { op: 'roof', kind: 'hip', pitch: 'slope * 2' },
+        { op: 'roof', kind: 'shed' },
+        { op: 'roof', kind: 'flat' },
+        { op: 'roof', kind: 'hip', pitch: 20, height: 4 }
+      ]
+    }
+  };
+
+  test('version 1 roofs keep the rise they had, with every change reported', () => {
+    const { program, fromVersion, toVersion, changes } = migrateProgram(v1);
+
+    expect([fromVersion, toVersion]).toEqual([1, CURRENT_SCHEMA_VERSION]);
+    expect(program.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(program.definitions!.Roof.map(rule => rule.op === 'roof' ? rule.height : null)).toEqual([
+      7.854, `(slope * 2) * ${Math.PI / 18}`, 5.236, undefined, 4
+    ]);
+    expect(changes.map(change => change.path)).toEqual([
+      ['definitions', 'Roof', 0, 'height'],
+      ['definitions', 'Roof', 1, 'height'],
+      ['definitions', 'Roof', 2, 'height']
+    ]);
+    expect(formatMigrationChanges(changes)[0])
+      .toBe('v2 definitions.Roof[0].height: Roof height set to 7.854, the rise version 1 gave a pitch of 45');
+    expect(v1.definitions!.Roof[0]).not.toHaveProperty('height');
+  });
+
+  test('migrations run one version at a time and stop at a missing step', () => {
+    const migrations: RuleMigration[] = [
+      { from: 1, description: 'Rename', migrate: (program, change) => (change(['name'], 'Renamed'), { ...program, name: `${program.name} 2` }) },
+      { from: 2, description: 'Seed', migrate: (program, change) => (change(['seed'], 'Seeded'), { ...program, seed: 7 }) }
+    ];
+
+    const result = migrateProgram(v1, 3, migrations);
+    expect(result.program).toMatchObject({ name: 'Gabled 2', seed: 7, schemaVersion: 3 });
+    expect(result.changes.map(change => change.version)).toEqual([2, 3]);
+
+    expect(() => migrateProgram(v1, 4, migrations)).toThrow('No migration from rule program schema version 3 to 4');
+    expect(() => migrateProgram({ ...v1, schemaVersion: 5 })).toThrow(RuleProgramVersionError);
+    expect(migrateProgram({ name: 'Unversioned', rules: [] }).changes).toEqual([]);
+  });
+
+  test('the engine migrates outdated programs, or refuses them when asked to', async () => {
+    const program: RuleProgram = { name: 'Gable', schemaVersion: 1, rules: [{ op: 'extrude', h: 9 }, { op: 'roof', kind: 'gable' }] };
+
+    const migrated = await new RulesEngine().executeProgram(program, SAMPLE_LOTS.square);
+    expect(migrated.success).toBe(true);
+    expect(migrated.attributes.roofHeight).toBeCloseTo(5.236, 9);
+    expect(migrated.migration).toEqual({
+      fromVersion: 1,
+      toVersion: CURRENT_SCHEMA_VERSION,
+      changes: [expect.objectContaining({ path: ['rules', 1, 'height'] })]
+    });
+
+    const current = await new RulesEngine().executeProgram({ ...program, schemaVersion: CURRENT_SCHEMA_VERSION }, SAMPLE_LOTS.square);
+    expect(current.migration).toBeUndefined();
+    expect(current.attributes.roofHeight).toBeCloseTo(15 * Math.tan(Math.PI / 6), 9);
+
+    const refused = await new RulesEngine({ migrate: false }).executeProgram(program, SAMPLE_LOTS.square);
+    expect(refused).toMatchObject({ success: false, error: `Rule program is schema version 1; migrate it to version ${CURRENT_SCHEMA_VERSION} before running it` });
+
+    const newer = await new RulesEngine().executeProgram({ ...program, schemaVersion: CURRENT_SCHEMA_VERSION + 1 }, SAMPLE_LOTS.square);
+    expect(newer.error).toMatch(/newer than the supported version/);
+  });
+
+  test('programs stored before versioning run as version 1', async () => {
+    const unversioned: RuleProgram = { name: 'Stored', rules: [{ op: 'extrude', h: 6 }, { op: 'roof', kind: 'gable', pitch: 45 }] };
+
+    const result = await new RulesEngine().executeProgram(unversioned, SAMPLE_LOTS.square);
+    expect(result.attributes.roofHeight).toBeCloseTo(45 * Math.PI / 180 * 10, 3);
+    expect(result.migration).toMatchObject({ fromVersion: 1, toVersion: CURRENT_SCHEMA_VERSION });
+    expect(parseRuleText(printRuleText(unversioned)).schemaVersion).toBe(1);
+  });
+
+  test('lint and the text syntax carry the version', () => {
+    expect(lintProgram(v1).filter(diagnostic => diagnostic.code === 'schema-version')).toEqual([
+      expect.objectContaining({ severity: 'warning', path: ['schemaVersion'] })
+    ]);
+    expect(lintProgram({ ...v1, schemaVersion: 9 })[0]).toMatchObject({ severity: 'error', code: 'schema-version' });
+
+    const text = printRuleText(v1);
+    expect(text).toContain('@schemaVersion 1');
+    expect(parseRuleText(text).schemaVersion).toBe(1);
+  });
+});
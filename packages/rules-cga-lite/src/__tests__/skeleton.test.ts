@@ -0,0 +1,61 @@
+import { straightSkeleton } from '../utils/skeleton';
+import { signedRingArea, insetRing, outsetRing } from '../utils/offset';
+
+describe('Straight Skeleton', () => {
+  const footprints: Record<string, number[][]> = {
+    rectangle: [[0, 0], [10, 0], [10, 6], [0, 6]],
+    square: [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+    'L-shape': [[0, 0], [10, 0], [10, 6], [4, 6], [4, 10], [0, 10]],
+    'equal-width L': [[0, 0], [20, 0], [20, 4], [4, 4], [4, 20], [0, 20]],
+    'T-shape': [[0, 0], [12, 0], [12, 4], [8, 4], [8, 12], [4, 12], [4, 4], [0, 4]],
+    'U-shape': [[0, 0], [12, 0], [12, 10], [8, 10], [8, 4], [4, 4], [4, 10], [0, 10]],
+    'irregular concave': [[0, 0], [14, 0], [14, 9], [9, 5], [6, 11], [0, 8]],
+    'clockwise star': [[0, 0], [2, 6], [0, 12], [6, 10], [12, 12], [10, 6], [12, 0], [6, 2]]
+  };
+
+  test.each(Object.keys(footprints))('faces of %s tile the footprint at the right heights', name => {
+    const skeleton = straightSkeleton(footprints[name]);
+
+    expect(skeleton.faces).toHaveLength(skeleton.ring.length);
+
+    let tiledArea = 0;
+    skeleton.faces.forEach((face, i) => {
+      tiledArea += signedRingArea(face.map(index => [skeleton.nodes[index].x, skeleton.nodes[index].y]));
+
+      // Every point of edge i's face is reached by the wavefront when it is t away from that edge
+      const [a, b] = [skeleton.ring[i], skeleton.ring[(i + 1) % skeleton.ring.length]];
+      const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+      face.forEach(index => {
+        const node = skeleton.nodes[index];
+        const distance = ((b[0] - a[0]) * (node.y - a[1]) - (b[1] - a[1]) * (node.x - a[0])) / length;
+        expect(distance).toBeCloseTo(node.t, 6);
+      });
+    });
+    expect(tiledArea).toBeCloseTo(signedRingArea(skeleton.ring), 6);
+  });
+
+  test('rectangle ridge runs along the long axis', () => {
+    const skeleton = straightSkeleton(footprints.rectangle);
+    const ridge = skeleton.nodes.filter(node => node.t > 0).map(node => [node.x, node.y, node.t]);
+
+    expect(ridge).toContainEqual([3, 3, 3]);
+    expect(ridge).toContainEqual([7, 3, 3]);
+  });
+});
+
+describe('Polygon Offset', () => {
+  test('inset splits a pinched footprint into parts', () => {
+    const dumbbell = [[0, 0], [4, 0], [4, 4], [6, 4], [6, 0], [10, 0], [10, 10], [6, 10], [6, 6], [4, 6], [4, 10], [0, 10]];
+
+    expect(insetRing(dumbbell, dumbbell.map(() => 0.5))).toHaveLength(1);
+    expect(insetRing(dumbbell, dumbbell.map(() => 1.5))).toHaveLength(2);
+    expect(insetRing(dumbbell, dumbbell.map(() => 2.5))).toHaveLength(0);
+  });
+
+  test('outset keeps mitered corners', () => {
+    const [ring] = outsetRing([[0, 0], [10, 0], [10, 10], [0, 10]], 2);
+
+    expect(signedRingArea(ring)).toBeCloseTo(196, 6);
+    expect(ring).toContainEqual([-2, -2]);
+  });
+});
@@ -0,0 +1,96 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { RulesEngine } from '../engine';
+import { SAMPLE_LOTS, SAMPLE_RULES } from '../samples';
+import {
+  compareSnapshots,
+  formatSnapshotReport,
+  serializeSnapshot,
+  snapshotGeometry,
+  snapshotPrograms,
+  snapshotResult
+} from '../snapshot';
+import { SimpleGeometry } from '../types';
+import { buildPrism } from '../utils/geometry';
+
+// Golden files, one per sample program; rewrite them with UPDATE_GOLDEN=1 npm test
+const GOLDEN_DIR = join(__dirname, '__golden__');
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+describe('Geometry Snapshots', () => {
+  const box: SimpleGeometry = { type: 'solid', ...buildPrism([[0, 0], [4, 0], [4, 3], [0, 3]], 0, 2), attributes: {} };
+
+  test('snapshots do not depend on vertex, face or ring order', () => {
+    // Same box with its vertices reversed, its faces after the bottom one (the footprint)
+    // reversed and every ring started elsewhere
+    const order = box.vertices.map((_, i) => box.vertices.length - 1 - i);
+    const shuffled: SimpleGeometry = {
+      ...box,
+      vertices: order.map(i => box.vertices[i]),
+      faces: [box.faces![0], ...box.faces!.slice(1).reverse()].map(face => {
+        const ring = face.map(index => order.indexOf(index));
+        return [...ring.slice(1), ring[0]];
+      })
+    };
+
+    const snapshot = snapshotGeometry(box);
+    expect(snapshotGeometry(shuffled)).toEqual(snapshot);
+    expect(snapshot.vertices[0]).toEqual([0, 0, 0]);
+    expect(snapshot.faces!.every(face => face[0] === Math.min(...face))).toBe(true);
+    expect(snapshot).toMatchObject({ area: 12, surfaceArea: 2 * 12 + 2 * (4 * 2 + 3 * 2), volume: 24 });
+  });
+
+  test('numbers match within the tolerance and differences name their path', () => {
+    const snapshot = snapshotGeometry(box);
+    const nudged = { ...snapshot, vertices: snapshot.vertices.map(([x, y, z]) => [x + 1e-8, y, z]) };
+    const moved = { ...snapshot, vertices: snapshot.vertices.map(([x, y, z]) => [x, y, z === 2 ? 2.5 : z]), volume: 30 };
+
+    expect(compareSnapshots(snapshot, nudged)).toEqual([]);
+    expect(compareSnapshots(snapshot, moved)).toContainEqual({ path: 'vertices[1][2]', expected: 2, actual: 2.5 });
+    expect(compareSnapshots(snapshot, moved)).toContainEqual({ path: 'volume', expected: 24, actual: 30 });
+    expect(compareSnapshots(snapshot, { ...snapshot, faces: snapshot.faces!.slice(1) }))
+      .toEqual([{ path: 'faces.length', expected: 6, actual: 5 }]);
+  });
+
+  test('reports list the first differences of each snapshot that differs', async () => {
+    const result = await new RulesEngine().executeProgram(SAMPLE_RULES.TOWER_RULE, SAMPLE_LOTS.square);
+    const snapshot = snapshotResult(result);
+    const taller = snapshotResult({ ...result, attributes: { ...result.attributes, buildingHeight: 33 } });
+    const differences = compareSnapshots(snapshot, { ...snapshot, leaves: snapshot.leaves.slice(1) });
+
+    expect(snapshot.totals).toMatchObject({ leafCount: 10, area: 9000, volume: 27000 });
+    expect(snapshot).not.toHaveProperty('metadata');
+    expect(formatSnapshotReport([{ name: 'Tower / square', differences: [] }])).toBe('');
+    expect(formatSnapshotReport([
+      { name: 'Tower / square', differences: compareSnapshots(snapshot, taller) },
+      { name: 'Tower / narrow', differences: [] }
+    ])).toBe([
+      '1 of 2 snapshots differ',
+      '',
+      'Tower / square: 1 difference',
+      '  attributes.buildingHeight: expected 30, got 33'
+    ].join('\n'));
+    expect(formatSnapshotReport([{ name: 'Tower / square', differences: [...differences, ...Array(10).fill(differences[0])] }]))
+      .toContain('  ... and 1 more');
+  });
+
+  test('sample programs match their golden files on every sample lot', async () => {
+    const snapshots = await snapshotPrograms(Object.values(SAMPLE_RULES), SAMPLE_LOTS);
+    const entries: Array<{ name: string; differences: ReturnType<typeof compareSnapshots> }> = [];
+
+    for (const [programName, byLot] of Object.entries(snapshots)) {
+      const file = join(GOLDEN_DIR, `${programName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`);
+      if (UPDATE_GOLDEN) {
+        mkdirSync(GOLDEN_DIR, { recursive: true });
+        writeFileSync(file, serializeSnapshot(byLot));
+        continue;
+      }
+      const golden = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {};
+      for (const [lotName, snapshot] of Object.entries(byLot)) {
+        entries.push({ name: `${programName} / ${lotName}`, differences: compareSnapshots(golden[lotName], snapshot) });
+      }
+    }
+
+    expect(formatSnapshotReport(entries)).toBe('');
+  });
+});
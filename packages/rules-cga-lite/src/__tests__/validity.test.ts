@@ -0,0 +1,92 @@
+import { RulesEngine } from '../engine';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
+import { SAMPLE_LOTS } from '../samples';
+import { RuleProgram, SimpleGeometry } from '../types';
+import { buildPrism, footprintOf, mergeGeometries, signedRingArea } from '../utils/geometry';
+import { geometryVolume, orientFaces } from '../utils/mesh';
+import { describeMeshIssues, repairMesh, validateMesh } from '../utils/validity';
+
+describe('Mesh Validity', () => {
+  const box = (x: number, y: number, size: number, height: number, base = 0): SimpleGeometry => ({
+    type: 'solid',
+    ...buildPrism([[x, y], [x + size, y], [x + size, y + size], [x, y + size]], base, base + height),
+    attributes: {}
+  });
+  const oriented = (geometry: SimpleGeometry): SimpleGeometry => ({ ...geometry, faces: orientFaces(geometry.vertices, geometry.faces!) });
+
+  test('an outward-facing closed box is valid, and polygons are not checked', () => {
+    expect(validateMesh(oriented(box(0, 0, 4, 3)))).toEqual({ valid: true, closed: true, issues: [] });
+    expect(validateMesh({ type: 'polygon', vertices: [[0, 0], [1, 0]], attributes: {} }).valid).toBe(true);
+  });
+
+  test('flipped faces are reported and turned around, keeping the footprint first', () => {
+    const prism = box(0, 0, 4, 3);
+    const capsIn = { ...prism, faces: prism.faces!.map((face, f) => f < 2 ? [...face].reverse() : face) };
+    const validation = validateMesh(capsIn);
+    const inside = validateMesh({ ...prism, faces: prism.faces!.map(face => [...face].reverse()) });
+
+    expect(validation.closed).toBe(true);
+    expect(describeMeshIssues(validation.issues)).toBe('2 flipped faces');
+    expect(inside.issues).toEqual([expect.objectContaining({ kind: 'flipped-face', message: 'The solid is turned inside out: every face points inward' })]);
+
+    const { geometry, repaired } = repairMesh(capsIn);
+    expect(repaired).toEqual(['flipped-face']);
+    expect(validateMesh(geometry).valid).toBe(true);
+    expect(geometry.faces![0]).toEqual(prism.faces![0]);
+    expect(signedRingArea(footprintOf(geometry))).toBeCloseTo(16, 9);
+  });
+
+  test('open boxes are capped, degenerate faces dropped', () => {
+    const closed = oriented(box(0, 0, 4, 3));
+    const open: SimpleGeometry = { ...closed, faces: [closed.faces![0], ...closed.faces!.slice(2), [0, 0, 1]] };
+    const validation = validateMesh(open);
+
+    expect(validation.closed).toBe(false);
+    expect(describeMeshIssues(validation.issues)).toBe('1 degenerate face, 4 open edges');
+    expect(validation.issues[1]).toMatchObject({ kind: 'open-edge', faces: [expect.any(Number)], edge: [expect.any(Array), expect.any(Array)] });
+
+    const repair = repairMesh(open);
+    expect(repair.repaired).toEqual(['degenerate-face', 'open-edge']);
+    expect(repair.validation).toEqual({ valid: true, closed: true, issues: [] });
+    expect(repair.geometry.faces).toHaveLength(6);
+    expect(geometryVolume(repair.geometry)).toBeCloseTo(48, 9);
+  });
+
+  test('crossing and non-manifold parts are reported but not repaired', () => {
+    const crossing = mergeGeometries([oriented(box(0, 0, 4, 3)), oriented(box(2, 2, 4, 3, 1))]);
+    const touching = mergeGeometries([oriented(box(0, 0, 4, 3)), oriented(box(4, 4, 4, 3))]);
+    const apart = mergeGeometries([oriented(box(0, 0, 4, 3)), oriented(box(5, 0, 4, 3))]);
+
+    const repair = repairMesh(crossing);
+    expect(repair.repaired).toEqual([]);
+    expect(repair.validation.issues.every(issue => issue.kind === 'self-intersection')).toBe(true);
+    expect(repair.validation.issues[0].message).toMatch(/^Faces \d+ and \d+ cross$/);
+    expect(describeMeshIssues(validateMesh(touching).issues)).toBe('1 non manifold edge');
+    expect(validateMesh(apart).valid).toBe(true);
+  });
+
+  test('engine shapes are valid without repair', async () => {
+    const programs: RuleProgram[] = [
+      { name: 'Floors', rules: [{ op: 'extrude', h: 9 }, { op: 'repeat', axis: 'z', step: 3, name: 'Floor' }, { op: 'split', axis: 'x', sizes: ['*', '*'] }] },
+      { name: 'Hip', rules: [{ op: 'setback', d: 2 }, { op: 'extrude', h: 6 }, { op: 'roof', kind: 'hip', pitch: 30 }] },
+      { name: 'Gable', rules: [{ op: 'offset', d: 1, mode: 'in' }, { op: 'extrude', h: 6 }, { op: 'roof', kind: 'gable', pitch: 40 }] },
+      { name: 'Shed', rules: [{ op: 'roof', kind: 'shed', height: 2 }] },
+      { name: 'Envelope', rules: [{ op: 'extrude', h: 30 }, { op: 'envelope', maxHeight: 20, minSetback: 2 }] },
+      { name: 'Facade', rules: [{ op: 'extrude', h: 6 }, { op: 'component', kind: 'window', faces: ['front'], width: 1.2 }] }
+    ];
+    const engine = new RulesEngine();
+
+    for (const [lotName, lot] of Object.entries(SAMPLE_LOTS)) {
+      for (const program of programs) {
+        const result = await engine.executeProgram({ ...program, schemaVersion: CURRENT_SCHEMA_VERSION, meshRepair: false }, lot);
+        if (!result.success) {
+          expect(result.error).toMatch(/cannot cover a footprint with holes/);
+          continue;
+        }
+        const issues = result.leaves!.map(leaf => describeMeshIssues(validateMesh(leaf.geometry).issues)).filter(Boolean);
+        expect([lotName, program.name, issues]).toEqual([lotName, program.name, []]);
+        expect(result.attributes.invalidMeshCount).toBeUndefined();
+      }
+    }
+  });
+});
@@ -0,0 +1,137 @@
+import { MessageChannel } from 'worker_threads';
+import { RulesEngine } from '../engine';
+import { applyLegacyRules, LegacyGeometry, LegacyRule } from '../legacy';
+import { GeometryContext, RuleExecutionResult, RuleProgram } from '../types';
+import {
+  packExecutionResult,
+  packLegacyGeometry,
+  RuleExecutionCancelledError,
+  RuleWorkerExecutor,
+  RuleWorkerHandle,
+  RuleWorkerScope,
+  startRuleWorker,
+  unpackExecutionResult,
+  unpackLegacyGeometry
+} from '../worker';
+
+describe('Worker Execution', () => {
+  // Worker served over a message channel, so messages are cloned and buffers transferred
+  const channelWorker = (): RuleWorkerHandle => {
+    const { port1, port2 } = new MessageChannel();
+    startRuleWorker(port1 as unknown as RuleWorkerScope);
+    const handle: RuleWorkerHandle = {
+      onmessage: null,
+      onerror: null,
+      postMessage: (message, transfer = []) => port2.postMessage(message, transfer as any[]),
+      terminate: () => port1.close()
+    };
+    port2.on('message', data => handle.onmessage?.({ data } as MessageEvent));
+    return handle;
+  };
+
+  const lot = (x: number, size: number): GeometryContext => ({
+    polygon: [[x, 0], [x + size, 0], [x + size, size], [x, size]],
+    attributes: { lotId: `L${x}` },
+    boundingBox: { min: { x, y: 0, z: 0 }, max: { x: x + size, y: size, z: 0 } }
+  });
+
+  const tower: RuleProgram = {
+    name: 'Tower',
+    rules: [
+      { op: 'setback', d: 2 },
+      { op: 'extrude', h: 12 },
+      { op: 'split', axis: 'z', sizes: ['*', '*', '*'], names: ['Floor', 'Floor', 'Top'] }
+    ]
+  };
+
+  // Results without their run timings
+  const withoutTiming = (results: RuleExecutionResult[]) => results.map(({ metadata, ...result }) => result);
+
+  let executor: RuleWorkerExecutor;
+  afterEach(() => executor?.terminate());
+
+  test('packed results transfer their buffers and unpack to the same result', async () => {
+    const result = await new RulesEngine().executeProgram(tower, lot(0, 20));
+    const transfer: Transferable[] = [];
+    const packed = packExecutionResult(result, transfer);
+    const unpacked = unpackExecutionResult(packed);
+
+    expect(transfer.length).toBeGreaterThan(result.shapes!.length);
+    expect(packed.shapes![0].geometry.positions).toBeInstanceOf(Float64Array);
+    expect(unpacked).toEqual(result);
+    expect(unpacked.leaves![2]).toBe(unpacked.shapes!.find(shape => shape.id === result.leaves![2].id));
+
+    const courtyard: LegacyGeometry = {
+      polygons: [{ vertices: [[0, 0, 0], [9, 0, 0], [9, 9, 0]], holes: [[[2, 1], [3, 1], [3, 2]]] }, { vertices: [[0, 0, 5], [1, 0, 5], [1, 1, 5]] }],
+      attributes: { lotId: 'C' }
+    };
+    expect(unpackLegacyGeometry(packLegacyGeometry(courtyard))).toEqual({
+      ...courtyard,
+      polygons: [{ ...courtyard.polygons[0], holes: [[[2, 1, 0], [3, 1, 0], [3, 2, 0]]] }, courtyard.polygons[1]]
+    });
+  });
+
+  test('worker runs give the in-thread results, in lot order, with progress', async () => {
+    const lots = [lot(0, 20), lot(100, 30), lot(200, 3)];
+    const progress: Array<[number, number]> = [];
+    executor = new RuleWorkerExecutor({ createWorker: channelWorker });
+
+    const results = await executor.executePrograms(tower, lots, { onProgress: (done, total) => progress.push([done, total]) });
+    const inThread = await new RuleWorkerExecutor().executePrograms(tower, lots);
+
+    expect(executor.mode).toBe('worker');
+    expect(progress).toEqual([[1, 3], [2, 3], [3, 3]]);
+    expect(results.map(result => result.success)).toEqual([true, true, false]);
+    expect(withoutTiming(results)).toEqual(withoutTiming(inThread));
+  });
+
+  test('legacy rules run per lot like applyLegacyRules', async () => {
+    const rules: LegacyRule[] = [
+      { operator: 'extrude', parameters: { height: 9 } },
+      { operator: 'split', parameters: { axis: 'z', divisions: [1, 2] } }
+    ];
+    const lots: LegacyGeometry[] = [
+      { polygons: [{ vertices: [[0, 0, 0], [10, 0, 0], [10, 10, 0], [0, 10, 0]] }], attributes: { lotId: 'A' } },
+      { polygons: [], attributes: { lotId: 'B' } }
+    ];
+    executor = new RuleWorkerExecutor({ createWorker: channelWorker });
+
+    const [first, second] = await executor.applyLegacyRules(lots, rules);
+
+    expect(first).toEqual(await applyLegacyRules(lots[0], rules));
+    expect(second).toEqual([{ geometry: { polygons: [], attributes: {} }, success: false, message: 'Lot needs a polygon with at least 3 vertices' }]);
+  });
+
+  test('aborting rejects the run and stops the remaining lots', async () => {
+    const lots = Array.from({ length: 6 }, (_, i) => lot(i * 50, 20));
+    const inThread = new RuleWorkerExecutor();
+    executor = new RuleWorkerExecutor({ createWorker: channelWorker });
+
+    for (const candidate of [executor, inThread]) {
+      const controller = new AbortController();
+      const progress: number[] = [];
+      const run = candidate.executePrograms(tower, lots, {
+        signal: controller.signal,
+        onProgress: done => {
+          progress.push(done);
+          if (done === 2) controller.abort();
+        }
+      });
+
+      await expect(run).rejects.toBeInstanceOf(RuleExecutionCancelledError);
+      expect(progress).toEqual([1, 2]);
+      await expect(candidate.executePrograms(tower, lots, { signal: controller.signal })).rejects.toThrow('Rule execution cancelled');
+    }
+
+    // The worker carries on with later runs
+    expect(await executor.executePrograms(tower, lots.slice(0, 1))).toHaveLength(1);
+  });
+
+  test('a failing worker rejects its runs', async () => {
+    const broken = channelWorker();
+    broken.postMessage = () => broken.onerror?.({ message: 'script not found' });
+    executor = new RuleWorkerExecutor({ createWorker: () => broken });
+
+    await expect(executor.executePrograms(tower, [lot(0, 20)])).rejects.toThrow('Rule worker failed: script not found');
+  });
+});
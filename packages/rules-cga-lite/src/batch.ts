@@ -0,0 +1,242 @@
+// Batch execution of a rule program over the parcels of a GeoJSON FeatureCollection
+
+import { DEFAULT_FLOOR_HEIGHT, RulesEngine } from './engine';
+import { GeometryContext, RoadSegment, RuleExecutionResult, RuleProgram, ShapeNode, Zone } from './types';
+import { CRS, COMMON_CRS, calculatePolygonArea, crsFromEPSG, reprojectCoordinates } from './utils/crs';
+import { elevationRange, footprintHoles, footprintOf, openRing, signedRingArea } from './utils/geometry';
+import { geometryVolume } from './utils/mesh';
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  properties?: Record<string, any> | null;
+  geometry: { type: string; coordinates: any } | null;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+  crs?: { type: string; properties?: { name?: string } }; // Legacy (pre RFC 7946) CRS member
+}
+
+export interface BatchOptions {
+  crs: CRS;                 // Working CRS the rules run in (projected, metres)
+  sourceCrs?: CRS;          // CRS of the features; defaults to the collection's `crs` member, then WGS 84
+  roads?: RoadSegment[];    // Roads in the source CRS, for street-facing setbacks
+  zones?: Zone[];           // Zoning districts in the source CRS, for envelope programs
+  idProperty?: string;      // Property holding the feature id when the feature has none (default 'id')
+  floorHeight?: number;     // Storey height for GFA when shapes carry no floorHeight attribute
+  attributes?: (properties: Record<string, any>, feature: GeoJSONFeature) => Record<string, any>;
+  engine?: RulesEngine;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Rings enclosing less than this (square metres of the working CRS) are degenerate
+const MIN_RING_AREA = 1e-6;
+
+// Building metrics of one executed feature, in working CRS units
+export interface FeatureMetrics {
+  lotArea: number;
+  footprintArea: number; // Ground-level leaves
+  gfa: number;           // Leaf footprint area times storeys
+  volume: number;        // Enclosed volume of the leaf meshes, roofs included
+  height: number;        // Highest point above the lot
+}
+
+export interface FeatureResult {
+  index: number;
+  id?: string | number;
+  success: boolean;
+  error?: string;
+  metrics?: FeatureMetrics;
+  result?: RuleExecutionResult;
+}
+
+export interface BatchResult {
+  features: FeatureResult[];
+  totals: {
+    features: number;
+    succeeded: number;
+    failed: number;
+    lotArea: number;
+    footprintArea: number;
+    gfa: number;
+    volume: number;
+  };
+  failures: Array<{ index: number; id?: string | number; reason: string }>;
+  crs: CRS;
+}
+
+/**
+ * Run a rule program on every Polygon feature of a collection. Each feature is
+ * reprojected to the working CRS and its properties become lot attributes; a
+ * feature that cannot be read or whose rules fail is recorded as a failure and
+ * the batch carries on.
+ */
+export async function executeBatch(
+  program: RuleProgram,
+  collection: GeoJSONFeatureCollection,
+  options: BatchOptions
+): Promise<BatchResult> {
+  const engine = options.engine ?? new RulesEngine();
+  const sourceCrs = options.sourceCrs ?? collectionCrs(collection);
+  const roads = options.roads?.map(road => ({
+    ...road,
+    coordinates: reprojectCoordinates(road.coordinates, sourceCrs, options.crs)
+  }));
+  const zones = options.zones?.map(zone => ({
+    ...zone,
+    polygon: reprojectCoordinates(zone.polygon, sourceCrs, options.crs),
+    ...(zone.holes ? { holes: zone.holes.map(hole => reprojectCoordinates(hole, sourceCrs, options.crs)) } : {})
+  }));
+  const features: FeatureResult[] = [];
+
+  for (const [index, feature] of collection.features.entries()) {
+    const properties = feature.properties || {};
+    const id = feature.id ?? properties[options.idProperty ?? 'id'];
+    try {
+      const context = featureContext(feature, properties, sourceCrs, options);
+      if (roads) {
+        context.roads = roads;
+      }
+      if (zones) {
+        context.zones = zones;
+      }
+      const result = await engine.executeProgram(program, context);
+      features.push(result.success
+        ? { index, id, success: true, metrics: resultMetrics(result, context, options), result }
+        : { index, id, success: false, error: result.error || 'Rule execution failed', result });
+    } catch (error) {
+      features.push({ index, id, success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    options.onProgress?.(index + 1, collection.features.length);
+  }
+
+  const succeeded = features.filter(feature => feature.success);
+  const sum = (key: keyof FeatureMetrics) => succeeded.reduce((total, feature) => total + feature.metrics![key], 0);
+  return {
+    features,
+    totals: {
+      features: features.length,
+      succeeded: succeeded.length,
+      failed: features.length - succeeded.length,
+      lotArea: sum('lotArea'),
+      footprintArea: sum('footprintArea'),
+      gfa: sum('gfa'),
+      volume: sum('volume')
+    },
+    failures: features
+      .filter(feature => !feature.success)
+      .map(feature => ({ index: feature.index, id: feature.id, reason: feature.error! })),
+    crs: options.crs
+  };
+}
+
+/**
+ * CRS named by a collection's legacy `crs` member, WGS 84 otherwise (RFC 7946)
+ */
+function collectionCrs(collection: GeoJSONFeatureCollection): CRS {
+  const name = collection.crs?.properties?.name;
+  if (!name || /CRS84$/.test(name)) {
+    return COMMON_CRS.ARGENTINA_GEO;
+  }
+  const match = /EPSG:+(\d+)$/.exec(name);
+  const crs = match ? crsFromEPSG(Number(match[1])) : undefined;
+  if (!crs) {
+    throw new Error(`Unsupported collection CRS: ${name}`);
+  }
+  return crs;
+}
+
+function featureContext(
+  feature: GeoJSONFeature,
+  properties: Record<string, any>,
+  sourceCrs: CRS,
+  options: BatchOptions
+): GeometryContext {
+  if (feature.geometry?.type !== 'Polygon') {
+    throw new Error(`Unsupported geometry type: ${feature.geometry?.type ?? 'none'} (expected Polygon)`);
+  }
+  const [exterior = [], ...interiors] = feature.geometry.coordinates as number[][][];
+  const ring = openRing(exterior);
+  if (ring.length < 3) {
+    throw new Error('Polygon must have at least 3 vertices');
+  }
+  const project = (coordinates: number[][]) =>
+    reprojectCoordinates(coordinates, sourceCrs, options.crs).map(([x, y]) => [x, y]);
+  const polygon = project(ring);
+  const holes = interiors.map(hole => project(openRing(hole)));
+  if (Math.abs(signedRingArea(polygon)) < MIN_RING_AREA) {
+    throw new Error('Polygon has zero area');
+  }
+  holes.forEach((hole, index) => {
+    if (Math.abs(signedRingArea(hole)) < MIN_RING_AREA) {
+      throw new Error(`Polygon hole ${index + 1} has zero area`);
+    }
+  });
+  const xs = polygon.map(point => point[0]);
+  const ys = polygon.map(point => point[1]);
+
+  return {
+    polygon,
+    ...(holes.length > 0 ? { holes } : {}),
+    crs: options.crs,
+    attributes: options.attributes ? options.attributes(properties, feature) : primitiveProperties(properties),
+    boundingBox: {
+      min: { x: Math.min(...xs), y: Math.min(...ys), z: 0 },
+      max: { x: Math.max(...xs), y: Math.max(...ys), z: 0 }
+    }
+  };
+}
+
+/**
+ * Number, string and boolean properties; nested values are not attributes
+ */
+function primitiveProperties(properties: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) =>
+    ['number', 'string', 'boolean'].includes(typeof value)
+  ));
+}
+
+function resultMetrics(result: RuleExecutionResult, context: GeometryContext, options: BatchOptions): FeatureMetrics {
+  const leaves = result.leaves || [];
+  const ranges = leaves.map(leaf => elevationRange(leaf.geometry));
+  const ground = Math.min(0, ...ranges.map(range => range.min));
+  let footprintArea = 0;
+  let gfa = 0;
+  let volume = 0;
+
+  leaves.forEach((leaf, i) => {
+    const area = calculatePolygonArea({
+      coordinates: openRing(footprintOf(leaf.geometry)),
+      holes: footprintHoles(leaf.geometry),
+      crs: options.crs
+    });
+    if (leaf.geometry.type !== 'polygon' && ranges[i].min <= ground) {
+      footprintArea += area;
+    }
+    gfa += area * storeys(leaf, ranges[i], options);
+    volume += geometryVolume(leaf.geometry);
+  });
+
+  return {
+    lotArea: calculatePolygonArea({ coordinates: context.polygon, holes: context.holes, crs: options.crs }),
+    footprintArea,
+    gfa,
+    volume,
+    height: ranges.length > 0 ? Math.max(...ranges.map(range => range.max)) - ground : 0
+  };
+}
+
+/**
+ * Storeys of a leaf: its wall height (roof excluded) in floor heights, at least one for any solid
+ */
+function storeys(leaf: ShapeNode, range: { min: number; max: number }, options: BatchOptions): number {
+  const wallHeight = range.max - range.min - (leaf.geometry.attributes.roofHeight || 0);
+  if (leaf.geometry.type === 'polygon' || wallHeight <= 0) {
+    return 0;
+  }
+  const floorHeight = Number(leaf.attributes.floorHeight) || options.floorHeight || DEFAULT_FLOOR_HEIGHT;
+  return Math.max(1, Math.round(wallHeight / floorHeight));
+}
+
@@ -0,0 +1,795 @@
+// Compact CGA-style text syntax for rule programs.
+//
+//   @name "Residential Tower"
+//   @schemaVersion 2
+//   @seed 42
+//   attr floors = 10
+//
+//   Lot --> setback(2, front, back) extrude(floors * 3) Floors roof("gable", 30)
+//
+//   Floors --> repeat(z, 3) { Floor }
+//
+// `Lot` is the start rule (`rules`); every other `Name --> ...` is a definition.
+// A bare rule name in a chain calls that rule. Numeric parameters take a number
+// or an expression, kept as written.
+
+import { parseExpression, ExpressionError } from './expressions';
+import { programSchemaVersion } from './migrations';
+import { Rule, RuleProgram, RuleProgramSchema } from './types';
+import { ROOT_SHAPE_NAME } from './shapes';
+
+// Chains longer than this are printed one operation per line
+const MAX_LINE_LENGTH = 100;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const NUMBER = /^-?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$/;
+
+const OPERATIONS = ['extrude', 'offset', 'setback', 'split', 'repeat', 'roof', 'textureTag', 'component', 'envelope', 'set', 'call', 'case', 'random'];
+
+// Named size arguments of component(), in print order
+const COMPONENT_SIZES = ['width', 'height', 'sill', 'depth'] as const;
+
+// Named zoning limits of envelope(), in print order
+const ENVELOPE_LIMITS = ['maxHeight', 'maxFar', 'minSetback', 'skyExposureHeight', 'skyExposureSlope'] as const;
+
+/**
+ * Syntax error in rule text, with its 1-based line and column
+ */
+export class RuleSyntaxError extends Error {
+  constructor(message: string, public readonly line: number, public readonly column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+// Argument text as written, with its offset in the source
+interface Entry {
+  raw: string;
+  start: number;
+}
+
+/**
+ * Parse rule text into a RuleProgram
+ */
+export function parseRuleText(text: string): RuleProgram {
+  return new RuleTextParser(text).parse();
+}
+
+/**
+ * Print a RuleProgram as rule text; parsing the result gives the program back
+ * (expressions that are plain numbers come back as numbers)
+ */
+export function printRuleText(program: RuleProgram): string {
+  const definitions = program.definitions || {};
+  if (Object.prototype.hasOwnProperty.call(definitions, ROOT_SHAPE_NAME)) {
+    throw new Error(`Definition "${ROOT_SHAPE_NAME}" clashes with the start rule`);
+  }
+
+  const header = [`@name ${JSON.stringify(program.name)}`];
+  if (program.description !== undefined) {
+    header.push(`@description ${JSON.stringify(program.description)}`);
+  }
+  // Always written, so the text runs as the version the program runs as
+  header.push(`@schemaVersion ${programSchemaVersion(program)}`);
+  if (program.seed !== undefined) {
+    header.push(`@seed ${program.seed}`);
+  }
+  if (program.maxDepth !== undefined) {
+    header.push(`@maxDepth ${program.maxDepth}`);
+  }
+  if (program.envelope !== undefined) {
+    header.push(`@envelope ${program.envelope}`);
+  }
+  if (program.meshRepair !== undefined) {
+    header.push(`@meshRepair ${program.meshRepair}`);
+  }
+  for (const [name, value] of Object.entries(program.attrs || {})) {
+    header.push(`attr ${printName(name)} = ${printLiteral(value)}`);
+  }
+
+  const sections = [
+    header.join('\n'),
+    printChain(ROOT_SHAPE_NAME, program.rules),
+    ...Object.entries(definitions).map(([name, rules]) => printChain(name, rules))
+  ];
+  return `${sections.join('\n\n')}\n`;
+}
+
+function printChain(name: string, rules: Rule[]): string {
+  const head = `${printName(name)} -->`;
+  const ops = rules.map(printOperation);
+  const line = [head, ...ops].join(' ');
+  return line.length <= MAX_LINE_LENGTH ? line : [head, ...ops.map(op => `  ${op}`)].join('\n');
+}
+
+function printOperation(rule: Rule): string {
+  const args: string[] = [];
+  let block = '';
+  switch (rule.op) {
+    case 'extrude':
+      args.push(printNumeric(rule.h), ...(rule.mode ? [rule.mode] : []));
+      break;
+    case 'offset':
+      args.push(printNumeric(rule.d), ...(rule.mode ? [rule.mode] : []));
+      break;
+    case 'setback':
+      args.push(printNumeric(rule.d), ...(rule.faces || []));
+      if (rule.edges !== undefined) {
+        args.push(`edges: ${rule.edges}`);
+      }
+      break;
+    case 'split': {
+      if (rule.names && rule.names.length !== rule.sizes.length) {
+        throw new Error(`Split has ${rule.names.length} names for ${rule.sizes.length} sizes`);
+      }
+      args.push(rule.axis);
+      const parts = rule.sizes.map((size, i) => {
+        const text = size === '*' ? '*' : printNumeric(size);
+        return rule.names ? `${text}: ${printName(rule.names[i])}` : text;
+      });
+      block = ` { ${parts.join(' | ')} }`;
+      break;
+    }
+    case 'repeat':
+      args.push(rule.axis, printNumeric(rule.step));
+      if (rule.limit !== undefined) {
+        args.push(`limit: ${printNumeric(rule.limit)}`);
+      }
+      block = rule.name !== undefined ? ` { ${printName(rule.name)} }` : '';
+      break;
+    case 'roof':
+      args.push(JSON.stringify(rule.kind));
+      if (rule.pitch !== undefined) {
+        args.push(printNumeric(rule.pitch));
+      }
+      if (rule.height !== undefined) {
+        args.push(`height: ${printNumeric(rule.height)}`);
+      }
+      break;
+    case 'textureTag':
+      args.push(JSON.stringify(rule.tag), ...(rule.faces || []));
+      break;
+    case 'component':
+      args.push(JSON.stringify(rule.kind), ...(rule.faces || []));
+      for (const size of COMPONENT_SIZES) {
+        if (rule[size] !== undefined) {
+          args.push(`${size}: ${printNumeric(rule[size]!)}`);
+        }
+      }
+      block = rule.name !== undefined ? ` { ${printName(rule.name)} }` : '';
+      break;
+    case 'envelope':
+      for (const limit of ENVELOPE_LIMITS) {
+        if (rule[limit] !== undefined) {
+          args.push(`${limit}: ${rule[limit]}`);
+        }
+      }
+      break;
+    case 'attr':
+      args.push(printName(rule.name), rule.expr !== undefined ? rule.expr : printLiteral(rule.value!));
+      break;
+    case 'call':
+      if (rule.target === undefined) {
+        return printName(rule.rule);
+      }
+      args.push(printName(rule.rule));
+      break;
+    case 'case':
+      args.push(...rule.branches.map(branch => `${branch.when}: ${printName(branch.rule)}`));
+      if (rule.else !== undefined) {
+        args.push(`else: ${printName(rule.else)}`);
+      }
+      break;
+    case 'random':
+      args.push(...rule.branches.map(branch => `${branch.percent}%: ${printName(branch.rule)}`));
+      if (rule.else !== undefined) {
+        args.push(`else: ${printName(rule.else)}`);
+      }
+      break;
+  }
+  if (rule.target !== undefined) {
+    args.push(`target: ${printName(rule.target)}`);
+  }
+  return `${rule.op === 'attr' ? 'set' : rule.op}(${args.join(', ')})${block}`;
+}
+
+function printNumeric(value: number | string): string {
+  return typeof value === 'number' ? String(value) : value;
+}
+
+function printLiteral(value: string | number | boolean): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function printName(name: string): string {
+  return IDENTIFIER.test(name) && name !== 'else' && name !== 'target' ? name : JSON.stringify(name);
+}
+
+/**
+ * Recursive-descent parser over the raw text; arguments are cut at top-level
+ * commas so expressions keep their original spelling
+ */
+class RuleTextParser {
+  private position = 0;
+  private program: Record<string, any> = {};
+  private rules?: Rule[];
+  private definitions: Record<string, Rule[]> = {};
+  // Source offset of every parsed op, by list and index, for schema errors
+  private opStarts = new Map<string, number>();
+
+  constructor(private readonly text: string) {}
+
+  parse(): RuleProgram {
+    this.skipSpace();
+    while (this.position < this.text.length) {
+      if (this.text[this.position] === '@') {
+        this.parseDirective();
+      } else if (this.atRuleHeader()) {
+        this.parseRule();
+      } else if (this.text.startsWith('attr', this.position) && this.rules === undefined && Object.keys(this.definitions).length === 0) {
+        this.parseProgramAttr();
+      } else {
+        this.fail('Expected a rule (Name --> operations), an @directive or an attr');
+      }
+      this.skipSpace();
+    }
+
+    if (this.program.name === undefined) {
+      this.fail('Missing @name', 0);
+    }
+    if (this.rules === undefined) {
+      this.fail(`Missing start rule "${ROOT_SHAPE_NAME} -->"`, 0);
+    }
+    const program: Record<string, any> = { ...this.program, rules: this.rules };
+    if (Object.keys(this.definitions).length > 0) {
+      program.definitions = this.definitions;
+    }
+
+    const validation = RuleProgramSchema.safeParse(program);
+    if (!validation.success) {
+      const issue = validation.error.issues[0];
+      const key = issue.path[0] === 'rules' ? `rules/${issue.path[1]}` : `definitions/${issue.path[1]}/${issue.path[2]}`;
+      const field = issue.path.slice(issue.path[0] === 'rules' ? 2 : 3).join('.');
+      this.fail(`Invalid ${field ? `${field}: ` : ''}${issue.message}`, this.opStarts.get(key) ?? 0);
+    }
+    return validation.data;
+  }
+
+  private parseDirective(): void {
+    this.position++;
+    const start = this.position;
+    const key = this.identifier() ?? this.fail('Expected a directive name');
+    this.skipSpace();
+    const valueStart = this.position;
+    switch (key) {
+      case 'name':
+      case 'description':
+        this.program[key] = this.string() ?? this.fail(`@${key} needs a quoted string`);
+        break;
+      case 'schemaVersion':
+      case 'seed':
+      case 'maxDepth': {
+        const value = this.number();
+        if (value === undefined || !Number.isInteger(value)) {
+          this.fail(`@${key} needs an integer`, valueStart);
+        }
+        this.program[key] = value;
+        break;
+      }
+      case 'envelope':
+      case 'meshRepair':
+        this.program[key] = this.boolean() ?? this.fail(`@${key} needs true or false`, valueStart);
+        break;
+      default:
+        this.fail(`Unknown directive @${key}`, start);
+    }
+  }
+
+  private parseProgramAttr(): void {
+    this.position += 'attr'.length;
+    this.skipSpace();
+    const name = this.name() ?? this.fail('Expected an attribute name');
+    this.skipSpace();
+    this.expect('=');
+    this.skipSpace();
+    const start = this.position;
+    const value = this.string() ?? this.number() ?? this.boolean();
+    if (value === undefined) {
+      this.fail('Program attributes need a number, string or boolean value', start);
+    }
+    this.program.attrs = { ...this.program.attrs, [name]: value };
+  }
+
+  private parseRule(): void {
+    const start = this.position;
+    const name = this.name()!;
+    this.skipSpace();
+    this.expect('-->');
+    const isStart = name === ROOT_SHAPE_NAME;
+    if (isStart ? this.rules !== undefined : Object.prototype.hasOwnProperty.call(this.definitions, name)) {
+      this.fail(`Rule "${name}" is defined twice`, start);
+    }
+
+    const rules: Rule[] = [];
+    const listKey = isStart ? 'rules' : `definitions/${name}`;
+    this.skipSpace();
+    while (this.position < this.text.length && this.text[this.position] !== '@' && !this.atRuleHeader()) {
+      this.opStarts.set(`${listKey}/${rules.length}`, this.position);
+      rules.push(this.parseOperation());
+      this.skipSpace();
+    }
+    if (isStart) {
+      this.rules = rules;
+    } else {
+      this.definitions[name] = rules;
+    }
+  }
+
+  private parseOperation(): Rule {
+    const start = this.position;
+    const isQuoted = this.text[this.position] === '"';
+    const name = this.name() ?? this.fail('Expected an operation or rule name');
+    this.skipSpace();
+    if (isQuoted || this.text[this.position] !== '(') {
+      return { op: 'call', rule: name };
+    }
+    if (!OPERATIONS.includes(name)) {
+      this.fail(`Unknown operation "${name}"`, start);
+    }
+
+    this.position++;
+    const entries = this.readList(')');
+    const named = (key: string): Entry | undefined => {
+      const index = entries.findIndex(entry => new RegExp(`^${key}\\s*:`).test(entry.raw));
+      if (index === -1) {
+        return undefined;
+      }
+      const [entry] = entries.splice(index, 1);
+      const offset = entry.raw.indexOf(':') + 1;
+      const raw = entry.raw.slice(offset).trim();
+      return { raw, start: entry.start + entry.raw.indexOf(raw, offset) };
+    };
+    const target = named('target');
+    const rule = this.buildOperation(name, entries, named, start);
+    if (target) {
+      (rule as { target?: string }).target = this.nameFrom(target);
+    }
+    return rule;
+  }
+
+  private buildOperation(
+    name: string,
+    entries: Entry[],
+    named: (key: string) => Entry | undefined,
+    start: number
+  ): Rule {
+    const positional = (index: number, what: string): Entry => entries[index] ?? this.fail(`${name} needs ${what}`, start);
+    const keywords = <T extends string>(from: number, allowed: readonly T[], what: string, to?: number): T[] => entries.slice(from, to).map(entry => {
+      if (!(allowed as readonly string[]).includes(entry.raw)) {
+        this.fail(`Expected ${what} (${allowed.join(', ')})`, entry.start);
+      }
+      return entry.raw as T;
+    });
+    const atMost = (count: number) => {
+      if (entries.length > count) {
+        this.fail(`Unexpected argument to ${name}`, entries[count].start);
+      }
+    };
+    const sides = ['front', 'back', 'left', 'right'] as const;
+
+    switch (name) {
+      case 'extrude': {
+        atMost(2);
+        const mode = keywords(1, ['world', 'local'] as const, 'an extrude mode')[0];
+        return { op: 'extrude', h: this.numeric(positional(0, 'a height')), ...(mode ? { mode } : {}) };
+      }
+      case 'offset': {
+        atMost(2);
+        const mode = keywords(1, ['in', 'out'] as const, 'an offset mode')[0];
+        return { op: 'offset', d: this.numeric(positional(0, 'a distance')), ...(mode ? { mode } : {}) };
+      }
+      case 'setback': {
+        const edges = named('edges');
+        const d = this.numeric(positional(0, 'a distance'));
+        const faces = keywords(1, sides, 'a side');
+        if (edges) {
+          this.expression(edges);
+        }
+        return {
+          op: 'setback',
+          d,
+          ...(faces.length > 0 ? { faces } : {}),
+          ...(edges ? { edges: edges.raw } : {})
+        };
+      }
+      case 'split': {
+        atMost(1);
+        const axis = keywords(0, ['x', 'y', 'z'] as const, 'an axis')[0] ?? this.fail('split needs an axis', start);
+        const parts = this.readBlock(start, 'split needs sizes in { }').map(entry => {
+          const part = this.splitNamed(entry);
+          const size = part.value.raw === '*' ? '*' as const : this.numeric(part.value);
+          return { size, name: part.name };
+        });
+        const namedCount = parts.filter(part => part.name !== undefined).length;
+        if (namedCount !== 0 && namedCount !== parts.length) {
+          this.fail('Split parts must all be named or none', start);
+        }
+        return {
+          op: 'split',
+          axis,
+          sizes: parts.map(part => part.size),
+          ...(namedCount > 0 ? { names: parts.map(part => part.name!) } : {})
+        };
+      }
+      case 'repeat': {
+        const limit = named('limit');
+        atMost(2);
+        const axis = keywords(0, ['x', 'y', 'z'] as const, 'an axis', 1)[0] ?? this.fail('repeat needs an axis', start);
+        const step = this.numeric(positional(1, 'a step'));
+        const block = this.peekChar() === '{' ? this.readBlock(start, '') : [];
+        if (block.length > 1) {
+          this.fail('repeat names a single shape', block[1].start);
+        }
+        return {
+          op: 'repeat',
+          axis,
+          step,
+          ...(limit ? { limit: this.numeric(limit) } : {}),
+          ...(block.length === 1 ? { name: this.nameFrom(block[0]) } : {})
+        };
+      }
+      case 'roof': {
+        const height = named('height');
+        atMost(2);
+        const kind = this.stringFrom(positional(0, 'a kind'));
+        if (!['flat', 'gable', 'hip', 'shed'].includes(kind)) {
+          this.fail('Roof kind must be "flat", "gable", "hip" or "shed"', entries[0].start);
+        }
+        return {
+          op: 'roof',
+          kind: kind as 'flat' | 'gable' | 'hip' | 'shed',
+          ...(entries[1] ? { pitch: this.numeric(entries[1]) } : {}),
+          ...(height ? { height: this.numeric(height) } : {})
+        };
+      }
+      case 'textureTag': {
+        const tag = this.stringFrom(positional(0, 'a tag'));
+        const faces = keywords(1, [...sides, 'top', 'bottom'] as const, 'a face');
+        return { op: 'textureTag', tag, ...(faces.length > 0 ? { faces } : {}) };
+      }
+      case 'component': {
+        const sizes = COMPONENT_SIZES.flatMap(size => {
+          const entry = named(size);
+          return entry ? [[size, this.numeric(entry)] as const] : [];
+        });
+        const kind = this.stringFrom(positional(0, 'a kind'));
+        if (!['window', 'door', 'balcony'].includes(kind)) {
+          this.fail('Component kind must be "window", "door" or "balcony"', entries[0].start);
+        }
+        const faces = keywords(1, sides, 'a side');
+        const block = this.peekChar() === '{' ? this.readBlock(start, '') : [];
+        if (block.length > 1) {
+          this.fail('component names a single shape', block[1].start);
+        }
+        return {
+          op: 'component',
+          kind: kind as 'window' | 'door' | 'balcony',
+          ...(faces.length > 0 ? { faces } : {}),
+          ...Object.fromEntries(sizes),
+          ...(block.length === 1 ? { name: this.nameFrom(block[0]) } : {})
+        };
+      }
+      case 'envelope': {
+        const limits = ENVELOPE_LIMITS.flatMap(limit => {
+          const entry = named(limit);
+          if (entry && !NUMBER.test(entry.raw)) {
+            this.fail(`${limit} needs a number`, entry.start);
+          }
+          return entry ? [[limit, Number(entry.raw)] as const] : [];
+        });
+        atMost(0);
+        return { op: 'envelope', ...Object.fromEntries(limits) };
+      }
+      case 'set': {
+        atMost(2);
+        const attribute = this.nameFrom(positional(0, 'an attribute name'));
+        const valueEntry = positional(1, 'a value');
+        const value = literal(valueEntry.raw);
+        if (value !== undefined) {
+          return { op: 'attr', name: attribute, value };
+        }
+        return { op: 'attr', name: attribute, expr: this.expression(valueEntry) };
+      }
+      case 'call':
+        atMost(1);
+        return { op: 'call', rule: this.nameFrom(positional(0, 'a rule name')) };
+      case 'case':
+      case 'random': {
+        const fallback = named('else');
+        if (entries.length === 0) {
+          this.fail(`${name} needs at least one branch`, start);
+        }
+        const otherwise = fallback ? { else: this.nameFrom(fallback) } : {};
+        if (name === 'case') {
+          const branches = entries.map(entry => {
+            const part = this.splitNamed(entry);
+            if (part.name === undefined) {
+              this.fail('Expected condition: Rule', entry.start);
+            }
+            return { when: this.expression(part.value), rule: part.name! };
+          });
+          return { op: 'case', branches, ...otherwise };
+        }
+        const branches = entries.map(entry => {
+          const part = this.splitNamed(entry);
+          const match = /^(\S+?)\s*%$/.exec(part.value.raw);
+          if (part.name === undefined || !match || !NUMBER.test(match[1])) {
+            this.fail('Expected percent%: Rule', entry.start);
+          }
+          return { percent: Number(match![1]), rule: part.name! };
+        });
+        return { op: 'random', branches, ...otherwise };
+      }
+      default:
+        return this.fail(`Unknown operation "${name}"`, start);
+    }
+  }
+
+  /**
+   * Split `value: Name` at its last top-level colon. An entry that is a whole
+   * expression (e.g. a ternary) has no name.
+   */
+  private splitNamed(entry: Entry): { value: Entry; name?: string } {
+    if (entry.raw === '*' || isExpression(entry.raw)) {
+      return { value: entry };
+    }
+    const colon = topLevelIndexes(entry.raw, ':').pop();
+    if (colon === undefined) {
+      return { value: entry };
+    }
+    const left = entry.raw.slice(0, colon).trimEnd();
+    const right = entry.raw.slice(colon + 1).trim();
+    const name = nameLiteral(right);
+    if (name === undefined) {
+      this.fail('Expected a shape or rule name after ":"', entry.start + entry.raw.indexOf(right, colon));
+    }
+    return { value: { raw: left, start: entry.start }, name };
+  }
+
+  private numeric(entry: Entry): number | string {
+    return NUMBER.test(entry.raw) ? Number(entry.raw) : this.expression(entry);
+  }
+
+  private expression(entry: Entry): string {
+    try {
+      parseExpression(entry.raw);
+    } catch (error) {
+      const offset = error instanceof ExpressionError ? error.position ?? 0 : 0;
+      this.fail(error instanceof Error ? error.message : String(error), entry.start + offset);
+    }
+    return entry.raw;
+  }
+
+  private nameFrom(entry: Entry): string {
+    return nameLiteral(entry.raw) ?? this.fail('Expected a name', entry.start);
+  }
+
+  private stringFrom(entry: Entry): string {
+    const value = literal(entry.raw);
+    return typeof value === 'string' ? value : this.fail('Expected a quoted string', entry.start);
+  }
+
+  /**
+   * Entries of a `{ a | b }` block following an operation
+   */
+  private readBlock(start: number, missing: string): Entry[] {
+    this.skipSpace();
+    if (this.text[this.position] !== '{') {
+      this.fail(missing, start);
+    }
+    this.position++;
+    const entries = this.readList('}', '|');
+    if (entries.length === 0) {
+      this.fail('Empty { } block', start);
+    }
+    return entries;
+  }
+
+  /**
+   * Read separator-delimited raw entries up to and including `close`
+   */
+  private readList(close: string, separator = ','): Entry[] {
+    const entries: Entry[] = [];
+    const open = this.position;
+    let depth = 0;
+    let entryStart = this.position;
+    const push = (end: number) => {
+      const raw = this.text.slice(entryStart, end);
+      const trimmed = raw.trim();
+      if (trimmed) {
+        entries.push({ raw: trimmed, start: entryStart + raw.indexOf(trimmed) });
+      } else if (entries.length > 0 || this.text[end] === separator) {
+        this.fail('Empty argument', entryStart);
+      }
+    };
+
+    while (this.position < this.text.length) {
+      const char = this.text[this.position];
+      if (char === '"' || char === "'") {
+        this.skipQuoted(char);
+        continue;
+      }
+      if (depth === 0 && (char === close || char === separator)) {
+        push(this.position);
+        this.position++;
+        if (char === close) {
+          return entries;
+        }
+        entryStart = this.position;
+        continue;
+      }
+      if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      }
+      this.position++;
+    }
+    return this.fail(`Missing "${close}"`, open - 1);
+  }
+
+  private skipQuoted(quote: string): void {
+    const start = this.position++;
+    while (this.position < this.text.length && this.text[this.position] !== quote) {
+      this.position += this.text[this.position] === '\\' ? 2 : 1;
+    }
+    if (this.position >= this.text.length) {
+      this.fail('Unterminated string', start);
+    }
+    this.position++;
+  }
+
+  private atRuleHeader(): boolean {
+    const start = this.position;
+    const name = this.name();
+    this.skipSpace();
+    const isHeader = name !== undefined && this.text.startsWith('-->', this.position);
+    this.position = start;
+    return isHeader;
+  }
+
+  private name(): string | undefined {
+    return this.text[this.position] === '"' ? this.string() : this.identifier();
+  }
+
+  private identifier(): string | undefined {
+    const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(this.text.slice(this.position));
+    if (match) {
+      this.position += match[0].length;
+    }
+    return match?.[0];
+  }
+
+  private string(): string | undefined {
+    if (this.text[this.position] !== '"') {
+      return undefined;
+    }
+    const start = this.position;
+    this.skipQuoted('"');
+    try {
+      return JSON.parse(this.text.slice(start, this.position));
+    } catch {
+      return this.fail('Invalid string', start);
+    }
+  }
+
+  private number(): number | undefined {
+    const match = /^-?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(this.text.slice(this.position));
+    if (match) {
+      this.position += match[0].length;
+    }
+    return match ? Number(match[0]) : undefined;
+  }
+
+  private boolean(): boolean | undefined {
+    const match = /^(true|false)\b/.exec(this.text.slice(this.position));
+    if (match) {
+      this.position += match[0].length;
+    }
+    return match ? match[0] === 'true' : undefined;
+  }
+
+  private expect(token: string): void {
+    if (!this.text.startsWith(token, this.position)) {
+      this.fail(`Expected "${token}"`);
+    }
+    this.position += token.length;
+  }
+
+  private peekChar(): string | undefined {
+    this.skipSpace();
+    return this.text[this.position];
+  }
+
+  /**
+   * Skip whitespace and // comments
+   */
+  private skipSpace(): void {
+    while (this.position < this.text.length) {
+      if (/\s/.test(this.text[this.position])) {
+        this.position++;
+      } else if (this.text.startsWith('//', this.position)) {
+        const end = this.text.indexOf('\n', this.position);
+        this.position = end === -1 ? this.text.length : end;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private fail(message: string, at: number = this.position): never {
+    const before = this.text.slice(0, at).split('\n');
+    throw new RuleSyntaxError(message, before.length, before[before.length - 1].length + 1);
+  }
+}
+
+/**
+ * Number, quoted string or boolean written as a literal
+ */
+function literal(raw: string): string | number | boolean | undefined {
+  if (NUMBER.test(raw)) {
+    return Number(raw);
+  }
+  if (raw === 'true' || raw === 'false') {
+    return raw === 'true';
+  }
+  if (/^"(?:[^"\\]|\\.)*"$/.test(raw)) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function nameLiteral(raw: string): string | undefined {
+  if (IDENTIFIER.test(raw)) {
+    return raw;
+  }
+  const value = literal(raw);
+  return typeof value === 'string' ? value : undefined;
+}
+
+function isExpression(raw: string): boolean {
+  try {
+    parseExpression(raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offsets of `char` outside quotes and brackets
+ */
+function topLevelIndexes(text: string, char: string): number[] {
+  const indexes: number[] = [];
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"' || c === "'") {
+      i++;
+      while (i < text.length && text[i] !== c) {
+        i += text[i] === '\\' ? 2 : 1;
+      }
+    } else if ('([{'.includes(c)) {
+      depth++;
+    } else if (')]}'.includes(c)) {
+      depth--;
+    } else if (depth === 0 && c === char) {
+      indexes.push(i);
+    }
+  }
+  return indexes;
+}
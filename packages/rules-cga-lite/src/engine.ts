@@ -10,9 +10,118 @@ import {
   RepeatRule,
   SetbackRule,
   RoofRule,
-  RuleProgramSchema
+  ComponentRule,
+  EnvelopeRule,
+  AttrRule,
+  ControlRule,
+  RuleDefinitions,
+  RuleProgramSchema,
+  RuleSchema,
+  ShapeNode,
+  Resolved,
+  LotEdge,
+  EdgeSide,
+  Zone,
+  ZoningLimits,
+  MigrationReport,
+  EXPRESSION_PARAMETERS
 } from './types';
-import { validateGeometryForRules, calculatePolygonArea, COMMON_CRS } from './utils/crs';
+import { ExpressionValue, evaluateExpression, evaluateNumber, parseExpression } from './expressions';
+import { createRandom, hashSeed } from './utils/random';
+import {
+  validateGeometryForRules,
+  calculatePolygonArea,
+  canTransform,
+  crsCode,
+  reprojectCoordinates,
+  utmCRSFor,
+  LOCAL_CRS
+} from './utils/crs';
+import { ShapeTree, ShapeSpec } from './shapes';
+import { CURRENT_SCHEMA_VERSION, migrateProgram, programSchemaVersion } from './migrations';
+import {
+  footprintOf,
+  footprintHoles,
+  polygonArea,
+  elevationRange,
+  geometryBounds,
+  buildPrism,
+  sliceGeometry,
+  mergeGeometries,
+  openRing,
+  signedRingArea
+} from './utils/geometry';
+import { insetPolygon, outsetPolygon, PolygonPart } from './utils/offset';
+import { buildRoof } from './utils/roof';
+import { annotateLotEdges, edgeSides, frontageDirection, inheritEdges } from './utils/edges';
+import { buildComponent, COMPONENT_DEFAULTS, COMPONENT_NAMES, facadeWalls, wallArea } from './utils/facade';
+import { geometryVolume } from './utils/mesh';
+import { describeMeshIssues, repairMesh, validateMesh } from './utils/validity';
+import {
+  buildEnvelopeSolid,
+  clipFootprint,
+  EnvelopeConstraint,
+  envelopeParts,
+  envelopeVolume,
+  flatTop,
+  planeAt,
+  skyExposurePlanes,
+  TopPlane,
+  zoneAt
+} from './utils/zoning';
+
+// Default limit for nested `call` operations
+export const DEFAULT_MAX_RULE_DEPTH = 32;
+
+// Roof pitch in degrees when a roof rule gives neither pitch nor height
+export const DEFAULT_ROOF_PITCH = 30;
+
+// Storey height used to count floors when a shape has no floorHeight attribute
+export const DEFAULT_FLOOR_HEIGHT = 3;
+
+// Envelope constraints in the order they are reported
+const ENVELOPE_CONSTRAINTS: EnvelopeConstraint[] = ['setback', 'height', 'skyExposure', 'far'];
+
+// Bisection steps for the floor area ratio cap, and the floor area (square metres) it may overshoot by
+const FAR_ITERATIONS = 50;
+const FLOOR_AREA_TOLERANCE = 1e-6;
+
+// Footprint area (square metres) and height (metres) changes below which a limit does not count as cutting a shape
+const AREA_TOLERANCE = 1e-6;
+const HEIGHT_TOLERANCE = 1e-9;
+
+// Rule whose expression parameters have been evaluated for one shape
+type ResolvedRule = Resolved<Exclude<Rule, ControlRule>>;
+
+// Operation result that may subdivide the shape it was applied to
+interface OperationResult extends RuleExecutionResult {
+  children?: ShapeSpec[];
+}
+
+// Mutable state threaded through one program execution
+interface ExecutionState {
+  tree: ShapeTree;
+  context: GeometryContext;
+  definitions: RuleDefinitions;
+  maxDepth: number;
+  seed: number;
+  callStack: Array<{ rule: string; shapeId: string }>;
+  attributes: Record<string, any>;
+  totalHeight: number;
+  totalVolume: number;
+  extrudeCount: number; // Track extrude operations for stepped buildings
+  meshRepair: boolean;
+  onRule?: ExecuteProgramOptions['onRule'];
+}
+
+export interface RulesEngineOptions {
+  migrate?: boolean; // Upgrade programs of an older schemaVersion before running them (default true); refuse them when false
+}
+
+export interface ExecuteProgramOptions {
+  // Called with the result so far before the first top-level rule (applied 0) and after each one
+  onRule?: (applied: number, snapshot: RuleExecutionResult) => void;
+}
 
 /**
  * CGA-lite Rules Engine - Minimal implementation of CityEngine-like procedural rules
@@ -21,6 +130,8 @@ import { validateGeometryForRules, calculatePolygonArea, COMMON_CRS } from './ut
 export class RulesEngine {
   private operationCount = 0;
   
+  constructor(private readonly options: RulesEngineOptions = {}) {}
+  
   /**
    * Execute a rule program on a given geometry context (alias for tests)
    */
@@ -31,7 +142,11 @@ export class RulesEngine {
   /**
    * Execute a rule program on a given geometry context
    */
-  async executeProgram(program: RuleProgram, context: GeometryContext): Promise<RuleExecutionResult> {
+  async executeProgram(
+    program: RuleProgram,
+    context: GeometryContext,
+    options: ExecuteProgramOptions = {}
+  ): Promise<RuleExecutionResult> {
     const startTime = Date.now();
     this.operationCount = 0;
     
@@ -64,13 +179,71 @@ export class RulesEngine {
       };
     }
     
+    // Programs written for an older schema are upgraded first, or refused
+    const schemaVersion = programSchemaVersion(validProgram);
+    let migration: MigrationReport | undefined;
+    if (schemaVersion !== CURRENT_SCHEMA_VERSION) {
+      let versionError: string | undefined;
+      if (schemaVersion < CURRENT_SCHEMA_VERSION && this.options.migrate === false) {
+        versionError = `Rule program is schema version ${schemaVersion}; migrate it to version ${CURRENT_SCHEMA_VERSION} before running it`;
+      } else {
+        try {
+          const { program: migrated, ...report } = migrateProgram(validProgram);
+          validProgram = migrated;
+          migration = report;
+        } catch (error) {
+          versionError = error instanceof Error ? error.message : String(error);
+        }
+      }
+      
+      if (versionError) {
+        return {
+          success: false,
+          attributes: context.attributes,
+          error: versionError,
+          metadata: {
+            operationCount: 0,
+            executionTimeMs: Date.now() - startTime
+          }
+        };
+      }
+    }
+    
+    const definitions = validProgram.definitions || {};
+    const undefinedCalls = this.findUndefinedCalls(validProgram.rules, definitions);
+    if (undefinedCalls.length > 0) {
+      return {
+        success: false,
+        attributes: context.attributes,
+        error: `Unknown rule: ${undefinedCalls.join(', ')}`,
+        metadata: {
+          operationCount: 0,
+          executionTimeMs: Date.now() - startTime
+        }
+      };
+    }
+    
+    const expressionErrors = this.findExpressionErrors(validProgram.rules, definitions);
+    if (expressionErrors.length > 0) {
+      return {
+        success: false,
+        attributes: context.attributes,
+        error: `Invalid expression: ${expressionErrors.join('; ')}`,
+        metadata: {
+          operationCount: 0,
+          executionTimeMs: Date.now() - startTime
+        }
+      };
+    }
+    
     try {
       
-      // Validate geometry for rule application (use permissive validation for testing)
-      const geometryValidation = validateGeometryForRules(
-        context.polygon, 
-        { epsg: 3857, name: 'Local Test CRS', units: 'meters', type: 'projected' } // Permissive CRS for testing
-      );
+      // Metrics are computed in the context's CRS; degrees are projected to metres first
+      const lot = this.projectedContext(context);
+      const crs = lot.crs ?? LOCAL_CRS;
+      
+      // Validate geometry for rule application in that CRS
+      const geometryValidation = validateGeometryForRules(lot.polygon, crs, lot.holes);
       
       if (!geometryValidation.valid) {
         return {
@@ -84,56 +257,63 @@ export class RulesEngine {
         };
       }
       
-      let currentGeometry = this.createInitialGeometry(context);
-      let attributes: Record<string, any> = { 
+      const attributes: Record<string, any> = { 
         ...context.attributes, 
         ...validProgram.attrs,
         baseArea: calculatePolygonArea({
-          coordinates: context.polygon,
-          crs: COMMON_CRS.BUENOS_AIRES_UTM
+          coordinates: lot.polygon,
+          holes: lot.holes,
+          crs
         })
       };
+      const tree = new ShapeTree(this.createInitialGeometry(lot), attributes);
+      const state: ExecutionState = {
+        tree,
+        context: this.withLotEdges(lot),
+        definitions,
+        maxDepth: validProgram.maxDepth ?? DEFAULT_MAX_RULE_DEPTH,
+        seed: validProgram.seed ?? 0,
+        callStack: [],
+        attributes,
+        totalHeight: 0,
+        totalVolume: 0,
+        extrudeCount: 0,
+        meshRepair: validProgram.meshRepair ?? true,
+        onRule: options.onRule
+      };
       
-      let totalHeight = 0;
-      let totalVolume = 0;
-      let extrudeCount = 0; // Track extrude operations for stepped buildings
+      state.onRule?.(0, this.snapshot(state));
+      const listResult = await this.executeRuleList(validProgram.rules, tree.rootId, state, 'rules');
+      if (!listResult.success) {
+        return listResult;
+      }
       
-      for (const rule of validProgram.rules) {
-        const result = await this.executeRule(rule, currentGeometry, attributes, context);
-        if (!result.success) {
-          return result;
+      if (validProgram.envelope) {
+        const envelopeResult = this.executeEnvelope({ op: 'envelope' }, tree.leaves(), state);
+        if (!envelopeResult.success) {
+          return envelopeResult;
         }
-        currentGeometry = result.geometry || currentGeometry;
-        attributes = { ...attributes, ...result.attributes };
-        
-        // Track cumulative metrics differently for different operations
-        if (rule.op === 'extrude') {
-          if (extrudeCount === 0) {
-            // First extrude sets the base height
-            totalHeight = result.attributes.height || 0;
-          } else {
-            // Subsequent extrudes add to height (for stepped buildings)
-            totalHeight += result.attributes.height || 0;
-          }
-          extrudeCount++;
-        }
-        
-        // Only accumulate volume from extrude operations
-        if (rule.op === 'extrude' && result.attributes.volume) {
-          totalVolume += result.attributes.volume;
-        }
-        
         this.operationCount++;
       }
       
       // Add final cumulative attributes
-      attributes.totalHeight = totalHeight;
-      attributes.totalVolume = totalVolume;
+      state.attributes.totalHeight = state.totalHeight;
+      state.attributes.totalVolume = state.totalVolume;
+      
+      const leaves = tree.leaves();
+      Object.assign(state.attributes, this.facadeMetrics(tree, leaves));
+      this.checkMeshes(leaves, state.meshRepair, state.attributes);
       
       return {
         success: true,
-        geometry: currentGeometry,
-        attributes,
+        geometry: leaves.length === 1
+          ? leaves[0].geometry
+          : mergeGeometries(leaves.map(leaf => leaf.geometry), { leafCount: leaves.length }),
+        shapes: tree.all(),
+        leaves,
+        attributes: state.attributes,
+        crsCode: crsCode(crs),
+        ...(migration ? { migration } : {}),
         metadata: {
           operationCount: this.operationCount,
           executionTimeMs: Date.now() - startTime
@@ -153,14 +333,338 @@ export class RulesEngine {
   }
   
   /**
-   * Execute a single rule operation
+   * Execute a list of rules on the leaves of a subtree.
+   * `location` names the list in error messages ('rules' or 'definitions.<name>').
+   */
+  private async executeRuleList(
+    rules: Rule[],
+    scopeId: string,
+    state: ExecutionState,
+    location: string
+  ): Promise<RuleExecutionResult> {
+    for (const [index, rule] of rules.entries()) {
+      // Apply the rule to every leaf it targets (all leaves when untargeted)
+      const targets = state.tree.leaves(scopeId).filter(shape => !rule.target || shape.name === rule.target);
+      let ruleHeight = 0;
+      
+      // The envelope clips all targets at once, since floor area counts over the lot
+      if (rule.op === 'envelope') {
+        const envelopeResult = this.executeEnvelope(rule, targets, state);
+        if (!envelopeResult.success) {
+          return envelopeResult;
+        }
+        this.operationCount++;
+        if (location === 'rules') {
+          state.onRule?.(index + 1, this.snapshot(state));
+        }
+        continue;
+      }
+      
+      for (const shape of targets) {
+        if (rule.op === 'call' || rule.op === 'case' || rule.op === 'random') {
+          const selection = this.selectRule(rule, shape, state, `${location}[${index}]`);
+          if ('error' in selection) {
+            return { success: false, attributes: state.attributes, error: selection.error };
+          }
+          if (selection.rule) {
+            const callResult = await this.executeCall(selection.rule, shape, state);
+            if (!callResult.success) {
+              return callResult;
+            }
+          }
+          continue;
+        }
+        
+        const resolved = this.resolveRule(rule, shape, `${location}[${index}]`);
+        if ('error' in resolved) {
+          return { success: false, attributes: state.attributes, error: resolved.error };
+        }
+        
+        const mass = rule.op === 'component' ? this.facadeMass(state.tree, shape).geometry : undefined;
+        const result = await this.executeRule(resolved.rule, shape.geometry, shape.attributes, this.createShapeContext(state.context, shape), mass);
+        if (!result.success) {
+          return result;
+        }
+        shape.geometry = result.geometry || shape.geometry;
+        shape.attributes = result.attributes;
+        if (result.children && result.children.length > 0) {
+          state.tree.subdivide(shape.id, result.children);
+        }
+        state.attributes = { ...state.attributes, ...result.attributes };
+        
+        // Only accumulate volume from extrude operations
+        if (rule.op === 'extrude') {
+          ruleHeight = Math.max(ruleHeight, result.attributes.height || 0);
+          state.totalVolume += result.attributes.volume || 0;
+        }
+      }
+      
+      // Track cumulative height differently for different operations
+      if (rule.op === 'extrude' && targets.length > 0) {
+        if (state.extrudeCount === 0) {
+          // First extrude sets the base height
+          state.totalHeight = ruleHeight;
+        } else {
+          // Subsequent extrudes add to height (for stepped buildings)
+          state.totalHeight += ruleHeight;
+        }
+        state.extrudeCount++;
+      }
+      
+      this.operationCount++;
+      if (location === 'rules') {
+        state.onRule?.(index + 1, this.snapshot(state));
+      }
+    }
+    
+    return { success: true, attributes: state.attributes };
+  }
+  
+  /**
+   * Pick the named rule a control operation runs on a shape:
+   * `call` names it, `case` takes the first branch whose condition holds and
+   * `random` draws a branch from the program seed. Undefined means no branch applies.
+   */
+  private selectRule(
+    rule: ControlRule,
+    shape: ShapeNode,
+    state: ExecutionState,
+    location: string
+  ): { rule?: string } | { error: string } {
+    switch (rule.op) {
+      case 'call':
+        return { rule: rule.rule };
+      case 'case': {
+        const variables = this.expressionVariables(shape.attributes, shape.geometry);
+        for (const [index, branch] of rule.branches.entries()) {
+          try {
+            if (evaluateExpression(branch.when, variables)) {
+              return { rule: branch.rule };
+            }
+          } catch (error) {
+            return { error: `${location} (case) branches[${index}].when: ${error instanceof Error ? error.message : String(error)}` };
+          }
+        }
+        return { rule: rule.else };
+      }
+      case 'random': {
+        // Seeded by shape and rule position so draws do not depend on execution order
+        const draw = createRandom(hashSeed(state.seed, shape.id, location))() * 100;
+        let cumulative = 0;
+        for (const branch of rule.branches) {
+          cumulative += branch.percent;
+          if (draw < cumulative) {
+            return { rule: branch.rule };
+          }
+        }
+        return { rule: rule.else };
+      }
+    }
+  }
+  
+  /**
+   * Execute call operation - run a named rule on a shape's subtree.
+   * Guards against cycles (same rule re-entered on the same shape) and
+   * against nesting deeper than the program's maxDepth.
+   */
+  private async executeCall(ruleName: string, shape: ShapeNode, state: ExecutionState): Promise<RuleExecutionResult> {
+    const chain = [...state.callStack.map(frame => frame.rule), ruleName].join(' -> ');
+    
+    if (state.callStack.some(frame => frame.rule === ruleName && frame.shapeId === shape.id)) {
+      return {
+        success: false,
+        attributes: state.attributes,
+        error: `Rule cycle detected on shape "${shape.name}": ${chain}`
+      };
+    }
+    
+    if (state.callStack.length >= state.maxDepth) {
+      return {
+        success: false,
+        attributes: state.attributes,
+        error: `Maximum rule depth (${state.maxDepth}) exceeded: ${chain}`
+      };
+    }
+    
+    state.callStack.push({ rule: ruleName, shapeId: shape.id });
+    try {
+      return await this.executeRuleList(state.definitions[ruleName], shape.id, state, `definitions.${ruleName}`);
+    } finally {
+      state.callStack.pop();
+    }
+  }
+  
+  /**
+   * Collect rules named by `call`, `case` or `random` that have no matching definition
+   */
+  private findUndefinedCalls(rules: Rule[], definitions: RuleDefinitions): string[] {
+    const missing = new Set<string>();
+    const bodies = [rules, ...Object.values(definitions)];
+    for (const body of bodies) {
+      for (const rule of body) {
+        for (const name of this.referencedRules(rule)) {
+          if (!Object.prototype.hasOwnProperty.call(definitions, name)) {
+            missing.add(name);
+          }
+        }
+      }
+    }
+    return Array.from(missing);
+  }
+  
+  /**
+   * Names of the definitions a rule may invoke
+   */
+  private referencedRules(rule: Rule): string[] {
+    switch (rule.op) {
+      case 'call':
+        return [rule.rule];
+      case 'case':
+      case 'random': {
+        const names = rule.branches.map(branch => branch.rule);
+        return rule.else ? [...names, rule.else] : names;
+      }
+      default:
+        return [];
+    }
+  }
+  
+  /**
+   * Parse every expression of a program up front so syntax errors are
+   * reported before any geometry is built
+   */
+  private findExpressionErrors(rules: Rule[], definitions: RuleDefinitions): string[] {
+    const errors: string[] = [];
+    const lists: Array<[string, Rule[]]> = [
+      ['rules', rules],
+      ...Object.entries(definitions).map(([name, body]): [string, Rule[]] => [`definitions.${name}`, body])
+    ];
+    
+    for (const [location, list] of lists) {
+      list.forEach((rule, index) => {
+        const prefix = `${location}[${index}] (${rule.op})`;
+        if (rule.op === 'attr' && (rule.value === undefined) === (rule.expr === undefined)) {
+          errors.push(`${prefix} ${rule.name}: attr needs exactly one of value or expr`);
+        }
+        const parameters = rule.op === 'case'
+          ? rule.branches.map((branch, i): [string, string] => [`branches[${i}].when`, branch.when])
+          : this.expressionParameters(rule);
+        if (rule.op === 'setback' && rule.edges !== undefined) {
+          parameters.push(['edges', rule.edges]);
+        }
+        for (const [field, value] of parameters) {
+          try {
+            parseExpression(value);
+          } catch (error) {
+            errors.push(`${prefix} ${field}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      });
+    }
+    return errors;
+  }
+  
+  /**
+   * List the expression-valued parameters of a rule as [field, source] pairs
+   */
+  private expressionParameters(rule: Rule): Array<[string, string]> {
+    const parameters: Array<[string, string]> = [];
+    for (const field of EXPRESSION_PARAMETERS[rule.op] || []) {
+      const value = (rule as Record<string, unknown>)[field];
+      if (Array.isArray(value)) {
+        value.forEach((item, i) => {
+          if (typeof item === 'string' && item !== '*') {
+            parameters.push([`${field}[${i}]`, item]);
+          }
+        });
+      } else if (typeof value === 'string') {
+        parameters.push([field, value]);
+      }
+    }
+    return parameters;
+  }
+  
+  /**
+   * Evaluate a rule's expression parameters against one shape and check the
+   * results against the rule schema
+   */
+  private resolveRule(
+    rule: Exclude<Rule, ControlRule>,
+    shape: ShapeNode,
+    location: string
+  ): { rule: ResolvedRule } | { error: string } {
+    const parameters = this.expressionParameters(rule);
+    if (parameters.length === 0) {
+      return { rule: rule as ResolvedRule };
+    }
+    
+    const prefix = `${location} (${rule.op})`;
+    const variables = this.expressionVariables(shape.attributes, shape.geometry);
+    const resolved: Record<string, any> = { ...rule };
+    
+    for (const [field, source] of parameters) {
+      try {
+        if (rule.op === 'attr') {
+          resolved.value = evaluateExpression(source, variables);
+          delete resolved.expr;
+        } else if (field.endsWith(']')) {
+          const [name, i] = field.slice(0, -1).split('[');
+          resolved[name] = [...resolved[name]];
+          resolved[name][Number(i)] = evaluateNumber(source, variables);
+        } else {
+          resolved[field] = evaluateNumber(source, variables);
+        }
+      } catch (error) {
+        return { error: `${prefix} ${field}: ${error instanceof Error ? error.message : String(error)}` };
+      }
+    }
+    
+    const validation = RuleSchema.safeParse(resolved);
+    if (!validation.success) {
+      const issue = validation.error.issues[0];
+      return { error: `${prefix} ${issue.path.join('.')}: ${issue.message} (got ${JSON.stringify(this.valueAt(resolved, issue.path))})` };
+    }
+    return { rule: validation.data as ResolvedRule };
+  }
+  
+  /**
+   * Variables visible to expressions: the shape's scalar attributes plus its
+   * scope size (scope.sx, scope.sy, scope.sz) and footprint area (geometry.area)
+   */
+  private expressionVariables(attributes: Record<string, any>, geometry: SimpleGeometry): Record<string, ExpressionValue> {
+    const variables: Record<string, ExpressionValue> = {};
+    for (const [name, value] of Object.entries(attributes)) {
+      if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+        variables[name] = value;
+      }
+    }
+    
+    const { min, max } = geometryBounds(geometry);
+    variables['scope.sx'] = max.x - min.x;
+    variables['scope.sy'] = max.y - min.y;
+    variables['scope.sz'] = max.z - min.z;
+    variables['geometry.area'] = polygonArea(footprintOf(geometry), footprintHoles(geometry));
+    return variables;
+  }
+  
+  /**
+   * Helper: Read a nested value by zod issue path
+   */
+  private valueAt(value: any, path: Array<string | number>): unknown {
+    return path.reduce((current, key) => current?.[key], value);
+  }
+  
+  /**
+   * Execute a single rule operation. `mass` is the solid a component's
+   * facade walls are taken from.
    */
   private async executeRule(
-    rule: Rule, 
+    rule: ResolvedRule, 
     geometry: SimpleGeometry, 
     attributes: Record<string, any>,
-    context: GeometryContext
-  ): Promise<RuleExecutionResult> {
+    context: GeometryContext,
+    mass: SimpleGeometry = geometry
+  ): Promise<OperationResult> {
     try {
       switch (rule.op) {
         case 'extrude':
@@ -177,6 +681,8 @@ export class RulesEngine {
           return this.executeRoof(rule, geometry, attributes, context);
         case 'textureTag':
           return this.executeTextureTag(rule, geometry, attributes);
+        case 'component':
+          return this.executeComponent(rule, geometry, attributes, mass);
         case 'attr':
           return this.executeAttr(rule, geometry, attributes);
         default:
@@ -195,6 +701,75 @@ export class RulesEngine {
     }
   }
   
+  /**
+   * Resolve the lot's edge metadata, deriving street frontage from nearby
+   * roads when the context gives roads but no edges
+   */
+  private withLotEdges(context: GeometryContext): GeometryContext {
+    if (context.edges || !context.roads) {
+      return context;
+    }
+    return { ...context, edges: annotateLotEdges(context.polygon, { roads: context.roads }) };
+  }
+  
+  /**
+   * Context in a CRS measured in metres: geographic lots, holes, roads and zones are
+   * reprojected to the WGS 84 / UTM zone of the lot, other contexts are kept
+   */
+  private projectedContext(context: GeometryContext): GeometryContext {
+    if (!context.crs || context.crs.units !== 'degrees') {
+      return context;
+    }
+    if (!canTransform(context.crs)) {
+      throw new Error(`Cannot compute metrics in degrees: no projection for EPSG:${context.crs.epsg} (${context.crs.name})`);
+    }
+    const [longitude, latitude] = this.calculateCentroid(openRing(context.polygon));
+    const target = utmCRSFor(longitude, latitude);
+    const project = (coordinates: number[][]) => reprojectCoordinates(coordinates, context.crs!, target);
+    const polygon = project(context.polygon);
+    const xs = polygon.map(point => point[0]);
+    const ys = polygon.map(point => point[1]);
+    return {
+      ...context,
+      crs: target,
+      polygon,
+      ...(context.holes ? { holes: context.holes.map(project) } : {}),
+      ...(context.roads ? { roads: context.roads.map(road => ({ ...road, coordinates: project(road.coordinates) })) } : {}),
+      ...(context.zones ? {
+        zones: context.zones.map(zone => ({
+          ...zone,
+          polygon: project(zone.polygon),
+          ...(zone.holes ? { holes: zone.holes.map(project) } : {})
+        }))
+      } : {}),
+      boundingBox: {
+        min: { x: Math.min(...xs), y: Math.min(...ys), z: context.boundingBox.min.z },
+        max: { x: Math.max(...xs), y: Math.max(...ys), z: context.boundingBox.max.z }
+      }
+    };
+  }
+  
+  /**
+   * Narrow the execution context to a single shape of the tree. Edges of the
+   * shape's footprint take over the metadata of the lot edge they lie along,
+   * and every edge gets its side relative to the lot's street frontage.
+   */
+  private createShapeContext(context: GeometryContext, shape: ShapeNode): GeometryContext {
+    const polygon = footprintOf(shape.geometry);
+    const shapeContext: GeometryContext = {
+      ...context,
+      polygon,
+      holes: footprintHoles(shape.geometry),
+      boundingBox: geometryBounds(shape.geometry)
+    };
+    if (context.edges) {
+      const edges = inheritEdges(polygon, context.polygon, context.edges);
+      const sides = edgeSides(polygon, edges, frontageDirection(context.polygon, context.edges));
+      shapeContext.edges = edges.map((edge, i) => ({ ...edge, side: sides[i] }));
+    }
+    return shapeContext;
+  }
+  
   /**
    * Create initial 2D polygon geometry from context
    */
@@ -202,6 +777,7 @@ export class RulesEngine {
     return {
       type: 'polygon',
       vertices: context.polygon,
+      ...(context.holes && context.holes.length > 0 ? { holes: context.holes.map(openRing) } : {}),
       attributes: context.attributes
     };
   }
@@ -210,7 +786,7 @@ export class RulesEngine {
    * Execute extrude operation - create 3D solid from 2D polygon
    */
   private executeExtrude(
-    rule: ExtrudeRule, 
+    rule: Resolved<ExtrudeRule>, 
     geometry: SimpleGeometry, 
     attributes: Record<string, any>,
     context: GeometryContext
@@ -225,42 +801,18 @@ export class RulesEngine {
         };
       }
       
-      // Create 3D vertices by extruding polygon upward
-      const vertices3D = [];
-      const faces = [];
-      
-      // Bottom face vertices
-      for (const vertex of geometry.vertices) {
-        vertices3D.push([vertex[0], vertex[1], 0]);
-      }
-      
-      // Top face vertices
-      for (const vertex of geometry.vertices) {
-        vertices3D.push([vertex[0], vertex[1], rule.h]);
-      }
+      // Create 3D prism by extruding the footprint upward from the shape's base
+      const footprint = openRing(footprintOf(geometry));
+      const holes = footprintHoles(geometry);
+      const base = elevationRange(geometry).min;
+      const prism = buildPrism(footprint, base, base + rule.h, holes);
       
-      // Create faces
-      const n = geometry.vertices.length;
-      
-      // Bottom face
-      faces.push(Array.from({ length: n }, (_, i) => i));
-      
-      // Top face (reversed for correct normal)
-      faces.push(Array.from({ length: n }, (_, i) => n + n - 1 - i));
-      
-      // Side faces
-      for (let i = 0; i < n; i++) {
-        const next = (i + 1) % n;
-        faces.push([i, next, n + next, n + i]);
-      }
-      
-      const currentArea = this.calculateArea(geometry.vertices);
+      const currentArea = polygonArea(footprint, holes);
       const volume = currentArea * rule.h;
       
       const extrudedGeometry: SimpleGeometry = {
         type: 'solid',
-        vertices: vertices3D,
-        faces,
+        ...prism,
         attributes: {
           ...geometry.attributes,
           height: rule.h,
@@ -290,40 +842,25 @@ export class RulesEngine {
   }
   
   /**
-   * Execute offset operation - shrink or expand polygon
+   * Execute offset operation - shrink or expand the footprint.
+   * Works on any simple polygon; an inward offset that pinches the footprint
+   * into several parts emits one child shape per part.
    */
   private executeOffset(
-    rule: OffsetRule,
+    rule: Resolved<OffsetRule>,
     geometry: SimpleGeometry,
     attributes: Record<string, any>,
     context: GeometryContext
-  ): RuleExecutionResult {
+  ): OperationResult {
     try {
       const isOutward = rule.mode === 'out';
-      const distance = isOutward ? rule.d : -rule.d;
-      
-      // Check if inward offset is too large
-      if (!isOutward) {
-        const minDimension = Math.min(
-          context.boundingBox.max.x - context.boundingBox.min.x,
-          context.boundingBox.max.y - context.boundingBox.min.y
-        );
-        
-        if (rule.d >= minDimension / 2) {
-          return {
-            success: false,
-            attributes,
-            error: 'Inward offset too large - would eliminate geometry'
-          };
-        }
-      }
+      const footprint = openRing(footprintOf(geometry));
+      const holes = footprintHoles(geometry);
+      const parts = isOutward
+        ? outsetPolygon(footprint, holes, rule.d)
+        : insetPolygon(footprint, holes, footprint.map(() => rule.d), rule.d);
       
-      // Simplified offset implementation for rectangular polygons
-      // For a square/rectangle, inward offset shrinks by distance on all sides
-      // outward offset expands by distance on all sides
-      const offsetVertices = this.offsetRectangularPolygon(geometry.vertices, rule.d, isOutward);
-      
-      if (offsetVertices.length === 0) {
+      if (parts.length === 0) {
         return {
           success: false,
           attributes,
@@ -331,29 +868,13 @@ export class RulesEngine {
         };
       }
       
-      const newArea = this.calculateArea(offsetVertices);
-      
-      const offsetGeometry: SimpleGeometry = {
-        type: 'polygon',
-        vertices: offsetVertices,
-        attributes: {
-          ...geometry.attributes,
-          offsetDistance: rule.d,
-          offsetMode: rule.mode || 'in',
-          area: newArea
-        }
+      const offsetAttributes = {
+        offsetDistance: rule.d,
+        offsetMode: rule.mode || 'in',
+        area: parts.reduce((sum, part) => sum + polygonArea(part.ring, part.holes), 0)
       };
       
-      return {
-        success: true,
-        geometry: offsetGeometry,
-        attributes: {
-          ...attributes,
-          offsetDistance: rule.d,
-          offsetMode: rule.mode || 'in',
-          area: newArea
-        }
-      };
+      return this.footprintResult(parts, 'offsetPart', geometry, { ...attributes, ...offsetAttributes }, offsetAttributes);
     } catch (error) {
       return {
         success: false,
@@ -364,18 +885,26 @@ export class RulesEngine {
   }
   
   /**
-   * Execute split operation - divide geometry along axis
+   * Execute split operation - divide the shape into child shapes along axis
    */
   private executeSplit(
-    rule: SplitRule,
+    rule: Resolved<SplitRule>,
     geometry: SimpleGeometry,
     attributes: Record<string, any>,
     context: GeometryContext
-  ): RuleExecutionResult {
+  ): OperationResult {
     try {
       const { min, max } = context.boundingBox;
-      const axisSize = rule.axis === 'x' ? (max.x - min.x) : 
-                     rule.axis === 'y' ? (max.y - min.y) : (max.z - min.z);
+      const axisStart = min[rule.axis];
+      const axisSize = max[rule.axis] - axisStart;
+      
+      if (rule.names && rule.names.length !== rule.sizes.length) {
+        return {
+          success: false,
+          attributes,
+          error: `Split names (${rule.names.length}) must match split sizes (${rule.sizes.length})`
+        };
+      }
       
       // Calculate total of fixed sizes
       const fixedSizes = rule.sizes.filter(s => typeof s === 'number') as number[];
@@ -395,27 +924,44 @@ export class RulesEngine {
       const remainingSize = axisSize - totalFixed;
       const flexibleSize = flexibleCount > 0 ? remainingSize / flexibleCount : 0;
       
-      // For now, return the original geometry with split metadata
-      // Full implementation would divide the geometry based on the axis and sizes
+      const splitAttributes = {
+        splitAxis: rule.axis,
+        splitSizes: rule.sizes,
+        splitParts: rule.sizes.length,
+        flexibleSize
+      };
+      
+      // Cut one child per size; parts left empty (e.g. '*' with no room) are dropped
+      const children: ShapeSpec[] = [];
+      let cursor = axisStart;
+      rule.sizes.forEach((size, index) => {
+        const partSize = size === '*' ? flexibleSize : size;
+        const part = sliceGeometry(geometry, rule.axis, cursor, cursor + partSize);
+        if (part && partSize > 0) {
+          const childAttributes = { ...attributes, splitIndex: index, splitSize: partSize };
+          children.push({
+            name: rule.names?.[index],
+            geometry: { ...part, attributes: { ...part.attributes, splitIndex: index, splitSize: partSize } },
+            attributes: childAttributes
+          });
+        }
+        cursor += partSize;
+      });
+      
       return {
         success: true,
         geometry: {
           ...geometry,
           attributes: {
             ...geometry.attributes,
-            splitAxis: rule.axis,
-            splitSizes: rule.sizes,
-            splitParts: rule.sizes.length,
-            flexibleSize
+            ...splitAttributes
           }
         },
         attributes: {
           ...attributes,
-          splitAxis: rule.axis,
-          splitSizes: rule.sizes,
-          splitParts: rule.sizes.length,
-          flexibleSize
-        }
+          ...splitAttributes
+        },
+        children
       };
     } catch (error) {
       return {
@@ -427,21 +973,44 @@ export class RulesEngine {
   }
   
   /**
-   * Execute repeat operation - repeat geometry along axis
+   * Execute repeat operation - tile the shape into child shapes along axis.
+   * Tiles stretch to fill the shape unless `limit` caps the count, in which
+   * case they keep the exact step size.
    */
   private executeRepeat(
-    rule: RepeatRule,
+    rule: Resolved<RepeatRule>,
     geometry: SimpleGeometry,
     attributes: Record<string, any>,
     context: GeometryContext
-  ): RuleExecutionResult {
+  ): OperationResult {
     try {
       const { min, max } = context.boundingBox;
-      const axisSize = rule.axis === 'x' ? (max.x - min.x) : 
-                     rule.axis === 'y' ? (max.y - min.y) : (max.z - min.z);
+      const axisStart = min[rule.axis];
+      const axisSize = max[rule.axis] - axisStart;
       
-      const repeatCount = rule.limit ? Math.min(rule.limit, Math.floor(axisSize / rule.step)) 
-                                     : Math.floor(axisSize / rule.step);
+      const fitCount = Math.floor(axisSize / rule.step);
+      const repeatCount = rule.limit ? Math.min(rule.limit, fitCount) : fitCount;
+      const tileSize = repeatCount < fitCount || repeatCount === 0 ? rule.step : axisSize / repeatCount;
+      
+      const repeatAttributes = {
+        repeatAxis: rule.axis,
+        repeatStep: rule.step,
+        repeatCount,
+        repeatTileSize: tileSize
+      };
+      
+      const children: ShapeSpec[] = [];
+      for (let index = 0; index < repeatCount; index++) {
+        const lo = axisStart + index * tileSize;
+        const part = sliceGeometry(geometry, rule.axis, lo, lo + tileSize);
+        if (part) {
+          children.push({
+            name: rule.name,
+            geometry: { ...part, attributes: { ...part.attributes, repeatIndex: index } },
+            attributes: { ...attributes, repeatIndex: index }
+          });
+        }
+      }
       
       return {
         success: true,
@@ -449,17 +1018,14 @@ export class RulesEngine {
           ...geometry,
           attributes: {
             ...geometry.attributes,
-            repeatAxis: rule.axis,
-            repeatStep: rule.step,
-            repeatCount
+            ...repeatAttributes
           }
         },
         attributes: {
           ...attributes,
-          repeatAxis: rule.axis,
-          repeatStep: rule.step,
-          repeatCount
-        }
+          ...repeatAttributes
+        },
+        children
       };
     } catch (error) {
       return {
@@ -471,22 +1037,38 @@ export class RulesEngine {
   }
   
   /**
-   * Execute setback operation - inset specific faces
+   * Execute setback operation - inset the footprint edges facing the given sides
+   * and matching the optional `edges` selector. Sides follow the lot's street
+   * frontage when the context has edge metadata, and the outward normal
+   * otherwise (front = -y, back = +y, left = -x, right = +x).
    */
   private executeSetback(
-    rule: SetbackRule,
+    rule: Resolved<SetbackRule>,
     geometry: SimpleGeometry,
     attributes: Record<string, any>,
     context: GeometryContext
-  ): RuleExecutionResult {
+  ): OperationResult {
     try {
       const faces = rule.faces || ['front', 'back', 'left', 'right'];
+      const footprint = openRing(footprintOf(geometry));
+      const edges = context.edges && context.edges.length === footprint.length
+        ? context.edges
+        : footprint.map(() => ({}));
+      const sides = edgeSides(footprint, edges);
+      const selected = sides.map((side, i) => faces.includes(side) &&
+        (rule.edges === undefined || this.edgeSelected(rule.edges, footprint, i, edges[i], side, geometry, attributes)));
+      
+      if (!selected.includes(true)) {
+        return {
+          success: false,
+          attributes,
+          error: 'Setback selects no edges'
+        };
+      }
       
-      // For a rectangular polygon, apply setback to specified faces
-      // This is similar to offset but only on specific sides
-      const setbackVertices = this.applySetbackToRectangle(geometry.vertices, rule.d, faces);
+      const parts = insetPolygon(footprint, footprintHoles(geometry), selected.map(isSelected => isSelected ? rule.d : 0));
       
-      if (setbackVertices.length === 0) {
+      if (parts.length === 0) {
         return {
           success: false,
           attributes,
@@ -494,32 +1076,21 @@ export class RulesEngine {
         };
       }
       
-      const newArea = this.calculateArea(setbackVertices);
-      
-      const setbackGeometry: SimpleGeometry = {
-        type: 'polygon',
-        vertices: setbackVertices,
-        attributes: {
-          ...geometry.attributes,
-          setbackDistance: rule.d,
-          setbackFaces: faces,
-          area: newArea
-        }
+      const newArea = parts.reduce((sum, part) => sum + polygonArea(part.ring, part.holes), 0);
+      const setbackAttributes = {
+        setbackDistance: rule.d,
+        setbackFaces: faces,
+        setbackEdges: selected.flatMap((isSelected, i) => isSelected ? [i] : []),
+        area: newArea
       };
       
       const { volume: _, ...attributesWithoutVolume } = attributes;
       
-      return {
-        success: true,
-        geometry: setbackGeometry,
-        attributes: {
-          ...attributesWithoutVolume,
-          setbackDistance: rule.d,
-          setbackFaces: faces,
-          area: newArea,
-          baseArea: newArea // Update baseArea for subsequent operations
-        }
-      };
+      return this.footprintResult(parts, 'setbackPart', geometry, {
+        ...attributesWithoutVolume,
+        ...setbackAttributes,
+        baseArea: newArea // Update baseArea for subsequent operations
+      }, setbackAttributes);
     } catch (error) {
       return {
         success: false,
@@ -530,10 +1101,11 @@ export class RulesEngine {
   }
   
   /**
-   * Execute roof operation - add roof geometry
+   * Execute roof operation - build hip, gable or shed roof surfaces on top of
+   * the shape from the straight skeleton of its footprint
    */
   private executeRoof(
-    rule: RoofRule,
+    rule: Resolved<RoofRule>,
     geometry: SimpleGeometry,
     attributes: Record<string, any>,
     context: GeometryContext
@@ -548,26 +1120,70 @@ export class RulesEngine {
         };
       }
       
-      const roofHeight = rule.height || ((rule.pitch || 30) * Math.PI / 180) * 10;
+      let roofGeometry: SimpleGeometry = geometry;
+      let roofHeight = 0;
+      let roofPitch = 0;
+      
+      if (rule.kind !== 'flat' && footprintHoles(geometry).length > 0) {
+        return {
+          success: false,
+          attributes,
+          error: `A ${rule.kind} roof cannot cover a footprint with holes; use a flat roof or split the shape first`
+        };
+      }
+      
+      if (rule.kind !== 'flat') {
+        const footprint = openRing(footprintOf(geometry));
+        const eave = elevationRange(geometry).max;
+        const roof = buildRoof(footprint, eave, rule.kind, {
+          pitch: rule.pitch ?? DEFAULT_ROOF_PITCH,
+          height: rule.height
+        });
+        roofHeight = roof.height;
+        roofPitch = roof.pitch;
+        
+        // Roof surfaces replace the top face of an extruded mass (faces[1] from
+        // buildPrism); a flat shape keeps its outline as the bottom face, facing down
+        const outline = footprint.map((_, index) => index);
+        const base = geometry.faces
+          ? {
+            vertices: geometry.vertices,
+            faces: geometry.type === 'solid' ? geometry.faces.filter((_, index) => index !== 1) : geometry.faces
+          }
+          : {
+            vertices: footprint.map(p => [p[0], p[1], eave]),
+            faces: [signedRingArea(footprint) > 0 ? outline.reverse() : outline]
+          };
+        const offset = base.vertices.length;
+        
+        roofGeometry = {
+          type: 'solid',
+          vertices: [...base.vertices, ...roof.vertices],
+          faces: [...base.faces, ...roof.faces.map(face => face.map(index => index + offset))],
+          attributes: geometry.attributes
+        };
+      }
+      
+      const roofAttributes = {
+        roofType: rule.kind,
+        roofPitch,
+        roofHeight
+      };
       
       const { volume: _, ...attributesWithoutVolume } = attributes;
       
       return {
         success: true,
         geometry: {
-          ...geometry,
+          ...roofGeometry,
           attributes: {
-            ...geometry.attributes,
-            roofType: rule.kind,
-            roofPitch: rule.pitch || 30,
-            roofHeight
+            ...roofGeometry.attributes,
+            ...roofAttributes
           }
         },
         attributes: {
           ...attributesWithoutVolume,
-          roofType: rule.kind,
-          roofPitch: rule.pitch,
-          roofHeight
+          ...roofAttributes
         }
       };
     } catch (error) {
@@ -589,6 +1205,8 @@ export class RulesEngine {
   ): RuleExecutionResult {
     const existingTags = attributes.textureTags || [];
     const newTags = [...existingTags, rule.tag];
+    // Later assignments win on the faces they name (used by the glTF exporter)
+    const assignments = [...(attributes.textureAssignments || []), { tag: rule.tag, faces: rule.faces || ['all'] }];
     
     return {
       success: true,
@@ -598,23 +1216,94 @@ export class RulesEngine {
           ...geometry.attributes,
           textureTag: rule.tag,
           textureFaces: rule.faces || ['all'],
-          textureTags: newTags
+          textureTags: newTags,
+          textureAssignments: assignments
         }
       },
       attributes: {
         ...attributes,
         textureTag: rule.tag,
         textureFaces: rule.faces || ['all'],
-        textureTags: newTags
+        textureTags: newTags,
+        textureAssignments: assignments
       }
     };
   }
   
+  /**
+   * Execute component operation - place a window, door or balcony centred on
+   * every facade wall of the shape facing the given sides. The shape is kept
+   * as the first child, followed by one child per component; walls too small
+   * for the component get none.
+   */
+  private executeComponent(
+    rule: Resolved<ComponentRule>,
+    geometry: SimpleGeometry,
+    attributes: Record<string, any>,
+    mass: SimpleGeometry
+  ): OperationResult {
+    try {
+      if (geometry.type === 'polygon') {
+        return {
+          success: false,
+          attributes,
+          error: `A ${rule.kind} needs a facade: extrude the shape first`
+        };
+      }
+      
+      const defaults = COMPONENT_DEFAULTS[rule.kind];
+      const size = {
+        width: rule.width ?? defaults.width,
+        height: rule.height ?? defaults.height,
+        sill: rule.sill ?? defaults.sill,
+        depth: rule.depth ?? defaults.depth
+      };
+      const faces = rule.faces || ['front', 'back', 'left', 'right'];
+      const walls = facadeWalls(geometry, mass).filter(wall => faces.includes(wall.side));
+      const componentAttributes = {
+        component: rule.kind,
+        componentWidth: size.width,
+        componentHeight: size.height,
+        // Window and door openings count towards the window-to-wall ratio
+        openingArea: rule.kind === 'balcony' ? 0 : size.width * size.height
+      };
+      
+      const children: ShapeSpec[] = [];
+      for (const wall of walls) {
+        const component = buildComponent(rule.kind, wall, size);
+        if (component) {
+          const placed = { ...componentAttributes, componentSide: wall.side };
+          children.push({
+            name: rule.name ?? COMPONENT_NAMES[rule.kind],
+            geometry: { ...component, attributes: { ...geometry.attributes, ...placed } },
+            attributes: { ...attributes, ...placed }
+          });
+        }
+      }
+      
+      const resultAttributes = { ...attributes, componentCount: children.length };
+      return {
+        success: true,
+        geometry,
+        attributes: resultAttributes,
+        children: children.length > 0
+          ? [{ geometry, attributes: resultAttributes }, ...children]
+          : undefined
+      };
+    } catch (error) {
+      return {
+        success: false,
+        attributes,
+        error: error instanceof Error ? error.message : 'Component operation failed'
+      };
+    }
+  }
+  
   /**
    * Execute attribute operation - set custom attribute
    */
   private executeAttr(
-    rule: { op: 'attr'; name: string; value: string | number | boolean },
+    rule: AttrRule,
     geometry: SimpleGeometry,
     attributes: Record<string, any>
   ): RuleExecutionResult {
@@ -634,6 +1323,304 @@ export class RulesEngine {
     };
   }
   
+  /**
+   * Execute envelope operation - clip shapes to the zoning envelope of the lot:
+   * the setback from every lot line, the height plane, the sky-exposure planes
+   * rising from the street lines, and the height at which the gross floor area
+   * (volume over floor height) meets the floor area ratio. Limits come from the
+   * zone covering most of the lot, overridden by the rule's own. Shapes are
+   * clipped as prisms standing on their footprint; shapes left with nothing
+   * are removed, and shapes cut into several parts get one child per part.
+   */
+  private executeEnvelope(rule: EnvelopeRule, shapes: ShapeNode[], state: ExecutionState): RuleExecutionResult {
+    const { context, tree } = state;
+    const zone = context.zones ? zoneAt(context.polygon, context.holes ?? [], context.zones) : undefined;
+    const { op: _op, target: _target, ...overrides } = rule;
+    const limits: ZoningLimits = {
+      ...(zone ? this.zoneLimits(zone) : {}),
+      ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined))
+    };
+    if (Object.keys(limits).length === 0) {
+      return {
+        success: false,
+        attributes: state.attributes,
+        error: 'Zoning envelope has no limits: the lot lies in no zone and the rule sets none'
+      };
+    }
+    
+    const lot = { ring: openRing(context.polygon), holes: (context.holes ?? []).map(openRing) };
+    const lotArea = polygonArea(lot.ring, lot.holes);
+    const buildable = limits.minSetback
+      ? insetPolygon(lot.ring, lot.holes, lot.ring.map(() => limits.minSetback!), limits.minSetback)
+      : undefined;
+    if (buildable && buildable.length === 0) {
+      return {
+        success: false,
+        attributes: state.attributes,
+        error: `Zoning setback of ${limits.minSetback} m leaves no buildable area`
+      };
+    }
+    const skyPlanes = limits.skyExposureHeight !== undefined && limits.skyExposureSlope !== undefined
+      ? skyExposurePlanes(lot.ring, this.streetEdges(context, lot.ring), limits.skyExposureHeight, limits.skyExposureSlope)
+      : [];
+    
+    // Envelope of every shape under a flat cap (Infinity for none), and its footprint area inside the setback
+    const envelopeOf = (shape: ShapeNode, cap: number) => {
+      const { min: base, max: top } = elevationRange(shape.geometry);
+      const footprint = { ring: openRing(footprintOf(shape.geometry)), holes: footprintHoles(shape.geometry) };
+      const inside = clipFootprint(footprint, buildable ? [buildable] : []);
+      const buildableArea = inside.reduce((sum, part) => sum + polygonArea(part.ring, part.holes), 0);
+      if (shape.geometry.type === 'polygon') {
+        return { base, top, buildableArea, parts: inside.map(part => ({ ...part, pieces: [] })) };
+      }
+      const tops: TopPlane[] = [
+        flatTop(top, 'shape'),
+        ...(limits.maxHeight !== undefined ? [flatTop(limits.maxHeight, 'height')] : []),
+        ...(cap < Infinity ? [flatTop(cap, 'far')] : []),
+        ...skyPlanes
+      ];
+      return { base, top, buildableArea, parts: inside.flatMap(part => envelopeParts(part, base, tops)) };
+    };
+    const floorHeight = (shape: ShapeNode) => Number(shape.attributes.floorHeight) || DEFAULT_FLOOR_HEIGHT;
+    
+    // Lower the cap until the floor area of the shapes fits the floor area ratio
+    let farCap = Infinity;
+    if (limits.maxFar !== undefined) {
+      const others = tree.leaves().filter(leaf => !shapes.includes(leaf));
+      const allowed = limits.maxFar * lotArea -
+        others.reduce((sum, leaf) => sum + geometryVolume(leaf.geometry) / floorHeight(leaf), 0);
+      const uncapped = shapes.map(shape => ({ shape, ...envelopeOf(shape, Infinity) }));
+      const floorArea = (cap: number) => uncapped
+        .reduce((sum, { shape, base, parts }) => sum + envelopeVolume(parts, base, cap) / floorHeight(shape), 0);
+      
+      if (floorArea(Infinity) > allowed + FLOOR_AREA_TOLERANCE) {
+        let low = Math.min(...uncapped.map(({ base }) => base));
+        let high = Math.max(...uncapped.map(({ top }) => top));
+        for (let i = 0; i < FAR_ITERATIONS; i++) {
+          const middle = (low + high) / 2;
+          if (floorArea(middle) > allowed) {
+            high = middle;
+          } else {
+            low = middle;
+          }
+        }
+        farCap = low;
+      }
+    }
+    
+    const binding = new Set<EnvelopeConstraint>();
+    const removed: ShapeNode[] = [];
+    let volumeChange = 0;
+    for (const shape of shapes) {
+      const { base, top, buildableArea, parts } = envelopeOf(shape, farCap);
+      const isSolid = shape.geometry.type !== 'polygon';
+      const before = polygonArea(openRing(footprintOf(shape.geometry)), footprintHoles(shape.geometry));
+      
+      // Constraints that cut the shape: the setback if it cut the footprint, the lower flat cap
+      // if it is below its top, and the sky-exposure planes where they top it (or when they remove it)
+      const bound = new Set<EnvelopeConstraint>();
+      const heightCap = limits.maxHeight ?? Infinity;
+      if (buildableArea < before - AREA_TOLERANCE) {
+        bound.add('setback');
+      }
+      if (isSolid && heightCap <= farCap && heightCap < top - HEIGHT_TOLERANCE) {
+        bound.add('height');
+      }
+      if (isSolid && farCap < heightCap && farCap < top - HEIGHT_TOLERANCE) {
+        bound.add('far');
+      }
+      if (parts.some(part => part.pieces.some(piece => piece.top.source === 'skyExposure')) ||
+        (isSolid && parts.length === 0 && buildableArea > 0 && bound.size === 0)) {
+        bound.add('skyExposure');
+      }
+      bound.forEach(constraint => binding.add(constraint));
+      const envelopeBound = ENVELOPE_CONSTRAINTS.filter(constraint => bound.has(constraint));
+      
+      const volume = isSolid ? parts.reduce((sum, part) => sum + envelopeVolume([part], base), 0) : 0;
+      volumeChange += volume - (isSolid ? before * (top - base) : 0);
+      if (parts.length === 0) {
+        removed.push(shape);
+        continue;
+      }
+      if (envelopeBound.length === 0) {
+        continue;
+      }
+      
+      const partSpecs = parts.map(part => {
+        const partVolume = isSolid ? envelopeVolume([part], base) : 0;
+        const partAttributes = {
+          envelopeBound,
+          ...(isSolid
+            ? { height: Math.max(...part.pieces.flatMap(piece => piece.ring.map(point => planeAt(piece.top, point)))) - base, volume: partVolume }
+            : { area: polygonArea(part.ring, part.holes) })
+        };
+        const geometry: SimpleGeometry = isSolid
+          ? buildEnvelopeSolid(part, base)
+          : { type: 'polygon', vertices: part.ring, ...(part.holes.length > 0 ? { holes: part.holes } : {}), attributes: {} };
+        return {
+          geometry: { ...geometry, attributes: { ...shape.geometry.attributes, ...partAttributes } },
+          attributes: { ...shape.attributes, ...partAttributes }
+        };
+      });
+      
+      if (partSpecs.length === 1) {
+        shape.geometry = partSpecs[0].geometry;
+        shape.attributes = partSpecs[0].attributes;
+      } else {
+        shape.attributes = { ...shape.attributes, envelopeBound };
+        tree.subdivide(shape.id, partSpecs.map((spec, index) => ({
+          geometry: { ...spec.geometry, attributes: { ...spec.geometry.attributes, envelopePart: index } },
+          attributes: { ...spec.attributes, envelopePart: index }
+        })));
+      }
+    }
+    
+    if (shapes.length > 0 && removed.length === shapes.length) {
+      return {
+        success: false,
+        attributes: state.attributes,
+        error: 'Zoning envelope leaves nothing of the shapes'
+      };
+    }
+    removed.forEach(shape => tree.remove(shape.id));
+    
+    const leaves = tree.leaves();
+    const floorArea = leaves.reduce((sum, leaf) => sum + geometryVolume(leaf.geometry) / floorHeight(leaf), 0);
+    state.totalVolume += volumeChange;
+    state.totalHeight = Math.min(state.totalHeight, Math.max(0, ...leaves.map(leaf => elevationRange(leaf.geometry).max)));
+    Object.assign(state.attributes, {
+      ...(zone ? { zone: zone.type ?? zone.id } : {}),
+      zoningLimits: limits,
+      envelopeBinding: ENVELOPE_CONSTRAINTS.filter(constraint => binding.has(constraint)),
+      floorArea,
+      floorAreaRatio: lotArea > 0 ? floorArea / lotArea : 0
+    });
+    return { success: true, attributes: state.attributes };
+  }
+  
+  /**
+   * Helper: Limits a zone sets
+   */
+  private zoneLimits(zone: Zone): ZoningLimits {
+    const limits: ZoningLimits = {
+      maxHeight: zone.maxHeight,
+      maxFar: zone.maxFar,
+      minSetback: zone.minSetback,
+      skyExposureHeight: zone.skyExposureHeight,
+      skyExposureSlope: zone.skyExposureSlope
+    };
+    return Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined));
+  }
+  
+  /**
+   * Helper: Lot edges the sky-exposure planes rise from - those fronting a
+   * street, or the front edges when the lot has no street frontage
+   */
+  private streetEdges(context: GeometryContext, ring: number[][]): number[] {
+    const edges: LotEdge[] = context.edges && context.edges.length === ring.length ? context.edges : ring.map(() => ({}));
+    const street = edges.flatMap((edge, i) => edge.street !== undefined ? [i] : []);
+    return street.length > 0 ? street : edgeSides(ring, edges).flatMap((side, i) => side === 'front' ? [i] : []);
+  }
+  
+  /**
+   * Helper: Topmost solid a shape was cut from (the shape itself when its
+   * parent is flat); its outside walls are the facade
+   */
+  private facadeMass(tree: ShapeTree, shape: ShapeNode): ShapeNode {
+    let mass = shape;
+    while (mass.parentId !== undefined) {
+      const parent = tree.get(mass.parentId);
+      if (parent.geometry.type === 'polygon') {
+        break;
+      }
+      mass = parent;
+    }
+    return mass;
+  }
+  
+  /**
+   * Helper: Facade metrics of a program that placed components - gross wall
+   * area of every mass, window and door opening areas, balcony count and the
+   * window-to-wall ratio
+   */
+  private facadeMetrics(tree: ShapeTree, leaves: ShapeNode[]): Record<string, number> {
+    const components = leaves.filter(leaf => leaf.attributes.component !== undefined);
+    if (components.length === 0) {
+      return {};
+    }
+    
+    const masses = new Map<string, ShapeNode>();
+    for (const leaf of leaves) {
+      const mass = this.facadeMass(tree, leaf);
+      if (mass.geometry.type !== 'polygon') {
+        masses.set(mass.id, mass);
+      }
+    }
+    const facadeArea = [...masses.values()]
+      .reduce((sum, mass) => sum + wallArea(facadeWalls(mass.geometry, mass.geometry)), 0);
+    const openingArea = (kind: string) => components
+      .filter(leaf => leaf.attributes.component === kind)
+      .reduce((sum, leaf) => sum + leaf.attributes.openingArea, 0);
+    const windowArea = openingArea('window');
+    
+    return {
+      facadeArea,
+      windowArea,
+      doorArea: openingArea('door'),
+      balconyCount: components.filter(leaf => leaf.attributes.component === 'balcony').length,
+      windowToWallRatio: facadeArea > 0 ? windowArea / facadeArea : 0
+    };
+  }
+
+  /**
+   * Helper: Result of the shapes built so far, finished like a program result.
+   * The leaves are copies, so the rules run after it leave the snapshot as it is.
+   */
+  private snapshot(state: ExecutionState): RuleExecutionResult {
+    const leaves = state.tree.leaves().map(leaf => ({ ...leaf }));
+    const attributes: Record<string, any> = {
+      ...state.attributes,
+      totalHeight: state.totalHeight,
+      totalVolume: state.totalVolume,
+      ...this.facadeMetrics(state.tree, leaves)
+    };
+    this.checkMeshes(leaves, state.meshRepair, attributes);
+    return {
+      success: true,
+      geometry: leaves.length === 1
+        ? leaves[0].geometry
+        : mergeGeometries(leaves.map(leaf => leaf.geometry), { leafCount: leaves.length }),
+      leaves,
+      attributes,
+      crsCode: crsCode(state.context.crs ?? LOCAL_CRS)
+    };
+  }
+  
+  /**
+   * Helper: Check the solids and meshes of the leaves, repairing them first
+   * when `repair` is set. Leaves left with issues get a `meshIssues` summary
+   * and the program counts them in `invalidMeshCount`.
+   */
+  private checkMeshes(leaves: ShapeNode[], repair: boolean, attributes: Record<string, any>): void {
+    let invalid = 0;
+    for (const leaf of leaves) {
+      if (leaf.geometry.type === 'polygon') {
+        continue;
+      }
+      const { geometry, validation } = repair
+        ? repairMesh(leaf.geometry)
+        : { geometry: leaf.geometry, validation: validateMesh(leaf.geometry) };
+      leaf.geometry = geometry;
+      if (!validation.valid) {
+        leaf.attributes = { ...leaf.attributes, meshIssues: describeMeshIssues(validation.issues) };
+        invalid++;
+      }
+    }
+    if (invalid > 0) {
+      attributes.invalidMeshCount = invalid;
+    }
+  }
+
   /**
    * Helper: Calculate polygon centroid
    */
@@ -664,90 +1651,81 @@ export class RulesEngine {
   }
 
   /**
-   * Helper: Offset rectangular polygon inward/outward
-   * For rectangular polygons, this properly shrinks/expands each edge
+   * Helper: Evaluate a setback edge selector for edge i of a footprint.
+   * Besides the shape variables it sees edge.index, edge.length, edge.side,
+   * edge.street (true on street frontage), edge.streetName, edge.roadType,
+   * edge.roadWidth and edge.neighbour.
    */
-  private offsetRectangularPolygon(vertices: number[][], distance: number, outward: boolean): number[][] {
-    // For a simple rectangular polygon, we can offset by moving each edge
-    // This assumes vertices are in order: [min,min], [max,min], [max,max], [min,max], [min,min]
-    
-    if (vertices.length < 4) return [];
-    
-    // Calculate bounding box
-    const xs = vertices.map(v => v[0]);
-    const ys = vertices.map(v => v[1]);
-    const minX = Math.min(...xs);
-    const maxX = Math.max(...xs);
-    const minY = Math.min(...ys);
-    const maxY = Math.max(...ys);
-    
-    // Apply offset
-    const offset = outward ? distance : -distance;
-    
-    const newMinX = minX - offset;
-    const newMaxX = maxX + offset;
-    const newMinY = minY - offset;
-    const newMaxY = maxY + offset;
-    
-    // Check if inward offset would eliminate the polygon
-    if (!outward && (newMaxX <= newMinX || newMaxY <= newMinY)) {
-      return []; // Invalid polygon
+  private edgeSelected(
+    selector: string,
+    ring: number[][],
+    index: number,
+    edge: LotEdge,
+    side: EdgeSide,
+    geometry: SimpleGeometry,
+    attributes: Record<string, any>
+  ): boolean {
+    const a = ring[index];
+    const b = ring[(index + 1) % ring.length];
+    const variables: Record<string, ExpressionValue> = {
+      ...this.expressionVariables(attributes, geometry),
+      'edge.index': index,
+      'edge.length': Math.hypot(b[0] - a[0], b[1] - a[1]),
+      'edge.side': side,
+      'edge.street': edge.street !== undefined,
+      'edge.streetName': edge.street ?? '',
+      'edge.roadType': edge.roadType ?? '',
+      'edge.roadWidth': edge.roadWidth ?? 0,
+      'edge.neighbour': edge.neighbour ?? ''
+    };
+    try {
+      return Boolean(evaluateExpression(selector, variables));
+    } catch (error) {
+      throw new Error(`Setback edges selector: ${error instanceof Error ? error.message : String(error)}`);
     }
-    
-    // Return rectangular vertices in same order
-    return [
-      [newMinX, newMinY],
-      [newMaxX, newMinY], 
-      [newMaxX, newMaxY],
-      [newMinX, newMaxY],
-      [newMinX, newMinY] // Close the polygon
-    ];
   }
-
+  
   /**
-   * Helper: Apply setback to specific faces of a rectangular polygon
-   * faces can be: 'front', 'back', 'left', 'right'
-   * For a rectangle with min/max bounds, assumes:
-   * - front = minY edge, back = maxY edge
-   * - left = minX edge, right = maxX edge
+   * Helper: Result of an operation that reshapes the footprint. A single part
+   * replaces the shape's geometry; several parts become child shapes tagged
+   * with their index under `partAttribute`.
    */
-  private applySetbackToRectangle(vertices: number[][], distance: number, faces: string[]): number[][] {
-    if (vertices.length < 4) return [];
-    
-    // Calculate bounding box
-    const xs = vertices.map(v => v[0]);
-    const ys = vertices.map(v => v[1]);
-    let minX = Math.min(...xs);
-    let maxX = Math.max(...xs);
-    let minY = Math.min(...ys);
-    let maxY = Math.max(...ys);
-    
-    // Apply setback to specified faces
-    if (faces.includes('front')) {
-      minY += distance; // Move front edge inward
-    }
-    if (faces.includes('back')) {
-      maxY -= distance; // Move back edge inward  
-    }
-    if (faces.includes('left')) {
-      minX += distance; // Move left edge inward
-    }
-    if (faces.includes('right')) {
-      maxX -= distance; // Move right edge inward
-    }
-    
-    // Check if setback would eliminate the polygon
-    if (maxX <= minX || maxY <= minY) {
-      return []; // Invalid polygon
+  private footprintResult(
+    parts: PolygonPart[],
+    partAttribute: string,
+    geometry: SimpleGeometry,
+    attributes: Record<string, any>,
+    geometryAttributes: Record<string, any>
+  ): OperationResult {
+    const partGeometry = (part: PolygonPart, extraAttributes: Record<string, any> = {}): SimpleGeometry => ({
+      type: 'polygon',
+      vertices: part.ring,
+      ...(part.holes.length > 0 ? { holes: part.holes } : {}),
+      attributes: { ...geometry.attributes, ...geometryAttributes, ...extraAttributes }
+    });
+
+    if (parts.length === 1) {
+      return {
+        success: true,
+        geometry: partGeometry(parts[0]),
+        attributes
+      };
     }
     
-    // Return rectangular vertices in same order
-    return [
-      [minX, minY],
-      [maxX, minY], 
-      [maxX, maxY],
-      [minX, maxY],
-      [minX, minY] // Close the polygon
-    ];
+    return {
+      success: true,
+      geometry: {
+        ...geometry,
+        attributes: { ...geometry.attributes, ...geometryAttributes }
+      },
+      attributes,
+      children: parts.map((part, index) => {
+        const area = polygonArea(part.ring, part.holes);
+        return {
+          geometry: partGeometry(part, { area, [partAttribute]: index }),
+          attributes: { ...attributes, area, [partAttribute]: index }
+        };
+      })
+    };
   }
-}
\ No newline at end of file
+}
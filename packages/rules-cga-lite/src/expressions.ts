@@ -0,0 +1,381 @@
+// Parametric expressions for rule parameters
+//
+// A small, side-effect free language evaluated against shape attributes:
+//   floors * floorHeight
+//   min(8, 0.25 * scope.sy)
+//   baseArea > 800 ? 45 : 12
+// Supported: numbers, strings, true/false, attribute references (dotted names allowed),
+// + - * / %, comparisons, && || !, the ternary operator and the functions below.
+
+export type ExpressionValue = number | string | boolean;
+
+export type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'identifier'; name: string }
+  | { type: 'unary'; operator: '-' | '!'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; callee: string; args: ExpressionNode[] };
+
+/**
+ * Error raised while parsing or evaluating an expression
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly expression: string, public readonly position?: number) {
+    super(position !== undefined ? `${message} at position ${position} in "${expression}"` : `${message} in "${expression}"`);
+    this.name = 'ExpressionError';
+  }
+}
+
+// Functions callable from expressions, with their arity
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  min: { arity: [1, Infinity], fn: Math.min },
+  max: { arity: [1, Infinity], fn: Math.max },
+  abs: { arity: [1, 1], fn: Math.abs },
+  floor: { arity: [1, 1], fn: Math.floor },
+  ceil: { arity: [1, 1], fn: Math.ceil },
+  round: { arity: [1, 1], fn: Math.round },
+  sqrt: { arity: [1, 1], fn: Math.sqrt },
+  clamp: { arity: [3, 3], fn: (value, lo, hi) => Math.min(Math.max(value, lo), hi) }
+};
+
+interface Token {
+  kind: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) {
+        throw new ExpressionError(`Invalid number`, source, i);
+      }
+      tokens.push({ kind: 'number', text: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'identifier', text: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new ExpressionError('Unterminated string', source, i);
+      }
+      tokens.push({ kind: 'string', text: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, source, i);
+    }
+    tokens.push({ kind: 'operator', text: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser, lowest precedence first
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.conditional();
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      throw new ExpressionError(`Unexpected "${token.text}"`, this.source, token.position);
+    }
+    return node;
+  }
+
+  private conditional(): ExpressionNode {
+    const test = this.binary(0);
+    if (this.match('?')) {
+      const consequent = this.conditional();
+      this.expect(':');
+      const alternate = this.conditional();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  // Binary operator levels: || , && , equality, comparison, additive, multiplicative
+  private static readonly LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+  private binary(level: number): ExpressionNode {
+    if (level >= Parser.LEVELS.length) {
+      return this.unary();
+    }
+    let left = this.binary(level + 1);
+    let operator = this.matchAny(Parser.LEVELS[level]);
+    while (operator) {
+      const right = this.binary(level + 1);
+      left = { type: 'binary', operator, left, right };
+      operator = this.matchAny(Parser.LEVELS[level]);
+    }
+    return left;
+  }
+
+  private unary(): ExpressionNode {
+    const operator = this.matchAny(['-', '!']);
+    if (operator) {
+      return { type: 'unary', operator: operator as '-' | '!', operand: this.unary() };
+    }
+    return this.primary();
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.text) };
+      case 'string':
+        return { type: 'literal', value: token.text };
+      case 'identifier':
+        if (token.text === 'true' || token.text === 'false') {
+          return { type: 'literal', value: token.text === 'true' };
+        }
+        if (this.match('(')) {
+          return this.call(token);
+        }
+        return { type: 'identifier', name: token.text };
+      case 'operator':
+        if (token.text === '(') {
+          const node = this.conditional();
+          this.expect(')');
+          return node;
+        }
+        break;
+    }
+
+    throw new ExpressionError(
+      token.kind === 'end' ? 'Unexpected end of expression' : `Unexpected "${token.text}"`,
+      this.source,
+      token.position
+    );
+  }
+
+  private call(callee: Token): ExpressionNode {
+    const definition = Object.prototype.hasOwnProperty.call(FUNCTIONS, callee.text) ? FUNCTIONS[callee.text] : undefined;
+    if (!definition) {
+      throw new ExpressionError(`Unknown function "${callee.text}"`, this.source, callee.position);
+    }
+
+    const args: ExpressionNode[] = [];
+    if (!this.match(')')) {
+      do {
+        args.push(this.conditional());
+      } while (this.match(','));
+      this.expect(')');
+    }
+
+    const [minArgs, maxArgs] = definition.arity;
+    if (args.length < minArgs || args.length > maxArgs) {
+      throw new ExpressionError(`Wrong number of arguments for ${callee.text}()`, this.source, callee.position);
+    }
+    return { type: 'call', callee: callee.text, args };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private match(operator: string): boolean {
+    return this.matchAny([operator]) !== undefined;
+  }
+
+  private matchAny(operators: string[]): string | undefined {
+    const token = this.peek();
+    if (token.kind === 'operator' && operators.includes(token.text)) {
+      this.index++;
+      return token.text;
+    }
+    return undefined;
+  }
+
+  private expect(operator: string): void {
+    if (!this.match(operator)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected "${operator}"`, this.source, token.position);
+    }
+  }
+}
+
+// Parsed expressions kept for reuse; the least recently used is dropped beyond this
+export const PARSE_CACHE_SIZE = 1000;
+
+// Map order is use order, oldest first
+const parseCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parse an expression into an AST (results are cached by source text)
+ */
+export function parseExpression(source: string): ExpressionNode {
+  let node = parseCache.get(source);
+  if (node) {
+    parseCache.delete(source);
+  } else {
+    node = new Parser(source, tokenize(source)).parse();
+    if (parseCache.size >= PARSE_CACHE_SIZE) {
+      parseCache.delete(parseCache.keys().next().value!);
+    }
+  }
+  parseCache.set(source, node);
+  return node;
+}
+
+/**
+ * Collect the attribute names an expression refers to
+ */
+export function expressionIdentifiers(source: string): string[] {
+  const names = new Set<string>();
+  const visit = (node: ExpressionNode) => {
+    switch (node.type) {
+      case 'identifier':
+        names.add(node.name);
+        break;
+      case 'unary':
+        visit(node.operand);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case 'call':
+        node.args.forEach(visit);
+        break;
+    }
+  };
+  visit(parseExpression(source));
+  return Array.from(names);
+}
+
+/**
+ * Evaluate an expression against a set of variables
+ */
+export function evaluateExpression(source: string, variables: Record<string, ExpressionValue>): ExpressionValue {
+  const evaluate = (node: ExpressionNode): ExpressionValue => {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'identifier':
+        if (!Object.prototype.hasOwnProperty.call(variables, node.name)) {
+          throw new ExpressionError(`Unknown attribute "${node.name}"`, source);
+        }
+        return variables[node.name];
+      case 'unary': {
+        const operand = evaluate(node.operand);
+        return node.operator === '!' ? !operand : -toNumber(operand, source);
+      }
+      case 'binary':
+        return evaluateBinary(node.operator, node.left, node.right);
+      case 'conditional':
+        return evaluate(node.test) ? evaluate(node.consequent) : evaluate(node.alternate);
+      case 'call':
+        return FUNCTIONS[node.callee].fn(...node.args.map(arg => toNumber(evaluate(arg), source)));
+    }
+  };
+
+  const evaluateBinary = (operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode): ExpressionValue => {
+    // Short-circuit logical operators
+    if (operator === '&&') {
+      return Boolean(evaluate(leftNode)) && Boolean(evaluate(rightNode));
+    }
+    if (operator === '||') {
+      return Boolean(evaluate(leftNode)) || Boolean(evaluate(rightNode));
+    }
+
+    const left = evaluate(leftNode);
+    const right = evaluate(rightNode);
+    switch (operator) {
+      case '==':
+        return left === right;
+      case '!=':
+        return left !== right;
+    }
+
+    const a = toNumber(left, source);
+    const b = toNumber(right, source);
+    switch (operator) {
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      case '>=': return a >= b;
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/':
+        if (b === 0) {
+          throw new ExpressionError('Division by zero', source);
+        }
+        return a / b;
+      case '%':
+        if (b === 0) {
+          throw new ExpressionError('Division by zero', source);
+        }
+        return a % b;
+      default:
+        throw new ExpressionError(`Unknown operator "${operator}"`, source);
+    }
+  };
+
+  return evaluate(parseExpression(source));
+}
+
+/**
+ * Evaluate an expression that must produce a finite number
+ */
+export function evaluateNumber(source: string, variables: Record<string, ExpressionValue>): number {
+  return toNumber(evaluateExpression(source, variables), source);
+}
+
+function toNumber(value: ExpressionValue, source: string): number {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ExpressionError(`Expected a number but got ${JSON.stringify(value)}`, source);
+  }
+  return value;
+}
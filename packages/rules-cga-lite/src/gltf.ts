@@ -0,0 +1,444 @@
+// glTF 2.0 / GLB export of rule execution results
+
+import { RuleExecutionResult, ShapeNode, SimpleGeometry } from './types';
+import { ROOT_SHAPE_NAME } from './shapes';
+import { mergeGeometries } from './utils/geometry';
+import { faceNormal, orientMesh, triangulateFace } from './utils/mesh';
+import { faceSide } from './utils/facade';
+import { createRandom, hashSeed } from './utils/random';
+
+// Material used for faces without a texture tag
+export const DEFAULT_MATERIAL = 'default';
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const GLB_VERSION = 2;
+const CHUNK_JSON = 0x4e4f534a; // 'JSON'
+const CHUNK_BIN = 0x004e4942; // 'BIN\0'
+
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const TRIANGLES = 4;
+
+export type RGBA = [number, number, number, number];
+
+export interface GltfExportOptions {
+  origin?: number[];              // Engine [x, y, z] placed at the glTF origin (default: model minimum corner)
+  colors?: Record<string, RGBA>;  // Base colour per texture tag
+}
+
+// The subset of the glTF 2.0 schema the exporter writes
+export interface GltfDocument {
+  asset: { version: string; generator?: string };
+  scene?: number;
+  scenes?: Array<{ name?: string; nodes: number[] }>;
+  nodes?: Array<{
+    name?: string;
+    mesh?: number;
+    children?: number[];
+    translation?: number[];
+    extras?: Record<string, any>;
+  }>;
+  meshes?: Array<{
+    name?: string;
+    primitives: Array<{ attributes: Record<string, number>; indices?: number; material?: number; mode?: number }>;
+  }>;
+  materials?: Array<{
+    name?: string;
+    pbrMetallicRoughness?: { baseColorFactor?: number[]; metallicFactor?: number; roughnessFactor?: number };
+    doubleSided?: boolean;
+  }>;
+  accessors?: Array<{
+    bufferView?: number;
+    byteOffset?: number;
+    componentType: number;
+    count: number;
+    type: string;
+    min?: number[];
+    max?: number[];
+  }>;
+  bufferViews?: Array<{ buffer: number; byteOffset?: number; byteLength: number; target?: number }>;
+  buffers?: Array<{ byteLength: number; uri?: string }>;
+}
+
+// glTF JSON plus the binary buffer it refers to (buffer 0)
+export interface GltfAsset {
+  json: GltfDocument;
+  binary: Uint8Array;
+}
+
+/**
+ * Build a glTF asset from a rule execution result.
+ * Every shape of the tree becomes a node (children follow the shape tree) with
+ * its attributes in `extras`; leaf shapes carry a mesh with one primitive per
+ * material. Faces get the material of the last `textureTag` naming their side
+ * (top/bottom by normal, then front = -y, back = +y, left = -x, right = +x).
+ * Engine coordinates are z-up; the asset is y-up as glTF requires.
+ */
+export function buildGltf(result: RuleExecutionResult, options: GltfExportOptions = {}): GltfAsset {
+  if (!result.success) {
+    throw new Error(`Cannot export a failed rule execution: ${result.error ?? 'unknown error'}`);
+  }
+
+  const shapes: ShapeNode[] = result.shapes && result.shapes.length > 0
+    ? result.shapes
+    : result.geometry
+      ? [{ id: 'shape_0', name: ROOT_SHAPE_NAME, childIds: [], depth: 0, geometry: result.geometry, attributes: result.attributes }]
+      : [];
+  const leaves = shapes.filter(shape => shape.childIds.length === 0);
+  const origin = options.origin ?? minimumCorner(leaves.flatMap(leaf => leaf.geometry.vertices));
+  const writer = new BufferWriter();
+  const materials = new MaterialTable(options.colors || {});
+  const json: GltfDocument = {
+    asset: { version: '2.0', generator: 'rules-cga-lite' },
+    scene: 0,
+    scenes: [{ nodes: shapes.length > 0 ? [0] : [] }],
+    nodes: [],
+    meshes: [],
+    accessors: []
+  };
+
+  const nodeIndex = new Map(shapes.map((shape, index) => [shape.id, index]));
+  shapes.forEach((shape, index) => {
+    const node: NonNullable<GltfDocument['nodes']>[number] = {
+      name: shape.name,
+      extras: { shapeId: shape.id, attributes: shape.attributes }
+    };
+    if (shape.childIds.length > 0) {
+      node.children = shape.childIds.map(id => nodeIndex.get(id)!);
+    } else {
+      const primitives = buildPrimitives(shape, origin, writer, materials, json.accessors!);
+      if (primitives.length > 0) {
+        node.mesh = json.meshes!.length;
+        json.meshes!.push({ name: shape.name, primitives });
+      }
+    }
+    // Shape positions are relative to `origin`; the root node moves them back
+    if (index === 0 && origin.some(value => value !== 0)) {
+      node.translation = toGltfAxes([origin[0], origin[1], origin[2] ?? 0]);
+    }
+    json.nodes!.push(node);
+  });
+
+  const binary = writer.finish();
+  if (binary.length > 0) {
+    json.buffers = [{ byteLength: binary.length }];
+    json.bufferViews = writer.views;
+  }
+  if (materials.entries.length > 0) {
+    json.materials = materials.entries;
+  }
+  // glTF forbids empty top-level arrays
+  (['nodes', 'meshes', 'accessors'] as const).forEach(key => {
+    if (json[key]!.length === 0) {
+      delete json[key];
+    }
+  });
+
+  return { json, binary };
+}
+
+/**
+ * Export a rule execution result as a binary glTF (GLB) file
+ */
+export function exportGlb(result: RuleExecutionResult, options: GltfExportOptions = {}): Uint8Array {
+  return encodeGlb(buildGltf(result, options));
+}
+
+/**
+ * Pack a glTF asset into the GLB container: 12-byte header, JSON chunk, BIN chunk
+ */
+export function encodeGlb(asset: GltfAsset): Uint8Array {
+  const jsonBytes = padTo4(encodeUtf8(JSON.stringify(asset.json)), 0x20);
+  const binBytes = padTo4(asset.binary, 0);
+  const hasBin = binBytes.length > 0;
+  const length = 12 + 8 + jsonBytes.length + (hasBin ? 8 + binBytes.length : 0);
+
+  const glb = new Uint8Array(length);
+  const view = new DataView(glb.buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, GLB_VERSION, true);
+  view.setUint32(8, length, true);
+  view.setUint32(12, jsonBytes.length, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  glb.set(jsonBytes, 20);
+  if (hasBin) {
+    const offset = 20 + jsonBytes.length;
+    view.setUint32(offset, binBytes.length, true);
+    view.setUint32(offset + 4, CHUNK_BIN, true);
+    glb.set(binBytes, offset + 8);
+  }
+  return glb;
+}
+
+/**
+ * Read a GLB file back into its JSON document and binary buffer
+ */
+export function decodeGlb(bytes: Uint8Array): GltfAsset {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error('Not a GLB file');
+  }
+  if (view.getUint32(4, true) !== GLB_VERSION) {
+    throw new Error(`Unsupported GLB version ${view.getUint32(4, true)}`);
+  }
+  if (view.getUint32(8, true) !== bytes.byteLength) {
+    throw new Error('GLB length does not match the file size');
+  }
+
+  let json: GltfDocument | undefined;
+  let binary: Uint8Array = new Uint8Array(0);
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const chunk = bytes.subarray(offset + 8, offset + 8 + chunkLength);
+    if (chunkType === CHUNK_JSON) {
+      json = JSON.parse(decodeUtf8(chunk));
+    } else if (chunkType === CHUNK_BIN) {
+      binary = chunk;
+    }
+    offset += 8 + chunkLength;
+  }
+  if (!json) {
+    throw new Error('GLB has no JSON chunk');
+  }
+  return { json, binary };
+}
+
+/**
+ * Triangulate a leaf shape into one primitive per material
+ */
+function buildPrimitives(
+  shape: ShapeNode,
+  origin: number[],
+  writer: BufferWriter,
+  materials: MaterialTable,
+  accessors: NonNullable<GltfDocument['accessors']>
+): NonNullable<GltfDocument['meshes']>[number]['primitives'] {
+  // A flat polygon's coordinate holes become index rings of its face
+  const geometry = !shape.geometry.faces && shape.geometry.holes?.length
+    ? mergeGeometries([shape.geometry], shape.geometry.attributes)
+    : shape.geometry;
+  const { vertices } = geometry;
+  const assignments = textureAssignments(shape);
+  const groups = new Map<number, { positions: number[]; normals: number[]; indices: number[] }>();
+  const mesh = orientMesh(vertices, facesOf(geometry), geometry.faceHoles);
+
+  for (const [f, face] of mesh.faces.entries()) {
+    const outline = face.map(index => vertices[index]);
+    const holes = (mesh.faceHoles[f] || []).map(hole => hole.map(index => vertices[index]));
+    const points = [...outline, ...holes.flat()];
+    const normal = faceNormal(outline);
+    const length = Math.hypot(...normal);
+    const triangles = triangulateFace(outline, holes);
+    if (length === 0 || triangles.length === 0) {
+      continue;
+    }
+    const unit = normal.map(value => value / length);
+    const material = materials.indexOf(materialForFace(faceSide(unit), assignments));
+    const group = groups.get(material) || { positions: [], normals: [], indices: [] };
+    groups.set(material, group);
+
+    // Flat shading: every face gets its own copies of its corners
+    const base = group.positions.length / 3;
+    for (const point of points) {
+      group.positions.push(...toGltfAxes([point[0] - origin[0], point[1] - origin[1], (point[2] ?? 0) - (origin[2] ?? 0)]));
+      group.normals.push(...toGltfAxes(unit));
+    }
+    triangles.forEach(triangle => group.indices.push(...triangle.map(index => base + index)));
+  }
+
+  return Array.from(groups.entries()).map(([material, group]) => {
+    const count = group.positions.length / 3;
+    const position = accessors.push({
+      bufferView: writer.add(new Float32Array(group.positions), ARRAY_BUFFER),
+      componentType: FLOAT,
+      count,
+      type: 'VEC3',
+      ...float32Bounds(group.positions)
+    }) - 1;
+    const normal = accessors.push({
+      bufferView: writer.add(new Float32Array(group.normals), ARRAY_BUFFER),
+      componentType: FLOAT,
+      count,
+      type: 'VEC3'
+    }) - 1;
+    const indices = accessors.push({
+      bufferView: writer.add(new Uint32Array(group.indices), ELEMENT_ARRAY_BUFFER),
+      componentType: UNSIGNED_INT,
+      count: group.indices.length,
+      type: 'SCALAR'
+    }) - 1;
+    return { attributes: { POSITION: position, NORMAL: normal }, indices, material, mode: TRIANGLES };
+  });
+}
+
+/**
+ * Faces of a geometry; a plain polygon is a single face
+ */
+function facesOf(geometry: SimpleGeometry): number[][] {
+  if (geometry.faces && geometry.faces.length > 0) {
+    return geometry.faces;
+  }
+  return geometry.vertices.length >= 3 ? [geometry.vertices.map((_, i) => i)] : [];
+}
+
+/**
+ * Texture tags of a shape in application order
+ */
+function textureAssignments(shape: ShapeNode): Array<{ tag: string; faces: string[] }> {
+  const attributes = shape.attributes.textureAssignments ? shape.attributes : shape.geometry.attributes;
+  if (attributes.textureAssignments) {
+    return attributes.textureAssignments;
+  }
+  return attributes.textureTag ? [{ tag: attributes.textureTag, faces: attributes.textureFaces || ['all'] }] : [];
+}
+
+function materialForFace(side: string, assignments: Array<{ tag: string; faces: string[] }>): string {
+  for (let i = assignments.length - 1; i >= 0; i--) {
+    if (assignments[i].faces.includes('all') || assignments[i].faces.includes(side)) {
+      return assignments[i].tag;
+    }
+  }
+  return DEFAULT_MATERIAL;
+}
+
+/**
+ * z-up engine coordinates to y-up glTF coordinates (a rotation about x)
+ */
+function toGltfAxes([x, y, z]: number[]): number[] {
+  return [x, z, -y];
+}
+
+function minimumCorner(points: number[][]): number[] {
+  if (points.length === 0) {
+    return [0, 0, 0];
+  }
+  return [0, 1, 2].map(axis => Math.min(...points.map(p => p[axis] ?? 0)));
+}
+
+/**
+ * POSITION accessors must give their bounds, computed on the stored float32 values
+ */
+function float32Bounds(values: number[]): { min: number[]; max: number[] } {
+  const stored = Float32Array.from(values);
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  stored.forEach((value, i) => {
+    min[i % 3] = Math.min(min[i % 3], value);
+    max[i % 3] = Math.max(max[i % 3], value);
+  });
+  return { min, max };
+}
+
+/**
+ * UTF-8 bytes of a string; TextEncoder is missing from some runtimes (jsdom)
+ */
+function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * String of UTF-8 bytes, the inverse of encodeUtf8
+ */
+function decodeUtf8(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length;) {
+    const lead = bytes[i];
+    const length = lead < 0x80 ? 1 : lead < 0xe0 ? 2 : lead < 0xf0 ? 3 : 4;
+    let code = length === 1 ? lead : lead & (0x7f >> length);
+    for (let k = 1; k < length; k++) {
+      code = (code << 6) | (bytes[i + k] & 0x3f);
+    }
+    text += String.fromCodePoint(code);
+    i += length;
+  }
+  return text;
+}
+
+function padTo4(bytes: Uint8Array, fill: number): Uint8Array {
+  const padding = (4 - (bytes.length % 4)) % 4;
+  if (padding === 0) {
+    return bytes;
+  }
+  const padded = new Uint8Array(bytes.length + padding).fill(fill);
+  padded.set(bytes);
+  return padded;
+}
+
+/**
+ * Collects typed arrays into one binary buffer, one buffer view each
+ */
+class BufferWriter {
+  readonly views: NonNullable<GltfDocument['bufferViews']> = [];
+  private parts: Uint8Array[] = [];
+  private length = 0;
+
+  add(data: Float32Array | Uint32Array, target: number): number {
+    // 4-byte components keep every view aligned
+    this.parts.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    this.views.push({ buffer: 0, byteOffset: this.length, byteLength: data.byteLength, target });
+    this.length += data.byteLength;
+    return this.views.length - 1;
+  }
+
+  finish(): Uint8Array {
+    const binary = new Uint8Array(this.length);
+    let offset = 0;
+    for (const part of this.parts) {
+      binary.set(part, offset);
+      offset += part.length;
+    }
+    return binary;
+  }
+}
+
+/**
+ * Materials by texture tag, created on first use
+ */
+class MaterialTable {
+  readonly entries: NonNullable<GltfDocument['materials']> = [];
+  private indices = new Map<string, number>();
+
+  constructor(private colors: Record<string, RGBA>) {}
+
+  indexOf(tag: string): number {
+    let index = this.indices.get(tag);
+    if (index === undefined) {
+      index = this.entries.length;
+      this.indices.set(tag, index);
+      this.entries.push({
+        name: tag,
+        pbrMetallicRoughness: { baseColorFactor: this.colors[tag] ?? tagColor(tag), metallicFactor: 0, roughnessFactor: 1 },
+        doubleSided: true
+      });
+    }
+    return index;
+  }
+}
+
+/**
+ * Stable pastel colour for a tag, so the same tag looks the same across exports
+ */
+function tagColor(tag: string): RGBA {
+  if (tag === DEFAULT_MATERIAL) {
+    return [0.8, 0.8, 0.8, 1];
+  }
+  const random = createRandom(hashSeed(tag));
+  return [0.35 + random() * 0.55, 0.35 + random() * 0.55, 0.35 + random() * 0.55, 1];
+}
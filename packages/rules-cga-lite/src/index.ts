@@ -2,7 +2,22 @@
 
 export * from './types';
 export * from './engine';
+export * from './migrations';
+export * from './shapes';
+export * from './expressions';
+export * from './gltf';
+export * from './lint';
+export * from './dsl';
+export * from './batch';
+export * from './legacy';
+export * from './worker';
 export * from './samples';
+export * from './snapshot';
+export * from './utils/crs';
+export { annotateLotEdges, roadsFromGeoJSON } from './utils/edges';
+export { zonesFromGeoJSON, zoneAt } from './utils/zoning';
+export type { EnvelopeConstraint } from './utils/zoning';
+export * from './utils/validity';
 
 // Main rule engine instance
 export { RulesEngine } from './engine';
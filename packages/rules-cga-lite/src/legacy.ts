@@ -0,0 +1,293 @@
+// Adapters for the legacy operator rule format, an operator plus a parameter
+// bag, used by the front end's CGAOperatorsService (`CGARule`) and the
+// imodel-edit server (`ApplyRulesSchema`). Both run through RulesEngine so a
+// program yields the same geometry in the browser preview and on the server.
+
+import { z } from 'zod';
+import { RulesEngine } from './engine';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { GeometryContext, Rule, RuleExecutionResult, RuleProgram, SimpleGeometry } from './types';
+import { CRS } from './utils/crs';
+import { footprintHoles, footprintOf, geometryBounds, openRing } from './utils/geometry';
+
+export const LegacyRuleSchema = z.object({
+  operator: z.enum(['extrude', 'offset', 'setback', 'split', 'repeat', 'roof']),
+  parameters: z.record(z.any()),
+  target: z.string().optional() // Face or axis hint; not used by the engine
+});
+
+export const LegacyRuleProgramSchema = z.object({
+  name: z.string(),
+  rules: z.array(LegacyRuleSchema)
+});
+
+export type LegacyRule = z.infer<typeof LegacyRuleSchema>;
+export type LegacyRuleProgram = z.infer<typeof LegacyRuleProgramSchema>;
+
+// Polygon of the legacy geometry format, [x, y, z?] vertices
+export interface LegacyPolygon {
+  vertices: Array<[number, number, number?]>;
+  holes?: Array<Array<[number, number, number?]>>;
+}
+
+export interface LegacyGeometry {
+  polygons: LegacyPolygon[];
+  attributes: Record<string, any>;
+}
+
+export interface LegacyResult {
+  geometry: LegacyGeometry;
+  success: boolean;
+  message?: string;
+}
+
+// Parameter values the legacy operators assumed when one was missing
+export const LEGACY_DEFAULTS = {
+  extrudeHeight: 20,
+  offsetDistance: -2,          // Negative insets, positive outsets
+  setbacks: { all: 3 },
+  splitAxis: 'z' as const,
+  splitDivisions: [1, 1],      // Relative weights of the parts
+  repeatAxis: 'x' as const,
+  repeatCount: 3,
+  repeatSpacing: 10,
+  roofType: 'flat' as const,
+  roofHeight: 3
+};
+
+// Name of the top part of a z split, which roofs after the split cover
+const TOP_FLOOR = 'TopFloor';
+
+export interface LegacyExecutionOptions {
+  crs?: CRS;             // CRS of the lot vertices (local metres when omitted)
+  engine?: RulesEngine;
+}
+
+/**
+ * Translate legacy rules into a rule program. Setbacks with per-side
+ * distances become one setback per side; a roof after a z split covers the
+ * top floor only, as the legacy roof sat on the building rather than on each
+ * floor. Roof overhangs are not modelled and are dropped.
+ */
+export function legacyRulesToProgram(name: string, rules: LegacyRule[]): RuleProgram {
+  const program: Rule[] = [];
+  for (const rule of rules) {
+    program.push(...legacyRuleToRules(rule, program));
+  }
+  return { name, schemaVersion: CURRENT_SCHEMA_VERSION, rules: program };
+}
+
+/**
+ * Rules for one legacy rule, given the rules translated before it
+ */
+export function legacyRuleToRules(rule: LegacyRule, previous: Rule[] = []): Rule[] {
+  const parameters = rule.parameters || {};
+  switch (rule.operator) {
+    case 'extrude':
+      return [{ op: 'extrude', h: parameters.height ?? LEGACY_DEFAULTS.extrudeHeight }];
+
+    case 'offset': {
+      const distance: number = parameters.distance ?? LEGACY_DEFAULTS.offsetDistance;
+      return distance === 0 ? [] : [{ op: 'offset', d: Math.abs(distance), mode: distance < 0 ? 'in' : 'out' }];
+    }
+
+    case 'setback': {
+      const setbacks: { front?: number; side?: number; back?: number; all?: number } =
+        parameters.setbacks ?? LEGACY_DEFAULTS.setbacks;
+      if (setbacks.all) {
+        return [{ op: 'setback', d: setbacks.all }];
+      }
+      const sides: Array<[number | undefined, Array<'front' | 'back' | 'left' | 'right'>]> = [
+        [setbacks.front, ['front']],
+        [setbacks.side, ['left', 'right']],
+        [setbacks.back, ['back']]
+      ];
+      return sides
+        .filter(([d]) => d !== undefined && d > 0)
+        .map(([d, faces]): Rule => ({ op: 'setback', d: d!, faces }));
+    }
+
+    case 'split': {
+      const axis: 'x' | 'y' | 'z' = parameters.axis ?? LEGACY_DEFAULTS.splitAxis;
+      const divisions: number[] = parameters.divisions ?? LEGACY_DEFAULTS.splitDivisions;
+      const total = divisions.reduce((sum, weight) => sum + weight, 0);
+      // Equal weights share the shape; others become fractions of its extent
+      const sizes = divisions.every(weight => weight === divisions[0])
+        ? divisions.map(() => '*' as const)
+        : divisions.map(weight => `scope.s${axis} * ${weight / total}`);
+      return [axis === 'z'
+        ? { op: 'split', axis, sizes, names: sizes.map((_, i) => i === sizes.length - 1 ? TOP_FLOOR : 'Floor') }
+        : { op: 'split', axis, sizes }];
+    }
+
+    case 'repeat':
+      return [{
+        op: 'repeat',
+        axis: parameters.axis ?? LEGACY_DEFAULTS.repeatAxis,
+        step: parameters.spacing ?? LEGACY_DEFAULTS.repeatSpacing,
+        limit: parameters.count ?? LEGACY_DEFAULTS.repeatCount
+      }];
+
+    case 'roof': {
+      const kind: 'flat' | 'gable' | 'hip' | 'shed' = parameters.type ?? LEGACY_DEFAULTS.roofType;
+      const target = previous.some(op => op.op === 'split' && op.axis === 'z') ? { target: TOP_FLOOR } : {};
+      return [kind === 'flat'
+        ? { op: 'roof', kind, ...target }
+        : { op: 'roof', kind, height: parameters.height ?? LEGACY_DEFAULTS.roofHeight, ...target }];
+    }
+
+    default:
+      throw new Error(`Unknown operator: ${(rule as { operator: string }).operator}`);
+  }
+}
+
+/**
+ * Run legacy rules the way the legacy rule sequence reported them: one result
+ * per rule, or one per part for split and repeat, each holding the geometry
+ * after that rule. A rule that fails is reported and skipped, and the rules
+ * after it run on the geometry before it.
+ *
+ * The rules run as one program, reported from the engine's per-rule snapshots;
+ * only a failure starts a new run, from the rule after the failing one.
+ */
+export async function applyLegacyRules(
+  lot: LegacyGeometry,
+  rules: LegacyRule[],
+  options: LegacyExecutionOptions = {}
+): Promise<LegacyResult[]> {
+  const engine = options.engine ?? new RulesEngine();
+  const context = legacyContext(lot, options.crs);
+  const results: LegacyResult[] = [];
+  let applied: Rule[] = [];
+  let next = 0;              // First rule not reported yet
+  let batch = rules.length;  // Rules translated into the next run
+
+  while (next < rules.length) {
+    const program = [...applied];
+    const steps = rules.slice(next, next + batch).map((rule): LegacyStep => {
+      const start = program.length;
+      try {
+        program.push(...legacyRuleToRules(rule, program));
+        return { rule, start, end: program.length };
+      } catch (error) {
+        return { rule, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+
+    const snapshots: RuleExecutionResult[] = [];
+    const execution = await engine.executeProgram({ name: 'Legacy Rules', schemaVersion: CURRENT_SCHEMA_VERSION, rules: program }, context, {
+      onRule: (count, snapshot) => { snapshots[count] = snapshot; }
+    });
+
+    applied = program;
+    for (const step of steps) {
+      if ('error' in step) {
+        results.push(failedResult(step.error));
+      } else if (step.end < snapshots.length) {
+        results.push(...legacyResults(step.rule, snapshots[step.end], lot.attributes));
+      } else {
+        applied = program.slice(0, step.start);
+        if (snapshots.length === 0 && steps.length > 1) {
+          // The program was refused before its first rule ran; run one rule at a time up to the culprit
+          batch = 1;
+          break;
+        }
+        results.push(failedResult(`${step.rule.operator} failed: ${execution.error || 'Rule execution failed'}`));
+        batch = rules.length;
+        next++;
+        break;
+      }
+      next++;
+    }
+  }
+  return results;
+}
+
+/**
+ * Geometry context of a legacy lot: its first polygon, holes included
+ */
+export function legacyContext(lot: LegacyGeometry, crs?: CRS): GeometryContext {
+  const [polygon] = lot.polygons;
+  if (!polygon || polygon.vertices.length < 3) {
+    throw new Error('Lot needs a polygon with at least 3 vertices');
+  }
+  const ring = openRing(polygon.vertices.map(([x, y]) => [x, y]));
+  const holes = (polygon.holes || []).map(hole => openRing(hole.map(([x, y]) => [x, y])));
+  const xs = ring.map(point => point[0]);
+  const ys = ring.map(point => point[1]);
+  return {
+    polygon: ring,
+    ...(holes.length > 0 ? { holes } : {}),
+    ...(crs ? { crs } : {}),
+    attributes: { ...lot.attributes },
+    boundingBox: {
+      min: { x: Math.min(...xs), y: Math.min(...ys), z: 0 },
+      max: { x: Math.max(...xs), y: Math.max(...ys), z: 0 }
+    }
+  };
+}
+
+/**
+ * Legacy geometry of an engine geometry: the footprint for polygons, one
+ * polygon per face (with its holes) for solids and meshes
+ */
+export function toLegacyGeometry(geometry: SimpleGeometry, attributes: Record<string, any> = geometry.attributes): LegacyGeometry {
+  const point = (vertex: number[]): [number, number, number] => [vertex[0], vertex[1], vertex[2] ?? 0];
+  if (!geometry.faces) {
+    const holes = footprintHoles(geometry);
+    return {
+      polygons: [{
+        vertices: footprintOf(geometry).map(point),
+        ...(holes.length > 0 ? { holes: holes.map(hole => hole.map(point)) } : {})
+      }],
+      attributes
+    };
+  }
+  return {
+    polygons: geometry.faces.map((face, f) => {
+      const holes = geometry.faceHoles?.[f];
+      return {
+        vertices: face.map(index => point(geometry.vertices[index])),
+        ...(holes ? { holes: holes.map(hole => hole.map(index => point(geometry.vertices[index]))) } : {})
+      };
+    }),
+    attributes
+  };
+}
+
+function legacyResults(rule: LegacyRule, execution: RuleExecutionResult, lotAttributes: Record<string, any>): LegacyResult[] {
+  const leaves = execution.leaves || [];
+  if ((rule.operator === 'split' || rule.operator === 'repeat') && leaves.length > 0) {
+    return leaves.map((leaf, index) => ({
+      geometry: toLegacyGeometry(leaf.geometry, {
+        ...lotAttributes,
+        ...leaf.attributes,
+        height: geometryBounds(leaf.geometry).max.z - geometryBounds(leaf.geometry).min.z,
+        partIndex: index,
+        operation: rule.operator,
+        crsCode: execution.crsCode
+      }),
+      success: true,
+      message: `${rule.operator} part ${index + 1}/${leaves.length}`
+    }));
+  }
+  return [{
+    geometry: toLegacyGeometry(execution.geometry!, {
+      ...lotAttributes,
+      ...execution.attributes,
+      operation: rule.operator,
+      crsCode: execution.crsCode
+    }),
+    success: true,
+    message: `Applied ${rule.operator} operation`
+  }];
+}
+
+// Legacy rule of a run, with the range of the program its translation fills
+type LegacyStep =
+  | { rule: LegacyRule; start: number; end: number }
+  | { rule: LegacyRule; error: string };
+
+function failedResult(message: string): LegacyResult {
+  return { geometry: { polygons: [], attributes: {} }, success: false, message };
+}
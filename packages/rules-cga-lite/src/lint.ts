@@ -0,0 +1,522 @@
+// Static analysis of rule programs: reports problems with their JSON path
+// before anything runs, instead of failing on the first one at run time
+
+import { z } from 'zod';
+import { LotEdge, Rule, RuleProgramSchema, RuleSchema } from './types';
+import { expressionIdentifiers, parseExpression } from './expressions';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { edgeSides } from './utils/edges';
+import { openRing } from './utils/geometry';
+import { insetRing, outsetRing } from './utils/offset';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintCode =
+  | 'schema'              // Program does not match the rule schema
+  | 'schema-version'      // Program is written for an older or newer schema version
+  | 'expression'          // Expression does not parse
+  | 'undefined-rule'      // call / case / random names a missing definition
+  | 'unused-definition'   // Definition no rule can reach
+  | 'unreachable'         // Op after a zero-height extrude has nothing to work on
+  | 'roof-before-extrude' // Roof on a flat footprint
+  | 'component-before-extrude' // Window, door or balcony on a flat footprint
+  | 'split-overflow'      // Fixed split sizes exceed the shape
+  | 'split-names'         // Split names and sizes differ in length
+  | 'repeat-empty'        // Repeat step longer than the shape
+  | 'duplicate-attr'      // Attribute overwritten before anything reads it
+  | 'offset-too-large';   // Offset or setback eliminates the lot
+
+export interface LintDiagnostic {
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  path: Array<string | number>; // JSON path into the program, e.g. ['rules', 2, 'sizes']
+  ruleIndex?: number;           // Index of the op within its rule list
+  definition?: string;          // Definition holding the op (ops of `rules` have none)
+}
+
+// Lot the program will run on; checks that need its size are skipped without it
+export interface LintContext {
+  polygon?: number[][];
+  edges?: LotEdge[];
+}
+
+// What is known about every shape at one point of a rule list
+interface FlowState {
+  extruded: 'no' | 'yes' | 'unknown';
+  zeroHeightAt?: number;                              // Untargeted zero-height extrude
+  extent: { x?: number; y?: number; z?: number };     // Shape size per axis
+  footprint?: number[][];                             // Footprint shared by every shape
+  isLot: boolean;                                     // Footprint is still the lot polygon
+  unreadAttrs: Map<string, number>;                   // Attribute -> op that set it, not read since
+}
+
+/**
+ * Lint a rule program (parsed JSON, not yet validated).
+ * Diagnostics come in program order: top-level fields, then `rules`, then
+ * each definition; within a list by op index.
+ */
+export function lintProgram(program: unknown, context: LintContext = {}): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const parsed = RuleProgramSchema.safeParse(program);
+  if (!parsed.success) {
+    parsed.error.issues.forEach(issue => diagnostics.push(schemaDiagnostic(issue, program)));
+  }
+
+  if (!isRecord(program)) {
+    return diagnostics;
+  }
+  const version = program.schemaVersion;
+  if (typeof version === 'number' && Number.isInteger(version) && version > 0 && version !== CURRENT_SCHEMA_VERSION) {
+    diagnostics.push(version < CURRENT_SCHEMA_VERSION
+      ? { severity: 'warning', code: 'schema-version', message: `Program is schema version ${version}; it is migrated to version ${CURRENT_SCHEMA_VERSION} when it runs`, path: ['schemaVersion'] }
+      : { severity: 'error', code: 'schema-version', message: `Program is schema version ${version}, newer than the supported version ${CURRENT_SCHEMA_VERSION}`, path: ['schemaVersion'] });
+  }
+  const lists: Array<{ path: Array<string | number>; definition?: string; rules: Array<Rule | undefined> }> = [];
+  if (Array.isArray(program.rules)) {
+    lists.push({ path: ['rules'], rules: program.rules.map(validRule) });
+  }
+  const definitions = isRecord(program.definitions) ? program.definitions : {};
+  for (const [name, body] of Object.entries(definitions)) {
+    if (Array.isArray(body)) {
+      lists.push({ path: ['definitions', name], definition: name, rules: body.map(validRule) });
+    }
+  }
+
+  for (const list of lists) {
+    const report = (severity: LintSeverity, code: LintCode, message: string, index: number, ...field: Array<string | number>) => {
+      diagnostics.push({ severity, code, message, path: [...list.path, index, ...field], ruleIndex: index, definition: list.definition });
+    };
+
+    list.rules.forEach((rule, index) => {
+      if (!rule) {
+        return;
+      }
+      for (const { field, source } of expressionSources(rule)) {
+        try {
+          parseExpression(source);
+        } catch (error) {
+          report('error', 'expression', error instanceof Error ? error.message : String(error), index, ...field);
+        }
+      }
+      for (const { field, name } of ruleReferences(rule)) {
+        if (!Object.prototype.hasOwnProperty.call(definitions, name)) {
+          report('error', 'undefined-rule', `Unknown rule "${name}"`, index, ...field);
+        }
+      }
+    });
+
+    lintFlow(list.rules, list.definition === undefined ? context : undefined, report);
+  }
+
+  for (const name of unusedDefinitions(lists.map(list => ({ definition: list.definition, rules: list.rules })))) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'unused-definition',
+      message: `Definition "${name}" is never called`,
+      path: ['definitions', name],
+      definition: name
+    });
+  }
+
+  const order = (diagnostic: LintDiagnostic) => {
+    if (diagnostic.path[0] === 'rules') {
+      return 1;
+    }
+    return diagnostic.path[0] === 'definitions' ? 2 + Object.keys(definitions).indexOf(String(diagnostic.path[1])) : 0;
+  };
+  return diagnostics
+    .map((diagnostic, position) => ({ diagnostic, position }))
+    .sort((a, b) => order(a.diagnostic) - order(b.diagnostic) ||
+      (a.diagnostic.ruleIndex ?? -1) - (b.diagnostic.ruleIndex ?? -1) ||
+      a.position - b.position)
+    .map(entry => entry.diagnostic);
+}
+
+/**
+ * Range of the value at a JSON path in the JSON text it was parsed from, as
+ * character offsets. Falls back to the deepest ancestor present in the text
+ * (e.g. the op object for a missing field); null when the text is not JSON.
+ */
+export function jsonPathRange(text: string, path: Array<string | number>): { start: number; end: number } | null {
+  let best: { depth: number; start: number; end: number } | null = null;
+  let position = 0;
+
+  const fail = (): never => {
+    throw new SyntaxError('Invalid JSON');
+  };
+  const skipWhitespace = () => {
+    while (position < text.length && /\s/.test(text[position])) {
+      position++;
+    }
+  };
+  const readString = (): string => {
+    const start = position;
+    position++;
+    while (position < text.length && text[position] !== '"') {
+      position += text[position] === '\\' ? 2 : 1;
+    }
+    if (position >= text.length) {
+      fail();
+    }
+    position++;
+    return JSON.parse(text.slice(start, position));
+  };
+  // `depth` counts how many leading path segments led here (-1 once off the path)
+  const readValue = (depth: number) => {
+    skipWhitespace();
+    const start = position;
+    const onPath = depth >= 0;
+    const char = text[position];
+    if (char === '{') {
+      position++;
+      skipWhitespace();
+      while (text[position] !== '}') {
+        skipWhitespace();
+        if (text[position] !== '"') {
+          fail();
+        }
+        const key = readString();
+        skipWhitespace();
+        if (text[position++] !== ':') {
+          fail();
+        }
+        readValue(onPath && depth < path.length && path[depth] === key ? depth + 1 : -1);
+        skipWhitespace();
+        if (text[position] === ',') {
+          position++;
+        } else if (text[position] !== '}') {
+          fail();
+        }
+      }
+      position++;
+    } else if (char === '[') {
+      position++;
+      skipWhitespace();
+      let index = 0;
+      while (text[position] !== ']') {
+        readValue(onPath && depth < path.length && path[depth] === index ? depth + 1 : -1);
+        index++;
+        skipWhitespace();
+        if (text[position] === ',') {
+          position++;
+        } else if (text[position] !== ']') {
+          fail();
+        }
+      }
+      position++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      const match = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(text.slice(position));
+      if (!match) {
+        fail();
+      }
+      position += match![0].length;
+    }
+    if (onPath && (!best || depth > best.depth)) {
+      best = { depth, start, end: position };
+    }
+  };
+
+  try {
+    readValue(0);
+  } catch {
+    return null;
+  }
+  const found = best as { depth: number; start: number; end: number } | null;
+  return found ? { start: found.start, end: found.end } : null;
+}
+
+/**
+ * Walk a rule list keeping track of what is known about the shapes, and
+ * report ops that cannot work on them. `context` is given for the start rule,
+ * which runs on the flat lot; definitions may be called on any shape.
+ */
+function lintFlow(
+  rules: Array<Rule | undefined>,
+  context: LintContext | undefined,
+  report: (severity: LintSeverity, code: LintCode, message: string, index: number, ...field: Array<string | number>) => void
+): void {
+  const lot = context?.polygon ? openRing(context.polygon) : undefined;
+  const state: FlowState = {
+    extruded: context ? 'no' : 'unknown',
+    extent: context ? { ...(lot ? ringExtent(lot) : {}), z: 0 } : {},
+    footprint: lot,
+    isLot: lot !== undefined,
+    unreadAttrs: new Map()
+  };
+  const forget = () => {
+    state.extruded = 'unknown';
+    state.extent = {};
+    state.footprint = undefined;
+    state.isLot = false;
+    state.unreadAttrs.clear();
+  };
+
+  rules.forEach((rule, index) => {
+    if (!rule) {
+      forget();
+      return;
+    }
+    const targeted = rule.target !== undefined;
+    for (const { source } of expressionSources(rule)) {
+      try {
+        expressionIdentifiers(source).forEach(name => state.unreadAttrs.delete(name));
+      } catch {
+        // Reported as an expression diagnostic
+      }
+    }
+
+    if (state.zeroHeightAt !== undefined && rule.op !== 'attr' && rule.op !== 'extrude') {
+      report('warning', 'unreachable',
+        `Unreachable: the extrude at index ${state.zeroHeightAt} has zero height, so ${rule.op} has nothing to work on`, index);
+    }
+
+    switch (rule.op) {
+      case 'extrude': {
+        const h = typeof rule.h === 'number' ? rule.h : undefined;
+        if (targeted) {
+          state.extruded = state.extruded === 'yes' ? 'yes' : 'unknown';
+          state.extent.z = undefined;
+        } else {
+          state.extruded = 'yes';
+          state.extent.z = h;
+          state.zeroHeightAt = h === 0 ? index : undefined;
+        }
+        break;
+      }
+      case 'roof':
+        if (state.extruded === 'no' && rule.kind !== 'flat') {
+          report('warning', 'roof-before-extrude', 'Roof on a flat footprint: extrude the shape first', index, 'op');
+        }
+        state.extent.z = undefined;
+        break;
+      case 'component':
+        if (state.extruded === 'no') {
+          report('error', 'component-before-extrude', `A ${rule.kind} needs a facade: extrude the shape first`, index, 'op');
+        }
+        break;
+      case 'envelope':
+        // Clipping depends on the zone, so the new sizes are not known
+        state.extent = {};
+        state.footprint = undefined;
+        state.isLot = false;
+        break;
+      case 'split': {
+        if (rule.names && rule.names.length !== rule.sizes.length) {
+          report('error', 'split-names', `Split has ${rule.names.length} names for ${rule.sizes.length} sizes`, index, 'names');
+        }
+        const extent = state.extent[rule.axis];
+        const fixed = rule.sizes.filter((size): size is number => typeof size === 'number');
+        const isLiteral = rule.sizes.every(size => typeof size === 'number' || size === '*');
+        const total = fixed.reduce((sum, size) => sum + size, 0);
+        if (extent !== undefined && isLiteral && total > extent + 1e-9) {
+          report('error', 'split-overflow',
+            `Split sizes add up to ${round(total)} but the shape is only ${round(extent)} along ${rule.axis}`, index, 'sizes');
+        }
+        subdivide(state, rule.axis);
+        break;
+      }
+      case 'repeat': {
+        const extent = state.extent[rule.axis];
+        if (extent !== undefined && typeof rule.step === 'number' && rule.step > extent + 1e-9) {
+          report('warning', 'repeat-empty',
+            `Repeat step ${round(rule.step)} is longer than the shape (${round(extent)} along ${rule.axis}), so no tiles are made`, index, 'step');
+        }
+        subdivide(state, rule.axis);
+        break;
+      }
+      case 'offset':
+      case 'setback': {
+        const parts = targeted || typeof rule.d !== 'number' ? undefined : reshapeFootprint(rule, state, context);
+        if (parts && parts.length === 0) {
+          report('error', 'offset-too-large',
+            `${rule.op === 'offset' ? 'Offset' : 'Setback'} of ${round(rule.d as number)} eliminates the footprint`, index, 'd');
+        }
+        // Both replace the shape with its new footprint
+        state.footprint = parts && parts.length === 1 ? parts[0] : undefined;
+        state.extent = state.footprint ? { ...ringExtent(state.footprint), z: 0 } : (targeted ? {} : { z: 0 });
+        state.extruded = targeted ? 'unknown' : 'no';
+        state.isLot = false;
+        state.zeroHeightAt = targeted ? state.zeroHeightAt : undefined;
+        break;
+      }
+      case 'attr':
+        if (!targeted) {
+          const previous = state.unreadAttrs.get(rule.name);
+          if (previous !== undefined) {
+            report('warning', 'duplicate-attr',
+              `Attribute "${rule.name}" is set again before anything reads the value set at index ${previous}`, index, 'name');
+          }
+          state.unreadAttrs.set(rule.name, index);
+        }
+        break;
+      case 'call':
+      case 'case':
+      case 'random':
+        // The called rules may do anything
+        forget();
+        break;
+    }
+  });
+}
+
+/**
+ * Footprint parts left by an untargeted offset or setback, when the footprint is known
+ */
+function reshapeFootprint(
+  rule: Extract<Rule, { op: 'offset' | 'setback' }>,
+  state: FlowState,
+  context: LintContext | undefined
+): number[][][] | undefined {
+  const footprint = state.footprint;
+  const d = rule.d as number;
+  if (!footprint) {
+    return undefined;
+  }
+  if (rule.op === 'offset') {
+    return rule.mode === 'out' ? outsetRing(footprint, d) : insetRing(footprint, footprint.map(() => d));
+  }
+  if (rule.edges !== undefined) {
+    return undefined;
+  }
+  const faces = rule.faces || ['front', 'back', 'left', 'right'];
+  const edges = state.isLot && context?.edges?.length === footprint.length ? context.edges : [];
+  return insetRing(footprint, edgeSides(footprint, edges).map(side => faces.includes(side) ? d : 0));
+}
+
+/**
+ * After a split or repeat the parts differ in size along the axis
+ */
+function subdivide(state: FlowState, axis: 'x' | 'y' | 'z'): void {
+  state.extent[axis] = undefined;
+  if (axis !== 'z') {
+    state.footprint = undefined;
+    state.isLot = false;
+  }
+}
+
+/**
+ * Expressions of a rule with their path relative to the op
+ */
+function expressionSources(rule: Rule): Array<{ field: Array<string | number>; source: string }> {
+  const sources: Array<{ field: Array<string | number>; source: string }> = [];
+  const add = (source: unknown, ...field: Array<string | number>) => {
+    if (typeof source === 'string') {
+      sources.push({ field, source });
+    }
+  };
+  switch (rule.op) {
+    case 'extrude':
+      add(rule.h, 'h');
+      break;
+    case 'offset':
+      add(rule.d, 'd');
+      break;
+    case 'setback':
+      add(rule.d, 'd');
+      add(rule.edges, 'edges');
+      break;
+    case 'split':
+      rule.sizes.forEach((size, i) => size !== '*' && add(size, 'sizes', i));
+      break;
+    case 'repeat':
+      add(rule.step, 'step');
+      add(rule.limit, 'limit');
+      break;
+    case 'roof':
+      add(rule.pitch, 'pitch');
+      add(rule.height, 'height');
+      break;
+    case 'component':
+      add(rule.width, 'width');
+      add(rule.height, 'height');
+      add(rule.sill, 'sill');
+      add(rule.depth, 'depth');
+      break;
+    case 'attr':
+      add(rule.expr, 'expr');
+      break;
+    case 'case':
+      rule.branches.forEach((branch, i) => add(branch.when, 'branches', i, 'when'));
+      break;
+  }
+  return sources;
+}
+
+/**
+ * Definitions a rule invokes, with the path of each reference
+ */
+function ruleReferences(rule: Rule): Array<{ field: Array<string | number>; name: string }> {
+  switch (rule.op) {
+    case 'call':
+      return [{ field: ['rule'], name: rule.rule }];
+    case 'case':
+    case 'random': {
+      const references = rule.branches.map((branch, i) => ({ field: ['branches', i, 'rule'], name: branch.rule }));
+      return rule.else ? [...references, { field: ['else'], name: rule.else }] : references;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Definitions not reachable from `rules`
+ */
+function unusedDefinitions(lists: Array<{ definition?: string; rules: Array<Rule | undefined> }>): string[] {
+  const bodies = new Map(lists.map(list => [list.definition, list.rules]));
+  const reached = new Set<string | undefined>([undefined]);
+  const pending: Array<string | undefined> = [undefined];
+  while (pending.length > 0) {
+    for (const rule of bodies.get(pending.pop()) || []) {
+      for (const { name } of rule ? ruleReferences(rule) : []) {
+        if (!reached.has(name) && bodies.has(name)) {
+          reached.add(name);
+          pending.push(name);
+        }
+      }
+    }
+  }
+  return lists.flatMap(list => list.definition !== undefined && !reached.has(list.definition) ? [list.definition] : []);
+}
+
+function schemaDiagnostic(issue: z.ZodIssue, program: unknown): LintDiagnostic {
+  const value = issue.path.reduce((current: any, key) => current?.[key], program);
+  let message = issue.message;
+  if (issue.code === 'invalid_union_discriminator') {
+    message = `Unknown operation ${JSON.stringify(value)}; expected one of ${issue.options.join(', ')}`;
+  } else if (value !== undefined && issue.code !== 'unrecognized_keys') {
+    message = `${issue.message} (got ${JSON.stringify(value)})`;
+  }
+  const listIndex = issue.path[0] === 'rules' ? 1 : issue.path[0] === 'definitions' ? 2 : -1;
+  const ruleIndex = listIndex >= 0 && typeof issue.path[listIndex] === 'number' ? issue.path[listIndex] as number : undefined;
+  return {
+    severity: 'error',
+    code: 'schema',
+    message,
+    path: [...issue.path],
+    ruleIndex,
+    definition: issue.path[0] === 'definitions' && issue.path.length > 1 ? String(issue.path[1]) : undefined
+  };
+}
+
+function validRule(rule: unknown): Rule | undefined {
+  const parsed = RuleSchema.safeParse(rule);
+  return parsed.success ? parsed.data : undefined;
+}
+
+function ringExtent(ring: number[][]): { x: number; y: number } {
+  const xs = ring.map(p => p[0]);
+  const ys = ring.map(p => p[1]);
+  return { x: Math.max(...xs) - Math.min(...xs), y: Math.max(...ys) - Math.min(...ys) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,123 @@
+// Schema versions of rule programs. A program records the `schemaVersion` it
+// was written for; when operations change meaning, the version goes up and a
+// migration rewrites older programs so they keep producing the same shapes.
+// Migrations run one version at a time and report every change they make.
+
+import { MigrationChange, MigrationReport, Rule, RuleProgram, RoofRule } from './types';
+
+// Version of programs this engine writes and runs without migrating
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// Version of programs stored before `schemaVersion` existed
+export const UNVERSIONED_SCHEMA_VERSION = 1;
+
+export interface RuleMigration {
+  from: number;                 // Upgrades programs of this version to `from + 1`
+  description: string;
+  migrate(program: RuleProgram, change: (path: Array<string | number>, message: string) => void): RuleProgram;
+}
+
+export interface MigrationResult extends MigrationReport {
+  program: RuleProgram;         // Upgraded program, with `schemaVersion` set to the target
+}
+
+/**
+ * Raised when a program cannot be brought to the requested version: it is
+ * newer than this engine, or a migration step is missing
+ */
+export class RuleProgramVersionError extends Error {
+  constructor(message: string, readonly version: number) {
+    super(message);
+    this.name = 'RuleProgramVersionError';
+  }
+}
+
+// Roof rise in metres per degree of pitch under version 1
+const V1_ROOF_RISE_PER_DEGREE = Math.PI / 180 * 10;
+
+// Pitch version 1 assumed for roofs without one
+const V1_ROOF_PITCH = 30;
+
+export const RULE_MIGRATIONS: RuleMigration[] = [
+  {
+    from: 1,
+    description: 'Roofs without a height rise by their pitch over the footprint instead of a fixed 10 m run',
+    migrate: (program, change) => mapRules(program, (rule, path) => {
+      if (rule.op !== 'roof' || rule.kind === 'flat' || rule.height !== undefined) {
+        return rule;
+      }
+      // Version 1 treated a pitch of 0 as missing
+      const height: RoofRule['height'] = typeof rule.pitch === 'string'
+        ? `(${rule.pitch}) * ${V1_ROOF_RISE_PER_DEGREE}`
+        : Number(((rule.pitch || V1_ROOF_PITCH) * V1_ROOF_RISE_PER_DEGREE).toFixed(3));
+      change([...path, 'height'], `Roof height set to ${height}, the rise version 1 gave a pitch of ${rule.pitch ?? V1_ROOF_PITCH}`);
+      return { ...rule, height };
+    })
+  }
+];
+
+/**
+ * Version a program is written for. Programs without `schemaVersion` predate
+ * versioning and are taken to be version 1.
+ */
+export function programSchemaVersion(program: RuleProgram): number {
+  return program.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a program step by step to `toVersion`, collecting the changes of
+ * every step. The input is not modified. Throws RuleProgramVersionError for
+ * programs newer than `toVersion` or when a step has no migration.
+ */
+export function migrateProgram(
+  program: RuleProgram,
+  toVersion: number = CURRENT_SCHEMA_VERSION,
+  migrations: RuleMigration[] = RULE_MIGRATIONS
+): MigrationResult {
+  const fromVersion = programSchemaVersion(program);
+  if (fromVersion > toVersion) {
+    throw new RuleProgramVersionError(
+      `Rule program is schema version ${fromVersion}, newer than the supported version ${toVersion}`,
+      fromVersion
+    );
+  }
+
+  const changes: MigrationChange[] = [];
+  let migrated = program;
+  for (let version = fromVersion; version < toVersion; version++) {
+    const migration = migrations.find(candidate => candidate.from === version);
+    if (!migration) {
+      throw new RuleProgramVersionError(`No migration from rule program schema version ${version} to ${version + 1}`, fromVersion);
+    }
+    migrated = migration.migrate(migrated, (path, message) => changes.push({ version: version + 1, path, message }));
+  }
+
+  return {
+    program: fromVersion === toVersion ? program : { ...migrated, schemaVersion: toVersion },
+    fromVersion,
+    toVersion,
+    changes
+  };
+}
+
+/**
+ * Migration changes as text, one line per change with its path
+ */
+export function formatMigrationChanges(changes: MigrationChange[]): string[] {
+  return changes.map(({ version, path, message }) =>
+    `v${version} ${path.map((key, i) => typeof key === 'number' ? `[${key}]` : i === 0 ? key : `.${key}`).join('')}: ${message}`);
+}
+
+/**
+ * Program with every op of `rules` and of each definition passed through `map`
+ */
+function mapRules(program: RuleProgram, map: (rule: Rule, path: Array<string | number>) => Rule): RuleProgram {
+  return {
+    ...program,
+    rules: program.rules.map((rule, i) => map(rule, ['rules', i])),
+    ...(program.definitions ? {
+      definitions: Object.fromEntries(Object.entries(program.definitions).map(([name, rules]) =>
+        [name, rules.map((rule, i) => map(rule, ['definitions', name, i]))]))
+    } : {})
+  };
+}
@@ -1,21 +1,37 @@
 // Sample rule programs for testing and examples
 
-import { RuleProgram } from './types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { GeometryContext, RuleProgram, RuleDefinitions } from './types';
+
+/**
+ * Shared floor recipe - tiles a mass into `floorHeight` floors named `Floor`
+ * and records the height each floor actually got
+ */
+export const FLOOR_DEFINITIONS: RuleDefinitions = {
+  Floors: [
+    { op: 'repeat', axis: 'z', step: 'floorHeight', name: 'Floor' },
+    { op: 'attr', name: 'floorHeight', expr: 'scope.sz', target: 'Floor' }
+  ]
+};
 
 /**
  * Simple tower rule - extrude polygon to create a basic building
  */
 export const TOWER_RULE: RuleProgram = {
   name: 'Simple Tower',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   description: 'Basic extrusion to create a tower/building mass',
   attrs: {
     buildingType: 'residential',
-    floors: 10
+    floors: 10,
+    floorHeight: 3
   },
+  definitions: FLOOR_DEFINITIONS,
   rules: [
-    { op: 'extrude', h: 30 },
+    { op: 'extrude', h: 'floors * floorHeight' },
+    { op: 'call', rule: 'Floors' },
     { op: 'textureTag', tag: 'building_facade' },
-    { op: 'attr', name: 'buildingHeight', value: 30 }
+    { op: 'attr', name: 'buildingHeight', expr: 'floors * floorHeight' }
   ]
 };
 
@@ -24,17 +40,18 @@ export const TOWER_RULE: RuleProgram = {
  */
 export const STEPPED_BUILDING_RULE: RuleProgram = {
   name: 'Stepped Building',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   description: 'Building with setbacks creating stepped profile',
   attrs: {
     buildingType: 'office',
     maxHeight: 60
   },
   rules: [
-    { op: 'extrude', h: 20 },
+    { op: 'extrude', h: 'maxHeight / 3' },
     { op: 'setback', d: 3, faces: ['front', 'back'] },
-    { op: 'extrude', h: 20 },
+    { op: 'extrude', h: 'maxHeight / 3' },
     { op: 'setback', d: 2, faces: ['left', 'right'] },
-    { op: 'extrude', h: 20 },
+    { op: 'extrude', h: 'maxHeight / 3' },
     { op: 'roof', kind: 'flat' },
     { op: 'textureTag', tag: 'office_facade' }
   ]
@@ -45,6 +62,7 @@ export const STEPPED_BUILDING_RULE: RuleProgram = {
  */
 export const HOUSE_WITH_ROOF_RULE: RuleProgram = {
   name: 'House with Gable Roof',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   description: 'Residential house with gabled roof',
   attrs: {
     buildingType: 'residential',
@@ -65,13 +83,14 @@ export const HOUSE_WITH_ROOF_RULE: RuleProgram = {
  */
 export const COMMERCIAL_STRIP_RULE: RuleProgram = {
   name: 'Commercial Strip',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   description: 'Low-rise commercial building with parking setback',
   attrs: {
     buildingType: 'commercial',
     parkingSpaces: 20
   },
   rules: [
-    { op: 'setback', d: 8, faces: ['front'] }, // Parking setback
+    { op: 'setback', d: 'min(8, 0.25 * scope.sy)', faces: ['front'] }, // Parking setback, at most a quarter of the lot depth
     { op: 'extrude', h: 6 },
     { op: 'roof', kind: 'flat' },
     { op: 'textureTag', tag: 'commercial_facade' },
@@ -80,24 +99,66 @@ export const COMMERCIAL_STRIP_RULE: RuleProgram = {
 };
 
 /**
- * Mixed-use building rule - split and different treatments
+ * Mixed-use building rule - split into a retail ground floor and repeated housing floors
  */
 export const MIXED_USE_RULE: RuleProgram = {
   name: 'Mixed Use Building',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   description: 'Ground floor commercial with residential above',
   attrs: {
     buildingType: 'mixed',
     groundFloorUse: 'commercial',
-    upperFloorUse: 'residential'
+    upperFloorUse: 'residential',
+    floorHeight: 3
+  },
+  definitions: FLOOR_DEFINITIONS,
+  rules: [
+    { op: 'extrude', h: 28 },
+    { op: 'split', axis: 'z', sizes: [4, '*'], names: ['GroundFloor', 'UpperFloors'] },
+    { op: 'textureTag', tag: 'commercial_ground_floor', target: 'GroundFloor' },
+    { op: 'attr', name: 'use', value: 'retail', target: 'GroundFloor' },
+    { op: 'call', rule: 'Floors', target: 'UpperFloors' },
+    { op: 'textureTag', tag: 'residential_upper', target: 'Floor' },
+    { op: 'attr', name: 'use', value: 'housing', target: 'Floor' }
+  ]
+};
+
+/**
+ * Lot-adaptive rule - towers on large lots, houses on small ones, with a
+ * reproducible 30% share of gable roofs among the houses
+ */
+export const ADAPTIVE_LOT_RULE: RuleProgram = {
+  name: 'Adaptive Lot',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  description: 'Tower on lots over 800 m², otherwise a house with a random roof',
+  attrs: {
+    floorHeight: 3
+  },
+  seed: 42,
+  definitions: {
+    ...FLOOR_DEFINITIONS,
+    Tower: [
+      { op: 'setback', d: 'min(5, 0.1 * scope.sy)' },
+      { op: 'extrude', h: 'clamp(sqrt(baseArea), 15, 60)' },
+      { op: 'call', rule: 'Floors' },
+      { op: 'attr', name: 'buildingType', value: 'tower' }
+    ],
+    House: [
+      { op: 'setback', d: 1.5 },
+      { op: 'extrude', h: 6 },
+      { op: 'random', branches: [{ percent: 30, rule: 'GableRoof' }], else: 'FlatRoof' },
+      { op: 'attr', name: 'buildingType', value: 'house' }
+    ],
+    GableRoof: [
+      { op: 'roof', kind: 'gable', pitch: 35 },
+      { op: 'textureTag', tag: 'roof_tiles' }
+    ],
+    FlatRoof: [
+      { op: 'roof', kind: 'flat' }
+    ]
   },
   rules: [
-    { op: 'split', axis: 'z', sizes: [4, '*'] },
-    { op: 'extrude', h: 4 }, // Ground floor
-    { op: 'textureTag', tag: 'commercial_ground_floor' },
-    { op: 'extrude', h: 24 }, // Upper floors
-    { op: 'setback', d: 2, faces: ['front', 'back'] },
-    { op: 'textureTag', tag: 'residential_upper' },
-    { op: 'roof', kind: 'flat' }
+    { op: 'case', branches: [{ when: 'baseArea > 800', rule: 'Tower' }], else: 'House' }
   ]
 };
 
@@ -109,7 +170,20 @@ export const SAMPLE_RULES = {
   STEPPED_BUILDING_RULE,
   HOUSE_WITH_ROOF_RULE,
   COMMERCIAL_STRIP_RULE,
-  MIXED_USE_RULE
+  MIXED_USE_RULE,
+  ADAPTIVE_LOT_RULE
+};
+
+/**
+ * Test lots in local metres, covering the footprints the samples must handle:
+ * a large and a narrow rectangle, an L-shape, a courtyard and a trapezoid
+ */
+export const SAMPLE_LOTS: Record<string, GeometryContext> = {
+  square: sampleLot([[0, 0], [30, 0], [30, 30], [0, 30]]),
+  narrow: sampleLot([[0, 0], [12, 0], [12, 30], [0, 30]]),
+  lShape: sampleLot([[0, 0], [40, 0], [40, 15], [15, 15], [15, 35], [0, 35]]),
+  courtyard: sampleLot([[0, 0], [40, 0], [40, 40], [0, 40]], [[[15, 15], [15, 25], [25, 25], [25, 15]]]),
+  trapezoid: sampleLot([[0, 0], [36, 0], [30, 24], [4, 24]])
 };
 
 /**
@@ -124,4 +198,17 @@ export function getRuleByName(name: string): RuleProgram | undefined {
  */
 export function getAllRuleNames(): string[] {
   return Object.values(SAMPLE_RULES).map(rule => rule.name);
-}
\ No newline at end of file
+}
+function sampleLot(polygon: number[][], holes?: number[][][]): GeometryContext {
+  const xs = polygon.map(([x]) => x);
+  const ys = polygon.map(([, y]) => y);
+  return {
+    polygon,
+    ...(holes ? { holes } : {}),
+    attributes: {},
+    boundingBox: {
+      min: { x: Math.min(...xs), y: Math.min(...ys), z: 0 },
+      max: { x: Math.max(...xs), y: Math.max(...ys), z: 0 }
+    }
+  };
+}
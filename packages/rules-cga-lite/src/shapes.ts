@@ -0,0 +1,111 @@
+// Shape tree for CGA-style rule execution
+
+import { ShapeNode, SimpleGeometry } from './types';
+
+// Name of the start shape created from the lot polygon
+export const ROOT_SHAPE_NAME = 'Lot';
+
+// Child shape produced by a subdividing operation (split, repeat)
+export interface ShapeSpec {
+  name?: string; // Defaults to the parent shape name
+  geometry: SimpleGeometry;
+  attributes: Record<string, any>;
+}
+
+/**
+ * Shape tree - keeps the parent/child lineage of every shape created while
+ * a rule program runs. Operations apply to leaves; split and repeat turn a
+ * leaf into an interior node by attaching children.
+ */
+export class ShapeTree {
+  private nodes = new Map<string, ShapeNode>();
+  private nextId = 0;
+  readonly rootId: string;
+
+  constructor(geometry: SimpleGeometry, attributes: Record<string, any>, name: string = ROOT_SHAPE_NAME) {
+    const root = this.createNode({ name, geometry, attributes }, undefined, 0);
+    this.rootId = root.id;
+  }
+
+  /**
+   * Get a shape by id
+   */
+  get(id: string): ShapeNode {
+    const node = this.nodes.get(id);
+    if (!node) {
+      throw new Error(`Unknown shape: ${id}`);
+    }
+    return node;
+  }
+
+  /**
+   * Attach child shapes to a leaf
+   */
+  subdivide(parentId: string, children: ShapeSpec[]): ShapeNode[] {
+    const parent = this.get(parentId);
+    if (parent.childIds.length > 0) {
+      throw new Error(`Shape ${parentId} (${parent.name}) has already been subdivided`);
+    }
+
+    const created = children.map(child => this.createNode(
+      { ...child, name: child.name ?? parent.name },
+      parent.id,
+      parent.depth + 1
+    ));
+    parent.childIds = created.map(child => child.id);
+    return created;
+  }
+
+  /**
+   * Remove a leaf, and every ancestor it leaves without children (the root is kept)
+   */
+  remove(id: string): void {
+    const node = this.get(id);
+    if (node.childIds.length > 0) {
+      throw new Error(`Shape ${id} (${node.name}) is not a leaf`);
+    }
+    if (node.parentId === undefined) {
+      throw new Error('The root shape cannot be removed');
+    }
+    this.nodes.delete(id);
+    const parent = this.get(node.parentId);
+    parent.childIds = parent.childIds.filter(childId => childId !== id);
+    if (parent.childIds.length === 0 && parent.parentId !== undefined) {
+      this.remove(parent.id);
+    }
+  }
+
+  /**
+   * All shapes of a subtree (whole tree by default) in depth-first order
+   */
+  all(rootId: string = this.rootId): ShapeNode[] {
+    const ordered: ShapeNode[] = [];
+    const visit = (node: ShapeNode) => {
+      ordered.push(node);
+      node.childIds.forEach(childId => visit(this.get(childId)));
+    };
+    visit(this.get(rootId));
+    return ordered;
+  }
+
+  /**
+   * Leaf shapes of a subtree (whole tree by default) in depth-first order
+   */
+  leaves(rootId: string = this.rootId): ShapeNode[] {
+    return this.all(rootId).filter(node => node.childIds.length === 0);
+  }
+
+  private createNode(spec: ShapeSpec & { name: string }, parentId: string | undefined, depth: number): ShapeNode {
+    const node: ShapeNode = {
+      id: `shape_${this.nextId++}`,
+      name: spec.name,
+      parentId,
+      childIds: [],
+      depth,
+      geometry: spec.geometry,
+      attributes: spec.attributes
+    };
+    this.nodes.set(node.id, node);
+    return node;
+  }
+}
@@ -0,0 +1,286 @@
+// Geometry snapshots of rule results: a canonical, rounded form of the shape
+// tree and every leaf that can be stored as a golden file and compared within
+// a tolerance, so changes to vertex order or face topology show up in review
+
+import { RulesEngine } from './engine';
+import { GeometryContext, RuleExecutionResult, RuleProgram, SimpleGeometry } from './types';
+import { footprintHoles, footprintOf, openRing, polygonArea } from './utils/geometry';
+import { faceNormal, geometryVolume } from './utils/mesh';
+
+// Decimal places kept in snapshots (micrometres for metre coordinates)
+export const SNAPSHOT_PRECISION = 6;
+
+// Relative tolerance when comparing snapshot numbers
+export const SNAPSHOT_TOLERANCE = 1e-6;
+
+// Differences listed per snapshot in a report before the rest are counted
+const REPORT_LIMIT = 10;
+
+// Longest value printed in a report line
+const REPORT_VALUE_LENGTH = 60;
+
+export interface GeometrySnapshot {
+  type: SimpleGeometry['type'];
+  vertices: number[][];                   // Rounded, without repeats, in ascending order
+  faces?: number[][];                     // Each starting at its lowest index, sorted
+  faceHoles?: Record<number, number[][]>; // Hole rings by index into `faces`
+  holes?: number[][][];                   // Footprint holes, each starting at its lowest point
+  area: number;                           // Footprint area (0 for meshes)
+  surfaceArea: number;                    // Area of the faces (0 for polygons)
+  volume: number;
+}
+
+export interface LeafSnapshot {
+  id: string;
+  name: string;
+  attributes: Record<string, any>;
+  geometry: GeometrySnapshot;
+}
+
+export interface ResultSnapshot {
+  success: boolean;
+  error?: string;
+  crsCode?: string;
+  attributes: Record<string, any>;
+  shapes: Array<{ id: string; name: string; parentId?: string; depth: number }>;
+  leaves: LeafSnapshot[];
+  totals: { leafCount: number; area: number; surfaceArea: number; volume: number };
+}
+
+export interface SnapshotDifference {
+  path: string;   // e.g. 'leaves[3].geometry.volume'
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * Canonical form of a geometry: coordinates rounded, repeated vertices merged
+ * and sorted, and faces and rings rotated and ordered so that the same shape
+ * gives the same snapshot whatever order the engine emitted it in
+ */
+export function snapshotGeometry(geometry: SimpleGeometry, precision: number = SNAPSHOT_PRECISION): GeometrySnapshot {
+  const round = (point: number[]) => point.map(value => roundTo(value, precision));
+  const holes = footprintHoles(geometry).map(hole => rotateToLowest(openRing(hole).map(round), comparePoints))
+    .sort(compareRings);
+  const area = geometry.type === 'mesh' ? 0 : polygonArea(openRing(footprintOf(geometry)), footprintHoles(geometry));
+  const volume = geometryVolume(geometry);
+
+  if (geometry.type === 'polygon' || !geometry.faces) {
+    return {
+      type: geometry.type,
+      vertices: rotateToLowest(geometry.vertices.map(round), comparePoints),
+      ...(holes.length > 0 ? { holes } : {}),
+      area: roundTo(area, precision),
+      surfaceArea: 0,
+      volume: roundTo(volume, precision)
+    };
+  }
+
+  const keys = geometry.vertices.map(vertex => JSON.stringify(round(vertex)));
+  const vertices = [...new Set(keys)].map(key => JSON.parse(key) as number[]).sort(comparePoints);
+  const indexOf = new Map(vertices.map((vertex, index) => [JSON.stringify(vertex), index]));
+  const remap = (ring: number[]) => rotateToLowest(
+    ring.map(index => indexOf.get(keys[index])!).filter((index, i, all) => index !== all[(i + 1) % all.length]),
+    (a, b) => a - b
+  );
+
+  const faces = geometry.faces
+    .map((face, f) => ({ face: remap(face), holes: (geometry.faceHoles?.[f] || []).map(remap).sort(compareRings) }))
+    .sort((a, b) => compareRings(a.face, b.face) || compareRings(a.holes.flat(), b.holes.flat()));
+  const faceHoles: Record<number, number[][]> = {};
+  faces.forEach((entry, f) => {
+    if (entry.holes.length > 0) {
+      faceHoles[f] = entry.holes;
+    }
+  });
+  const ringArea = (ring: number[]) => Math.hypot(...faceNormal(ring.map(index => geometry.vertices[index]))) / 2;
+  const surfaceArea = geometry.faces.reduce((sum, face, f) =>
+    (geometry.faceHoles?.[f] || []).reduce((rest, hole) => rest - ringArea(hole), sum + ringArea(face)), 0);
+
+  return {
+    type: geometry.type,
+    vertices,
+    faces: faces.map(entry => entry.face),
+    ...(Object.keys(faceHoles).length > 0 ? { faceHoles } : {}),
+    ...(holes.length > 0 ? { holes } : {}),
+    area: roundTo(area, precision),
+    surfaceArea: roundTo(surfaceArea, precision),
+    volume: roundTo(volume, precision)
+  };
+}
+
+/**
+ * Snapshot of a rule result: the shape tree, each leaf with its attributes
+ * and canonical geometry, and the totals over the leaves. Run timings are
+ * left out.
+ */
+export function snapshotResult(result: RuleExecutionResult, precision: number = SNAPSHOT_PRECISION): ResultSnapshot {
+  const leaves = (result.leaves || []).map(leaf => ({
+    id: leaf.id,
+    name: leaf.name,
+    attributes: canonicalValue(leaf.attributes, precision),
+    geometry: snapshotGeometry(leaf.geometry, precision)
+  }));
+  const total = (key: 'area' | 'surfaceArea' | 'volume') =>
+    roundTo(leaves.reduce((sum, leaf) => sum + leaf.geometry[key], 0), precision);
+
+  return {
+    success: result.success,
+    ...(result.error !== undefined ? { error: result.error } : {}),
+    ...(result.crsCode !== undefined ? { crsCode: result.crsCode } : {}),
+    attributes: canonicalValue(result.attributes, precision),
+    shapes: (result.shapes || []).map(shape => ({
+      id: shape.id,
+      name: shape.name,
+      ...(shape.parentId !== undefined ? { parentId: shape.parentId } : {}),
+      depth: shape.depth
+    })),
+    leaves,
+    totals: { leafCount: leaves.length, area: total('area'), surfaceArea: total('surfaceArea'), volume: total('volume') }
+  };
+}
+
+/**
+ * Run every program on every lot and snapshot the results, keyed by program
+ * name and then by lot name
+ */
+export async function snapshotPrograms(
+  programs: RuleProgram[],
+  lots: Record<string, GeometryContext>,
+  engine: RulesEngine = new RulesEngine()
+): Promise<Record<string, Record<string, ResultSnapshot>>> {
+  const snapshots: Record<string, Record<string, ResultSnapshot>> = {};
+  for (const program of programs) {
+    snapshots[program.name] = {};
+    for (const [lotName, lot] of Object.entries(lots)) {
+      snapshots[program.name][lotName] = snapshotResult(await engine.executeProgram(program, lot));
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Differences between a stored snapshot and a new one. Numbers match within
+ * `tolerance` relative to their size (absolute below 1); arrays of different
+ * lengths are reported once, by length, rather than element by element.
+ */
+export function compareSnapshots(expected: unknown, actual: unknown, tolerance: number = SNAPSHOT_TOLERANCE): SnapshotDifference[] {
+  const differences: SnapshotDifference[] = [];
+  const visit = (a: unknown, b: unknown, path: string) => {
+    if (typeof a === 'number' && typeof b === 'number') {
+      if (Math.abs(a - b) > tolerance * Math.max(1, Math.abs(a), Math.abs(b))) {
+        differences.push({ path, expected: a, actual: b });
+      }
+      return;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      if (a.length !== b.length) {
+        differences.push({ path: `${path}.length`, expected: a.length, actual: b.length });
+        return;
+      }
+      a.forEach((item, i) => visit(item, b[i], `${path}[${i}]`));
+      return;
+    }
+    if (isRecord(a) && isRecord(b)) {
+      const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+      keys.forEach(key => visit(a[key], b[key], path ? `${path}.${key}` : key));
+      return;
+    }
+    if (a !== b) {
+      differences.push({ path, expected: a, actual: b });
+    }
+  };
+  visit(expected, actual, '');
+  return differences;
+}
+
+/**
+ * Readable report of snapshots that differ, one block per snapshot with its
+ * first differences. Empty when nothing differs.
+ */
+export function formatSnapshotReport(entries: Array<{ name: string; differences: SnapshotDifference[] }>): string {
+  const failed = entries.filter(entry => entry.differences.length > 0);
+  if (failed.length === 0) {
+    return '';
+  }
+  const blocks = failed.map(({ name, differences }) => {
+    const lines = differences.slice(0, REPORT_LIMIT)
+      .map(({ path, expected, actual }) => `  ${path || '(root)'}: expected ${formatValue(expected)}, got ${formatValue(actual)}`);
+    if (differences.length > REPORT_LIMIT) {
+      lines.push(`  ... and ${differences.length - REPORT_LIMIT} more`);
+    }
+    return [`${name}: ${differences.length} difference${differences.length === 1 ? '' : 's'}`, ...lines].join('\n');
+  });
+  return [`${failed.length} of ${entries.length} snapshots differ`, ...blocks].join('\n\n');
+}
+
+/**
+ * Snapshot as golden file text: indented JSON with every point on one line
+ */
+export function serializeSnapshot(snapshot: unknown): string {
+  const text = JSON.stringify(snapshot, null, 2)
+    .replace(/\[\s+([^[\]{}]*?)\s+\]/g, (_, items: string) => `[${items.split(/,\s+/).join(', ')}]`);
+  return `${text}\n`;
+}
+
+function roundTo(value: number, precision: number): number {
+  const rounded = Number(value.toFixed(precision));
+  return rounded === 0 ? 0 : rounded; // No -0 in golden files
+}
+
+/**
+ * Attribute values with numbers rounded and object keys sorted
+ */
+function canonicalValue(value: any, precision: number): any {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? roundTo(value, precision) : String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => canonicalValue(item, precision));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => [key, canonicalValue(value[key], precision)]));
+  }
+  return value;
+}
+
+function comparePoints(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function compareRings(a: Array<number | number[]>, b: Array<number | number[]>): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const difference = typeof a[i] === 'number'
+      ? (a[i] as number) - (b[i] as number)
+      : comparePoints(a[i] as number[], b[i] as number[]);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Ring started at its lowest item, keeping its winding
+ */
+function rotateToLowest<T>(ring: T[], compare: (a: T, b: T) => number): T[] {
+  const start = ring.reduce((best, item, i) => compare(item, ring[best]) < 0 ? i : best, 0);
+  return [...ring.slice(start), ...ring.slice(0, start)];
+}
+
+function formatValue(value: unknown): string {
+  const text = value === undefined ? 'nothing' : JSON.stringify(value);
+  return text.length > REPORT_VALUE_LENGTH ? `${text.slice(0, REPORT_VALUE_LENGTH - 3)}...` : text;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
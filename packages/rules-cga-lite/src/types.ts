@@ -1,56 +1,142 @@
 import { z } from 'zod';
+import { CRS } from './utils/crs';
+import { ROOT_SHAPE_NAME } from './shapes';
+
+// Optional shape selector shared by every operation: when set, the operation
+// only applies to leaf shapes with this name (see split `names` / repeat `name`)
+const ShapeTarget = {
+  target: z.string().optional()
+};
+
+// Expression evaluated per shape, e.g. "floors * floorHeight" (see expressions.ts)
+export const ExpressionSchema = z.string().min(1);
+
+// Numeric parameter: a literal checked by `literal`, or an expression whose
+// value is checked against the same constraint when the rule runs
+const numeric = (literal: z.ZodNumber) => z.union([literal, ExpressionSchema]);
 
 // Rule operation types based on CityEngine CGA
 export const RuleSchema = z.discriminatedUnion('op', [
   z.object({
+    ...ShapeTarget,
     op: z.literal('extrude'),
-    h: z.number().min(0), // Allow zero height
+    h: numeric(z.number().min(0)), // Allow zero height
     mode: z.enum(['world', 'local']).optional()
   }),
   z.object({
+    ...ShapeTarget,
     op: z.literal('offset'),
-    d: z.number().positive(),
+    d: numeric(z.number().positive()),
     mode: z.enum(['in', 'out']).optional()
   }),
   z.object({
+    ...ShapeTarget,
     op: z.literal('split'),
     axis: z.enum(['x', 'y', 'z']),
-    sizes: z.array(z.union([z.number().positive(), z.literal('*')]))
+    sizes: z.array(z.union([z.number().positive(), z.literal('*'), ExpressionSchema])),
+    names: z.array(z.string()).optional() // Child shape names, one per size
   }),
   z.object({
+    ...ShapeTarget,
     op: z.literal('repeat'),
     axis: z.enum(['x', 'y', 'z']),
-    step: z.number().positive(),
-    limit: z.number().positive().optional()
+    step: numeric(z.number().positive()),
+    limit: numeric(z.number().positive()).optional(),
+    name: z.string().optional() // Name given to every repeated child shape
   }),
   z.object({
+    ...ShapeTarget,
     op: z.literal('setback'),
-    d: z.number().positive(),
-    faces: z.array(z.enum(['front', 'back', 'left', 'right'])).optional()
+    d: numeric(z.number().positive()),
+    faces: z.array(z.enum(['front', 'back', 'left', 'right'])).optional(),
+    edges: ExpressionSchema.optional() // Edge selector, e.g. 'edge.street && edge.roadType == "arterial"'
   }),
   z.object({
+    ...ShapeTarget,
     op: z.literal('roof'),
     kind: z.enum(['flat', 'gable', 'hip', 'shed']),
-    pitch: z.number().min(0).max(90).optional(),
-    height: z.number().positive().optional()
+    pitch: numeric(z.number().min(0).max(90)).optional(),
+    height: numeric(z.number().positive()).optional()
   }),
   z.object({
+    ...ShapeTarget,
     op: z.literal('textureTag'),
     tag: z.string(),
     faces: z.array(z.enum(['front', 'back', 'left', 'right', 'top', 'bottom'])).optional()
   }),
   z.object({
+    ...ShapeTarget,
+    op: z.literal('component'),
+    kind: z.enum(['window', 'door', 'balcony']),
+    width: numeric(z.number().positive()).optional(),
+    height: numeric(z.number().positive()).optional(), // Opening height, or balcony guard height
+    sill: numeric(z.number().min(0)).optional(),       // Bottom above the wall base
+    depth: numeric(z.number().positive()).optional(),  // Projection out of the wall
+    faces: z.array(z.enum(['front', 'back', 'left', 'right'])).optional(),
+    name: z.string().optional() // Name of the component shapes (default: Window, Door, Balcony)
+  }),
+  z.object({
+    ...ShapeTarget,
+    op: z.literal('envelope'),
+    // Zoning limits, overriding those of the zone the lot lies in
+    maxHeight: z.number().positive().optional(),
+    maxFar: z.number().positive().optional(),
+    minSetback: z.number().min(0).optional(),
+    skyExposureHeight: z.number().min(0).optional(),
+    skyExposureSlope: z.number().positive().optional()
+  }),
+  z.object({
+    ...ShapeTarget,
     op: z.literal('attr'),
     name: z.string(),
-    value: z.union([z.string(), z.number(), z.boolean()])
+    value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    expr: ExpressionSchema.optional() // Computed value, used instead of `value`
+  }),
+  z.object({
+    ...ShapeTarget,
+    op: z.literal('call'),
+    rule: z.string() // Name of a rule in the program's `definitions`
+  }),
+  z.object({
+    ...ShapeTarget,
+    op: z.literal('case'),
+    // First branch whose condition holds is called; `else` runs when none does
+    branches: z.array(z.object({
+      when: ExpressionSchema,
+      rule: z.string()
+    })).min(1),
+    else: z.string().optional()
+  }),
+  z.object({
+    ...ShapeTarget,
+    op: z.literal('random'),
+    // Each branch is called with the given probability (in percent); `else` takes the rest
+    branches: z.array(z.object({
+      percent: z.number().min(0).max(100),
+      rule: z.string()
+    })).min(1).refine(
+      branches => branches.reduce((sum, branch) => sum + branch.percent, 0) <= 100,
+      { message: 'Random branch percentages must not exceed 100' }
+    ),
+    else: z.string().optional()
   })
 ]);
 
 export const RuleProgramSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
+  schemaVersion: z.number().int().positive().optional(), // Version the program is written for, 1 when omitted (see migrations.ts)
   attrs: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
-  rules: z.array(RuleSchema)
+  // Named rules, e.g. Footprint --> ...; the start rule's name is taken
+  definitions: z.record(z.array(RuleSchema)).refine(
+    definitions => !Object.prototype.hasOwnProperty.call(definitions, ROOT_SHAPE_NAME),
+    { message: `"${ROOT_SHAPE_NAME}" names the start rule and cannot be a definition`, path: [ROOT_SHAPE_NAME] }
+  ).optional(),
+  maxDepth: z.number().int().positive().optional(), // Maximum nesting of `call` operations
+  seed: z.number().int().optional(), // Seed for `random` operations (default 0)
+  envelope: z.boolean().optional(), // Clip the final shapes to the lot's zoning envelope
+  meshRepair: z.boolean().optional(), // Repair generated solids before returning them (default true)
+  rules: z.array(RuleSchema) // Start rule, applied to the Lot shape
 });
 
 // Type exports
@@ -65,16 +151,90 @@ export type RepeatRule = Extract<Rule, { op: 'repeat' }>;
 export type SetbackRule = Extract<Rule, { op: 'setback' }>;
 export type RoofRule = Extract<Rule, { op: 'roof' }>;
 export type TextureTagRule = Extract<Rule, { op: 'textureTag' }>;
+export type ComponentRule = Extract<Rule, { op: 'component' }>;
+export type EnvelopeRule = Extract<Rule, { op: 'envelope' }>;
 export type AttrRule = Extract<Rule, { op: 'attr' }>;
+export type CallRule = Extract<Rule, { op: 'call' }>;
+export type CaseRule = Extract<Rule, { op: 'case' }>;
+export type RandomRule = Extract<Rule, { op: 'random' }>;
+
+// Operations that pick and run named rules instead of changing geometry
+export type ControlRule = CallRule | CaseRule | RandomRule;
+
+// Named rule bodies a program can invoke with `call`
+export type RuleDefinitions = Record<string, Rule[]>;
+
+// Rule parameters that accept expressions, by operation
+export const EXPRESSION_PARAMETERS: Partial<Record<Rule['op'], string[]>> = {
+  extrude: ['h'],
+  offset: ['d'],
+  split: ['sizes'],
+  repeat: ['step', 'limit'],
+  setback: ['d'],
+  roof: ['pitch', 'height'],
+  component: ['width', 'height', 'sill', 'depth'],
+  attr: ['expr']
+};
+
+// Rule with every expression parameter evaluated to a number
+type ResolvedParameter<T> =
+  [T] extends [Array<infer E>] ? Array<number extends E ? number | '*' : E> :
+  number extends T ? Exclude<T, string> : T;
+export type Resolved<R extends Rule> = R extends AttrRule ? R : { [K in keyof R]: ResolvedParameter<R[K]> };
 
 // Geometry context for rule execution
 export interface GeometryContext {
   polygon: number[][];  // Array of [x, y] coordinates
+  holes?: number[][][]; // Interior rings cut out of the polygon (courtyards, easements)
+  crs?: CRS;            // CRS of polygon, holes and roads; local site metres when omitted
   attributes: Record<string, any>;
   boundingBox: {
     min: { x: number; y: number; z: number };
     max: { x: number; y: number; z: number };
   };
+  edges?: LotEdge[];    // Per-edge metadata, edge i runs from polygon[i] to polygon[i + 1]
+  roads?: RoadSegment[]; // Nearby roads (same CRS as polygon), used to derive `edges` when absent
+  zones?: Zone[];        // Zoning districts (same CRS as polygon); the one covering most of the lot is used
+}
+
+// Side of a lot an edge faces, relative to its street frontage
+export type EdgeSide = 'front' | 'back' | 'left' | 'right';
+
+// Metadata of one lot edge
+export interface LotEdge {
+  length?: number;      // Computed from the polygon when omitted
+  street?: string;      // Name or id of the road the edge fronts
+  roadType?: string;    // e.g. 'arterial', 'residential'
+  roadWidth?: number;
+  neighbour?: string;   // Id of the lot sharing this edge
+  side?: EdgeSide;      // Explicit side, overrides the frontage-based classification
+}
+
+// Road centreline near a lot
+export interface RoadSegment {
+  id?: string | number;
+  name?: string;
+  type?: string;
+  width?: number;
+  coordinates: number[][];
+}
+
+// Limits a zone puts on the buildings of a lot; any may be missing
+export interface ZoningLimits {
+  maxHeight?: number;         // Height plane above the lot (metres)
+  maxFar?: number;            // Floor area ratio: gross floor area over lot area
+  minSetback?: number;        // Distance of buildings from every lot line (metres)
+  skyExposureHeight?: number; // Height of the sky-exposure plane over the street lines
+  skyExposureSlope?: number;  // Rise of that plane per metre back from the street
+}
+
+// Zoning district
+export interface Zone extends ZoningLimits {
+  id?: string | number;
+  type?: string;         // Zone code, e.g. 'R4'
+  description?: string;
+  polygon: number[][];
+  holes?: number[][][];
 }
 
 // Simple geometry representation (without iTwin.js dependencies)
@@ -82,15 +242,46 @@ export interface SimpleGeometry {
   type: 'polygon' | 'solid' | 'mesh';
   vertices: number[][];
   faces?: number[][];
+  holes?: number[][][];                     // Interior rings of the footprint, [x, y]
+  faceHoles?: Record<number, number[][]>;   // Index rings cut out of a face, by face index
+  attributes: Record<string, any>;
+}
+
+// Node of the shape tree built during execution (CityEngine-style)
+export interface ShapeNode {
+  id: string;
+  name: string;
+  parentId?: string;
+  childIds: string[];
+  depth: number;
+  geometry: SimpleGeometry;
   attributes: Record<string, any>;
 }
 
+// Change made to a program by a schema migration
+export interface MigrationChange {
+  version: number;              // Version the change upgraded to
+  path: Array<string | number>; // JSON path into the program, e.g. ['rules', 2, 'height']
+  message: string;
+}
+
+// Schema migrations applied to a program
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  changes: MigrationChange[];
+}
+
 // Result of rule execution
 export interface RuleExecutionResult {
   success: boolean;
-  geometry?: SimpleGeometry;
+  geometry?: SimpleGeometry;  // Single leaf geometry, or all leaves merged into one mesh
+  shapes?: ShapeNode[];       // Whole shape tree in depth-first order
+  leaves?: ShapeNode[];       // Terminal shapes, in depth-first order
   attributes: Record<string, any>;
+  crsCode?: string;           // CRS the geometry and metrics are in, e.g. 'EPSG:32718'
   error?: string;
+  migration?: MigrationReport; // Upgrades made to an outdated program before it ran
   metadata?: {
     operationCount: number;
     executionTimeMs: number;
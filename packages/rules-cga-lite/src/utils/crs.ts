@@ -1,11 +1,13 @@
 import { z } from 'zod';
+import proj4 from 'proj4';
 
 // Coordinate Reference System validation and utilities
 export const CRSSchema = z.object({
-  epsg: z.number().int().positive(),
+  epsg: z.number().int().nonnegative(), // 0 for a local CRS without an EPSG code
   name: z.string(),
   units: z.enum(['meters', 'feet', 'degrees']),
-  type: z.enum(['projected', 'geographic', 'compound'])
+  type: z.enum(['projected', 'geographic', 'compound']),
+  proj4: z.string().optional() // proj4 definition, for CRSs without a built-in one
 });
 
 export type CRS = z.infer<typeof CRSSchema>;
@@ -56,6 +58,37 @@ export const COMMON_CRS: Record<string, CRS> = {
   }
 };
 
+// Planar site coordinates in metres with no georeference (sketches, tests); never reprojected
+export const LOCAL_CRS: CRS = {
+  epsg: 0,
+  name: 'Local site coordinates',
+  units: 'meters',
+  type: 'projected'
+};
+
+// proj4 definitions for the EPSG codes the package can transform between, by EPSG
+// code; services that run proj4 themselves register these rather than their own.
+// Peru96 and POSGAR 2007 are SIRGAS realisations on GRS80; their datum shift to
+// WGS 84 is the EPSG null transformation (sub-metre agreement).
+export const PROJ_DEFINITIONS: Record<number, string> = {
+  4326: '+proj=longlat +datum=WGS84 +no_defs',
+  32718: '+proj=utm +zone=18 +south +datum=WGS84 +units=m +no_defs',
+  32721: '+proj=utm +zone=21 +south +datum=WGS84 +units=m +no_defs',
+  5387: '+proj=utm +zone=18 +south +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+  5348: '+proj=tmerc +lat_0=-90 +lon_0=-63 +k=1 +x_0=4500000 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs'
+};
+
+// Vertical datum of z values: above the ellipsoid (GNSS) or above the geoid (mean sea level)
+export type HeightReference = 'ellipsoidal' | 'orthometric';
+
+// Placement of coordinates in iModel spatial coordinates
+export interface ITwinCoordinateOptions {
+  targetCRS?: CRS;                         // CRS of the iModel (default: recommended Chancay CRS)
+  origin?: number[];                       // Target CRS point at the iModel spatial origin, [x, y(, z)]
+  targetHeightReference?: HeightReference; // Height reference of the iModel (default: same as the input)
+  geoidUndulation?: number;                // Geoid height N over the project area in metres (h = H + N)
+}
+
 // Point with CRS information
 export interface CRSPoint {
   x: number;
@@ -67,6 +100,7 @@ export interface CRSPoint {
 // Polygon with CRS validation
 export interface CRSPolygon {
   coordinates: number[][];
+  holes?: number[][][]; // Interior rings, subtracted from the area
   crs: CRS;
   windingOrder?: 'ccw' | 'cw';
 }
@@ -96,7 +130,7 @@ export function validateCoordinateUnits(
     const maxY = Math.max(...coordinates.map(c => c[1]));
     
     // Allow test coordinates - skip validation for "Local Test CRS" or small coordinate systems
-    if (expectedCRS.name === 'Local Test CRS' || expectedCRS.epsg === 3857) {
+    if (expectedCRS.name === 'Local Test CRS' || expectedCRS.epsg === 3857 || expectedCRS.epsg === LOCAL_CRS.epsg) {
       // No coordinate range validation for testing/local coordinate systems
     } else if (maxX < 1000 && maxY < 1000) {
       errors.push(`X coordinates out of expected range for UTM: ${minX} - ${maxX}`);
@@ -184,6 +218,10 @@ export function calculatePolygonArea(polygon: CRSPolygon): number {
   
   area = Math.abs(area) / 2;
   
+  for (const hole of polygon.holes || []) {
+    area -= calculatePolygonArea({ coordinates: hole, crs: polygon.crs });
+  }
+  
   // Return area with unit information
   return area; // square units of the CRS
 }
@@ -193,7 +231,8 @@ export function calculatePolygonArea(polygon: CRSPolygon): number {
  */
 export function validateGeometryForRules(
   coordinates: number[][],
-  crs: CRS
+  crs: CRS,
+  holes: number[][][] = []
 ): { valid: boolean; errors: string[]; warnings: string[] } {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -238,6 +277,31 @@ export function validateGeometryForRules(
     errors.push('Polygon appears to have self-intersections');
   }
   
+  // Holes must wind against the exterior, lie inside it and stay apart
+  const exterior = openRingCoordinates(coordinates);
+  const openHoles = holes.map(openRingCoordinates);
+  openHoles.forEach((hole, i) => {
+    if (hole.length < 3) {
+      errors.push(`Hole ${i} must have at least 3 vertices`);
+      return;
+    }
+    if (exterior.length >= 3 && validateWindingOrder(hole) === validateWindingOrder(exterior)) {
+      warnings.push(`Hole ${i} winds the same way as the exterior - will be reversed for processing`);
+    }
+    if (hole.length >= 4 && hasBasicSelfIntersections(holes[i])) {
+      errors.push(`Hole ${i} appears to have self-intersections`);
+    }
+    if (exterior.length >= 3 && (ringsCross(hole, exterior) || !hole.every(point => pointInRing(point, exterior)))) {
+      errors.push(`Hole ${i} is not inside the polygon`);
+    }
+    for (let j = 0; j < i; j++) {
+      const other = openHoles[j];
+      if (other.length >= 3 && (ringsCross(hole, other) || pointInRing(hole[0], other) || pointInRing(other[0], hole))) {
+        errors.push(`Holes ${j} and ${i} overlap`);
+      }
+    }
+  });
+  
   return {
     valid: errors.length === 0,
     errors,
@@ -245,6 +309,39 @@ export function validateGeometryForRules(
   };
 }
 
+/**
+ * Ring without its closing vertex
+ */
+function openRingCoordinates(ring: number[][]): number[][] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+}
+
+/**
+ * Whether any edge of one ring touches or crosses an edge of the other
+ */
+function ringsCross(a: number[][], b: number[][]): boolean {
+  return a.some((p1, i) => b.some((p3, j) =>
+    linesIntersect(p1, a[(i + 1) % a.length], p3, b[(j + 1) % b.length])
+  ));
+}
+
+/**
+ * Even-odd point in polygon test
+ */
+function pointInRing(point: number[], ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point[1]) !== (yj > point[1]) && point[0] < (xj - xi) * (point[1] - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
 /**
  * Basic self-intersection detection
  */
@@ -286,20 +383,37 @@ function linesIntersect(
 }
 
 /**
- * Convert coordinates to standard format for iTwin.js
+ * Convert coordinates to iModel spatial coordinates: reproject to the iModel CRS,
+ * convert z to its height reference, move the project origin to (0, 0, 0) and
+ * make the ring counter-clockwise
  */
 export function toITwinCoordinates(
   coordinates: number[][],
   sourceCRS: CRS,
-  heightReference: 'ellipsoidal' | 'orthometric' = 'ellipsoidal'
+  heightReference: HeightReference = 'ellipsoidal',
+  options: ITwinCoordinateOptions = {}
 ): number[][] {
-  // In a real implementation, this would:
-  // 1. Transform coordinates to iTwin's expected CRS
-  // 2. Handle height reference conversions
-  // 3. Apply any necessary scaling factors
-  
-  // For now, ensure counter-clockwise winding and return
-  return ensureCounterClockwise(coordinates);
+  const targetCRS = options.targetCRS ?? getRecommendedChancayCRS();
+  if (targetCRS.units === 'degrees') {
+    throw new Error(`iModel CRS must be projected, got ${targetCRS.name} (EPSG:${targetCRS.epsg})`);
+  }
+
+  const targetHeightReference = options.targetHeightReference ?? heightReference;
+  let heightShift = 0;
+  if (targetHeightReference !== heightReference) {
+    if (options.geoidUndulation === undefined) {
+      throw new Error(`Converting ${heightReference} to ${targetHeightReference} heights needs a geoidUndulation`);
+    }
+    heightShift = heightReference === 'ellipsoidal' ? -options.geoidUndulation : options.geoidUndulation;
+  }
+
+  const [originX = 0, originY = 0, originZ = 0] = options.origin ?? [];
+  const placed = reprojectCoordinates(coordinates, sourceCRS, targetCRS).map(([x, y, ...rest]) =>
+    rest.length > 0
+      ? [x - originX, y - originY, rest[0] + heightShift - originZ, ...rest.slice(1)]
+      : [x - originX, y - originY]
+  );
+  return placed.length >= 3 ? ensureCounterClockwise(placed) : placed;
 }
 
 /**
@@ -392,4 +506,81 @@ export function getChancayCRSOptions(): { primary: CRS; alternative: CRS; geogra
     alternative: COMMON_CRS.CHANCAY_UTM_PERU96,  // National cartographic standard
     geographic: COMMON_CRS.PERU_GEO              // For web mapping and data exchange
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Code of a CRS as stored with computed metrics, e.g. 'EPSG:32718' ('LOCAL' for LOCAL_CRS)
+ */
+export function crsCode(crs: CRS): string {
+  return crs.epsg === LOCAL_CRS.epsg ? 'LOCAL' : `EPSG:${crs.epsg}`;
+}
+
+/**
+ * WGS 84 / UTM zone containing a longitude and latitude
+ */
+export function utmCRSFor(longitude: number, latitude: number): CRS {
+  const zone = Math.min(60, Math.max(1, Math.floor((longitude + 180) / 6) + 1));
+  const south = latitude < 0;
+  const epsg = (south ? 32700 : 32600) + zone;
+  return crsFromEPSG(epsg) ?? {
+    epsg,
+    name: `WGS 84 / UTM zone ${zone}${south ? 'S' : 'N'}`,
+    units: 'meters',
+    type: 'projected',
+    proj4: `+proj=utm +zone=${zone}${south ? ' +south' : ''} +datum=WGS84 +units=m +no_defs`
+  };
+}
+
+/**
+ * Look up a known CRS by EPSG code
+ */
+export function crsFromEPSG(epsg: number): CRS | undefined {
+  return Object.values(COMMON_CRS).find(crs => crs.epsg === epsg);
+}
+
+/**
+ * Whether coordinates in a CRS can be transformed
+ */
+export function canTransform(crs: CRS): boolean {
+  return crs.proj4 !== undefined || PROJ_DEFINITIONS[crs.epsg] !== undefined;
+}
+
+/**
+ * Transform [x, y] coordinates between two CRSs, shifting datums where they
+ * differ; any z is passed through unchanged
+ */
+export function reprojectCoordinates(coordinates: number[][], from: CRS, to: CRS): number[][] {
+  const source = projDefinition(from);
+  const target = projDefinition(to);
+  if (source === target) {
+    return coordinates.map(coordinate => [...coordinate]);
+  }
+  const converter = proj4(source, target);
+  return coordinates.map(coordinate => {
+    if (coordinate.length < 2) {
+      throw new Error(`Invalid coordinate: requires at least X,Y, got ${coordinate.length} values`);
+    }
+    const [x, y, ...rest] = coordinate;
+    const [tx, ty] = converter.forward([x, y]);
+    if (!Number.isFinite(tx) || !Number.isFinite(ty)) {
+      throw new Error(`Cannot transform [${x}, ${y}] from EPSG:${from.epsg} to EPSG:${to.epsg}`);
+    }
+    return [tx, ty, ...rest];
+  });
+}
+
+/**
+ * Transform a single point to another CRS
+ */
+export function transformPoint(point: CRSPoint, to: CRS): CRSPoint {
+  const [[x, y]] = reprojectCoordinates([[point.x, point.y]], point.crs, to);
+  return point.z === undefined ? { x, y, crs: to } : { x, y, z: point.z, crs: to };
+}
+
+function projDefinition(crs: CRS): string {
+  const definition = crs.proj4 ?? PROJ_DEFINITIONS[crs.epsg];
+  if (!definition) {
+    throw new Error(`No projection definition for EPSG:${crs.epsg} (${crs.name})`);
+  }
+  return definition;
+}
@@ -0,0 +1,228 @@
+import { EdgeSide, LotEdge, RoadSegment } from '../types';
+import { openRing } from './geometry';
+import { inwardNormals } from './offset';
+
+// Per-edge lot metadata: street frontage, neighbours and the front/back/left/right
+// side of every footprint edge
+
+type Vec = [number, number];
+
+// Roads within this distance of the road edge (beyond half its width) front the lot
+const DEFAULT_STREET_TOLERANCE = 10;
+
+// Assumed road width when a road feature has none
+const DEFAULT_ROAD_WIDTH = 10;
+
+// Edges within ~20 degrees of a road's direction can front it
+const PARALLEL_COSINE = Math.cos(20 * Math.PI / 180);
+
+// Edge metadata with its length resolved
+export type ResolvedEdge = LotEdge & { length: number };
+
+/**
+ * Derive edge metadata for a lot from nearby roads and neighbouring lots.
+ * An edge fronts a road when it runs roughly parallel to it, faces it, and lies
+ * within half the road width plus `tolerance` of its centreline. An edge is shared
+ * with a neighbour when it lies on one of the neighbour's edges.
+ */
+export function annotateLotEdges(
+  polygon: number[][],
+  options: {
+    roads?: RoadSegment[];
+    neighbours?: Array<{ id: string; polygon: number[][] }>;
+    tolerance?: number;
+  } = {}
+): ResolvedEdge[] {
+  const ring = openRing(polygon);
+  const normals = inwardNormals(ring);
+  const tolerance = options.tolerance ?? DEFAULT_STREET_TOLERANCE;
+
+  return ring.map((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    const edge: ResolvedEdge = { length: distance(a, b) };
+    const midpoint: Vec = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+    const direction = unit(sub(b, a));
+    const outward: Vec = [-normals[i][0], -normals[i][1]];
+
+    let nearest = Infinity;
+    for (const road of options.roads || []) {
+      const reach = (road.width ?? DEFAULT_ROAD_WIDTH) / 2 + tolerance;
+      for (let k = 0; k + 1 < road.coordinates.length; k++) {
+        const p = road.coordinates[k];
+        const q = road.coordinates[k + 1];
+        if (Math.abs(dot(direction, unit(sub(q, p)))) < PARALLEL_COSINE) {
+          continue;
+        }
+        const closest = closestPointOnSegment(midpoint, p, q);
+        const gap = distance(midpoint, closest);
+        if (gap <= reach && gap < nearest && dot(outward, sub(closest, midpoint)) > 0) {
+          nearest = gap;
+          edge.street = road.name ?? (road.id !== undefined ? String(road.id) : 'road');
+          edge.roadType = road.type;
+          edge.roadWidth = road.width;
+        }
+      }
+    }
+
+    for (const neighbour of options.neighbours || []) {
+      const other = openRing(neighbour.polygon);
+      const shared = other.some((p, k) => segmentCovers(p, other[(k + 1) % other.length], a, b, edge.length * 1e-6 + 1e-6));
+      if (shared) {
+        edge.neighbour = neighbour.id;
+        break;
+      }
+    }
+
+    return edge;
+  });
+}
+
+/**
+ * Road segments from the LineString / MultiLineString features of a GeoJSON collection
+ */
+export function roadsFromGeoJSON(collection: {
+  features: Array<{ properties?: Record<string, any> | null; geometry: { type: string; coordinates: any } | null }>;
+}): RoadSegment[] {
+  const roads: RoadSegment[] = [];
+  for (const feature of collection.features) {
+    const properties = feature.properties || {};
+    const road = { id: properties.id, name: properties.name, type: properties.type, width: properties.width };
+    if (feature.geometry?.type === 'LineString') {
+      roads.push({ ...road, coordinates: feature.geometry.coordinates });
+    } else if (feature.geometry?.type === 'MultiLineString') {
+      (feature.geometry.coordinates as number[][][]).forEach(coordinates => roads.push({ ...road, coordinates }));
+    }
+  }
+  return roads;
+}
+
+/**
+ * Metadata for the edges of a shape footprint derived from the lot: an edge
+ * takes over the metadata of the lot edge it runs along (same direction, closest
+ * parallel line), so a setback front edge still fronts the street. Cut edges
+ * from splits match no lot edge and get none.
+ */
+export function inheritEdges(ring: number[][], lotRing: number[][], lotEdges: LotEdge[]): ResolvedEdge[] {
+  const footprint = openRing(ring);
+  const lot = openRing(lotRing);
+
+  return footprint.map((a, i) => {
+    const b = footprint[(i + 1) % footprint.length];
+    const length = distance(a, b);
+    const direction = unit(sub(b, a));
+    const midpoint: Vec = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+
+    let best: LotEdge | undefined;
+    let bestGap = Infinity;
+    lot.forEach((p, j) => {
+      const q = lot[(j + 1) % lot.length];
+      const lotLength = distance(p, q);
+      const lotDirection = unit(sub(q, p));
+      if (lotLength === 0 || dot(direction, lotDirection) < 0.9998) {
+        return;
+      }
+      const along = dot(sub(midpoint, p), lotDirection);
+      if (along < -1e-6 || along > lotLength + 1e-6) {
+        return;
+      }
+      const gap = Math.abs(cross(lotDirection, sub(midpoint, p)));
+      if (gap < bestGap) {
+        bestGap = gap;
+        best = lotEdges[j];
+      }
+    });
+
+    return { ...(best || {}), length };
+  });
+}
+
+/**
+ * Side faced by every edge of a ring.
+ * Street edges are 'front'; other edges are classified by the angle between
+ * their outward normal and the frontage direction (outward normal of the
+ * longest street edge, or -y when there is none): within 45 degrees 'front',
+ * opposite 'back', otherwise 'left' or 'right' as seen from the street.
+ * Edges with an explicit `side` keep it.
+ */
+export function edgeSides(ring: number[][], edges: LotEdge[], frontage: Vec = frontageDirection(ring, edges)): EdgeSide[] {
+  const open = openRing(ring);
+  return inwardNormals(open).map(([nx, ny], i) => {
+    const edge = edges[i] || {};
+    if (edge.side) {
+      return edge.side;
+    }
+    if (edge.street) {
+      return 'front';
+    }
+    const outward: Vec = [-nx, -ny];
+    const alignment = dot(outward, frontage);
+    if (alignment >= Math.SQRT1_2 - 1e-9) {
+      return 'front';
+    }
+    if (alignment <= -Math.SQRT1_2 + 1e-9) {
+      return 'back';
+    }
+    return cross(frontage, outward) < 0 ? 'left' : 'right';
+  });
+}
+
+/**
+ * Outward normal of the longest street edge, or -y (the legacy 'front') without frontage
+ */
+export function frontageDirection(ring: number[][], edges: LotEdge[]): Vec {
+  const open = openRing(ring);
+  const normals = inwardNormals(open);
+  let best = -1;
+  let bestLength = 0;
+  open.forEach((a, i) => {
+    const length = distance(a, open[(i + 1) % open.length]);
+    if (edges[i]?.street && length > bestLength) {
+      best = i;
+      bestLength = length;
+    }
+  });
+  return best === -1 ? [0, -1] : [-normals[best][0], -normals[best][1]];
+}
+
+/**
+ * Whether segment p-q contains segment a-b (collinear within tolerance)
+ */
+function segmentCovers(p: number[], q: number[], a: number[], b: number[], tolerance: number): boolean {
+  const length = distance(p, q);
+  if (length === 0) {
+    return false;
+  }
+  const direction = unit(sub(q, p));
+  return [a, b].every(point => {
+    const along = dot(sub(point, p), direction);
+    return Math.abs(cross(direction, sub(point, p))) <= tolerance && along >= -tolerance && along <= length + tolerance;
+  });
+}
+
+function closestPointOnSegment(point: Vec, p: number[], q: number[]): Vec {
+  const span = sub(q, p);
+  const length2 = dot(span, span);
+  const t = length2 === 0 ? 0 : Math.max(0, Math.min(1, dot(sub(point, p), span) / length2));
+  return [p[0] + span[0] * t, p[1] + span[1] * t];
+}
+
+function sub(a: number[], b: number[]): Vec {
+  return [a[0] - b[0], a[1] - b[1]];
+}
+
+function dot(a: Vec, b: Vec): number {
+  return a[0] * b[0] + a[1] * b[1];
+}
+
+function cross(a: Vec, b: Vec): number {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+function distance(a: number[], b: number[]): number {
+  return Math.hypot(b[0] - a[0], b[1] - a[1]);
+}
+
+function unit(v: Vec): Vec {
+  const length = Math.hypot(v[0], v[1]) || 1;
+  return [v[0] / length, v[1] / length];
+}
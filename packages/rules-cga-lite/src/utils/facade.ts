@@ -0,0 +1,202 @@
+// Facade helpers: the side a face points to, the outside walls of a shape and
+// the parametric window, door and balcony primitives placed on them
+
+import { SimpleGeometry } from '../types';
+import { buildPrism, footprintHoles, footprintOf, mergeGeometries, openRing, signedRingArea } from './geometry';
+import { faceNormal } from './mesh';
+
+export type ComponentKind = 'window' | 'door' | 'balcony';
+export type FacadeSide = 'front' | 'back' | 'left' | 'right';
+
+export interface ComponentSize {
+  width: number;
+  height: number;  // Opening height, or balcony guard height
+  sill: number;    // Bottom above the wall base
+  depth: number;   // Projection out of the wall
+}
+
+// Component sizes in metres when the rule leaves them out
+export const COMPONENT_DEFAULTS: Record<ComponentKind, ComponentSize> = {
+  window: { width: 1.2, height: 1.5, sill: 0.9, depth: 0.1 },
+  door: { width: 1, height: 2.2, sill: 0, depth: 0.1 },
+  balcony: { width: 3, height: 1.1, sill: 0, depth: 1.2 }
+};
+
+// Default shape names of placed components
+export const COMPONENT_NAMES: Record<ComponentKind, string> = {
+  window: 'Window',
+  door: 'Door',
+  balcony: 'Balcony'
+};
+
+// Balcony slab thickness and guard thickness (metres)
+const BALCONY_SLAB = 0.2;
+const BALCONY_GUARD = 0.05;
+
+// Points closer than this to a facade line lie on it
+const FACADE_TOLERANCE = 1e-6;
+
+// How far behind a wall to look for the shape it belongs to
+const INSIDE_PROBE = 1e-3;
+
+// Vertical rectangle of a shape lying on the outside wall of its mass
+export interface FacadeWall {
+  side: FacadeSide;
+  start: number[];   // [x, y], walking the facade with the building on the left
+  end: number[];
+  normal: number[];  // Unit outward normal [x, y]
+  bottom: number;
+  top: number;
+}
+
+/**
+ * Side a face points to, from its unit outward normal (top/bottom by normal,
+ * then front = -y, back = +y, left = -x, right = +x)
+ */
+export function faceSide([x, y, z]: number[]): string {
+  if (z > 0.5) {
+    return 'top';
+  }
+  if (z < -0.5) {
+    return 'bottom';
+  }
+  if (Math.abs(y) >= Math.abs(x)) {
+    return y < 0 ? 'front' : 'back';
+  }
+  return x < 0 ? 'left' : 'right';
+}
+
+/**
+ * Vertical rectangular faces of `shape` that lie on the outside walls of
+ * `mass`, the solid it was cut from (courtyard walls included). Walls between
+ * neighbouring parts of the mass are not facade and are left out.
+ */
+export function facadeWalls(shape: SimpleGeometry, mass: SimpleGeometry): FacadeWall[] {
+  if (!shape.faces) {
+    return [];
+  }
+  const footprint = openRing(footprintOf(shape));
+  const edges = facadeEdges(mass);
+  const walls: FacadeWall[] = [];
+
+  for (const face of shape.faces) {
+    const points = face.map(index => shape.vertices[index]);
+    const zs = points.map(point => point[2] ?? 0);
+    const bottom = Math.min(...zs);
+    const top = Math.max(...zs);
+    if (points.length !== 4 || top - bottom < FACADE_TOLERANCE || zs.filter(z => Math.abs(z - bottom) < FACADE_TOLERANCE).length !== 2) {
+      continue;
+    }
+    const normal = faceNormal(points);
+    if (Math.abs(normal[2]) > FACADE_TOLERANCE * Math.hypot(...normal)) {
+      continue;
+    }
+
+    for (const [a, b] of edges) {
+      const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+      const u = [(b[0] - a[0]) / length, (b[1] - a[1]) / length];
+      const along = (point: number[]) => (point[0] - a[0]) * u[0] + (point[1] - a[1]) * u[1];
+      const across = (point: number[]) => (point[1] - a[1]) * u[0] - (point[0] - a[0]) * u[1];
+      const onEdge = points.every(point => Math.abs(across(point)) < FACADE_TOLERANCE &&
+        along(point) > -FACADE_TOLERANCE && along(point) < length + FACADE_TOLERANCE);
+      if (!onEdge) {
+        continue;
+      }
+      const from = Math.min(...points.map(along));
+      const to = Math.max(...points.map(along));
+      // The shape must be behind the wall, so parts standing out of it are skipped
+      const middle = (from + to) / 2;
+      const behind = [a[0] + u[0] * middle - u[1] * INSIDE_PROBE, a[1] + u[1] * middle + u[0] * INSIDE_PROBE];
+      if (to - from < FACADE_TOLERANCE || !insideRing(behind, footprint)) {
+        continue;
+      }
+      const outward = [u[1], -u[0]];
+      walls.push({
+        side: faceSide([...outward, 0]) as FacadeSide,
+        start: [a[0] + u[0] * from, a[1] + u[1] * from],
+        end: [a[0] + u[0] * to, a[1] + u[1] * to],
+        normal: outward,
+        bottom,
+        top
+      });
+      break;
+    }
+  }
+  return walls;
+}
+
+/**
+ * Total area of facade walls
+ */
+export function wallArea(walls: FacadeWall[]): number {
+  return walls.reduce((sum, wall) => sum + wallWidth(wall) * (wall.top - wall.bottom), 0);
+}
+
+/**
+ * Component centred on a wall, or null when it does not fit. Windows and
+ * doors are panels standing `depth` proud of the wall; a balcony is a slab
+ * `depth` deep with a guard of `height` along its outer edge.
+ */
+export function buildComponent(kind: ComponentKind, wall: FacadeWall, size: ComponentSize): SimpleGeometry | null {
+  const width = wallWidth(wall);
+  const rise = kind === 'balcony' ? BALCONY_SLAB + size.height : size.height;
+  if (size.width > width + FACADE_TOLERANCE || size.sill + rise > wall.top - wall.bottom + FACADE_TOLERANCE) {
+    return null;
+  }
+
+  const middle = width / 2;
+  const from = middle - size.width / 2;
+  const to = middle + size.width / 2;
+  const base = wall.bottom + size.sill;
+  if (kind !== 'balcony') {
+    return box(wall, from, to, 0, size.depth, base, base + size.height);
+  }
+  const slab = box(wall, from, to, 0, size.depth, base, base + BALCONY_SLAB);
+  const guard = box(wall, from, to, size.depth - BALCONY_GUARD, size.depth, base + BALCONY_SLAB, base + rise);
+  return mergeGeometries([slab, guard]);
+}
+
+function wallWidth(wall: FacadeWall): number {
+  return Math.hypot(wall.end[0] - wall.start[0], wall.end[1] - wall.start[1]);
+}
+
+/**
+ * Box spanning `from`..`to` along a wall and `near`..`far` out of it
+ */
+function box(wall: FacadeWall, from: number, to: number, near: number, far: number, zMin: number, zMax: number): SimpleGeometry {
+  const length = wallWidth(wall);
+  const u = [(wall.end[0] - wall.start[0]) / length, (wall.end[1] - wall.start[1]) / length];
+  const corner = (along: number, out: number) => [
+    wall.start[0] + u[0] * along + wall.normal[0] * out,
+    wall.start[1] + u[1] * along + wall.normal[1] * out
+  ];
+  // The outward normal is to the right of the wall direction, so this runs counter-clockwise
+  const ring = [corner(from, near), corner(from, far), corner(to, far), corner(to, near)];
+  return { type: 'solid', ...buildPrism(ring, zMin, zMax), attributes: {} };
+}
+
+/**
+ * Edges of a mass footprint, outer ring counter-clockwise and holes clockwise
+ * so the building is always on the left
+ */
+function facadeEdges(mass: SimpleGeometry): Array<[number[], number[]]> {
+  const orient = (ring: number[][], counterClockwise: boolean) =>
+    (signedRingArea(ring) > 0) === counterClockwise ? ring : [...ring].reverse();
+  const rings = [
+    orient(openRing(footprintOf(mass)), true),
+    ...footprintHoles(mass).map(hole => orient(openRing(hole), false))
+  ];
+  return rings.flatMap(ring => ring.map((point, i): [number[], number[]] => [point, ring[(i + 1) % ring.length]]));
+}
+
+function insideRing(point: number[], ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point[1]) !== (yj > point[1]) && point[0] < (xj - xi) * (point[1] - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,298 @@
+import * as polygonClipping from 'polygon-clipping';
+import { SimpleGeometry } from '../types';
+
+// Geometry helpers shared by the rules engine and shape tree
+
+export type Axis = 'x' | 'y' | 'z';
+
+export interface Bounds3D {
+  min: { x: number; y: number; z: number };
+  max: { x: number; y: number; z: number };
+}
+
+const AXIS_INDEX: Record<Axis, number> = { x: 0, y: 1, z: 2 };
+
+/**
+ * Get the 2D footprint ring of a geometry.
+ * Polygons return their own vertices; extruded solids return the bottom face,
+ * which the engine always emits as faces[0], read from above (counter-clockwise).
+ */
+export function footprintOf(geometry: SimpleGeometry): number[][] {
+  if (geometry.type !== 'polygon' && geometry.faces && geometry.faces.length > 0) {
+    return [...geometry.faces[0]].reverse().map(index => [geometry.vertices[index][0], geometry.vertices[index][1]]);
+  }
+  return geometry.vertices.map(vertex => [vertex[0], vertex[1]]);
+}
+
+/**
+ * Interior rings (courtyards) cut out of a geometry's footprint
+ */
+export function footprintHoles(geometry: SimpleGeometry): number[][][] {
+  return geometry.holes ?? [];
+}
+
+/**
+ * Signed area of a ring (positive when counter-clockwise)
+ */
+export function signedRingArea(ring: number[][]): number {
+  let area = 0;
+  const n = ring.length;
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    area += ring[i][0] * ring[j][1] - ring[j][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+/**
+ * Area of an outer ring less its holes
+ */
+export function polygonArea(ring: number[][], holes: number[][][] = []): number {
+  return holes.reduce((area, hole) => area - Math.abs(signedRingArea(hole)), Math.abs(signedRingArea(ring)));
+}
+
+/**
+ * Get the vertical range covered by a geometry (2D vertices sit at z = 0)
+ */
+export function elevationRange(geometry: SimpleGeometry): { min: number; max: number } {
+  if (geometry.vertices.length === 0) {
+    return { min: 0, max: 0 };
+  }
+  const zs = geometry.vertices.map(vertex => vertex[2] ?? 0);
+  return { min: Math.min(...zs), max: Math.max(...zs) };
+}
+
+/**
+ * Axis-aligned bounding box of a geometry
+ */
+export function geometryBounds(geometry: SimpleGeometry): Bounds3D {
+  if (geometry.vertices.length === 0) {
+    return { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+  }
+  const xs = geometry.vertices.map(vertex => vertex[0]);
+  const ys = geometry.vertices.map(vertex => vertex[1]);
+  const { min: minZ, max: maxZ } = elevationRange(geometry);
+  return {
+    min: { x: Math.min(...xs), y: Math.min(...ys), z: minZ },
+    max: { x: Math.max(...xs), y: Math.max(...ys), z: maxZ }
+  };
+}
+
+/**
+ * Extent of a geometry along one axis
+ */
+export function axisExtent(geometry: SimpleGeometry, axis: Axis): { min: number; max: number } {
+  const bounds = geometryBounds(geometry);
+  return { min: bounds.min[axis], max: bounds.max[axis] };
+}
+
+/**
+ * Build a vertical prism from a footprint ring and its holes, every face
+ * wound counter-clockwise seen from outside. The footprint is taken
+ * counter-clockwise. Face order: bottom (the footprint reversed), top, one
+ * quad per outer edge, then one quad per hole edge. Holes are cut out of the
+ * bottom and top faces through `faceHoles`.
+ */
+export function buildPrism(
+  footprint: number[][],
+  zMin: number,
+  zMax: number,
+  holes: number[][][] = []
+): Pick<SimpleGeometry, 'vertices' | 'faces' | 'holes' | 'faceHoles'> & { faces: number[][] } {
+  const vertices: number[][] = [];
+  const faces: number[][] = [];
+  const walls: number[][] = [];
+
+  // Bottom and top copies of a ring, with a wall quad per edge
+  const addRing = (ring: number[][]): { bottom: number[]; top: number[] } => {
+    const n = ring.length;
+    const start = vertices.length;
+    for (const vertex of ring) {
+      vertices.push([vertex[0], vertex[1], zMin]);
+    }
+    for (const vertex of ring) {
+      vertices.push([vertex[0], vertex[1], zMax]);
+    }
+    for (let i = 0; i < n; i++) {
+      const next = (i + 1) % n;
+      walls.push([start + i, start + next, start + n + next, start + n + i]);
+    }
+    return {
+      bottom: Array.from({ length: n }, (_, i) => start + n - 1 - i),
+      top: Array.from({ length: n }, (_, i) => start + n + i)
+    };
+  };
+
+  const ring = signedRingArea(footprint) < 0 ? [...footprint].reverse() : footprint;
+  const outer = addRing(ring);
+  faces.push(outer.bottom, outer.top);
+  if (holes.length === 0) {
+    return { vertices, faces: [...faces, ...walls] };
+  }
+
+  // Holes run clockwise, against the outer ring, so their walls face into the courtyard
+  const orientedHoles = holes.map(hole => signedRingArea(hole) > 0 ? [...hole].reverse() : hole);
+  const holeRings = orientedHoles.map(addRing);
+  return {
+    vertices,
+    faces: [...faces, ...walls],
+    holes: orientedHoles.map(hole => hole.map(vertex => [vertex[0], vertex[1]])),
+    faceHoles: { 0: holeRings.map(ring => ring.bottom), 1: holeRings.map(ring => ring.top) }
+  };
+}
+
+/**
+ * Clip a ring to the slab lo <= axis <= hi (Sutherland-Hodgman against two half-planes).
+ * Concave rings may produce zero-width bridges, but the enclosed area is exact.
+ */
+export function clipRingToSlab(ring: number[][], axis: 'x' | 'y', lo: number, hi: number): number[][] {
+  const index = AXIS_INDEX[axis];
+  const lower = clipRingToHalfPlane(openRing(ring), index, lo, 1);
+  return clipRingToHalfPlane(lower, index, hi, -1);
+}
+
+/**
+ * Keep the part of a ring where sign * (v[index] - value) >= 0
+ */
+function clipRingToHalfPlane(ring: number[][], index: number, value: number, sign: 1 | -1): number[][] {
+  const output: number[][] = [];
+  const n = ring.length;
+  const inside = (vertex: number[]) => sign * (vertex[index] - value) >= 0;
+
+  for (let i = 0; i < n; i++) {
+    const current = ring[i];
+    const next = ring[(i + 1) % n];
+    const currentInside = inside(current);
+    const nextInside = inside(next);
+
+    if (currentInside) {
+      output.push(current);
+    }
+    if (currentInside !== nextInside) {
+      const t = (value - current[index]) / (next[index] - current[index]);
+      output.push([
+        current[0] + t * (next[0] - current[0]),
+        current[1] + t * (next[1] - current[1])
+      ]);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Drop the closing vertex of an explicitly closed ring
+ */
+export function openRing(ring: number[][]): number[][] {
+  if (ring.length > 1) {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) {
+      return ring.slice(0, -1);
+    }
+  }
+  return ring;
+}
+
+/**
+ * Cut a geometry to the slab lo..hi along an axis, keeping its type and holes.
+ * Returns null when nothing of the geometry lies inside the slab.
+ */
+export function sliceGeometry(geometry: SimpleGeometry, axis: Axis, lo: number, hi: number): SimpleGeometry | null {
+  const footprint = footprintOf(geometry);
+  const holes = footprintHoles(geometry);
+  const { min: zMin, max: zMax } = elevationRange(geometry);
+  const isSolid = geometry.type !== 'polygon';
+
+  if (axis === 'z') {
+    const bottom = Math.max(lo, zMin);
+    const top = Math.min(hi, zMax);
+    if (!isSolid || top <= bottom) {
+      return null;
+    }
+    return { type: 'solid', ...buildPrism(openRing(footprint), bottom, top, holes), attributes: { ...geometry.attributes } };
+  }
+
+  const clipped = holes.length > 0
+    ? clipPolygonToSlab(footprint, holes, axis, lo, hi)
+    : { ring: clipRingToSlab(footprint, axis, lo, hi), holes: [] };
+  if (clipped.ring.length < 3) {
+    return null;
+  }
+  if (isSolid) {
+    return { type: 'solid', ...buildPrism(clipped.ring, zMin, zMax, clipped.holes), attributes: { ...geometry.attributes } };
+  }
+  return {
+    type: 'polygon',
+    vertices: clipped.ring,
+    ...(clipped.holes.length > 0 ? { holes: clipped.holes } : {}),
+    attributes: { ...geometry.attributes }
+  };
+}
+
+/**
+ * Clip a polygon with holes to a slab. Several resulting parts are joined
+ * into one ring by zero-width bridges, like concave rings in clipRingToSlab.
+ */
+function clipPolygonToSlab(
+  ring: number[][],
+  holes: number[][][],
+  axis: 'x' | 'y',
+  lo: number,
+  hi: number
+): { ring: number[][]; holes: number[][][] } {
+  const points = [...ring, ...holes.flat()];
+  const across = AXIS_INDEX[axis === 'x' ? 'y' : 'x'];
+  const from = Math.min(...points.map(point => point[across])) - 1;
+  const to = Math.max(...points.map(point => point[across])) + 1;
+  const corner = (along: number, side: number): [number, number] => axis === 'x' ? [along, side] : [side, along];
+  const slab: polygonClipping.Polygon = [[corner(lo, from), corner(hi, from), corner(hi, to), corner(lo, to), corner(lo, from)]];
+  const closed = (r: number[][]): polygonClipping.Ring => {
+    const pairs = openRing(r).map(([x, y]): [number, number] => [x, y]);
+    return [...pairs, pairs[0]];
+  };
+
+  const parts = polygonClipping.intersection([closed(ring), ...holes.map(closed)], slab);
+  const open = (r: polygonClipping.Ring) => openRing(r.map(([x, y]) => [x, y]));
+  return {
+    ring: parts.flatMap(part => {
+      const outer = open(part[0]);
+      return parts.length > 1 ? [...outer, outer[0]] : outer;
+    }),
+    holes: parts.flatMap(part => part.slice(1).map(open))
+  };
+}
+
+/**
+ * Merge several geometries into one mesh, offsetting face indices.
+ * Polygons without faces contribute their ring as a single face.
+ */
+export function mergeGeometries(geometries: SimpleGeometry[], attributes: Record<string, any> = {}): SimpleGeometry {
+  const vertices: number[][] = [];
+  const faces: number[][] = [];
+  const faceHoles: Record<number, number[][]> = {};
+
+  for (const geometry of geometries) {
+    const offset = vertices.length;
+    const faceOffset = faces.length;
+    vertices.push(...geometry.vertices.map(vertex => [vertex[0], vertex[1], vertex[2] ?? 0]));
+    const geometryFaces = geometry.faces ?? [geometry.vertices.map((_, i) => i)];
+    faces.push(...geometryFaces.map(face => face.map(index => index + offset)));
+
+    for (const [face, rings] of Object.entries(geometry.faceHoles ?? {})) {
+      faceHoles[faceOffset + Number(face)] = rings.map(ring => ring.map(index => index + offset));
+    }
+    if (!geometry.faces && geometry.holes && geometry.holes.length > 0) {
+      // Holes of a flat polygon become index rings of its single face
+      const z = geometry.vertices[0]?.[2] ?? 0;
+      faceHoles[faceOffset] = geometry.holes.map(hole => hole.map(vertex => {
+        vertices.push([vertex[0], vertex[1], z]);
+        return vertices.length - 1;
+      }));
+    }
+  }
+
+  return Object.keys(faceHoles).length > 0
+    ? { type: 'mesh', vertices, faces, faceHoles, attributes }
+    : { type: 'mesh', vertices, faces, attributes };
+}
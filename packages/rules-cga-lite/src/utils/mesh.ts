@@ -0,0 +1,303 @@
+// Mesh helpers for exporters: face normals, triangulation and consistent
+// outward orientation of the polygon faces the engine emits
+
+import { SimpleGeometry } from '../types';
+
+type Vec3 = [number, number, number];
+
+// Vertices closer than this are treated as the same point
+export const POSITION_TOLERANCE = 1e-6;
+
+/**
+ * Newell normal of a (possibly concave, non-convex) polygon face; its length
+ * is twice the face area
+ */
+export function faceNormal(points: number[][]): Vec3 {
+  const normal: Vec3 = [0, 0, 0];
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1, z1 = 0] = points[i];
+    const [x2, y2, z2 = 0] = points[(i + 1) % points.length];
+    normal[0] += (y1 - y2) * (z1 + z2);
+    normal[1] += (z1 - z2) * (x1 + x2);
+    normal[2] += (x1 - x2) * (y1 + y2);
+  }
+  return normal;
+}
+
+/**
+ * Triangulate a planar polygon face by ear clipping.
+ * Returns triangles as indices into `points` followed by the points of each
+ * hole, wound like the face itself. Holes are bridged into the outer ring
+ * first; repeated points and zero-width spikes are skipped.
+ */
+export function triangulateFace(points: number[][], holes: number[][][] = []): Array<[number, number, number]> {
+  const normal = faceNormal(points);
+  // Project onto the plane of the two axes the normal is least aligned with
+  const drop = [0, 1, 2].reduce((best, axis) => Math.abs(normal[axis]) > Math.abs(normal[best]) ? axis : best, 2);
+  const [u, v] = [0, 1, 2].filter(axis => axis !== drop);
+  const sign = normal[drop] >= 0 ? 1 : -1;
+  const flat = [...points, ...holes.flat()].map(p => [(p[u] ?? 0) * sign, p[v] ?? 0]);
+  // Handedness of the (u, v) axes relative to the dropped one
+  const orientation = drop === 1 ? -1 : 1;
+
+  const scale = Math.max(1, ...flat.map(([x, y]) => Math.max(Math.abs(x), Math.abs(y))));
+  const epsilon = scale * scale * 1e-12;
+  const turn = (a: number, b: number, c: number) => orientation * cross2(flat[a], flat[b], flat[c]);
+
+  let remaining = points.map((_, i) => i);
+  let start = points.length;
+  const holeRings = holes.map(hole => {
+    const ring = hole.map((_, i) => start + i);
+    start += hole.length;
+    // Holes must run against the outer ring
+    return ringTurn(ring, turn) > 0 ? ring.reverse() : ring;
+  });
+  remaining = bridgeHoles(remaining, holeRings, flat);
+
+  // Drop repeated and collinear points, which only produce slivers
+  let changed = true;
+  while (changed && remaining.length >= 3) {
+    changed = false;
+    for (let k = 0; k < remaining.length; k++) {
+      const previous = remaining[(k - 1 + remaining.length) % remaining.length];
+      const next = remaining[(k + 1) % remaining.length];
+      if (Math.abs(turn(previous, remaining[k], next)) <= epsilon) {
+        remaining.splice(k, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+
+  const triangles: Array<[number, number, number]> = [];
+  while (remaining.length > 3) {
+    const n = remaining.length;
+    let ear = -1;
+    for (let k = 0; k < n && ear === -1; k++) {
+      const [a, b, c] = [remaining[(k - 1 + n) % n], remaining[k], remaining[(k + 1) % n]];
+      if (turn(a, b, c) <= epsilon) {
+        continue;
+      }
+      const blocked = remaining.some(p => p !== a && p !== b && p !== c &&
+        turn(a, b, p) >= -epsilon && turn(b, c, p) >= -epsilon && turn(c, a, p) >= -epsilon);
+      if (!blocked) {
+        ear = k;
+      }
+    }
+    // Self-touching faces may have no clean ear; clip the first corner to finish
+    const k = ear === -1 ? 0 : ear;
+    triangles.push([remaining[(k - 1 + n) % n], remaining[k], remaining[(k + 1) % n]]);
+    remaining = remaining.filter((_, index) => index !== k);
+  }
+  if (remaining.length === 3) {
+    triangles.push([remaining[0], remaining[1], remaining[2]]);
+  }
+  return triangles;
+}
+
+/**
+ * Orient the faces of a mesh consistently with normals pointing outward.
+ * Faces sharing an edge are made to traverse it in opposite directions; each
+ * connected part is then flipped if it encloses a negative volume, or, when it
+ * is an open surface, if it faces down.
+ */
+export function orientFaces(vertices: number[][], faces: number[][]): number[][] {
+  return orientMesh(vertices, faces).faces;
+}
+
+/**
+ * Orient faces and the hole rings cut out of them. Hole edges join faces like
+ * outer edges do, and each hole is wound against its face.
+ */
+export function orientMesh(
+  vertices: number[][],
+  faces: number[][],
+  faceHoles: Record<number, number[][]> = {}
+): { faces: number[][]; faceHoles: Record<number, number[][]> } {
+  const keys = vertices.map(v => v.map(c => Math.round((c ?? 0) / POSITION_TOLERANCE)).join(','));
+  const ringsOf = faces.map((face, f) => {
+    const normal = faceNormal(face.map(index => vertices[index]));
+    const holes = (faceHoles[f] || []).map(hole => {
+      const holeNormal = faceNormal(hole.map(index => vertices[index]));
+      return dot3(normal, holeNormal) > 0 ? [...hole].reverse() : hole;
+    });
+    return [face, ...holes];
+  });
+
+  const edgeFaces = new Map<string, Array<{ face: number; forward: boolean }>>();
+  ringsOf.forEach((rings, f) => rings.forEach(ring => {
+    ring.forEach((index, i) => {
+      const a = keys[index];
+      const b = keys[ring[(i + 1) % ring.length]];
+      if (a === b) {
+        return;
+      }
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+      const uses = edgeFaces.get(key) || [];
+      uses.push({ face: f, forward: a < b });
+      edgeFaces.set(key, uses);
+    });
+  }));
+
+  const neighbours: Array<Array<{ face: number; same: boolean }>> = faces.map(() => []);
+  edgeFaces.forEach(uses => {
+    // Only manifold edges tell how two faces relate
+    if (uses.length === 2 && uses[0].face !== uses[1].face) {
+      const same = uses[0].forward === uses[1].forward;
+      neighbours[uses[0].face].push({ face: uses[1].face, same });
+      neighbours[uses[1].face].push({ face: uses[0].face, same });
+    }
+  });
+
+  const flipped: Array<boolean | undefined> = faces.map(() => undefined);
+  for (let start = 0; start < faces.length; start++) {
+    if (flipped[start] !== undefined) {
+      continue;
+    }
+    const component: number[] = [];
+    const queue = [start];
+    flipped[start] = false;
+    while (queue.length > 0) {
+      const f = queue.shift()!;
+      component.push(f);
+      for (const { face, same } of neighbours[f]) {
+        if (flipped[face] === undefined) {
+          // Same traversal direction means one of the two must turn around
+          flipped[face] = same ? !flipped[f] : flipped[f];
+          queue.push(face);
+        }
+      }
+    }
+
+    const oriented = component.flatMap(f => ringsOf[f].map(ring => {
+      const points = ring.map(index => vertices[index]);
+      return flipped[f] ? [...points].reverse() : points;
+    }));
+    const volume = signedVolume(oriented);
+    const extent = boundsDiagonal(oriented.flat());
+    const isClosed = Math.abs(volume) > extent ** 3 * 1e-9;
+    const facesDown = oriented.reduce((sum, points) => sum + faceNormal(points)[2], 0) < 0;
+    if (isClosed ? volume < 0 : facesDown) {
+      component.forEach(f => flipped[f] = !flipped[f]);
+    }
+  }
+
+  const reorient = (ring: number[], f: number) => flipped[f] ? [...ring].reverse() : [...ring];
+  const orientedHoles: Record<number, number[][]> = {};
+  ringsOf.forEach(([, ...holes], f) => {
+    if (holes.length > 0) {
+      orientedHoles[f] = holes.map(hole => reorient(hole, f));
+    }
+  });
+  return { faces: faces.map(reorient), faceHoles: orientedHoles };
+}
+
+/**
+ * Volume enclosed by a solid or mesh geometry (0 for flat polygons)
+ */
+export function geometryVolume(geometry: SimpleGeometry): number {
+  const { vertices, faces } = geometry;
+  if (geometry.type === 'polygon' || !faces || faces.length < 4) {
+    return 0;
+  }
+  // Hole rings run against their faces, so they subtract from the enclosed volume
+  const mesh = orientMesh(vertices, faces, geometry.faceHoles);
+  const rings = mesh.faces.flatMap((face, f) => [face, ...(mesh.faceHoles[f] || [])]);
+  return Math.abs(signedVolume(rings.map(ring => ring.map(index => vertices[index]))));
+}
+
+/**
+ * Signed volume enclosed by a set of polygon faces (positive when they face outward)
+ */
+export function signedVolume(faces: number[][][]): number {
+  const origin = faces[0]?.[0] || [0, 0, 0];
+  let volume = 0;
+  for (const points of faces) {
+    for (let i = 1; i + 1 < points.length; i++) {
+      volume += tripleProduct(sub3(points[0], origin), sub3(points[i], origin), sub3(points[i + 1], origin));
+    }
+  }
+  return volume / 6;
+}
+
+/**
+ * Splice each hole into the outer ring through a zero-width bridge from its
+ * rightmost vertex to the nearest ring vertex it can see
+ */
+function bridgeHoles(outer: number[], holes: number[][], flat: number[][]): number[] {
+  const pending = [...holes].sort((a, b) =>
+    Math.max(...b.map(i => flat[i][0])) - Math.max(...a.map(i => flat[i][0]))
+  );
+  let ring = outer;
+  while (pending.length > 0) {
+    const hole = pending.shift()!;
+    const m = hole.reduce((best, index, k) => flat[index][0] > flat[hole[best]][0] ? k : best, 0);
+    const from = flat[hole[m]];
+    const edges = [ring, hole, ...pending].flatMap(r => r.map((index, k) => [index, r[(k + 1) % r.length]]));
+    const candidates = ring
+      .map((index, position) => ({ position, distance: Math.hypot(flat[index][0] - from[0], flat[index][1] - from[1]) }))
+      .sort((a, b) => a.distance - b.distance);
+    const visible = candidates.find(({ position }) => {
+      const to = ring[position];
+      return !edges.some(([a, b]) => a !== to && b !== to && a !== hole[m] && b !== hole[m] &&
+        segmentsCross(from, flat[to], flat[a], flat[b]));
+    }) ?? candidates[0];
+
+    const rotated = [...hole.slice(m), ...hole.slice(0, m)];
+    ring = [
+      ...ring.slice(0, visible.position + 1),
+      ...rotated,
+      hole[m],
+      ring[visible.position],
+      ...ring.slice(visible.position + 1)
+    ];
+  }
+  return ring;
+}
+
+/**
+ * Twice the signed area of an index ring under a turn function
+ */
+function ringTurn(ring: number[], turn: (a: number, b: number, c: number) => number): number {
+  let total = 0;
+  for (let k = 1; k + 1 < ring.length; k++) {
+    total += turn(ring[0], ring[k], ring[k + 1]);
+  }
+  return total;
+}
+
+/**
+ * Whether two segments cross at a point interior to both
+ */
+function segmentsCross(p1: number[], p2: number[], p3: number[], p4: number[]): boolean {
+  const d1 = cross2(p3, p4, p1);
+  const d2 = cross2(p3, p4, p2);
+  const d3 = cross2(p1, p2, p3);
+  const d4 = cross2(p1, p2, p4);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+function boundsDiagonal(points: number[][]): number {
+  if (points.length === 0) {
+    return 0;
+  }
+  const min = [0, 1, 2].map(axis => Math.min(...points.map(p => p[axis] ?? 0)));
+  const max = [0, 1, 2].map(axis => Math.max(...points.map(p => p[axis] ?? 0)));
+  return Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]);
+}
+
+function cross2(a: number[], b: number[], c: number[]): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+function dot3(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function sub3(a: number[], b: number[]): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], (a[2] ?? 0) - (b[2] ?? 0)];
+}
+
+function tripleProduct(a: Vec3, b: Vec3, c: Vec3): number {
+  return a[0] * (b[1] * c[2] - b[2] * c[1]) - a[1] * (b[0] * c[2] - b[2] * c[0]) + a[2] * (b[0] * c[1] - b[1] * c[0]);
+}
@@ -0,0 +1,212 @@
+import * as polygonClipping from 'polygon-clipping';
+import { openRing, signedRingArea } from './geometry';
+
+export { signedRingArea };
+
+// Offsetting of arbitrary simple polygons (convex or concave).
+//
+// Every edge sweeps a strip of its own width across the polygon; corners are
+// filled with miter "kites" so the result keeps sharp corners like CGA offsets.
+// The strips are then cut from (inset) or merged into (outset) the polygon with
+// polygon-clipping, so edges that collapse and lots that pinch into several
+// parts come out right without special cases.
+
+// Miters longer than this multiple of the offset distance are bevelled
+const MITER_LIMIT = 4;
+
+type Vec = [number, number];
+
+// Offset result: an outer ring and the holes left inside it
+export interface PolygonPart {
+  ring: number[][];
+  holes: number[][][];
+}
+
+/**
+ * Unit inward normal of every edge i (vertex i to i + 1) of an open ring
+ */
+export function inwardNormals(ring: number[][]): Vec[] {
+  const orientation = signedRingArea(ring) >= 0 ? 1 : -1;
+  return ring.map((a, i) => {
+    const b = ring[(i + 1) % ring.length];
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]) || 1;
+    return [orientation * -(b[1] - a[1]) / length, orientation * (b[0] - a[0]) / length];
+  });
+}
+
+/**
+ * Shrink a ring, moving edge i inward by distances[i] (0 keeps the edge in place).
+ * Returns the remaining parts as open counter-clockwise rings; empty when the
+ * polygon is consumed.
+ */
+export function insetRing(ring: number[][], distances: number[]): number[][][] {
+  const source = openRing(ring);
+  const origin = source[0];
+  const open = translate(source, origin, -1);
+  const normals = inwardNormals(open);
+  const cutters = edgeSweeps(open, normals, distances, 'reflex');
+  if (cutters.length === 0) {
+    return [source];
+  }
+  return outerRings(polygonClipping.difference([closedPairs(open)], ...cutters), open).map(part => translate(part, origin, 1));
+}
+
+/**
+ * Grow a ring outward by a uniform distance.
+ * Holes closed by the growth (e.g. a U-shaped lot) are filled.
+ */
+export function outsetRing(ring: number[][], distance: number): number[][][] {
+  const origin = openRing(ring)[0];
+  const open = translate(openRing(ring), origin, -1);
+  const normals = inwardNormals(open).map(([x, y]): Vec => [-x, -y]);
+  const sweeps = edgeSweeps(open, normals, open.map(() => distance), 'convex');
+  return outerRings(polygonClipping.union([closedPairs(open)], ...sweeps), open).map(part => translate(part, origin, 1));
+}
+
+/**
+ * Shrink a polygon with holes: edge i of the outer ring moves in by distances[i]
+ * and every hole grows by holeDistance. Returns the remaining parts with the
+ * holes left inside each.
+ */
+export function insetPolygon(ring: number[][], holes: number[][][], distances: number[], holeDistance: number = 0): PolygonPart[] {
+  const grown = holeDistance > 0 ? holes.flatMap(hole => outsetRing(hole, holeDistance)) : holes;
+  return cutHoles(insetRing(ring, distances), grown, ring);
+}
+
+/**
+ * Grow a polygon with holes by a uniform distance; holes shrink by the same
+ * distance and disappear once they close
+ */
+export function outsetPolygon(ring: number[][], holes: number[][][], distance: number): PolygonPart[] {
+  const shrunk = holes.flatMap(hole => insetRing(hole, hole.map(() => distance)));
+  return cutHoles(outsetRing(ring, distance), shrunk, ring);
+}
+
+/**
+ * Cut holes out of offset parts; without holes the parts come back as they are
+ */
+function cutHoles(parts: number[][][], holes: number[][][], source: number[][]): PolygonPart[] {
+  if (holes.length === 0 || parts.length === 0) {
+    return parts.map(part => ({ ring: part, holes: [] }));
+  }
+  const minArea = Math.abs(signedRingArea(source)) * 1e-9;
+  const origin = source[0];
+  const rings = (polygon: polygonClipping.Polygon) => polygon
+    .map(ring => translate(openRing(ring.map(([x, y]) => [x, y])), origin, 1))
+    .filter(ring => ring.length >= 3 && Math.abs(signedRingArea(ring)) > minArea);
+  const local = (ring: number[][]) => [closedPairs(translate(ring, origin, -1))];
+  return polygonClipping.difference(parts.map(local), ...holes.map(local))
+    .map(rings)
+    .filter(polygon => polygon.length > 0)
+    .map(([ring, ...inner]) => ({ ring, holes: inner }));
+}
+
+/**
+ * Strips swept by each edge along `normals`, plus miter kites at the corners
+ * where neighbouring strips leave a gap ('reflex' corners for insets,
+ * 'convex' corners for outsets)
+ */
+function edgeSweeps(
+  ring: number[][],
+  normals: Vec[],
+  distances: number[],
+  gapCorners: 'reflex' | 'convex'
+): polygonClipping.Polygon[] {
+  const n = ring.length;
+  const orientation = signedRingArea(ring) >= 0 ? 1 : -1;
+  const sweeps: polygonClipping.Polygon[] = [];
+  const shift = (p: number[], normal: Vec, d: number): [number, number] => [p[0] + normal[0] * d, p[1] + normal[1] * d];
+
+  for (let i = 0; i < n; i++) {
+    const d = distances[i] ?? 0;
+    if (d <= 0) {
+      continue;
+    }
+    const a = ring[i];
+    const b = ring[(i + 1) % n];
+    sweeps.push([closeRing([[a[0], a[1]], [b[0], b[1]], shift(b, normals[i], d), shift(a, normals[i], d)])]);
+  }
+
+  for (let i = 0; i < n; i++) {
+    const previous = (i - 1 + n) % n;
+    const d1 = distances[previous] ?? 0;
+    const d2 = distances[i] ?? 0;
+    if (d1 <= 0 && d2 <= 0) {
+      continue;
+    }
+
+    // Neighbouring strips separate at reflex corners when sweeping inward and
+    // at convex corners when sweeping outward
+    const n1 = normals[previous];
+    const n2 = normals[i];
+    const turn = cross(n1, n2);
+    if (Math.abs(turn) < 1e-12 || (turn * orientation > 0) !== (gapCorners === 'convex')) {
+      continue;
+    }
+
+    const v = ring[i];
+    const p1 = shift(v, n1, d1);
+    const p2 = shift(v, n2, d2);
+    const miter = intersectLines(p1, [n1[1], -n1[0]], p2, [n2[1], -n2[0]]);
+    const reach = Math.max(d1, d2) * MITER_LIMIT;
+    const corner: [number, number] = [v[0], v[1]];
+    const kite = miter && Math.hypot(miter[0] - v[0], miter[1] - v[1]) <= reach
+      ? [corner, p1, miter, p2]
+      : [corner, p1, p2];
+    // An edge that stays in place (distance 0) starts its kite at the corner itself
+    const points = kite.filter((point, k) => k === 0 || point[0] !== kite[k - 1][0] || point[1] !== kite[k - 1][1]);
+    if (points.length >= 3) {
+      sweeps.push([closeRing(points)]);
+    }
+  }
+
+  return sweeps;
+}
+
+/**
+ * Keep the outer ring of each resulting polygon, dropping slivers left by
+ * floating point noise
+ */
+function outerRings(result: polygonClipping.MultiPolygon, source: number[][]): number[][][] {
+  const minArea = Math.abs(signedRingArea(source)) * 1e-9;
+  return result
+    .map(polygon => openRing(polygon[0].map(([x, y]) => [x, y])))
+    .filter(ring => ring.length >= 3 && Math.abs(signedRingArea(ring)) > minArea);
+}
+
+/**
+ * Move a ring by `sign` times `origin`. Offsets clip relative to the ring's
+ * first vertex, since at projected magnitudes (~1e6 m) polygon-clipping loses
+ * track of nearly coincident segments.
+ */
+function translate(ring: number[][], origin: number[], sign: 1 | -1): number[][] {
+  return ring.map(([x, y]) => [x + sign * origin[0], y + sign * origin[1]]);
+}
+
+function closedPairs(ring: number[][]): polygonClipping.Ring {
+  return closeRing(ring.map(([x, y]): [number, number] => [x, y]));
+}
+
+function closeRing(ring: Array<[number, number]>): polygonClipping.Ring {
+  return [...ring, ring[0]];
+}
+
+function sub(a: number[], b: number[]): Vec {
+  return [a[0] - b[0], a[1] - b[1]];
+}
+
+function cross(a: Vec, b: Vec): number {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+/**
+ * Intersection of two lines given as point + direction (null when parallel)
+ */
+function intersectLines(p: Vec, u: Vec, q: Vec, w: Vec): [number, number] | null {
+  const denominator = cross(u, w);
+  if (Math.abs(denominator) < 1e-12) {
+    return null;
+  }
+  const s = cross(sub(q, p), w) / denominator;
+  return [p[0] + u[0] * s, p[1] + u[1] * s];
+}
@@ -0,0 +1,118 @@
+import { openRing } from './geometry';
+import { signedRingArea } from './offset';
+import { straightSkeleton } from './skeleton';
+
+// Roof generation for arbitrary footprints
+
+export type RoofKind = 'hip' | 'gable' | 'shed';
+
+export interface RoofMesh {
+  vertices: number[][];
+  faces: number[][]; // Roof surfaces, plus vertical gable ends and shed walls
+  height: number; // Rise from eave to the highest point
+  pitch: number; // Slope in degrees
+}
+
+/**
+ * Build a roof on a footprint ring sitting at elevation `eave`.
+ * - hip: one slope per footprint edge, meeting along the straight skeleton
+ * - gable: hip roof whose triangular end slopes are raised into vertical
+ *   gable walls (ends shared by several triangles, e.g. a square, stay hipped)
+ * - shed: a single slope rising from the front (minimum y) side
+ * Slopes follow `pitch` (degrees) unless `height` fixes the rise.
+ */
+export function buildRoof(
+  footprint: number[][],
+  eave: number,
+  kind: RoofKind,
+  options: { pitch: number; height?: number }
+): RoofMesh {
+  return kind === 'shed' ? buildShedRoof(footprint, eave, options) : buildSkeletonRoof(footprint, eave, kind, options);
+}
+
+function buildSkeletonRoof(
+  footprint: number[][],
+  eave: number,
+  kind: 'hip' | 'gable',
+  options: { pitch: number; height?: number }
+): RoofMesh {
+  const skeleton = straightSkeleton(footprint);
+  const maxT = Math.max(...skeleton.nodes.map(node => node.t));
+  const slope = slopeFor(options, maxT);
+  const nodes = skeleton.nodes.map(node => ({ ...node }));
+
+  if (kind === 'gable') {
+    // Triangular faces are [edge start, edge end, apex]
+    const triangles = skeleton.faces.filter(face => face.length === 3);
+    const apexUse = new Map<number, number>();
+    triangles.forEach(face => apexUse.set(face[2], (apexUse.get(face[2]) || 0) + 1));
+
+    for (const [start, end, apex] of triangles) {
+      if (apexUse.get(apex) !== 1) {
+        continue;
+      }
+      const a = nodes[start];
+      const b = nodes[end];
+      const p = nodes[apex];
+      const length2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+      const s = ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / length2;
+      p.x = a.x + s * (b.x - a.x);
+      p.y = a.y + s * (b.y - a.y);
+    }
+  }
+
+  // Keep only the nodes the faces use (merged duplicates are left out)
+  const used = Array.from(new Set(skeleton.faces.flat()));
+  const remap = new Map(used.map((node, index) => [node, index]));
+
+  return {
+    vertices: used.map(index => [nodes[index].x, nodes[index].y, eave + nodes[index].t * slope]),
+    faces: skeleton.faces.map(face => face.map(index => remap.get(index)!)),
+    height: maxT * slope,
+    pitch: pitchFor(options, slope)
+  };
+}
+
+function buildShedRoof(footprint: number[][], eave: number, options: { pitch: number; height?: number }): RoofMesh {
+  let ring = openRing(footprint);
+  if (signedRingArea(ring) < 0) {
+    ring = [...ring].reverse();
+  }
+  const n = ring.length;
+  const minY = Math.min(...ring.map(p => p[1]));
+  const depth = Math.max(...ring.map(p => p[1])) - minY;
+  const slope = slopeFor(options, depth);
+
+  // Eave ring (0..n-1) and sloped roof ring (n..2n-1)
+  const vertices = [
+    ...ring.map(p => [p[0], p[1], eave]),
+    ...ring.map(p => [p[0], p[1], eave + (p[1] - minY) * slope])
+  ];
+  const faces: number[][] = [ring.map((_, i) => n + i)];
+  for (let i = 0; i < n; i++) {
+    const next = (i + 1) % n;
+    const rise = vertices[n + i][2] - eave + vertices[n + next][2] - eave;
+    if (rise > 1e-9) {
+      faces.push([i, next, n + next, n + i]);
+    }
+  }
+
+  return { vertices, faces, height: depth * slope, pitch: pitchFor(options, slope) };
+}
+
+/**
+ * Rise per metre of run: fixed by the roof height over the longest run, or by the pitch
+ */
+function slopeFor(options: { pitch: number; height?: number }, run: number): number {
+  if (options.height !== undefined && run > 0) {
+    return options.height / run;
+  }
+  return Math.tan(options.pitch * Math.PI / 180);
+}
+
+/**
+ * Pitch in degrees: as requested, or derived from the slope when `height` fixed it
+ */
+function pitchFor(options: { pitch: number; height?: number }, slope: number): number {
+  return options.height !== undefined ? Math.atan(slope) * 180 / Math.PI : options.pitch;
+}
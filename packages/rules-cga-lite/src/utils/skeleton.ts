@@ -0,0 +1,493 @@
+import { openRing } from './geometry';
+import { signedRingArea } from './offset';
+
+// Straight skeleton of a simple polygon, computed by simulating the shrinking
+// wavefront (edges move inward at unit speed) and processing its events in
+// time order:
+// - edge event: an edge shrinks to nothing and its two end vertices merge
+// - split event: a reflex vertex runs into an opposite edge and cuts the
+//   wavefront polygon in two
+// The number of vertices in lot footprints is small, so every step simply
+// recomputes all candidate events.
+
+type Vec = [number, number];
+
+// Skeleton node: a point and the time the wavefront passed it (= distance to the outline)
+export interface SkeletonNode {
+  x: number;
+  y: number;
+  t: number;
+}
+
+export interface StraightSkeleton {
+  nodes: SkeletonNode[];
+  ring: number[][]; // Counter-clockwise outline; node i is ring vertex i
+  faces: number[][]; // Node indices of the face swept by each ring edge, counter-clockwise
+}
+
+interface WaveEdge {
+  normal: Vec; // Inward unit normal
+  direction: Vec; // Unit direction
+  offset: number; // normal · x = offset + t
+}
+
+interface WaveVertex {
+  origin: number; // Node the vertex started from
+  position: Vec; // Position at time `born`
+  velocity: Vec;
+  born: number;
+  leftEdge: number; // Incoming edge
+  rightEdge: number; // Outgoing edge
+  prev: WaveVertex;
+  next: WaveVertex;
+  active: boolean;
+}
+
+type WaveEvent =
+  | { kind: 'edge'; time: number; a: WaveVertex; b: WaveVertex }
+  | { kind: 'split'; time: number; vertex: WaveVertex; a: WaveVertex; b: WaveVertex };
+
+/**
+ * Compute the straight skeleton of a simple polygon ring
+ */
+export function straightSkeleton(input: number[][]): StraightSkeleton {
+  const ring = cleanRing(input);
+  if (ring.length < 3) {
+    throw new Error('Straight skeleton needs at least 3 distinct vertices');
+  }
+
+  const scale = Math.max(...ring.map(p => Math.max(Math.abs(p[0]), Math.abs(p[1]))), 1);
+  const eps = scale * 1e-9;
+  const builder = new SkeletonBuilder(ring, eps);
+  builder.run();
+  return { nodes: builder.nodes, ring, faces: builder.faces() };
+}
+
+/**
+ * Open, counter-clockwise ring without repeated or collinear vertices
+ */
+function cleanRing(input: number[][]): number[][] {
+  let ring = openRing(input).map(p => [p[0], p[1]]);
+  if (signedRingArea(ring) < 0) {
+    ring = ring.reverse();
+  }
+
+  let changed = true;
+  while (changed && ring.length >= 3) {
+    changed = false;
+    for (let i = 0; i < ring.length; i++) {
+      const prev = ring[(i - 1 + ring.length) % ring.length];
+      const current = ring[i];
+      const next = ring[(i + 1) % ring.length];
+      const span = Math.hypot(next[0] - prev[0], next[1] - prev[1]) || 1;
+      const duplicate = current[0] === next[0] && current[1] === next[1];
+      const collinear = Math.abs(cross(sub(current, prev), sub(next, current))) < span * span * 1e-12;
+      if (duplicate || collinear) {
+        ring.splice(i, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return ring;
+}
+
+class SkeletonBuilder {
+  readonly nodes: SkeletonNode[] = [];
+  private readonly arcs: Array<[number, number]> = [];
+  private readonly edges: WaveEdge[];
+  private lavs: WaveVertex[] = []; // One entry vertex per active wavefront polygon
+  private now = 0;
+
+  constructor(private readonly ring: number[][], private readonly eps: number) {
+    const n = ring.length;
+    this.edges = ring.map((a, i) => {
+      const b = ring[(i + 1) % n];
+      const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+      const direction: Vec = [(b[0] - a[0]) / length, (b[1] - a[1]) / length];
+      const normal: Vec = [-direction[1], direction[0]];
+      return { normal, direction, offset: normal[0] * a[0] + normal[1] * a[1] };
+    });
+
+    const vertices = ring.map((p, i) => this.createVertex(this.addNode([p[0], p[1]], 0), [p[0], p[1]], (i - 1 + n) % n, i));
+    vertices.forEach((vertex, i) => {
+      vertex.next = vertices[(i + 1) % n];
+      vertex.prev = vertices[(i - 1 + n) % n];
+    });
+    this.lavs.push(vertices[0]);
+  }
+
+  run(): void {
+    const maxSteps = 10 * this.ring.length * this.ring.length + 100;
+    for (let step = 0; step < maxSteps; step++) {
+      this.lavs = this.activeLavs();
+      if (this.lavs.length === 0) {
+        return;
+      }
+
+      const event = this.nextEvent();
+      if (!event) {
+        // No further event: whatever remains has no area left
+        this.lavs.forEach(lav => this.collapse(lav));
+        continue;
+      }
+
+      this.now = Math.max(this.now, event.time);
+      if (event.kind === 'edge') {
+        this.handleEdgeEvent(event.a, event.b);
+      } else {
+        this.handleSplitEvent(event.vertex, event.a, event.b);
+      }
+    }
+    throw new Error('Straight skeleton did not converge');
+  }
+
+  /**
+   * Trace the face of every outline edge through the arc graph
+   */
+  faces(): number[][] {
+    const graph = new ArcGraph(this.nodes, this.eps);
+    this.ring.forEach((_, i) => graph.connect(i, (i + 1) % this.ring.length));
+    this.arcs.forEach(([a, b]) => graph.connect(a, b));
+    return this.ring.map((_, i) => graph.traceFace(i, (i + 1) % this.ring.length));
+  }
+
+  private nextEvent(): WaveEvent | undefined {
+    let best: WaveEvent | undefined;
+    const consider = (event: WaveEvent | undefined) => {
+      if (event && (!best || event.time < best.time - this.eps)) {
+        best = event;
+      }
+    };
+
+    for (const lav of this.lavs) {
+      const vertices = this.lavVertices(lav);
+      for (const vertex of vertices) {
+        consider(this.edgeEvent(vertex, vertex.next));
+        if (this.isReflex(vertex)) {
+          for (const other of vertices) {
+            consider(this.splitEvent(vertex, other, other.next));
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Time at which the wavefront edge between a and b shrinks to zero length
+   */
+  private edgeEvent(a: WaveVertex, b: WaveVertex): WaveEvent | undefined {
+    const direction = this.edges[a.rightEdge].direction;
+    const length = dot(direction, sub(this.positionAt(b, this.now), this.positionAt(a, this.now)));
+    if (length <= this.eps) {
+      return { kind: 'edge', time: this.now, a, b };
+    }
+    const rate = dot(direction, sub(b.velocity, a.velocity));
+    if (rate >= -1e-12) {
+      return undefined;
+    }
+    return { kind: 'edge', time: this.now - length / rate, a, b };
+  }
+
+  /**
+   * Time at which reflex vertex `vertex` hits the wavefront edge from a to b
+   */
+  private splitEvent(vertex: WaveVertex, a: WaveVertex, b: WaveVertex): WaveEvent | undefined {
+    const edgeIndex = a.rightEdge;
+    if (a === vertex || b === vertex || edgeIndex === vertex.leftEdge || edgeIndex === vertex.rightEdge) {
+      return undefined;
+    }
+
+    const edge = this.edges[edgeIndex];
+    const position = this.positionAt(vertex, this.now);
+    const gap = dot(edge.normal, position) - (edge.offset + this.now);
+    const closing = dot(edge.normal, vertex.velocity) - 1;
+    if (gap < -this.eps || closing >= -1e-12) {
+      return undefined;
+    }
+
+    const time = this.now + Math.max(gap, 0) / -closing;
+    const hit = this.positionAt(vertex, time);
+    const start = this.positionAt(a, time);
+    const end = this.positionAt(b, time);
+    const span = dot(edge.direction, sub(end, start));
+    const along = dot(edge.direction, sub(hit, start));
+    if (span <= this.eps || along < -this.eps || along > span + this.eps) {
+      return undefined;
+    }
+    return { kind: 'split', time, vertex, a, b };
+  }
+
+  private handleEdgeEvent(a: WaveVertex, b: WaveVertex): void {
+    const point = midpoint(this.positionAt(a, this.now), this.positionAt(b, this.now));
+    const node = this.addNode(point, this.now);
+    this.finish(a, node);
+    this.finish(b, node);
+
+    // A triangle collapses into a single point
+    if (b.next === a.prev) {
+      this.finish(a.prev, node);
+      return;
+    }
+
+    const merged = this.createVertex(node, point, a.leftEdge, b.rightEdge);
+    this.link(a.prev, merged);
+    this.link(merged, b.next);
+    this.settle(merged);
+  }
+
+  private handleSplitEvent(vertex: WaveVertex, a: WaveVertex, b: WaveVertex): void {
+    const point = this.positionAt(vertex, this.now);
+    const node = this.addNode(point, this.now);
+    this.finish(vertex, node);
+
+    // b ... vertex.prev -> left -> b and vertex.next ... a -> right -> vertex.next
+    const left = this.createVertex(node, point, vertex.leftEdge, a.rightEdge);
+    const right = this.createVertex(node, point, a.rightEdge, vertex.rightEdge);
+    const before = vertex.prev;
+    const after = vertex.next;
+    this.link(before, left);
+    this.link(left, b);
+    this.link(a, right);
+    this.link(right, after);
+    this.settle(left);
+    this.settle(right);
+  }
+
+  /**
+   * Register a wavefront polygon after an event, collapsing it when nothing is left of it
+   */
+  private settle(entry: WaveVertex): void {
+    const vertices = this.lavVertices(entry);
+    const area = Math.abs(signedRingArea(vertices.map(vertex => this.positionAt(vertex, this.now))));
+    if (vertices.length < 3 || area <= this.eps * this.eps * 1e3) {
+      this.collapse(entry);
+    } else {
+      this.lavs.push(entry);
+    }
+  }
+
+  /**
+   * End a degenerate wavefront polygon: its vertices stop where they are and
+   * its remaining edges become ridges
+   */
+  private collapse(entry: WaveVertex): void {
+    const vertices = this.lavVertices(entry);
+    const ends = vertices.map(vertex => {
+      const node = this.addNode(this.positionAt(vertex, this.now), this.now);
+      this.finish(vertex, node);
+      return node;
+    });
+    ends.forEach((node, i) => this.addArc(node, ends[(i + 1) % ends.length]));
+  }
+
+  private finish(vertex: WaveVertex, node: number): void {
+    vertex.active = false;
+    this.addArc(vertex.origin, node);
+  }
+
+  private createVertex(origin: number, position: Vec, leftEdge: number, rightEdge: number): WaveVertex {
+    const vertex = {
+      origin,
+      position,
+      velocity: this.bisectorVelocity(leftEdge, rightEdge),
+      born: this.now,
+      leftEdge,
+      rightEdge,
+      active: true
+    } as WaveVertex;
+    vertex.prev = vertex;
+    vertex.next = vertex;
+    return vertex;
+  }
+
+  /**
+   * Velocity keeping a vertex on both of its edges while they move inward at unit speed
+   */
+  private bisectorVelocity(leftEdge: number, rightEdge: number): Vec {
+    const n1 = this.edges[leftEdge].normal;
+    const n2 = this.edges[rightEdge].normal;
+    const determinant = cross(n1, n2);
+    if (Math.abs(determinant) < 1e-12) {
+      // Collinear edges move together; opposite edges have already met
+      return dot(n1, n2) > 0 ? n1 : [0, 0];
+    }
+    return [(n2[1] - n1[1]) / determinant, (n1[0] - n2[0]) / determinant];
+  }
+
+  private isReflex(vertex: WaveVertex): boolean {
+    return cross(this.edges[vertex.leftEdge].direction, this.edges[vertex.rightEdge].direction) < -1e-12;
+  }
+
+  private positionAt(vertex: WaveVertex, time: number): Vec {
+    const dt = time - vertex.born;
+    return [vertex.position[0] + vertex.velocity[0] * dt, vertex.position[1] + vertex.velocity[1] * dt];
+  }
+
+  /**
+   * One entry per wavefront polygon still shrinking (entries go stale as events relink vertices)
+   */
+  private activeLavs(): WaveVertex[] {
+    const seen = new Set<WaveVertex>();
+    const lavs: WaveVertex[] = [];
+    for (const entry of this.lavs) {
+      if (entry.active && !seen.has(entry)) {
+        this.lavVertices(entry).forEach(vertex => seen.add(vertex));
+        lavs.push(entry);
+      }
+    }
+    return lavs;
+  }
+
+  private link(a: WaveVertex, b: WaveVertex): void {
+    a.next = b;
+    b.prev = a;
+  }
+
+  private lavVertices(entry: WaveVertex): WaveVertex[] {
+    const vertices: WaveVertex[] = [];
+    let vertex = entry;
+    do {
+      vertices.push(vertex);
+      vertex = vertex.next;
+    } while (vertex !== entry && vertices.length <= this.ring.length * 4);
+    return vertices;
+  }
+
+  private addNode(point: Vec, t: number): number {
+    this.nodes.push({ x: point[0], y: point[1], t });
+    return this.nodes.length - 1;
+  }
+
+  private addArc(a: number, b: number): void {
+    if (a !== b) {
+      this.arcs.push([a, b]);
+    }
+  }
+}
+
+/**
+ * Planar graph of outline edges and skeleton arcs.
+ * Nodes closer than eps are merged and arcs passing through a node are split
+ * there, so faces can be traced by always taking the sharpest left turn.
+ */
+class ArcGraph {
+  private readonly canonical: number[];
+  private readonly neighbours = new Map<number, Set<number>>();
+
+  constructor(private readonly nodes: SkeletonNode[], private readonly eps: number) {
+    this.canonical = nodes.map((node, i) => {
+      const match = nodes.findIndex((other, j) => j < i && Math.hypot(other.x - node.x, other.y - node.y) <= eps * 1e3);
+      return match === -1 ? i : match;
+    });
+    this.canonical = this.canonical.map(index => this.canonical[index]);
+  }
+
+  connect(a: number, b: number): void {
+    const from = this.canonical[a];
+    const to = this.canonical[b];
+    if (from === to) {
+      return;
+    }
+
+    // Split the arc at nodes lying on it
+    const onArc = this.uniqueNodes()
+      .filter(index => index !== from && index !== to && this.liesOn(index, from, to))
+      .sort((p, q) => this.distance(from, p) - this.distance(from, q));
+    const chain = [from, ...onArc, to];
+    for (let i = 0; i + 1 < chain.length; i++) {
+      this.link(chain[i], chain[i + 1]);
+    }
+  }
+
+  /**
+   * Walk the face to the left of the directed outline edge a -> b
+   */
+  traceFace(a: number, b: number): number[] {
+    const start = this.canonical[a];
+    let from = start;
+    let to = this.canonical[b];
+    const face = [start];
+
+    for (let guard = 0; guard < this.nodes.length * 4; guard++) {
+      if (to === start) {
+        return face;
+      }
+      face.push(to);
+      const next = this.leftmostTurn(from, to);
+      from = to;
+      to = next;
+    }
+    throw new Error('Could not trace roof face');
+  }
+
+  /**
+   * Neighbour of `to` reached by turning as far left as possible when arriving from `from`
+   */
+  private leftmostTurn(from: number, to: number): number {
+    const incoming = Math.atan2(this.nodes[from].y - this.nodes[to].y, this.nodes[from].x - this.nodes[to].x);
+    let best = from;
+    let bestAngle = Infinity;
+    for (const candidate of this.neighbours.get(to) || []) {
+      if (candidate === from) {
+        continue;
+      }
+      const angle = Math.atan2(this.nodes[candidate].y - this.nodes[to].y, this.nodes[candidate].x - this.nodes[to].x);
+      // Clockwise sweep from the way back; the first edge hit bounds the left face
+      let sweep = incoming - angle;
+      while (sweep <= 0) {
+        sweep += 2 * Math.PI;
+      }
+      if (sweep < bestAngle) {
+        bestAngle = sweep;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  private link(a: number, b: number): void {
+    if (a === b) {
+      return;
+    }
+    if (!this.neighbours.has(a)) this.neighbours.set(a, new Set());
+    if (!this.neighbours.has(b)) this.neighbours.set(b, new Set());
+    this.neighbours.get(a)!.add(b);
+    this.neighbours.get(b)!.add(a);
+  }
+
+  private uniqueNodes(): number[] {
+    return this.canonical.filter((index, i) => index === i);
+  }
+
+  private liesOn(index: number, from: number, to: number): boolean {
+    const p = this.nodes[index];
+    const a = this.nodes[from];
+    const b = this.nodes[to];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const along = ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / length;
+    const off = Math.abs((p.x - a.x) * (b.y - a.y) - (p.y - a.y) * (b.x - a.x)) / length;
+    return off <= this.eps * 1e3 && along > this.eps && along < length - this.eps;
+  }
+
+  private distance(a: number, b: number): number {
+    return Math.hypot(this.nodes[a].x - this.nodes[b].x, this.nodes[a].y - this.nodes[b].y);
+  }
+}
+
+function sub(a: number[], b: number[]): Vec {
+  return [a[0] - b[0], a[1] - b[1]];
+}
+
+function dot(a: Vec, b: Vec): number {
+  return a[0] * b[0] + a[1] * b[1];
+}
+
+function cross(a: Vec, b: Vec): number {
+  return a[0] * b[1] - a[1] * b[0];
+}
+
+function midpoint(a: Vec, b: Vec): Vec {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+}
@@ -0,0 +1,322 @@
+// Mesh validity checks for solids and meshes before they are persisted:
+// watertightness, consistent outward orientation, degenerate faces and
+// self-intersections, with a repair for what can be fixed automatically
+
+import { SimpleGeometry } from '../types';
+import { faceNormal, orientMesh, POSITION_TOLERANCE, triangulateFace } from './mesh';
+
+export type MeshIssueKind =
+  | 'open-edge'         // Edge used by one face only: the mesh is not watertight
+  | 'non-manifold-edge' // Edge shared by more than two faces
+  | 'flipped-face'      // Face wound against its neighbours, or a solid turned inside out
+  | 'degenerate-face'   // Face with fewer than 3 distinct vertices or no area
+  | 'self-intersection'; // Faces that cross each other
+
+export interface MeshIssue {
+  kind: MeshIssueKind;
+  message: string;
+  faces: number[];            // Faces involved, by index into `faces`
+  edge?: [number[], number[]]; // End points of the edge, for edge issues
+}
+
+export interface MeshValidation {
+  valid: boolean;
+  closed: boolean;            // Every edge is shared by exactly two faces
+  issues: MeshIssue[];
+}
+
+export interface MeshRepair {
+  geometry: SimpleGeometry;
+  repaired: MeshIssueKind[];  // Kinds of issue the repair fixed
+  validation: MeshValidation; // What is left after the repair
+}
+
+// Faces smaller than this (square metres) are degenerate
+const DEGENERATE_AREA = 1e-9;
+
+// Report order of issue kinds
+const ISSUE_ORDER: MeshIssueKind[] = ['degenerate-face', 'open-edge', 'non-manifold-edge', 'flipped-face', 'self-intersection'];
+
+interface EdgeUse {
+  face: number;
+  from: number; // Vertex index where the face enters the edge
+  to: number;
+}
+
+/**
+ * Check a solid or mesh for open and non-manifold edges, faces wound against
+ * their neighbours (or a closed solid facing inward), degenerate faces and
+ * faces crossing each other. Polygons and geometries without faces are valid.
+ */
+export function validateMesh(geometry: SimpleGeometry): MeshValidation {
+  const { vertices, faces } = geometry;
+  if (geometry.type === 'polygon' || !faces) {
+    return { valid: true, closed: false, issues: [] };
+  }
+  const keys = vertexKeys(vertices);
+  const issues: MeshIssue[] = [];
+
+  const degenerate = new Set<number>();
+  faces.forEach((face, f) => {
+    if (new Set(face.map(index => keys[index])).size < 3 || ringArea(face, vertices) < DEGENERATE_AREA) {
+      degenerate.add(f);
+      issues.push({ kind: 'degenerate-face', message: `Face ${f} has no area`, faces: [f] });
+    }
+  });
+
+  const edges = edgeUses(geometry, keys, degenerate);
+  let closed = true;
+  edges.forEach(uses => {
+    const edge: [number[], number[]] = [vertices[uses[0].from], vertices[uses[0].to]];
+    const faceList = [...new Set(uses.map(use => use.face))];
+    if (uses.length === 1) {
+      closed = false;
+      issues.push({ kind: 'open-edge', message: `Edge of face ${uses[0].face} has no neighbouring face`, faces: faceList, edge });
+    } else if (uses.length > 2) {
+      closed = false;
+      issues.push({ kind: 'non-manifold-edge', message: `Edge is shared by ${uses.length} faces`, faces: faceList, edge });
+    }
+  });
+
+  const oriented = orientMesh(vertices, faces, geometry.faceHoles);
+  const flipped = faces.flatMap((face, f) =>
+    !degenerate.has(f) && face.length >= 3 && oriented.faces[f].some((index, i) => index !== face[i]) ? [f] : []);
+  if (closed && flipped.length === faces.length - degenerate.size) {
+    issues.push({ kind: 'flipped-face', message: 'The solid is turned inside out: every face points inward', faces: flipped });
+  } else {
+    flipped.forEach(f => issues.push({ kind: 'flipped-face', message: `Face ${f} is wound against its neighbours`, faces: [f] }));
+  }
+
+  issues.push(...selfIntersections(geometry, keys, degenerate));
+  issues.sort((a, b) => ISSUE_ORDER.indexOf(a.kind) - ISSUE_ORDER.indexOf(b.kind));
+  return { valid: issues.length === 0, closed: closed && faces.length > degenerate.size, issues };
+}
+
+/**
+ * Repair what can be fixed automatically: drop repeated vertices and
+ * degenerate faces, orient the faces outward, and close open boundary loops
+ * with a cap face (added after the existing faces, so `faces[0]` stays the
+ * footprint). Non-manifold edges and self-intersections are left and reported.
+ */
+export function repairMesh(geometry: SimpleGeometry): MeshRepair {
+  const before = validateMesh(geometry);
+  if (before.valid || geometry.type === 'polygon' || !geometry.faces) {
+    return { geometry, repaired: [], validation: before };
+  }
+  const { vertices } = geometry;
+  const keys = vertexKeys(vertices);
+  const clean = (ring: number[]) => ring.filter((index, i) => keys[index] !== keys[ring[(i + 1) % ring.length]]);
+
+  // Drop degenerate faces, keeping the holes of the others with their faces
+  let faces: number[][] = [];
+  let faceHoles: Record<number, number[][]> = {};
+  geometry.faces.forEach((face, f) => {
+    const ring = clean(face);
+    if (new Set(ring.map(index => keys[index])).size < 3 || ringArea(ring, vertices) < DEGENERATE_AREA) {
+      return;
+    }
+    const holes = (geometry.faceHoles?.[f] || []).map(clean).filter(hole => hole.length >= 3);
+    if (holes.length > 0) {
+      faceHoles[faces.length] = holes;
+    }
+    faces.push(ring);
+  });
+
+  // Orient, cap the open loops, then orient again now that the caps close the solid
+  ({ faces, faceHoles } = orientMesh(vertices, faces, faceHoles));
+  const caps = boundaryLoops({ ...geometry, faces, faceHoles }, keys);
+  if (caps.length > 0) {
+    ({ faces, faceHoles } = orientMesh(vertices, [...faces, ...caps], faceHoles));
+  }
+
+  const repairedGeometry: SimpleGeometry = {
+    ...geometry,
+    faces,
+    ...(Object.keys(faceHoles).length > 0 ? { faceHoles } : {})
+  };
+  if (Object.keys(faceHoles).length === 0) {
+    delete repairedGeometry.faceHoles;
+  }
+  const validation = validateMesh(repairedGeometry);
+  const remaining = new Set(validation.issues.map(issue => issue.kind));
+  const repaired = ISSUE_ORDER.filter(kind => before.issues.some(issue => issue.kind === kind) && !remaining.has(kind));
+  return { geometry: repairedGeometry, repaired, validation };
+}
+
+/**
+ * One-line summary of mesh issues, e.g. '2 open edges, 1 self-intersection'
+ */
+export function describeMeshIssues(issues: MeshIssue[]): string {
+  return ISSUE_ORDER.flatMap(kind => {
+    const count = issues.filter(issue => issue.kind === kind).length;
+    return count > 0 ? [`${count} ${kind.replace(/-/g, ' ')}${count === 1 ? '' : 's'}`] : [];
+  }).join(', ');
+}
+
+/**
+ * Position keys of vertices, equal for vertices within the position tolerance
+ */
+function vertexKeys(vertices: number[][]): string[] {
+  return vertices.map(v => [0, 1, 2].map(axis => Math.round((v[axis] ?? 0) / POSITION_TOLERANCE)).join(','));
+}
+
+function ringArea(ring: number[], vertices: number[][]): number {
+  return Math.hypot(...faceNormal(ring.map(index => vertices[index]))) / 2;
+}
+
+/**
+ * Every use of every edge by a face or hole ring, keyed by its end positions
+ */
+function edgeUses(geometry: SimpleGeometry, keys: string[], skip: Set<number> = new Set()): Map<string, EdgeUse[]> {
+  const edges = new Map<string, EdgeUse[]>();
+  (geometry.faces || []).forEach((face, f) => {
+    if (skip.has(f)) {
+      return;
+    }
+    for (const ring of [face, ...(geometry.faceHoles?.[f] || [])]) {
+      ring.forEach((from, i) => {
+        const to = ring[(i + 1) % ring.length];
+        if (keys[from] === keys[to]) {
+          return;
+        }
+        const key = keys[from] < keys[to] ? `${keys[from]}|${keys[to]}` : `${keys[to]}|${keys[from]}`;
+        const uses = edges.get(key) || [];
+        uses.push({ face: f, from, to });
+        edges.set(key, uses);
+      });
+    }
+  });
+  return edges;
+}
+
+/**
+ * Cap faces for the open boundary loops of a consistently oriented mesh,
+ * each wound against the faces around it. Loops that branch are left open.
+ */
+function boundaryLoops(geometry: SimpleGeometry, keys: string[]): number[][] {
+  const next = new Map<string, number[]>();
+  const indexOf = new Map<string, number>();
+  edgeUses(geometry, keys).forEach(uses => {
+    if (uses.length === 1) {
+      const { from, to } = uses[0];
+      next.set(keys[to], [...(next.get(keys[to]) || []), from]);
+      indexOf.set(keys[to], to);
+    }
+  });
+
+  const caps: number[][] = [];
+  const visited = new Set<string>();
+  for (const start of next.keys()) {
+    if (visited.has(start)) {
+      continue;
+    }
+    const loop: number[] = [];
+    let key = start;
+    let simple = true;
+    while (!visited.has(key)) {
+      visited.add(key);
+      const targets = next.get(key);
+      if (!targets || targets.length !== 1) {
+        simple = false;
+        break;
+      }
+      loop.push(indexOf.get(key)!);
+      key = keys[targets[0]];
+    }
+    if (simple && key === start && loop.length >= 3) {
+      caps.push(loop);
+    }
+  }
+  return caps;
+}
+
+/**
+ * Pairs of faces whose triangles cross, found by sweeping the triangles'
+ * bounding boxes along x. Triangles sharing a vertex are not compared.
+ */
+function selfIntersections(geometry: SimpleGeometry, keys: string[], skip: Set<number>): MeshIssue[] {
+  const triangles = (geometry.faces || []).flatMap((face, f) => {
+    if (skip.has(f)) {
+      return [];
+    }
+    const holes = geometry.faceHoles?.[f] || [];
+    const indexes = [...face, ...holes.flat()];
+    return triangulateFace(face.map(index => geometry.vertices[index]), holes.map(hole => hole.map(index => geometry.vertices[index])))
+      .map(corners => {
+        const points = corners.map(corner => point3(geometry.vertices[indexes[corner]]));
+        return {
+          face: f,
+          points,
+          keys: corners.map(corner => keys[indexes[corner]]),
+          min: [0, 1, 2].map(axis => Math.min(...points.map(p => p[axis]))),
+          max: [0, 1, 2].map(axis => Math.max(...points.map(p => p[axis])))
+        };
+      });
+  }).sort((a, b) => a.min[0] - b.min[0]);
+
+  const pairs = new Set<string>();
+  const issues: MeshIssue[] = [];
+  for (let i = 0; i < triangles.length; i++) {
+    const a = triangles[i];
+    for (let j = i + 1; j < triangles.length && triangles[j].min[0] <= a.max[0] + POSITION_TOLERANCE; j++) {
+      const b = triangles[j];
+      const pair = a.face < b.face ? `${a.face}|${b.face}` : `${b.face}|${a.face}`;
+      if (a.face === b.face || pairs.has(pair) || a.keys.some(key => b.keys.includes(key)) ||
+        [1, 2].some(axis => b.min[axis] > a.max[axis] + POSITION_TOLERANCE || a.min[axis] > b.max[axis] + POSITION_TOLERANCE)) {
+        continue;
+      }
+      if (trianglesCross(a.points, b.points)) {
+        pairs.add(pair);
+        const faces = [Math.min(a.face, b.face), Math.max(a.face, b.face)];
+        issues.push({ kind: 'self-intersection', message: `Faces ${faces[0]} and ${faces[1]} cross`, faces });
+      }
+    }
+  }
+  return issues;
+}
+
+function trianglesCross(a: number[][], b: number[][]): boolean {
+  const edgesCross = (edges: number[][], triangle: number[][]) =>
+    edges.some((p, i) => segmentCrossesTriangle(p, edges[(i + 1) % 3], triangle));
+  return edgesCross(a, b) || edgesCross(b, a);
+}
+
+/**
+ * Whether a segment passes through the inside of a triangle, away from its
+ * plane at both ends and from its edges where it crosses
+ */
+function segmentCrossesTriangle(p: number[], q: number[], [a, b, c]: number[][]): boolean {
+  const normal = cross3(sub3(b, a), sub3(c, a));
+  const length = Math.hypot(...normal);
+  if (length < DEGENERATE_AREA) {
+    return false;
+  }
+  const unit = normal.map(value => value / length);
+  const dp = dot3(unit, sub3(p, a));
+  const dq = dot3(unit, sub3(q, a));
+  if (Math.abs(dp) <= POSITION_TOLERANCE || Math.abs(dq) <= POSITION_TOLERANCE || (dp > 0) === (dq > 0)) {
+    return false;
+  }
+  const t = dp / (dp - dq);
+  const x = [0, 1, 2].map(axis => p[axis] + t * (q[axis] - p[axis]));
+  return [[a, b], [b, c], [c, a]].every(([from, to]) => {
+    const edge = sub3(to, from);
+    return dot3(unit, cross3(edge, sub3(x, from))) / Math.hypot(...edge) > POSITION_TOLERANCE;
+  });
+}
+
+function point3(point: number[]): number[] {
+  return [point[0], point[1], point[2] ?? 0];
+}
+
+function sub3(a: number[], b: number[]): number[] {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function cross3(a: number[], b: number[]): number[] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot3(a: number[], b: number[]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
@@ -0,0 +1,338 @@
+// Zoning envelopes: the zone a lot lies in, and the legal volume its limits
+// leave above a footprint. The envelope is cut to the buildable area with
+// polygon-clipping; its top is the lowest of a set of planes (the shape's own
+// top, the height limit and the sky-exposure planes), so every piece of the
+// footprint takes the plane that is lowest over it.
+
+import * as polygonClipping from 'polygon-clipping';
+import { SimpleGeometry, Zone } from '../types';
+import { openRing, polygonArea, signedRingArea } from './geometry';
+import { inwardNormals, PolygonPart } from './offset';
+
+// Limit that cut a shape: lot-line setback, height plane, sky-exposure plane or floor area ratio
+export type EnvelopeConstraint = 'setback' | 'height' | 'skyExposure' | 'far';
+
+// Height over plan position, z = c + x * X + y * Y, and the limit it comes from
+export interface TopPlane {
+  c: number;
+  x: number;
+  y: number;
+  source: EnvelopeConstraint | 'shape';
+}
+
+// Piece of a footprint lying under one plane of the envelope top
+export interface EnvelopePiece extends PolygonPart {
+  top: TopPlane;
+}
+
+// Connected part of a clipped footprint, split into pieces by top plane
+export interface EnvelopePart extends PolygonPart {
+  pieces: EnvelopePiece[];
+}
+
+// Parts and pieces smaller than this (square metres) are dropped
+const AREA_TOLERANCE = 1e-6;
+
+// Planes whose coefficients differ by less than this are the same plane
+const PLANE_TOLERANCE = 1e-9;
+
+/**
+ * Zones from the Polygon / MultiPolygon features of a GeoJSON collection, with
+ * limits read from `max_height`, `max_far`, `min_setback`,
+ * `sky_exposure_height` and `sky_exposure_slope` (see data/samples/zoning.geojson)
+ */
+export function zonesFromGeoJSON(collection: {
+  features: Array<{ properties?: Record<string, any> | null; geometry: { type: string; coordinates: any } | null }>;
+}): Zone[] {
+  const zones: Zone[] = [];
+  for (const feature of collection.features) {
+    const properties = feature.properties || {};
+    const limits = {
+      maxHeight: properties.max_height,
+      maxFar: properties.max_far,
+      minSetback: properties.min_setback,
+      skyExposureHeight: properties.sky_exposure_height,
+      skyExposureSlope: properties.sky_exposure_slope
+    };
+    const zone = {
+      id: properties.id,
+      type: properties.zone_type,
+      description: properties.description,
+      ...Object.fromEntries(Object.entries(limits).filter(([, value]) => typeof value === 'number'))
+    };
+    const polygons: number[][][][] = feature.geometry?.type === 'Polygon'
+      ? [feature.geometry.coordinates]
+      : feature.geometry?.type === 'MultiPolygon' ? feature.geometry.coordinates : [];
+    for (const [ring, ...holes] of polygons) {
+      zones.push({ ...zone, polygon: openRing(ring), ...(holes.length > 0 ? { holes: holes.map(openRing) } : {}) });
+    }
+  }
+  return zones;
+}
+
+/**
+ * Zone covering the largest part of a lot, or undefined when none overlaps it
+ */
+export function zoneAt(polygon: number[][], holes: number[][][], zones: Zone[]): Zone | undefined {
+  const origin = polygon[0];
+  const lot = toClipping({ ring: openRing(polygon), holes }, origin);
+  let best: Zone | undefined;
+  let bestArea = AREA_TOLERANCE;
+  for (const zone of zones) {
+    const overlap = fromClipping(polygonClipping.intersection(lot, toClipping({ ring: openRing(zone.polygon), holes: zone.holes || [] }, origin)), origin)
+      .reduce((sum, part) => sum + polygonArea(part.ring, part.holes), 0);
+    if (overlap > bestArea) {
+      best = zone;
+      bestArea = overlap;
+    }
+  }
+  return best;
+}
+
+/**
+ * Sky-exposure planes of a lot: one per street edge, starting `height` above
+ * the edge and rising `slope` metres per metre into the lot
+ */
+export function skyExposurePlanes(ring: number[][], edgeIndexes: number[], height: number, slope: number): TopPlane[] {
+  const lot = openRing(ring);
+  const normals = inwardNormals(lot);
+  return edgeIndexes.map(i => {
+    const [nx, ny] = normals[i];
+    const a = lot[i];
+    return { c: height - slope * (nx * a[0] + ny * a[1]), x: slope * nx, y: slope * ny, source: 'skyExposure' };
+  });
+}
+
+/**
+ * Flat top plane at height z
+ */
+export function flatTop(z: number, source: TopPlane['source']): TopPlane {
+  return { c: z, x: 0, y: 0, source };
+}
+
+/**
+ * Height of a plane at a point
+ */
+export function planeAt(plane: TopPlane, point: number[]): number {
+  return plane.c + plane.x * point[0] + plane.y * point[1];
+}
+
+/**
+ * Parts of a footprint inside every polygon set of `clips` (each a union of parts)
+ */
+export function clipFootprint(footprint: PolygonPart, clips: PolygonPart[][]): PolygonPart[] {
+  if (clips.length === 0) {
+    return [footprint];
+  }
+  const origin = footprint.ring[0];
+  const parts = polygonClipping.intersection(toClipping(footprint, origin), ...clips.map(clip => clip.map(part => toClipping(part, origin))));
+  return fromClipping(parts, origin).filter(part => polygonArea(part.ring, part.holes) > AREA_TOLERANCE);
+}
+
+/**
+ * Envelope of a footprint standing at `base`: its parts where every top plane
+ * is above the base, each split into the pieces where one plane is lowest.
+ * Empty when the planes leave no room above the base.
+ */
+export function envelopeParts(footprint: PolygonPart, base: number, tops: TopPlane[]): EnvelopePart[] {
+  const planes = distinctPlanes(tops);
+  const frame = frameAround(footprint.ring);
+  const above = planes.reduce((ring, plane) => clipRingToPlane(ring, { ...plane, c: plane.c - base }), frame);
+  if (polygonArea(above) <= AREA_TOLERANCE) {
+    return [];
+  }
+
+  const parts = clipFootprint(footprint, [[{ ring: above, holes: [] }]]);
+  return parts.map(part => {
+    if (planes.length === 1) {
+      return { ...part, pieces: [{ ...part, top: planes[0] }] };
+    }
+    const pieces = planes.flatMap(plane => {
+      // Where this plane is at or below every other one
+      const lowest = planes.reduce((ring, other) => other === plane ? ring : clipRingToPlane(ring, difference(other, plane)), frame);
+      if (polygonArea(lowest) <= AREA_TOLERANCE) {
+        return [];
+      }
+      return clipFootprint(part, [[{ ring: lowest, holes: [] }]]).map(piece => ({ ...piece, top: plane }));
+    });
+    return { ...part, pieces };
+  });
+}
+
+/**
+ * Volume of envelope parts standing at `base`, cut off at height `cap`
+ */
+export function envelopeVolume(parts: EnvelopePart[], base: number, cap: number = Infinity): number {
+  let volume = 0;
+  for (const piece of parts.flatMap(part => part.pieces)) {
+    const height = { ...piece.top, c: piece.top.c - base };
+    // Below the cap the piece rises with its plane; over the rest it is cut flat
+    const under = { ...piece.top, c: cap - piece.top.c, x: -piece.top.x, y: -piece.top.y };
+    const ringVolume = (ring: number[][]) => {
+      if (cap === Infinity) {
+        return planeIntegral(ring, height);
+      }
+      const below = clipRingToPlane(ring, under);
+      const over = Math.abs(signedRingArea(ring)) - Math.abs(signedRingArea(below));
+      return planeIntegral(below, height) + Math.max(0, cap - base) * over;
+    };
+    volume += piece.holes.reduce((sum, hole) => sum - ringVolume(hole), ringVolume(piece.ring));
+  }
+  return volume;
+}
+
+/**
+ * Solid of an envelope part standing at `base`: its footprint as the bottom
+ * face (faces[0], like buildPrism), one top face per piece and vertical walls
+ * that follow the lowest plane along every edge
+ */
+export function buildEnvelopeSolid(part: EnvelopePart, base: number): SimpleGeometry {
+  const planes = distinctPlanes(part.pieces.map(piece => piece.top));
+  const topAt = (point: number[]) => Math.max(base, Math.min(...planes.map(plane => planeAt(plane, point))));
+  const vertices: number[][] = [];
+  const faces: number[][] = [];
+  const faceHoles: Record<number, number[][]> = {};
+  const addRing = (ring: number[][], z: (point: number[]) => number): number[] => ring.map(point => {
+    vertices.push([point[0], point[1], z(point)]);
+    return vertices.length - 1;
+  });
+
+  // Outer rings run counter-clockwise and holes clockwise, so walls face out of the solid
+  const ccw = (ring: number[][]) => signedRingArea(ring) < 0 ? [...ring].reverse() : ring;
+  const cw = (ring: number[][]) => [...ccw(ring)].reverse();
+  const ring = ccw(part.ring);
+  const holes = part.holes.map(cw);
+
+  // Bottom faces down, tops face up: each is wound counter-clockwise seen from outside
+  faces.push(addRing([...ring].reverse(), () => base));
+  if (holes.length > 0) {
+    faceHoles[0] = holes.map(hole => addRing([...hole].reverse(), () => base));
+  }
+  for (const piece of part.pieces) {
+    const z = (point: number[]) => planeAt(piece.top, point);
+    faces.push(addRing(ccw(piece.ring), z));
+    if (piece.holes.length > 0) {
+      faceHoles[faces.length - 1] = piece.holes.map(hole => addRing(cw(hole), z));
+    }
+  }
+  for (const wallRing of [ring, ...holes]) {
+    wallRing.forEach((a, i) => {
+      const b = wallRing[(i + 1) % wallRing.length];
+      const bends = wallBends(a, b, planes, base).map(t => [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])]);
+      faces.push([
+        ...addRing([a, b], () => base),
+        ...addRing([b, ...bends.reverse(), a], topAt)
+      ]);
+    });
+  }
+
+  return {
+    type: 'solid',
+    vertices,
+    faces,
+    ...(holes.length > 0 ? { holes, faceHoles } : {}),
+    attributes: {}
+  };
+}
+
+/**
+ * Positions (0..1, in order) along edge a-b where the lowest plane changes or
+ * meets the base, so a wall's top edge can follow it
+ */
+function wallBends(a: number[], b: number[], planes: TopPlane[], base: number): number[] {
+  const along = (plane: TopPlane) => ({ start: planeAt(plane, a), rise: planeAt(plane, b) - planeAt(plane, a) });
+  const lines = [...planes.map(along), { start: base, rise: 0 }];
+  const bends: number[] = [];
+  lines.forEach((p, i) => lines.slice(i + 1).forEach(q => {
+    if (Math.abs(p.rise - q.rise) > PLANE_TOLERANCE) {
+      const t = (q.start - p.start) / (p.rise - q.rise);
+      if (t > 1e-9 && t < 1 - 1e-9) {
+        bends.push(t);
+      }
+    }
+  }));
+  return bends.sort((x, y) => x - y);
+}
+
+/**
+ * Keep the part of a ring where the plane is at or above zero (Sutherland-Hodgman;
+ * concave rings may keep zero-width bridges, but the enclosed area is exact)
+ */
+function clipRingToPlane(ring: number[][], plane: TopPlane): number[][] {
+  const output: number[][] = [];
+  const value = (point: number[]) => planeAt(plane, point);
+  ring.forEach((current, i) => {
+    const next = ring[(i + 1) % ring.length];
+    const a = value(current);
+    const b = value(next);
+    if (a >= 0) {
+      output.push(current);
+    }
+    if ((a >= 0) !== (b >= 0)) {
+      const t = a / (a - b);
+      output.push([current[0] + t * (next[0] - current[0]), current[1] + t * (next[1] - current[1])]);
+    }
+  });
+  return output;
+}
+
+/**
+ * Integral of a plane over the area of a ring (Green's theorem, any orientation),
+ * taken about the first vertex to keep precision at projected magnitudes
+ */
+function planeIntegral(ring: number[][], plane: TopPlane): number {
+  if (ring.length < 3) {
+    return 0;
+  }
+  const [ox, oy] = ring[0];
+  const local = ring.map(([x, y]) => [x - ox, y - oy]);
+  let area = 0;
+  let mx = 0;
+  let my = 0;
+  local.forEach((p, i) => {
+    const q = local[(i + 1) % local.length];
+    const cross = p[0] * q[1] - q[0] * p[1];
+    area += cross / 2;
+    mx += (p[0] + q[0]) * cross / 6;
+    my += (p[1] + q[1]) * cross / 6;
+  });
+  const integral = planeAt(plane, ring[0]) * area + plane.x * mx + plane.y * my;
+  return area < 0 ? -integral : integral;
+}
+
+function difference(a: TopPlane, b: TopPlane): TopPlane {
+  return { c: a.c - b.c, x: a.x - b.x, y: a.y - b.y, source: b.source };
+}
+
+function distinctPlanes(planes: TopPlane[]): TopPlane[] {
+  return planes.filter((plane, i) => !planes.slice(0, i).some(other =>
+    Math.abs(other.c - plane.c) < PLANE_TOLERANCE &&
+    Math.abs(other.x - plane.x) < PLANE_TOLERANCE &&
+    Math.abs(other.y - plane.y) < PLANE_TOLERANCE));
+}
+
+/**
+ * Square well around a ring, which the half-plane clips start from
+ */
+function frameAround(ring: number[][]): number[][] {
+  const xs = ring.map(point => point[0]);
+  const ys = ring.map(point => point[1]);
+  const margin = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) + 1;
+  const [x0, x1] = [Math.min(...xs) - margin, Math.max(...xs) + margin];
+  const [y0, y1] = [Math.min(...ys) - margin, Math.max(...ys) + margin];
+  return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+}
+
+// Clipping runs relative to a nearby origin, like the offsets in offset.ts
+function toClipping(part: PolygonPart, origin: number[]): polygonClipping.Polygon {
+  const closed = (ring: number[][]): polygonClipping.Ring => {
+    const pairs = openRing(ring).map(([x, y]): [number, number] => [x - origin[0], y - origin[1]]);
+    return [...pairs, pairs[0]];
+  };
+  return [closed(part.ring), ...part.holes.map(closed)];
+}
+
+function fromClipping(parts: polygonClipping.MultiPolygon, origin: number[]): PolygonPart[] {
+  const open = (ring: polygonClipping.Ring) => openRing(ring.map(([x, y]) => [x + origin[0], y + origin[1]]));
+  return parts.map(([outer, ...holes]) => ({ ring: open(outer), holes: holes.map(open) }));
+}
@@ -0,0 +1,464 @@
+// Off-main-thread execution of rule programs. RuleWorkerExecutor posts lots to
+// a Web Worker running startRuleWorker and receives the geometry in
+// transferable buffers; without a worker (Node, Jest/jsdom) it runs the same
+// requests in-thread behind the same promise API.
+
+import { RulesEngine } from './engine';
+import { applyLegacyRules, LegacyGeometry, LegacyPolygon, LegacyResult, LegacyRule } from './legacy';
+import { GeometryContext, RuleExecutionResult, RuleProgram, ShapeNode, SimpleGeometry } from './types';
+import { CRS } from './utils/crs';
+
+/**
+ * Raised when a run is cancelled through its AbortSignal
+ */
+export class RuleExecutionCancelledError extends Error {
+  constructor() {
+    super('Rule execution cancelled');
+    this.name = 'RuleExecutionCancelledError';
+  }
+}
+
+// Engine geometry with vertices and faces flattened into typed arrays
+export interface PackedGeometry {
+  type: SimpleGeometry['type'];
+  dimensions: 2 | 3;           // Coordinates per vertex
+  positions: Float64Array;
+  faceSizes?: Uint32Array;     // Vertex count of each face
+  faceIndices?: Uint32Array;   // Vertex indices of the faces, one face after another
+  holes?: number[][][];
+  faceHoles?: Record<number, number[][]>;
+  attributes: Record<string, any>;
+}
+
+// Legacy geometry with every ring flattened into one [x, y, z] buffer
+export interface PackedLegacyGeometry {
+  positions: Float64Array;
+  ringSizes: Uint32Array;      // Vertex count of each ring: outer ring, then its holes
+  holeCounts: Uint32Array;     // Hole count of each polygon
+  attributes: Record<string, any>;
+}
+
+type PackedShapeNode = Omit<ShapeNode, 'geometry'> & { geometry: PackedGeometry };
+
+// Execution result with its shape geometry packed; leaves are referenced by shape id
+export interface PackedExecutionResult extends Omit<RuleExecutionResult, 'geometry' | 'shapes' | 'leaves'> {
+  geometry?: PackedGeometry;
+  geometryLeafId?: string;     // Set instead of geometry when it is a single leaf's
+  shapes?: PackedShapeNode[];
+  leafIds?: string[];
+}
+
+export interface LegacyLotOptions {
+  crs?: CRS;                   // CRS of the lot vertices (local metres when omitted)
+}
+
+// Messages to the worker
+export type RuleWorkerRequest =
+  | { id: number; type: 'program'; program: RuleProgram; contexts: GeometryContext[] }
+  | { id: number; type: 'legacy'; rules: LegacyRule[]; lots: LegacyGeometry[]; options: LegacyLotOptions }
+  | { id: number; type: 'cancel' };
+
+// Messages from the worker; results stream back one lot at a time
+export type RuleWorkerResponse =
+  | { id: number; type: 'progress'; done: number; total: number }
+  | { id: number; type: 'program-result'; index: number; result: PackedExecutionResult }
+  | { id: number; type: 'legacy-result'; index: number; results: Array<Omit<LegacyResult, 'geometry'> & { geometry: PackedLegacyGeometry }> }
+  | { id: number; type: 'done' }
+  | { id: number; type: 'error'; message: string; cancelled?: boolean };
+
+// Worker global scope, as far as startRuleWorker needs it
+export interface RuleWorkerScope {
+  onmessage: ((event: MessageEvent) => void) | null;
+  postMessage(message: any, transfer: Transferable[]): void;
+}
+
+// Main-thread side of a worker; a DOM Worker fits
+export interface RuleWorkerHandle {
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: any) => void) | null;
+  postMessage(message: any, transfer?: Transferable[]): void;
+  terminate(): void;
+}
+
+export interface RuleWorkerExecutorOptions {
+  createWorker?: () => RuleWorkerHandle;  // In-thread execution when omitted
+  engine?: RulesEngine;                   // Engine for in-thread execution
+}
+
+export interface RuleRunOptions {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Serve rule execution requests inside a worker:
+ * `startRuleWorker(self as unknown as RuleWorkerScope)` in the worker script.
+ * Lots run one after another, yielding between lots so cancel messages get
+ * through.
+ */
+export function startRuleWorker(scope: RuleWorkerScope, engine: RulesEngine = new RulesEngine()): void {
+  const cancelled = new Set<number>();
+
+  scope.onmessage = (event: MessageEvent) => {
+    const request = event.data as RuleWorkerRequest;
+    if (request.type === 'cancel') {
+      cancelled.add(request.id);
+      return;
+    }
+
+    const post = (response: RuleWorkerResponse, transfer: Transferable[] = []) => scope.postMessage(response, transfer);
+    const total = request.type === 'program' ? request.contexts.length : request.lots.length;
+
+    const run = async () => {
+      for (let index = 0; index < total; index++) {
+        await yieldToEventLoop();
+        if (cancelled.has(request.id)) {
+          post({ id: request.id, type: 'error', message: 'Rule execution cancelled', cancelled: true });
+          return;
+        }
+
+        const transfer: Transferable[] = [];
+        if (request.type === 'program') {
+          const result = await engine.executeProgram(request.program, request.contexts[index]);
+          post({ id: request.id, type: 'program-result', index, result: packExecutionResult(result, transfer) }, transfer);
+        } else {
+          const results = await legacyLot(request.lots[index], request.rules, request.options, engine);
+          post({
+            id: request.id,
+            type: 'legacy-result',
+            index,
+            results: results.map(result => ({ ...result, geometry: packLegacyGeometry(result.geometry, transfer) }))
+          }, transfer);
+        }
+        post({ id: request.id, type: 'progress', done: index + 1, total });
+      }
+      post({ id: request.id, type: 'done' });
+    };
+
+    run()
+      .catch(error => post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' }))
+      .finally(() => cancelled.delete(request.id));
+  };
+}
+
+type RunRequest =
+  | Omit<Extract<RuleWorkerRequest, { type: 'program' }>, 'id'>
+  | Omit<Extract<RuleWorkerRequest, { type: 'legacy' }>, 'id'>;
+
+interface PendingRun {
+  onMessage(response: RuleWorkerResponse): void;
+  fail(error: Error): void;
+}
+
+/**
+ * Runs rule programs over many lots in a worker, or in-thread when no worker
+ * can be created. Results come back in lot order; progress is reported after
+ * each lot, and aborting the signal rejects with RuleExecutionCancelledError.
+ */
+export class RuleWorkerExecutor {
+  private worker?: RuleWorkerHandle;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRun>();
+  private readonly engine: RulesEngine;
+
+  constructor(private readonly options: RuleWorkerExecutorOptions = {}) {
+    this.engine = options.engine ?? new RulesEngine();
+  }
+
+  get mode(): 'worker' | 'in-thread' {
+    return this.options.createWorker ? 'worker' : 'in-thread';
+  }
+
+  /**
+   * Execute a program on each geometry context
+   */
+  async executePrograms(program: RuleProgram, contexts: GeometryContext[], options: RuleRunOptions = {}): Promise<RuleExecutionResult[]> {
+    if (!this.options.createWorker) {
+      return runInThread(contexts, context => this.engine.executeProgram(program, context), options);
+    }
+    const results: RuleExecutionResult[] = new Array(contexts.length);
+    await this.post({ type: 'program', program, contexts }, options, response => {
+      if (response.type === 'program-result') {
+        results[response.index] = unpackExecutionResult(response.result);
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Apply legacy rules to each lot, with the per-rule results of applyLegacyRules
+   * for every lot. A lot that cannot be run gets a single failed result.
+   */
+  async applyLegacyRules(
+    lots: LegacyGeometry[],
+    rules: LegacyRule[],
+    options: RuleRunOptions & LegacyLotOptions = {}
+  ): Promise<LegacyResult[][]> {
+    const { onProgress, signal, ...lotOptions } = options;
+    if (!this.options.createWorker) {
+      return runInThread(lots, lot => legacyLot(lot, rules, lotOptions, this.engine), { onProgress, signal });
+    }
+    const results: LegacyResult[][] = new Array(lots.length);
+    await this.post({ type: 'legacy', rules, lots, options: lotOptions }, { onProgress, signal }, response => {
+      if (response.type === 'legacy-result') {
+        results[response.index] = response.results.map(result => ({ ...result, geometry: unpackLegacyGeometry(result.geometry) }));
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Stop the worker; runs still in flight are rejected
+   */
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = undefined;
+    this.failAll(new Error('Rule worker terminated'));
+  }
+
+  private post(
+    request: RunRequest,
+    options: RuleRunOptions,
+    onResult: (response: RuleWorkerResponse) => void
+  ): Promise<void> {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new RuleExecutionCancelledError());
+    }
+
+    const worker = this.ensureWorker();
+    const id = this.nextId++;
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        worker.postMessage({ id, type: 'cancel' });
+        settle(() => reject(new RuleExecutionCancelledError()));
+      };
+      const settle = (finish: () => void) => {
+        this.pending.delete(id);
+        signal?.removeEventListener('abort', onAbort);
+        finish();
+      };
+
+      this.pending.set(id, {
+        onMessage: response => {
+          switch (response.type) {
+            case 'progress':
+              onProgress?.(response.done, response.total);
+              break;
+            case 'done':
+              settle(resolve);
+              break;
+            case 'error':
+              settle(() => reject(response.cancelled ? new RuleExecutionCancelledError() : new Error(response.message)));
+              break;
+            default:
+              onResult(response);
+          }
+        },
+        fail: error => settle(() => reject(error))
+      });
+      signal?.addEventListener('abort', onAbort);
+      worker.postMessage({ ...request, id });
+    });
+  }
+
+  private ensureWorker(): RuleWorkerHandle {
+    if (!this.worker) {
+      const worker = this.options.createWorker!();
+      worker.onmessage = (event: MessageEvent) => {
+        const response = event.data as RuleWorkerResponse;
+        this.pending.get(response.id)?.onMessage(response);
+      };
+      worker.onerror = (event: any) => {
+        // A worker that fails to load or crashes takes its runs with it
+        worker.terminate();
+        this.worker = undefined;
+        this.failAll(new Error(`Rule worker failed: ${event?.message || 'Unknown error'}`));
+      };
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  private failAll(error: Error): void {
+    [...this.pending.values()].forEach(run => run.fail(error));
+  }
+}
+
+/**
+ * Flatten a geometry into typed arrays, adding their buffers to `transfer`
+ */
+export function packGeometry(geometry: SimpleGeometry, transfer: Transferable[] = []): PackedGeometry {
+  const dimensions = geometry.vertices.every(vertex => vertex.length === 2) ? 2 : 3;
+  const positions = new Float64Array(geometry.vertices.length * dimensions);
+  geometry.vertices.forEach((vertex, i) => {
+    for (let d = 0; d < dimensions; d++) {
+      positions[i * dimensions + d] = vertex[d] ?? 0;
+    }
+  });
+  transfer.push(positions.buffer);
+
+  const packed: PackedGeometry = { type: geometry.type, dimensions, positions, attributes: geometry.attributes };
+  if (geometry.faces) {
+    packed.faceSizes = Uint32Array.from(geometry.faces, face => face.length);
+    packed.faceIndices = Uint32Array.from(geometry.faces.flat());
+    transfer.push(packed.faceSizes.buffer, packed.faceIndices.buffer);
+  }
+  if (geometry.holes) {
+    packed.holes = geometry.holes;
+  }
+  if (geometry.faceHoles) {
+    packed.faceHoles = geometry.faceHoles;
+  }
+  return packed;
+}
+
+/**
+ * Geometry back from its packed form
+ */
+export function unpackGeometry(packed: PackedGeometry): SimpleGeometry {
+  const { dimensions, positions } = packed;
+  const vertices: number[][] = [];
+  for (let i = 0; i < positions.length; i += dimensions) {
+    vertices.push(Array.from(positions.subarray(i, i + dimensions)));
+  }
+
+  const geometry: SimpleGeometry = { type: packed.type, vertices, attributes: packed.attributes };
+  if (packed.faceSizes && packed.faceIndices) {
+    let offset = 0;
+    geometry.faces = Array.from(packed.faceSizes, size => {
+      const face = Array.from(packed.faceIndices!.subarray(offset, offset + size));
+      offset += size;
+      return face;
+    });
+  }
+  if (packed.holes) {
+    geometry.holes = packed.holes;
+  }
+  if (packed.faceHoles) {
+    geometry.faceHoles = packed.faceHoles;
+  }
+  return geometry;
+}
+
+/**
+ * Pack the geometry of an execution result and its shape tree
+ */
+export function packExecutionResult(result: RuleExecutionResult, transfer: Transferable[] = []): PackedExecutionResult {
+  const { geometry, shapes, leaves, ...rest } = result;
+  const packed: PackedExecutionResult = { ...rest };
+  if (shapes) {
+    packed.shapes = shapes.map(shape => ({ ...shape, geometry: packGeometry(shape.geometry, transfer) }));
+  }
+  if (leaves) {
+    packed.leafIds = leaves.map(leaf => leaf.id);
+  }
+  if (geometry) {
+    // A single leaf's geometry is sent once, with the shapes
+    const leaf = shapes && leaves?.find(candidate => candidate.geometry === geometry);
+    if (leaf) {
+      packed.geometryLeafId = leaf.id;
+    } else {
+      packed.geometry = packGeometry(geometry, transfer);
+    }
+  }
+  return packed;
+}
+
+/**
+ * Execution result back from its packed form, leaves sharing the shape nodes
+ */
+export function unpackExecutionResult(packed: PackedExecutionResult): RuleExecutionResult {
+  const { geometry, geometryLeafId, shapes, leafIds, ...rest } = packed;
+  const result: RuleExecutionResult = { ...rest };
+  const byId = new Map<string, ShapeNode>();
+  if (shapes) {
+    result.shapes = shapes.map(shape => {
+      const node: ShapeNode = { ...shape, geometry: unpackGeometry(shape.geometry) };
+      byId.set(node.id, node);
+      return node;
+    });
+  }
+  if (leafIds) {
+    result.leaves = leafIds.map(id => byId.get(id)!);
+  }
+  if (geometry) {
+    result.geometry = unpackGeometry(geometry);
+  } else if (geometryLeafId) {
+    result.geometry = byId.get(geometryLeafId)!.geometry;
+  }
+  return result;
+}
+
+/**
+ * Flatten legacy geometry into typed arrays, adding their buffers to `transfer`
+ */
+export function packLegacyGeometry(geometry: LegacyGeometry, transfer: Transferable[] = []): PackedLegacyGeometry {
+  const rings = geometry.polygons.flatMap(polygon => [polygon.vertices, ...(polygon.holes || [])]);
+  const positions = new Float64Array(rings.reduce((sum, ring) => sum + ring.length, 0) * 3);
+  let offset = 0;
+  rings.forEach(ring => ring.forEach(vertex => {
+    positions.set([vertex[0], vertex[1], vertex[2] ?? 0], offset);
+    offset += 3;
+  }));
+
+  const packed: PackedLegacyGeometry = {
+    positions,
+    ringSizes: Uint32Array.from(rings, ring => ring.length),
+    holeCounts: Uint32Array.from(geometry.polygons, polygon => polygon.holes?.length ?? 0),
+    attributes: geometry.attributes
+  };
+  transfer.push(packed.positions.buffer, packed.ringSizes.buffer, packed.holeCounts.buffer);
+  return packed;
+}
+
+/**
+ * Legacy geometry back from its packed form
+ */
+export function unpackLegacyGeometry(packed: PackedLegacyGeometry): LegacyGeometry {
+  let vertexOffset = 0;
+  let ringIndex = 0;
+  const nextRing = (): Array<[number, number, number]> => {
+    const ring: Array<[number, number, number]> = [];
+    for (let i = 0; i < packed.ringSizes[ringIndex]; i++, vertexOffset += 3) {
+      ring.push([packed.positions[vertexOffset], packed.positions[vertexOffset + 1], packed.positions[vertexOffset + 2]]);
+    }
+    ringIndex++;
+    return ring;
+  };
+
+  const polygons = Array.from(packed.holeCounts, (holeCount): LegacyPolygon => {
+    const vertices = nextRing();
+    return holeCount > 0
+      ? { vertices, holes: Array.from({ length: holeCount }, nextRing) }
+      : { vertices };
+  });
+  return { polygons, attributes: packed.attributes };
+}
+
+async function legacyLot(lot: LegacyGeometry, rules: LegacyRule[], options: LegacyLotOptions, engine: RulesEngine): Promise<LegacyResult[]> {
+  try {
+    return await applyLegacyRules(lot, rules, { ...options, engine });
+  } catch (error) {
+    return [{ geometry: { polygons: [], attributes: {} }, success: false, message: error instanceof Error ? error.message : 'Unknown error' }];
+  }
+}
+
+async function runInThread<T, R>(items: T[], execute: (item: T) => Promise<R>, options: RuleRunOptions): Promise<R[]> {
+  const results: R[] = [];
+  for (const item of items) {
+    if (options.signal?.aborted) {
+      throw new RuleExecutionCancelledError();
+    }
+    results.push(await execute(item));
+    options.onProgress?.(results.length, items.length);
+    // Let rendering and input through between lots
+    await yieldToEventLoop();
+  }
+  return results;
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
@@ -29,12 +29,20 @@ import {
   RuleProgramSchema, 
   RulesEngine, 
   SAMPLE_RULES, 
-  getAllRuleNames 
+  getAllRuleNames,
+  lintProgram,
+  jsonPathRange,
+  LintDiagnostic,
+  RuleExecutionCancelledError
 } from '@itwin-dt/rules-cga-lite';
 
+// Owner of the lint markers in the editor model
+const LINT_MARKER_OWNER = 'cga-lite-lint';
+
 interface RuleEditorProps {
   onRuleApply?: (rule: RuleProgram) => Promise<void>;
   onRuleValidate?: (rule: RuleProgram) => Promise<boolean>;
+  onRuleCancel?: () => void; // Abort a running apply, e.g. a RuleWorkerExecutor run
   selectedGeometry?: any; // Selected geometry for rule application
   disabled?: boolean;
 }
@@ -45,9 +53,31 @@ interface ExecutionResult {
   executionTime?: number;
 }
 
+// Convert a lint diagnostic into an editor marker over the JSON it points to
+const toMarker = (
+  model: monaco.editor.ITextModel,
+  jsonText: string,
+  diagnostic: LintDiagnostic
+): monaco.editor.IMarkerData => {
+  const range = jsonPathRange(jsonText, diagnostic.path) ?? { start: 0, end: jsonText.length };
+  const start = model.getPositionAt(range.start);
+  const end = model.getPositionAt(range.end);
+  return {
+    severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+    message: diagnostic.message,
+    code: diagnostic.code,
+    source: 'cga-lite',
+    startLineNumber: start.lineNumber,
+    startColumn: start.column,
+    endLineNumber: end.lineNumber,
+    endColumn: end.column
+  };
+};
+
 export const RuleEditor: React.FC<RuleEditorProps> = ({
   onRuleApply,
   onRuleValidate,
+  onRuleCancel,
   selectedGeometry,
   disabled = false
 }) => {
@@ -57,6 +87,7 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
   const [selectedSample, setSelectedSample] = useState('');
   const [isExecuting, setIsExecuting] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [lintWarnings, setLintWarnings] = useState<LintDiagnostic[]>([]);
   const [executionResult, setExecutionResult] = useState<ExecutionResult | null>(null);
   const [showNotification, setShowNotification] = useState(false);
   
@@ -123,9 +154,18 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
     }
   }, []);
 
-  // Validate rule JSON
+  // Validate rule JSON and show lint diagnostics inline
   const validateRule = useCallback((jsonText: string) => {
+    const model = editorRef.current?.getModel();
+    const setMarkers = (diagnostics: LintDiagnostic[]) => {
+      if (model) {
+        monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, diagnostics.map(d => toMarker(model, jsonText, d)));
+      }
+    };
+
     if (!jsonText.trim()) {
+      setMarkers([]);
+      setLintWarnings([]);
       setValidationError(null);
       setCurrentRule(null);
       return;
@@ -133,11 +173,24 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
 
     try {
       const parsed = JSON.parse(jsonText);
-      const validated = RuleProgramSchema.parse(parsed);
-      setCurrentRule(validated);
+      const diagnostics = lintProgram(parsed);
+      const errors = diagnostics.filter(d => d.severity === 'error');
+      setMarkers(diagnostics);
+      setLintWarnings(diagnostics.filter(d => d.severity === 'warning'));
+
+      if (errors.length > 0) {
+        setCurrentRule(null);
+        setValidationError(
+          `${errors.length} problem${errors.length === 1 ? '' : 's'} - ${errors[0].path.join('.')}: ${errors[0].message}`
+        );
+        return;
+      }
+      setCurrentRule(RuleProgramSchema.parse(parsed));
       setValidationError(null);
     } catch (error) {
       setCurrentRule(null);
+      setMarkers([]);
+      setLintWarnings([]);
       if (error instanceof SyntaxError) {
         setValidationError(`JSON Syntax Error: ${error.message}`);
       } else {
@@ -151,17 +204,20 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
     if (!currentRule || !onRuleApply) return;
 
     setIsExecuting(true);
+    const startTime = performance.now();
     try {
       await onRuleApply(currentRule);
       setExecutionResult({
         success: true,
         message: `Rule "${currentRule.name}" applied successfully`,
-        executionTime: 150 // Mock execution time
+        executionTime: Math.round(performance.now() - startTime)
       });
     } catch (error) {
       setExecutionResult({
         success: false,
-        message: `Failed to apply rule: ${error instanceof Error ? error.message : 'Unknown error'}`
+        message: error instanceof RuleExecutionCancelledError
+          ? `Rule "${currentRule.name}" cancelled`
+          : `Failed to apply rule: ${error instanceof Error ? error.message : 'Unknown error'}`
       });
     } finally {
       setIsExecuting(false);
@@ -197,6 +253,7 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
     setCurrentRule(null);
     setSelectedSample('');
     setValidationError(null);
+    setLintWarnings([]);
     setExecutionResult(null);
   }, []);
 
@@ -239,6 +296,18 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
             Apply Rule
           </Button>
           
+          {isExecuting && onRuleCancel && (
+            <Button
+              variant="outlined"
+              color="error"
+              startIcon={<StopIcon />}
+              onClick={onRuleCancel}
+              size="small"
+            >
+              Stop
+            </Button>
+          )}
+          
           <Button
             variant="outlined"
             startIcon={<SaveIcon />}
@@ -264,6 +333,13 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
         </Alert>
       )}
       
+      {/* Lint Warnings (shown inline in the editor as well) */}
+      {!validationError && lintWarnings.length > 0 && (
+        <Alert severity="warning" sx={{ m: 1 }}>
+          {lintWarnings.length} warning{lintWarnings.length === 1 ? '' : 's'} - {lintWarnings[0].path.join('.')}: {lintWarnings[0].message}
+        </Alert>
+      )}
+      
       {/* Monaco Editor Container */}
       <Box 
         ref={containerRef}
@@ -0,0 +1,88 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { app, IModelSessionManager, insertBulkFeature } from "../server";
+import { ChangesetHistory } from "../services/changeset-history";
+import { PreparedFeature } from "../services/bulk-features";
+import { ScenarioContainers, UrbanHierarchy } from "../services/urban-hierarchy";
+import { fakeIModel } from "./fake-imodel";
+
+const scenario: ScenarioContainers = { modelId: "0x20", categoryId: "0x21" };
+
+const square = (x: number, y: number) => [[x, y], [x + 20, y], [x + 20, y + 20], [x, y + 20], [x, y]];
+
+const prepared = (lotId: string, blockId?: string): PreparedFeature => ({
+  index: 0,
+  label: `Building on ${lotId}`,
+  geometry: { type: "solid", vertices: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]], faces: [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]], attributes: {} },
+  footprint: square(280000, 8710000),
+  lot: { lotId, blockId }
+});
+
+describe("Bulk insertion", () => {
+  test("a feature whose aspect fails leaves no building, lot or block behind", () => {
+    const { iModel, elements } = fakeIModel([1]);
+
+    const result = insertBulkFeature(iModel, scenario, prepared("L1", "B1"));
+
+    expect(result).toEqual({ ok: false, error: "Aspect table is locked" });
+    expect(elements.size).toBe(0);
+  });
+
+  test("lots that existed before the feature are kept", () => {
+    const { iModel, elements } = fakeIModel([2]);
+
+    const first = insertBulkFeature(iModel, scenario, prepared("L1", "B1"));
+    const second = insertBulkFeature(iModel, scenario, prepared("L1", "B1"));
+
+    expect(first.ok).toBe(true);
+    expect(second.ok).toBe(false);
+    expect([...elements.values()].map(props => props.classFullName))
+      .toEqual(["Urban:BlockElement", "Urban:LotElement", "Generic:GenericPhysicalObject"]);
+  });
+
+  describe("POST /elements/bulkInsert in skip mode", () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(done => {
+      server = app.listen(0, () => {
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        done();
+      });
+    });
+
+    afterAll(done => {
+      jest.restoreAllMocks();
+      server.close(done);
+    });
+
+    test("reports an aspect failure as skipped and saves only the other features", async () => {
+      const fake = fakeIModel([1]);
+      jest.spyOn(IModelSessionManager, "withIModel").mockImplementation(async (_id, operation) =>
+        operation(fake.iModel, {} as ChangesetHistory));
+      jest.spyOn(UrbanHierarchy, "scenarioContainers").mockReturnValue(scenario);
+      jest.spyOn(console, "log").mockImplementation(() => undefined);
+      jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+      const feature = (id: string, lotId: string, x: number) => ({
+        type: "Feature",
+        id,
+        properties: { height: 9, lotId },
+        geometry: { type: "Polygon", coordinates: [square(x, 8710000)] }
+      });
+      const response = await fetch(`${url}/elements/bulkInsert?iModelId=test&mode=skip`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: "FeatureCollection", features: [feature("a", "L1", 280000), feature("b", "L2", 280100)] })
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({ success: true, committed: true, inserted: 1, skipped: 1 });
+      expect(body.features[0]).toMatchObject({ id: "a", status: "skipped", error: "Aspect table is locked" });
+      expect(body.features[1]).toMatchObject({ id: "b", status: "inserted" });
+      expect([...fake.elements.values()].map(props => props.userLabel)).toEqual(["Lot L2", "Bulk Building b"]);
+      expect(fake.saved).toHaveLength(1);
+    });
+  });
+});
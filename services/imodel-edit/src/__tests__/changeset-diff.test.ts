@@ -0,0 +1,89 @@
+import { ChangesetRecord, ElementChange, combineChangesets, diffBetween, propertyDeltas } from "../utils/changeset-diff";
+
+const changeset = (index: number, changes: ElementChange[]): ChangesetRecord => ({
+  id: `cs${index}`,
+  index,
+  parentId: index > 1 ? `cs${index - 1}` : "",
+  description: `Changeset ${index}`,
+  createdAt: "2026-10-01T00:00:00.000Z",
+  changes
+});
+
+const building = "Generic:GenericPhysicalObject";
+
+// 0x10 is inserted and raised, 0x11 inserted and deleted again, 0x12 existed and is relabelled
+const history: ChangesetRecord[] = [
+  changeset(1, [
+    { elementId: "0x10", classFullName: building, changeType: "insert", after: { UserLabel: "Tower", Height: 30 } },
+    { elementId: "0x11", classFullName: building, changeType: "insert", after: { UserLabel: "Kiosk" } }
+  ]),
+  changeset(2, [
+    { elementId: "0x10", changeType: "update", before: { Height: 30 }, after: { Height: 45 } },
+    { elementId: "0x12", classFullName: building, changeType: "update", before: { UserLabel: "Old" }, after: { UserLabel: "New" } }
+  ]),
+  changeset(3, [
+    { elementId: "0x11", classFullName: building, changeType: "delete", before: { UserLabel: "Kiosk" } },
+    { elementId: "0x12", changeType: "update", before: { UserLabel: "New" }, after: { UserLabel: "Newer" } }
+  ])
+];
+
+describe("Changeset diff", () => {
+  test("an insert followed by updates stays one insert with the latest values", () => {
+    const [tower] = combineChangesets(history.slice(0, 2));
+
+    expect(tower).toEqual({
+      elementId: "0x10",
+      classFullName: building,
+      changeType: "insert",
+      propertyChanges: [
+        { property: "Height", before: undefined, after: 45 },
+        { property: "UserLabel", before: undefined, after: "Tower" }
+      ]
+    });
+  });
+
+  test("an element inserted and deleted again drops out", () => {
+    const diffs = combineChangesets(history);
+
+    expect(diffs.map(diff => diff.elementId)).toEqual(["0x10", "0x12"]);
+    expect(diffs[1]).toMatchObject({ changeType: "update", propertyChanges: [{ property: "UserLabel", before: "Old", after: "Newer" }] });
+  });
+
+  test("updates that end where they started drop out", () => {
+    const diffs = combineChangesets([
+      changeset(1, [{ elementId: "0x12", changeType: "update", before: { UserLabel: "A" }, after: { UserLabel: "B" } }]),
+      changeset(2, [{ elementId: "0x12", changeType: "update", before: { UserLabel: "B" }, after: { UserLabel: "A" } }])
+    ]);
+
+    expect(diffs).toEqual([]);
+  });
+
+  test("a range covers the changesets after its start up to its end", () => {
+    const diffs = diffBetween(history, 1, 3);
+
+    expect(diffs.map(diff => [diff.elementId, diff.changeType])).toEqual([["0x10", "update"], ["0x12", "update"], ["0x11", "delete"]]);
+    expect(diffs[0].propertyChanges).toEqual([{ property: "Height", before: 30, after: 45 }]);
+    expect(diffBetween(history, 2, 2)).toEqual([]);
+  });
+
+  test("a reverse range inverts the changes in between", () => {
+    const forward = diffBetween(history, 0, 2);
+    const backward = diffBetween(history, 2, 0);
+
+    expect(backward.map(diff => [diff.elementId, diff.changeType])).toEqual([["0x10", "delete"], ["0x11", "delete"], ["0x12", "update"]]);
+    expect(backward[2].propertyChanges).toEqual([{ property: "UserLabel", before: "New", after: "Old" }]);
+    expect(backward[0].propertyChanges).toEqual(forward[0].propertyChanges.map(({ property, before, after }) => ({ property, before: after, after: before })));
+    expect(diffBetween(history, 3, 1).find(diff => diff.elementId === "0x11")?.changeType).toBe("insert");
+  });
+
+  test("property deltas list differing values in name order", () => {
+    expect(propertyDeltas(
+      { Height: 30, Origin: { x: 1, y: 2 }, Geometry: { bytes: 120, sha1: "aa" } },
+      { Height: 30, Origin: { x: 1, y: 3 }, Geometry: { bytes: 120, sha1: "bb" }, UserLabel: "Tower" }
+    )).toEqual([
+      { property: "Geometry", before: { bytes: 120, sha1: "aa" }, after: { bytes: 120, sha1: "bb" } },
+      { property: "Origin", before: { x: 1, y: 2 }, after: { x: 1, y: 3 } },
+      { property: "UserLabel", before: undefined, after: "Tower" }
+    ]);
+  });
+});
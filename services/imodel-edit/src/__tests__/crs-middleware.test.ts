@@ -0,0 +1,42 @@
+import { CRSMiddleware, CRSValidationOptions } from "../middleware/crs-middleware";
+
+const options = (logTransformations: boolean): CRSValidationOptions => ({
+  enforceChancayAOI: true,
+  allowReprojection: true,
+  logTransformations
+});
+
+// Square near Chancay in WGS84, so validation reprojects it
+const square = [[-77.0181, -11.6623], [-77.0179, -11.6623], [-77.0179, -11.6621], [-77.0181, -11.6621]];
+
+describe("CRS middleware", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("reprojects geometry into the Chancay AOI, logging each step when asked to", () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const result = CRSMiddleware.validateGeometry({ vertices: square }, options(true));
+
+    expect(result.valid && result.geometry).toMatchObject({ crs: "EPSG:32718", transformation: { from: "EPSG:4326" } });
+    expect(log.mock.calls.map(([message]) => message)).toEqual([
+      expect.stringContaining("Validating geometry input"),
+      expect.stringContaining("Input CRS: EPSG:4326"),
+      expect.stringContaining("Reprojected geometry: EPSG:4326 → EPSG:32718"),
+      expect.stringContaining("First vertex"),
+      expect.stringContaining("CRS validation completed")
+    ]);
+  });
+
+  test("validates quietly without logTransformations", () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const valid = CRSMiddleware.validateGeometry({ vertices: square }, options(false));
+    const outside = CRSMiddleware.validateGeometry({ vertices: [[0, 0], [1, 0], [1, 1]], crs: "EPSG:32718" }, options(false));
+
+    expect(valid.valid).toBe(true);
+    expect(outside).toMatchObject({ valid: false, status: 400, body: { error: "OUTSIDE_AOI" } });
+    expect(log).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { StandaloneDb } from "@itwin/core-backend";
+import { app, IModelSessionManager, insertBulkFeature } from "../server";
+import { ChangesetHistory } from "../services/changeset-history";
+import { LotInput, UrbanHierarchy } from "../services/urban-hierarchy";
+import { fakeIModel, mockContainerInserts } from "./fake-imodel";
+
+// Box solid with outward faces, `height` metres tall, in the Chancay AOI
+const box = (height: number, x = 280000, y = 8710000) => ({
+  vertices: [
+    [x, y, 0], [x + 20, y, 0], [x + 20, y + 20, 0], [x, y + 20, 0],
+    [x, y, height], [x + 20, y, height], [x + 20, y + 20, height], [x, y + 20, height]
+  ],
+  faces: [[0, 3, 2, 1], [4, 5, 6, 7], [0, 1, 5, 4], [1, 2, 6, 5], [2, 3, 7, 6], [3, 0, 4, 7]]
+});
+
+/**
+ * Building with a two-floor UrbanMetricsAspect on `lot` of a scenario, inserted the way
+ * /elements/bulkInsert does
+ */
+function seedBuilding(iModel: StandaloneDb, scenarioName: string, label: string, lot: LotInput): string {
+  const scenario = UrbanHierarchy.scenarioContainers(iModel, scenarioName);
+  const footprint = box(0).vertices.slice(0, 4);
+  const result = insertBulkFeature(iModel, scenario, {
+    index: 0,
+    label,
+    geometry: { type: "solid", ...box(7), attributes: { floors: 2 } },
+    footprint,
+    lot
+  });
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.elementId;
+}
+
+describe("Element routes", () => {
+  let server: Server;
+  let url: string;
+  let fake: ReturnType<typeof fakeIModel>;
+
+  const post = (route: string, body: unknown) => fetch(`${url}${route}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+
+  beforeAll(done => {
+    server = app.listen(0, () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    fake = fakeIModel();
+    jest.spyOn(IModelSessionManager, "withIModel").mockImplementation(async (_id, operation) =>
+      operation(fake.iModel, {} as ChangesetHistory));
+    mockContainerInserts();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("POST /elements/update", () => {
+    test("a new height recomputes the urban metrics in the building's aspect", async () => {
+      const elementId = seedBuilding(fake.iModel, "Baseline", "Tower", { lotId: "L1" });
+      const [aspect] = fake.aspects.values();
+      expect(aspect.floors).toBe(2);
+
+      const response = await post("/elements/update", { iModelId: "test", elementId, geometry: box(14) });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({ success: true, elementId, updated: ["geom"], metrics: { floors: 4 } });
+      expect([...fake.aspects.values()]).toEqual([expect.objectContaining({ id: aspect.id, element: expect.objectContaining({ id: elementId }), floors: 4 })]);
+      expect(fake.saved).toEqual([expect.stringMatching(`^Update element ${elementId}`)]);
+    });
+
+    test("a label change keeps the metrics, and unknown elements are not found", async () => {
+      const elementId = seedBuilding(fake.iModel, "Baseline", "Tower", { lotId: "L1" });
+
+      const relabelled = await post("/elements/update", { iModelId: "test", elementId, userLabel: "Tower A" });
+      const body = await relabelled.json();
+      expect(body.updated).toEqual(["userLabel"]);
+      expect(body).not.toHaveProperty("metrics");
+      expect(fake.elements.get(elementId).userLabel).toBe("Tower A");
+      expect([...fake.aspects.values()][0].floors).toBe(2);
+
+      const missing = await post("/elements/update", { iModelId: "test", elementId: "0x999", userLabel: "Ghost" });
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toEqual({ success: false, error: "Physical element not found: 0x999" });
+    });
+  });
+
+  describe("POST /elements/delete", () => {
+    test("deletes buildings with their aspects, and lots with their buildings", async () => {
+      const tower = seedBuilding(fake.iModel, "Baseline", "Tower", { lotId: "L1", blockId: "B1" });
+      const annex = seedBuilding(fake.iModel, "Baseline", "Annex", { lotId: "L2", blockId: "B1" });
+      const lot = UrbanHierarchy.findLot(fake.iModel, UrbanHierarchy.scenarioContainers(fake.iModel, "Baseline"), "L2")!;
+      const [towerAspect] = fake.iModel.elements.getAspects(tower);
+
+      const response = await post("/elements/delete", { iModelId: "test", elementIds: [tower, lot] });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.deleted).toEqual([
+        { elementId: tower, aspectIds: [towerAspect.id], children: [] },
+        { elementId: lot, aspectIds: [], children: [annex] }
+      ]);
+      expect([...fake.elements.values()].map(props => props.userLabel)).not.toContain("Tower");
+      expect(fake.elements.has(annex)).toBe(false);
+      expect(fake.aspects.size).toBe(0);
+      expect(fake.saved).toEqual([expect.stringMatching(/^Delete 2 elements/)]);
+    });
+
+    test("deletes nothing when some of the ids are not geometric elements", async () => {
+      const tower = seedBuilding(fake.iModel, "Baseline", "Tower", { lotId: "L1" });
+      const { categoryId } = UrbanHierarchy.scenarioContainers(fake.iModel, "Baseline");
+
+      const response = await post("/elements/delete", { iModelId: "test", elementIds: [tower, categoryId, "0x999"] });
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: `Elements not found: ${categoryId}, 0x999`,
+        missing: [categoryId, "0x999"]
+      });
+      expect(fake.elements.has(tower)).toBe(true);
+      expect(fake.aspects.size).toBe(1);
+      expect(fake.saved).toEqual([]);
+    });
+  });
+
+  describe("GET /elements", () => {
+    const labels = async (query: string) => {
+      const body = await (await fetch(`${url}/elements?iModelId=test&${query}`)).json();
+      expect(body.count).toBe(body.elements.length);
+      return body.elements.map((element: { userLabel: string }) => element.userLabel);
+    };
+
+    beforeEach(() => {
+      seedBuilding(fake.iModel, "Baseline", "Tower", { lotId: "L1", blockId: "B1" });
+      seedBuilding(fake.iModel, "Baseline", "Annex", { lotId: "L2", blockId: "B1" });
+      seedBuilding(fake.iModel, "Baseline", "Depot", { lotId: "L3", blockId: "B2" });
+      seedBuilding(fake.iModel, "Densified", "Tower 2", { lotId: "L1", blockId: "B1" });
+    });
+
+    test("lists the buildings of a scenario with their lot and metrics", async () => {
+      const body = await (await fetch(`${url}/elements?iModelId=test&scenarioName=Baseline`)).json();
+
+      expect(body.scenarioModelId).toBe(UrbanHierarchy.findScenario(fake.iModel, "Baseline")!.modelId);
+      expect(body.elements.map((element: { userLabel: string }) => element.userLabel)).toEqual(["Tower", "Annex", "Depot"]);
+      expect(body.elements[0]).toMatchObject({ lotId: "L1", blockId: "B1", metrics: { floors: 2 } });
+      expect(await labels("scenarioName=Densified")).toEqual(["Tower 2"]);
+    });
+
+    test("narrows to one lot or block of the scenario", async () => {
+      expect(await labels("scenarioName=Baseline&lotId=L1")).toEqual(["Tower"]);
+      expect(await labels("scenarioName=Densified&lotId=L1")).toEqual(["Tower 2"]);
+      expect(await labels("scenarioName=Baseline&blockId=B1")).toEqual(["Tower", "Annex"]);
+      expect(await labels("scenarioName=Baseline&lotId=L3&blockId=B1")).toEqual([]);
+      expect(await labels("scenarioName=Baseline&lotId=L9")).toEqual([]);
+    });
+
+    test("a scenario nothing was generated in has no buildings and is not created", async () => {
+      const size = fake.elements.size;
+
+      const body = await (await fetch(`${url}/elements?iModelId=test`)).json();
+
+      expect(body).toEqual({ success: true, count: 0, elements: [] });
+      expect(fake.elements.size).toBe(size);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { PhysicalElement, PhysicalModel, PhysicalPartition, SpatialCategory, SpatialElement, StandaloneDb } from "@itwin/core-backend";
+import { Code, CodeSpec, IModel, QueryBinder } from "@itwin/core-common";
+
+// Element classes tryGetElement hands out as instances, so class checks behave as on a real iModel
+const ELEMENT_PROTOTYPES: Record<string, object> = {
+  "Generic:GenericPhysicalObject": PhysicalElement.prototype,
+  "Urban:LotElement": SpatialElement.prototype,
+  "Urban:BlockElement": SpatialElement.prototype
+};
+
+/**
+ * In-memory stand-in for the StandaloneDb calls the routes and UrbanHierarchy make.
+ * Elements and aspects are kept as their props; deleting an element takes its children
+ * and aspects with it. `failAspects` lists the insertAspect calls (1-based) that throw.
+ */
+export function fakeIModel(failAspects: number[] = []) {
+  const elements = new Map<string, any>();
+  const aspects = new Map<string, any>();
+  const codeSpecs = new Map<string, string>();
+  let nextId = 0x100;
+  let aspectCalls = 0;
+  const saved: string[] = [];
+
+  const newId = () => `0x${(nextId++).toString(16)}`;
+  // BIS code specs exist in every iModel; the others once inserted
+  const codeSpecId = (name: string) => {
+    if (!codeSpecs.has(name)) {
+      codeSpecs.set(name, newId());
+    }
+    return codeSpecs.get(name)!;
+  };
+  const children = (id: string) => [...elements].filter(([, props]) => props.parent?.id === id).map(([childId]) => childId);
+  const deleteElement = (id: string) => {
+    children(id).forEach(deleteElement);
+    [...aspects].filter(([, props]) => props.element.id === id).forEach(([aspectId]) => aspects.delete(aspectId));
+    elements.delete(id);
+  };
+
+  const iModel = {
+    codeSpecs: {
+      hasName: (name: string) => name.startsWith("bis:") || codeSpecs.has(name),
+      getByName: (name: string) => ({ id: codeSpecId(name) }),
+      insert: (spec: CodeSpec) => codeSpecId(spec.name)
+    },
+    models: {
+      insertModel: (props: any) => props.modeledElement.id
+    },
+    elements: {
+      queryElementIdByCode: (code: Code) =>
+        [...elements].find(([, props]) => props.code?.spec === code.spec && props.code?.scope === code.scope && props.code?.value === code.value)?.[0],
+      insertElement: (props: any) => {
+        const id = newId();
+        elements.set(id, props);
+        return id;
+      },
+      updateElement: (props: any) => Object.assign(elements.get(props.id), props),
+      tryGetElementProps: (id: string) => elements.get(id),
+      tryGetElement: (id: string) => {
+        const props = elements.get(id);
+        if (!props) {
+          return undefined;
+        }
+        const element = Object.create(ELEMENT_PROTOTYPES[props.classFullName] ?? Object.prototype);
+        return Object.defineProperties(element, Object.getOwnPropertyDescriptors({ ...props, id }));
+      },
+      queryChildren: children,
+      deleteElement,
+      insertAspect: (props: any) => {
+        if (failAspects.includes(++aspectCalls)) {
+          throw new Error("Aspect table is locked");
+        }
+        const id = newId();
+        aspects.set(id, { ...props, id });
+        return id;
+      },
+      updateAspect: (props: any) => aspects.set(props.id, props),
+      getAspects: (elementId: string, className?: string) =>
+        [...aspects.values()].filter(props => props.element.id === elementId && (!className || props.classFullName === className)),
+      deleteAspect: (id: string) => aspects.delete(id)
+    },
+    // Answers UrbanHierarchy.queryBuildings: buildings of the bound model, narrowed to
+    // the bound lot (e.Parent.Id) and block (l.Parent.Id) when the query filters on them
+    createQueryReader: (ecsql: string, binder: QueryBinder) => {
+      const [modelId, ...values] = Object.values(binder.serialize() as Record<string, { value: string }>).map(arg => arg.value);
+      const lotElementId = ecsql.includes("e.Parent.Id = ?") ? values.shift() : undefined;
+      const blockElementId = ecsql.includes("l.Parent.Id = ?") ? values.shift() : undefined;
+
+      const rows = [...elements]
+        .filter(([, props]) => ELEMENT_PROTOTYPES[props.classFullName] === PhysicalElement.prototype && props.model === modelId)
+        .filter(([, props]) => !lotElementId || props.parent?.id === lotElementId)
+        .filter(([, props]) => !blockElementId || elements.get(props.parent?.id)?.parent?.id === blockElementId)
+        .map(([elementId, props]) => {
+          const lot = props.parent ? elements.get(props.parent.id) : undefined;
+          const [metrics] = [...aspects.values()].filter(aspect => aspect.element.id === elementId);
+          return {
+            elementId,
+            classFullName: props.classFullName,
+            userLabel: props.userLabel,
+            lotElementId: lot ? props.parent.id : undefined,
+            lotId: lot?.lotNumber,
+            blockId: lot?.blockId,
+            footprintArea: metrics?.footprintArea,
+            grossFloorArea: metrics?.grossFloorArea,
+            floors: metrics?.floors,
+            calculatedAt: metrics?.calculatedAt
+          };
+        });
+      return (async function* () { yield* rows; })();
+    },
+    saveChanges: (description: string) => saved.push(description),
+    abandonChanges: () => {
+      elements.clear();
+      aspects.clear();
+    }
+  };
+  return { iModel: iModel as unknown as StandaloneDb, elements, aspects, saved };
+}
+
+/**
+ * PhysicalModel.insert and SpatialCategory.insert need the BIS class registry of a started
+ * IModelHost; store the partition and category props instead, so scenario containers can
+ * be created and found by name in a fake iModel
+ */
+export function mockContainerInserts() {
+  jest.spyOn(PhysicalModel, "insert").mockImplementation((iModel, parentSubjectId, name) =>
+    iModel.elements.insertElement({
+      classFullName: "BisCore:PhysicalPartition",
+      model: IModel.repositoryModelId,
+      code: PhysicalPartition.createCode(iModel, parentSubjectId, name)
+    }));
+  jest.spyOn(SpatialCategory, "insert").mockImplementation((iModel, definitionModelId, name) =>
+    iModel.elements.insertElement({
+      classFullName: "BisCore:SpatialCategory",
+      model: definitionModelId,
+      code: SpatialCategory.createCode(iModel, definitionModelId, name)
+    }));
+}
@@ -0,0 +1,81 @@
+import { KeyedLock } from "../utils/keyed-lock";
+
+// Promise with its resolve and reject, for tasks the test finishes by hand
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Let every pending promise callback run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe("KeyedLock", () => {
+  test("tasks for one key run one at a time, in call order", async () => {
+    const lock = new KeyedLock();
+    const events: string[] = [];
+    const first = deferred();
+
+    const runs = [
+      lock.run("a", async () => { events.push("start 1"); await first.promise; events.push("end 1"); }),
+      lock.run("a", async () => { events.push("start 2"); }),
+      lock.run("a", async () => { events.push("start 3"); })
+    ];
+    await settle();
+    expect(events).toEqual(["start 1"]);
+
+    first.resolve();
+    await Promise.all(runs);
+    expect(events).toEqual(["start 1", "end 1", "start 2", "start 3"]);
+  });
+
+  test("tasks for different keys run side by side", async () => {
+    const lock = new KeyedLock();
+    const a = deferred();
+    const started: string[] = [];
+
+    const runA = lock.run("a", async () => { started.push("a"); await a.promise; });
+    const runB = lock.run("b", async () => { started.push("b"); return 2; });
+
+    await expect(runB).resolves.toBe(2);
+    expect(started).toEqual(["a", "b"]);
+    a.resolve();
+    await runA;
+  });
+
+  test("a failed task rejects its caller and does not hold up the queue", async () => {
+    const lock = new KeyedLock();
+    const failing = deferred();
+
+    const first = lock.run("a", () => failing.promise);
+    const second = lock.run("a", async () => "ran");
+    failing.reject(new Error("Disk full"));
+
+    await expect(first).rejects.toThrow("Disk full");
+    await expect(second).resolves.toBe("ran");
+  });
+
+  test("a key is busy while tasks run or wait, and free once they have settled", async () => {
+    const lock = new KeyedLock();
+    const first = deferred();
+    const second = deferred();
+
+    const runs = [lock.run("a", () => first.promise), lock.run("a", () => second.promise)];
+    expect(lock.isBusy("a")).toBe(true);
+    expect(lock.isBusy("b")).toBe(false);
+
+    first.resolve();
+    await runs[0];
+    await settle();
+    expect(lock.isBusy("a")).toBe(true);
+
+    second.reject(new Error("Cancelled"));
+    await expect(runs[1]).rejects.toThrow("Cancelled");
+    await settle();
+    expect(lock.isBusy("a")).toBe(false);
+  });
+});
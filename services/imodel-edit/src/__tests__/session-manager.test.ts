@@ -0,0 +1,75 @@
+import { StandaloneDb } from "@itwin/core-backend";
+import { IModelSessionManager } from "../server";
+import { ChangesetHistory } from "../services/changeset-history";
+import { IModelRegistry } from "../services/imodel-registry";
+import { UrbanHierarchy } from "../services/urban-hierarchy";
+
+describe("iModel sessions", () => {
+  const closed: string[] = [];
+
+  // Holds an operation on `iModelId` open until the returned release is called
+  async function hold(iModelId: string) {
+    let release!: () => void;
+    const done = new Promise<void>(resolve => { release = resolve; });
+    let started!: () => void;
+    const running = new Promise<void>(resolve => { started = resolve; });
+    const operation = IModelSessionManager.withIModel(iModelId, async () => {
+      started();
+      await done;
+    });
+    await running;
+    return async () => {
+      release();
+      await operation;
+    };
+  }
+
+  const use = (iModelId: string) => IModelSessionManager.withIModel(iModelId, async () => undefined);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+    closed.length = 0;
+    jest.spyOn(IModelRegistry, "resolve").mockImplementation(iModelId => `/imodels/${iModelId}.bim`);
+    jest.spyOn(StandaloneDb, "openFile").mockImplementation(filePath => {
+      const name = String(filePath).replace(/^\/imodels\/|\.bim$/g, "");
+      return { name, pathName: filePath, close: () => closed.push(name) } as unknown as StandaloneDb;
+    });
+    jest.spyOn(UrbanHierarchy, "importSchema").mockResolvedValue(undefined as never);
+    jest.spyOn(ChangesetHistory, "attach").mockReturnValue({ detach: () => undefined } as unknown as ChangesetHistory);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    IModelSessionManager.closeAll();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test("making room closes the least recently used session nobody is using", async () => {
+    const release = await hold("busy");
+    for (let i = 1; i <= 8; i++) {
+      await use(`idle-${i}`);
+    }
+
+    expect(closed).toEqual(["idle-1"]);
+    expect(IModelSessionManager.openIModelIds()).toEqual(["busy", ...[2, 3, 4, 5, 6, 7, 8].map(i => `idle-${i}`)]);
+
+    await release();
+    await use("idle-9");
+    expect(closed).toEqual(["idle-1", "busy"]);
+  });
+
+  test("the idle sweep skips sessions that are still in use", async () => {
+    const release = await hold("busy");
+    await use("idle");
+
+    jest.advanceTimersByTime(11 * 60 * 1000);
+    expect(closed).toEqual(["idle"]);
+    expect(IModelSessionManager.openIModelIds()).toEqual(["busy"]);
+
+    await release();
+    jest.advanceTimersByTime(11 * 60 * 1000);
+    expect(closed).toEqual(["idle", "busy"]);
+    expect(IModelSessionManager.openIModelIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { PhysicalModel, SpatialCategory } from "@itwin/core-backend";
+import { insertBulkFeature } from "../server";
+import { UrbanHierarchy } from "../services/urban-hierarchy";
+import { fakeIModel, mockContainerInserts } from "./fake-imodel";
+
+describe("Urban hierarchy", () => {
+  let fake: ReturnType<typeof fakeIModel>;
+
+  const classes = () => [...fake.elements.values()].map(props => props.classFullName);
+
+  beforeEach(() => {
+    fake = fakeIModel();
+    mockContainerInserts();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("each scenario gets its own model and category, created on first use", () => {
+    expect(UrbanHierarchy.findScenario(fake.iModel, "Baseline")).toBeUndefined();
+
+    const baseline = UrbanHierarchy.scenarioContainers(fake.iModel, "Baseline");
+    const again = UrbanHierarchy.scenarioContainers(fake.iModel, "Baseline");
+    const densified = UrbanHierarchy.scenarioContainers(fake.iModel, "Densified 2.0");
+
+    expect(again).toEqual(baseline);
+    expect(UrbanHierarchy.findScenario(fake.iModel, "Baseline")).toEqual(baseline);
+    expect(densified.modelId).not.toBe(baseline.modelId);
+    expect(densified.categoryId).not.toBe(baseline.categoryId);
+    expect(PhysicalModel.insert).toHaveBeenCalledTimes(2);
+    expect(SpatialCategory.insert).toHaveBeenCalledTimes(2);
+    expect(fake.elements.get(densified.modelId).code.value).toBe("Scenario Densified 2_0");
+  });
+
+  test("the default scenario is used when none is named", () => {
+    expect(UrbanHierarchy.scenarioContainers(fake.iModel)).toEqual(UrbanHierarchy.scenarioContainers(fake.iModel, "Default"));
+  });
+
+  test("lots and blocks are inserted once per scenario and then found by number", () => {
+    const baseline = UrbanHierarchy.scenarioContainers(fake.iModel, "Baseline");
+    const densified = UrbanHierarchy.scenarioContainers(fake.iModel, "Densified");
+    const before = fake.elements.size;
+
+    const lot1 = UrbanHierarchy.ensureLot(fake.iModel, baseline, { lotId: "7", blockId: "7", zoneType: "R4" });
+    const lot2 = UrbanHierarchy.ensureLot(fake.iModel, baseline, { lotId: "8", blockId: "7" });
+    const again = UrbanHierarchy.ensureLot(fake.iModel, baseline, { lotId: "7", blockId: "7" });
+    const elsewhere = UrbanHierarchy.ensureLot(fake.iModel, densified, { lotId: "7", blockId: "7" });
+
+    expect(again).toBe(lot1);
+    expect(elsewhere).not.toBe(lot1);
+    expect(classes().slice(before)).toEqual([
+      "Urban:BlockElement", "Urban:LotElement", "Urban:LotElement",
+      "Urban:BlockElement", "Urban:LotElement"
+    ]);
+
+    const block = UrbanHierarchy.findBlock(fake.iModel, baseline, "7");
+    expect(fake.elements.get(lot1)).toMatchObject({
+      model: baseline.modelId,
+      category: baseline.categoryId,
+      parent: { id: block, relClassName: "Urban:BlockOwnsLots" },
+      lotNumber: "7",
+      zoneType: "R4",
+      blockId: "7"
+    });
+    expect(fake.elements.get(lot2).parent.id).toBe(block);
+    expect(UrbanHierarchy.findLot(fake.iModel, baseline, "8")).toBe(lot2);
+    expect(UrbanHierarchy.findLot(fake.iModel, baseline, "9")).toBeUndefined();
+  });
+
+  test("lots with an outline carry its geometry and area", () => {
+    const baseline = UrbanHierarchy.scenarioContainers(fake.iModel, "Baseline");
+
+    const outlined = UrbanHierarchy.ensureLot(fake.iModel, baseline, {
+      lotId: "1",
+      vertices: [[280000, 8710000], [280020, 8710000], [280020, 8710030], [280000, 8710030]]
+    });
+    const bare = UrbanHierarchy.ensureLot(fake.iModel, baseline, { lotId: "2", vertices: [[0, 0], [1, 1]] });
+
+    expect(fake.elements.get(outlined)).toMatchObject({ area: 600, parent: undefined });
+    expect(fake.elements.get(outlined).geom).toHaveLength(1);
+    expect(fake.elements.get(bare)).toMatchObject({ area: undefined, geom: undefined });
+  });
+
+  test("buildings are owned by their lot through LotOwnsBuildings", async () => {
+    const baseline = UrbanHierarchy.scenarioContainers(fake.iModel, "Baseline");
+    const lot = UrbanHierarchy.ensureLot(fake.iModel, baseline, { lotId: "7", blockId: "3" });
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const result = insertBulkFeature(fake.iModel, baseline, {
+      index: 0,
+      label: "Tower",
+      geometry: { type: "solid", vertices: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]], faces: [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]], attributes: {} },
+      footprint: [[0, 0], [1, 0], [0, 1]],
+      lot: { lotId: "7" }
+    });
+
+    expect(result).toEqual({ ok: true, elementId: expect.any(String), lotElementId: lot });
+    const elementId = result.ok ? result.elementId : "";
+    expect(fake.elements.get(elementId).parent).toEqual(UrbanHierarchy.buildingParent(lot));
+    expect(UrbanHierarchy.buildingParent(lot)).toEqual({ id: lot, relClassName: "Urban:LotOwnsBuildings" });
+    expect(await UrbanHierarchy.queryBuildings(fake.iModel, baseline, { blockId: "3" })).toEqual([
+      expect.objectContaining({ elementId, lotElementId: lot, lotId: "7", blockId: "3" })
+    ]);
+  });
+});
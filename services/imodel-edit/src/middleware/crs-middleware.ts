@@ -11,24 +11,36 @@
 
 import { Request, Response, NextFunction } from 'express';
 import proj4 from 'proj4';
+import { PROJ_DEFINITIONS } from '@itwin-dt/rules-cga-lite';
 
-// Define CRS projections
-proj4.defs("EPSG:32718", "+proj=utm +zone=18 +south +datum=WGS84 +units=m +no_defs");
-proj4.defs("EPSG:5387", "+proj=utm +zone=18 +south +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs");
-proj4.defs("EPSG:4326", "+proj=longlat +datum=WGS84 +no_defs");
+// Define CRS projections, with the definitions the rules engine reprojects with
+for (const [epsg, definition] of Object.entries(PROJ_DEFINITIONS)) {
+  proj4.defs(`EPSG:${epsg}`, definition);
+}
 
-interface GeometryInput {
+export interface GeometryInput {
   vertices: number[][];
   crs?: string;
   attributes?: any;
 }
 
-interface CRSValidationOptions {
+export interface CRSValidationOptions {
   enforceChancayAOI: boolean;
   allowReprojection: boolean;
-  logTransformations: boolean;
+  logTransformations: boolean; // Log each validation step; off for per-feature checks of bulk imports
 }
 
+// Outcome of validating one geometry: the geometry in EPSG:32718, or the error response
+export type CRSValidationResult =
+  | {
+      valid: true;
+      geometry: GeometryInput & {
+        crs: string;
+        transformation?: { from: string; to: string; transformedAt: string };
+      };
+    }
+  | { valid: false; status: number; body: Record<string, any> };
+
 /**
  * Chancay AOI bounds in UTM18S (EPSG:32718) meters
  * Covers the main urban development area of Chancay
@@ -62,90 +74,13 @@ export class CRSMiddleware {
           return next(); // No geometry to validate
         }
 
-        const geometry: GeometryInput = req.body.geometry;
-
-        console.log('🗺️  CRS Middleware: Validating geometry input...');
-
-        // 1. Detect or use provided CRS
-        const inputCRS = geometry.crs || CRSMiddleware.detectCRS(geometry.vertices);
-        console.log(`📍 Input CRS: ${inputCRS}`);
-
-        // 2. Validate supported CRS
-        if (!CRSMiddleware.SUPPORTED_INPUT_CRS.includes(inputCRS)) {
-          return res.status(400).json({
-            success: false,
-            error: 'UNSUPPORTED_CRS',
-            message: `CRS '${inputCRS}' is not supported. Supported CRS: ${CRSMiddleware.SUPPORTED_INPUT_CRS.join(', ')}`,
-            supportedCRS: CRSMiddleware.SUPPORTED_INPUT_CRS,
-            suggestion: 'Please provide coordinates in EPSG:32718 (UTM 18S) for Chancay region'
-          });
+        const result = CRSMiddleware.validateGeometry(req.body.geometry, options);
+        if (!result.valid) {
+          return res.status(result.status).json(result.body);
         }
 
-        // 3. Transform to target CRS if needed
-        let transformedVertices = geometry.vertices;
-        let wasTransformed = false;
-
-        if (inputCRS !== CRSMiddleware.TARGET_CRS) {
-          if (!options.allowReprojection) {
-            return res.status(400).json({
-              success: false,
-              error: 'CRS_MISMATCH',
-              message: `Input CRS '${inputCRS}' does not match required CRS '${CRSMiddleware.TARGET_CRS}'. Reprojection is not allowed.`,
-              required: CRSMiddleware.TARGET_CRS,
-              received: inputCRS
-            });
-          }
-
-          try {
-            transformedVertices = CRSMiddleware.reprojectVertices(geometry.vertices, inputCRS, CRSMiddleware.TARGET_CRS);
-            wasTransformed = true;
-
-            if (options.logTransformations) {
-              console.log(`🔄 Reprojected geometry: ${inputCRS} → ${CRSMiddleware.TARGET_CRS}`);
-              console.log(`   First vertex: ${geometry.vertices[0]} → ${transformedVertices[0]}`);
-            }
-          } catch (reprojectionError) {
-            return res.status(400).json({
-              success: false,
-              error: 'REPROJECTION_FAILED',
-              message: `Failed to reproject from ${inputCRS} to ${CRSMiddleware.TARGET_CRS}`,
-              details: reprojectionError instanceof Error ? reprojectionError.message : 'Unknown reprojection error'
-            });
-          }
-        }
-
-        // 4. Validate AOI bounds for Chancay region
-        if (options.enforceChancayAOI) {
-          const aoi = CRSMiddleware.validateChancayAOI(transformedVertices);
-          if (!aoi.isValid) {
-            return res.status(400).json({
-              success: false,
-              error: 'OUTSIDE_AOI',
-              message: 'Geometry is outside the Chancay Area of Interest',
-              details: {
-                chancayBounds: CHANCAY_AOI_UTM18S,
-                geometryBounds: aoi.geometryBounds,
-                verticesOutside: aoi.verticesOutside,
-                crs: CRSMiddleware.TARGET_CRS
-              },
-              suggestion: 'Ensure coordinates are within Chancay region bounds'
-            });
-          }
-        }
-
-        // 5. Update request with validated/transformed geometry
-        req.body.geometry = {
-          ...geometry,
-          vertices: transformedVertices,
-          crs: CRSMiddleware.TARGET_CRS,
-          transformation: wasTransformed ? {
-            from: inputCRS,
-            to: CRSMiddleware.TARGET_CRS,
-            transformedAt: new Date().toISOString()
-          } : undefined
-        };
-
-        console.log('✅ CRS validation completed successfully');
+        // Update request with validated/transformed geometry
+        req.body.geometry = result.geometry;
         next();
 
       } catch (error) {
@@ -160,6 +95,116 @@ export class CRSMiddleware {
     };
   }
 
+  /**
+   * Validate one geometry outside a request (e.g. each feature of a bulk import):
+   * detect its CRS, reproject it to EPSG:32718 and check the Chancay AOI.
+   * Failures carry the status and body the middleware would respond with.
+   */
+  static validateGeometry(geometry: GeometryInput, options: CRSValidationOptions = {
+    enforceChancayAOI: true,
+    allowReprojection: true,
+    logTransformations: true
+  }): CRSValidationResult {
+    const log = options.logTransformations ? console.log : () => undefined;
+    log('🗺️  CRS Middleware: Validating geometry input...');
+
+    // 1. Detect or use provided CRS
+    const inputCRS = geometry.crs || CRSMiddleware.detectCRS(geometry.vertices);
+    log(`📍 Input CRS: ${inputCRS}`);
+
+    // 2. Validate supported CRS
+    if (!CRSMiddleware.SUPPORTED_INPUT_CRS.includes(inputCRS)) {
+      return {
+        valid: false,
+        status: 400,
+        body: {
+          success: false,
+          error: 'UNSUPPORTED_CRS',
+          message: `CRS '${inputCRS}' is not supported. Supported CRS: ${CRSMiddleware.SUPPORTED_INPUT_CRS.join(', ')}`,
+          supportedCRS: CRSMiddleware.SUPPORTED_INPUT_CRS,
+          suggestion: 'Please provide coordinates in EPSG:32718 (UTM 18S) for Chancay region'
+        }
+      };
+    }
+
+    // 3. Transform to target CRS if needed
+    let transformedVertices = geometry.vertices;
+    let wasTransformed = false;
+
+    if (inputCRS !== CRSMiddleware.TARGET_CRS) {
+      if (!options.allowReprojection) {
+        return {
+          valid: false,
+          status: 400,
+          body: {
+            success: false,
+            error: 'CRS_MISMATCH',
+            message: `Input CRS '${inputCRS}' does not match required CRS '${CRSMiddleware.TARGET_CRS}'. Reprojection is not allowed.`,
+            required: CRSMiddleware.TARGET_CRS,
+            received: inputCRS
+          }
+        };
+      }
+
+      try {
+        transformedVertices = CRSMiddleware.reprojectVertices(geometry.vertices, inputCRS, CRSMiddleware.TARGET_CRS);
+        wasTransformed = true;
+
+        log(`🔄 Reprojected geometry: ${inputCRS} → ${CRSMiddleware.TARGET_CRS}`);
+        log(`   First vertex: ${geometry.vertices[0]} → ${transformedVertices[0]}`);
+      } catch (reprojectionError) {
+        return {
+          valid: false,
+          status: 400,
+          body: {
+            success: false,
+            error: 'REPROJECTION_FAILED',
+            message: `Failed to reproject from ${inputCRS} to ${CRSMiddleware.TARGET_CRS}`,
+            details: reprojectionError instanceof Error ? reprojectionError.message : 'Unknown reprojection error'
+          }
+        };
+      }
+    }
+
+    // 4. Validate AOI bounds for Chancay region
+    if (options.enforceChancayAOI) {
+      const aoi = CRSMiddleware.validateChancayAOI(transformedVertices);
+      if (!aoi.isValid) {
+        return {
+          valid: false,
+          status: 400,
+          body: {
+            success: false,
+            error: 'OUTSIDE_AOI',
+            message: 'Geometry is outside the Chancay Area of Interest',
+            details: {
+              chancayBounds: CHANCAY_AOI_UTM18S,
+              geometryBounds: aoi.geometryBounds,
+              verticesOutside: aoi.verticesOutside,
+              crs: CRSMiddleware.TARGET_CRS
+            },
+            suggestion: 'Ensure coordinates are within Chancay region bounds'
+          }
+        };
+      }
+    }
+
+    log('✅ CRS validation completed successfully');
+    return {
+      valid: true,
+      geometry: {
+        ...geometry,
+        vertices: transformedVertices,
+        crs: CRSMiddleware.TARGET_CRS,
+        transformation: wasTransformed ? {
+          from: inputCRS,
+          to: CRSMiddleware.TARGET_CRS,
+          transformedAt: new Date().toISOString()
+        } : undefined
+      }
+    };
+  }
+
   /**
    * Detect CRS from vertex coordinate ranges
    */
@@ -3,13 +3,35 @@ import cors from "cors";
 import helmet from "helmet";
 import morgan from "morgan";
 import dotenv from "dotenv";
-import { IModelHost, SnapshotDb, StandaloneDb } from "@itwin/core-backend";
+import { GeometricElement3d, IModelHost, PhysicalElement, SnapshotDb, StandaloneDb } from "@itwin/core-backend";
 import { ElementProps, GeometryStreamBuilder, GeometryStreamProps, IModelError, Code, PhysicalElementProps, ElementAspectProps } from "@itwin/core-common";
 import { Point3d, YawPitchRollAngles, Transform, Range3d, Point2d } from "@itwin/core-geometry";
 import { SchemaContext, Schema } from "@itwin/ecschema-metadata";
 import { z } from "zod";
 import * as path from "path";
+import { randomUUID } from "crypto";
 import { CRSMiddleware } from "./middleware/crs-middleware";
+import { ChangesetHistory, ChangesetHistoryError } from "./services/changeset-history";
+import { ScenarioContainers, UrbanHierarchy } from "./services/urban-hierarchy";
+import { IModelRegistry, IModelRegistryError } from "./services/imodel-registry";
+import { KeyedLock } from "./utils/keyed-lock";
+import { BulkFeatureError, BulkFeatures, FeatureReport, ParsedFeature, PreparedFeature } from "./services/bulk-features";
+import {
+  RulesEngine,
+  RuleProgram,
+  RuleProgramSchema,
+  LegacyRuleProgramSchema,
+  COMMON_CRS,
+  legacyContext,
+  legacyRulesToProgram,
+  migrateProgram,
+  MigrationReport,
+  RuleProgramVersionError,
+  SimpleGeometry,
+  describeMeshIssues,
+  repairMesh,
+  validateMesh
+} from "@itwin-dt/rules-cga-lite";
 
 // Load environment variables
 dotenv.config();
@@ -24,15 +46,66 @@ app.use(morgan("combined"));
 app.use(express.json({ limit: "10mb" }));
 
 // Validation schemas
+const SolidGeometrySchema = z.object({
+  vertices: z.array(z.array(z.number())),
+  faces: z.array(z.array(z.number())).optional(),
+  faceHoles: z.record(z.array(z.array(z.number()))).optional(),
+  attributes: z.record(z.any()).optional()
+});
+
+// Lot a solid stands on; it becomes the solid's parent and is created when missing
+const LotSchema = z.object({
+  lotId: z.string(),
+  blockId: z.string().optional(),
+  zoneType: z.string().optional(),
+  vertices: z.array(z.array(z.number())).optional()
+});
+
 const InsertSolidSchema = z.object({
   iModelId: z.string(),
-  geometry: z.object({
-    vertices: z.array(z.array(z.number())),
-    faces: z.array(z.array(z.number())).optional(),
-    attributes: z.record(z.any()).optional()
-  }),
-  categoryId: z.string().optional(),
-  modelId: z.string().optional()
+  geometry: SolidGeometrySchema,
+  categoryId: z.string().optional(), // Defaults to the scenario's spatial category
+  modelId: z.string().optional(),    // Defaults to the scenario's physical model
+  scenarioName: z.string().optional(),
+  lot: LotSchema.optional(),
+  repair: z.boolean().optional() // Fix flipped, degenerate and open faces before inserting
+});
+
+// Only the fields given are changed; a new geometry recomputes the urban metrics
+const UpdateElementSchema = z.object({
+  iModelId: z.string(),
+  elementId: z.string(),
+  geometry: SolidGeometrySchema.optional(),
+  userLabel: z.string().optional(),
+  lot: LotSchema.optional(), // Lot of the element's scenario to move the element to
+  repair: z.boolean().optional()
+});
+
+const DeleteElementsSchema = z.object({
+  iModelId: z.string(),
+  elementIds: z.array(z.string()).min(1)
+});
+
+const QueryElementsSchema = z.object({
+  iModelId: z.string(),
+  scenarioName: z.string().optional(),
+  lotId: z.string().optional(),
+  blockId: z.string().optional()
+});
+
+// Query of /elements/bulkInsert; the body is a GeoJSON FeatureCollection or NDJSON features
+const BulkInsertSchema = z.object({
+  iModelId: z.string(),
+  mode: z.enum(["atomic", "skip"]).default("atomic"), // All features or none, or skip the invalid ones
+  scenarioName: z.string().optional(),
+  crs: z.string().optional() // CRS of features that name none; detected when omitted
+});
+
+// The id names the briefcase file; a UUID is generated when none is given
+const CreateIModelSchema = z.object({
+  iModelId: z.string().optional(),
+  name: z.string().min(1),
+  description: z.string().optional()
 });
 
 const CreateVersionSchema = z.object({
@@ -46,28 +119,30 @@ const EnableChangeTrackingSchema = z.object({
   iTwinId: z.string()
 });
 
+// Each end is a changeset id, a Named Version id or name, or "" for the state before the first changeset
 const CompareVersionsSchema = z.object({
   iModelId: z.string(),
   startChangesetId: z.string(),
   endChangesetId: z.string()
 });
 
+const ListVersionsSchema = z.object({
+  iModelId: z.string()
+});
+
 const ApplyRulesSchema = z.object({
   iModelId: z.string(),
   targetLots: z.array(z.object({
     lotId: z.string(),
+    blockId: z.string().optional(),
+    zoneType: z.string().optional(),
     polygon: z.object({
       vertices: z.array(z.array(z.number())),
       attributes: z.record(z.any()).optional()
     })
   })),
-  ruleProgram: z.object({
-    name: z.string(),
-    rules: z.array(z.object({
-      operator: z.enum(['extrude', 'offset', 'setback', 'split', 'repeat', 'roof']),
-      parameters: z.record(z.any())
-    }))
-  }),
+  // A rules-cga-lite program, or the legacy operator + parameters format
+  ruleProgram: z.union([RuleProgramSchema, LegacyRuleProgramSchema]),
   scenarioName: z.string().optional()
 });
 
@@ -252,7 +327,7 @@ class UrbanMetricsCalculator {
   static createAspectProps(elementId: string, metrics: UrbanMetrics): any {
     return {
       classFullName: "Urban:UrbanMetricsAspect",
-      element: { id: elementId },
+      element: { id: elementId, relClassName: "Urban:ElementOwnsUrbanMetrics" },
       footprintArea: metrics.footprintArea,
       grossFloorArea: metrics.grossFloorArea,
       floors: metrics.floors,
@@ -264,52 +339,145 @@ class UrbanMetricsCalculator {
 }
 
 // Global iModel session management for v5.x
+interface IModelSession {
+  iModel: StandaloneDb;
+  history: ChangesetHistory; // Local changesets and Named Versions
+  lastUsed: number;
+}
+
+// Sessions kept open at once, and how long one may sit idle before it is closed
+const MAX_OPEN_IMODELS = Number(process.env.IMODEL_MAX_OPEN) || 8;
+const IMODEL_IDLE_TIMEOUT_MS = Number(process.env.IMODEL_IDLE_TIMEOUT_MS) || 10 * 60 * 1000;
+
+/**
+ * Opens iModels from the registry on first use and keeps them open while they are used.
+ * Operations on one iModel run one at a time in arrival order, so parallel requests never
+ * write to the same StandaloneDb together. Beyond MAX_OPEN_IMODELS the least recently
+ * used idle session is closed, and sessions idle longer than IMODEL_IDLE_TIMEOUT_MS are
+ * closed by a periodic sweep.
+ */
 class IModelSessionManager {
-  private static openModels = new Map<string, StandaloneDb>();
+  private static sessions = new Map<string, IModelSession>(); // Least recently used first
+  private static locks = new KeyedLock();
+  private static sweepTimer?: NodeJS.Timeout;
 
   static async withIModel<T>(
     iModelId: string,
-    operation: (iModel: StandaloneDb) => Promise<T>
+    operation: (iModel: StandaloneDb, history: ChangesetHistory) => Promise<T>
   ): Promise<T> {
     try {
-      let iModel = this.openModels.get(iModelId);
-      
-      if (!iModel) {
-        // In a real implementation, you would open the iModel using:
-        // - Briefcase API for read-write access
-        // - Checkpoint API for read access
-        // For this MVP, we'll simulate the process using StandaloneDb
-        
-        const iModelPath = process.env.IMODEL_LOCAL_PATH || "./sample.bim";
-        
+      return await this.locks.run(iModelId, async () => {
+        const session = await this.open(iModelId);
         try {
-          // Use StandaloneDb for v5.x compatibility
-          iModel = StandaloneDb.openFile(iModelPath);
-        } catch (error) {
-          console.warn("Failed to open iModel, creating simulation:", error);
-          // For demo purposes, we'll continue with simulation
-          throw new IModelError(-1, `iModel not found: ${iModelPath}. Using simulation mode.`);
+          return await operation(session.iModel, session.history);
+        } finally {
+          session.lastUsed = Date.now();
         }
-        
-        this.openModels.set(iModelId, iModel);
-      }
-
-      return await operation(iModel);
+      });
     } catch (error) {
+      if (error instanceof ChangesetHistoryError || error instanceof IModelRegistryError) {
+        throw error; // Keeps its status for the route
+      }
       console.error("Error in iModel operation:", error);
       throw new IModelError(-1, `iModel operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Create an iModel in the registry (see IModelRegistry.create) and open a session on it
+   */
+  static async createIModel(iModelId: string, name: string, description?: string) {
+    return this.locks.run(iModelId, async () => {
+      const session = this.register(iModelId, await IModelRegistry.create(iModelId, name, description));
+      return {
+        iModelId,
+        name: session.iModel.name,
+        filePath: session.iModel.pathName,
+        urbanSchemaVersion: session.iModel.querySchemaVersion("Urban")
+      };
+    });
+  }
+
+  /**
+   * Ids of the iModels open right now, least recently used first
+   */
+  static openIModelIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
   static closeAll() {
-    for (const [id, iModel] of this.openModels) {
-      try {
-        iModel.close();
-      } catch (error) {
-        console.error(`Error closing iModel ${id}:`, error);
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    for (const id of [...this.sessions.keys()]) {
+      this.close(id);
+    }
+  }
+
+  /**
+   * Session of an iModel, opened from its briefcase file when it is not open yet
+   */
+  private static async open(iModelId: string): Promise<IModelSession> {
+    const session = this.sessions.get(iModelId);
+    if (session) {
+      // Move to the most recently used end
+      this.sessions.delete(iModelId);
+      this.sessions.set(iModelId, session);
+      return session;
+    }
+
+    const iModel = StandaloneDb.openFile(IModelRegistry.resolve(iModelId));
+    try {
+      await UrbanHierarchy.importSchema(iModel);
+    } catch (error) {
+      iModel.close();
+      throw error;
+    }
+    return this.register(iModelId, iModel);
+  }
+
+  private static register(iModelId: string, iModel: StandaloneDb): IModelSession {
+    const session: IModelSession = { iModel, history: ChangesetHistory.attach(iModel), lastUsed: Date.now() };
+    this.sessions.set(iModelId, session);
+    console.log(`Opened iModel ${iModelId} (${this.sessions.size} open)`);
+
+    // Make room, closing the least recently used sessions nobody is waiting on
+    for (const id of this.sessions.keys()) {
+      if (this.sessions.size <= MAX_OPEN_IMODELS) {
+        break;
       }
+      if (id !== iModelId && !this.locks.isBusy(id)) {
+        this.close(id);
+      }
+    }
+
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.closeIdle(), Math.min(IMODEL_IDLE_TIMEOUT_MS, 60 * 1000));
+      this.sweepTimer.unref();
+    }
+    return session;
+  }
+
+  private static closeIdle() {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (now - session.lastUsed > IMODEL_IDLE_TIMEOUT_MS && !this.locks.isBusy(id)) {
+        this.close(id);
+      }
+    }
+  }
+
+  private static close(iModelId: string) {
+    const session = this.sessions.get(iModelId);
+    this.sessions.delete(iModelId);
+    try {
+      session?.history.detach();
+      session?.iModel.close();
+      console.log(`Closed iModel ${iModelId}`);
+    } catch (error) {
+      console.error(`Error closing iModel ${iModelId}:`, error);
     }
-    this.openModels.clear();
   }
 }
 
@@ -329,21 +497,37 @@ app.post("/elements/insertSolid",
   }),
   async (req, res) => {
   try {
-    const { iModelId, geometry, categoryId, modelId } = InsertSolidSchema.parse(req.body);
+    const { iModelId, geometry: input, categoryId, modelId, scenarioName, lot, repair } = InsertSolidSchema.parse(req.body);
+
+    // Only watertight, outward-facing solids without degenerate or crossing faces are persisted
+    const solid: SimpleGeometry = { type: "solid", ...input, attributes: input.attributes || {} };
+    const { geometry, repaired, validation } = repair
+      ? repairMesh(solid)
+      : { geometry: solid, repaired: [], validation: validateMesh(solid) };
+    if (!validation.valid) {
+      return res.status(422).json({
+        success: false,
+        error: `Invalid solid: ${describeMeshIssues(validation.issues)}`,
+        issues: validation.issues
+      });
+    }
 
     const result = await IModelSessionManager.withIModel(iModelId, async (iModel) => {
       // Create geometry stream from CGA-generated vertices/faces
       const geometryStream = createGeometryStreamFromCGA(geometry);
       
-      // Get the appropriate model and category (v5.x compatible)
-      const targetModelId = modelId || iModel.models.getModel("0x1").id; // Use dictionary model as fallback
-      const targetCategoryId = categoryId || getDefaultSpatialCategoryId(iModel);
+      // Scenario model and category unless the request names others
+      const scenario = UrbanHierarchy.scenarioContainers(iModel, scenarioName);
+      const targetModelId = modelId || scenario.modelId;
+      const targetCategoryId = categoryId || scenario.categoryId;
+      const lotElementId = lot ? UrbanHierarchy.ensureLot(iModel, scenario, lot) : undefined;
       
       // Create element properties with proper BIS structure and complete required properties
       const elementProps: PhysicalElementProps = {
         classFullName: "Generic:GenericPhysicalObject", // or BuildingSpatial.Building for proper schema
         model: targetModelId,
         category: targetCategoryId,
+        parent: lotElementId ? UrbanHierarchy.buildingParent(lotElementId) : undefined,
         code: Code.createEmpty(), // Use proper code generation for production
         userLabel: `CGA Generated Building - ${new Date().toISOString()}`,
         geom: geometryStream,
@@ -393,12 +577,16 @@ app.post("/elements/insertSolid",
 
       return {
         elementId,
+        lotElementId,
+        modelId: targetModelId,
+        categoryId: targetCategoryId,
         success: true,
         message: "Solid geometry inserted successfully",
         changesetDescription,
         geometryInfo: {
           vertices: geometry.vertices.length,
           faces: geometry.faces?.length || 0,
+          repaired,
           volume: calculateGeometryVolume(geometry),
           boundingBox: calculateBoundingBox(geometry.vertices)
         }
@@ -407,6 +595,9 @@ app.post("/elements/insertSolid",
 
     res.json(result);
   } catch (error) {
+    if (error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error("Error inserting solid:", error);
     res.status(500).json({
       success: false,
@@ -415,6 +606,405 @@ app.post("/elements/insertSolid",
   }
 });
 
+/**
+ * POST /elements/update
+ * Change the geometry, label or lot of a building. A new geometry goes through the same
+ * CRS and solid checks as /elements/insertSolid and recomputes the UrbanMetricsAspect.
+ */
+app.post("/elements/update",
+  CRSMiddleware.validate({
+    enforceChancayAOI: true,
+    allowReprojection: true,
+    logTransformations: true
+  }),
+  async (req, res) => {
+  try {
+    const { iModelId, elementId, geometry: input, userLabel, lot, repair } = UpdateElementSchema.parse(req.body);
+    if (!input && userLabel === undefined && !lot) {
+      return res.status(400).json({ success: false, error: "Nothing to update: give a geometry, userLabel or lot" });
+    }
+
+    let geometry: SimpleGeometry | undefined;
+    let repaired: unknown[] = [];
+    if (input) {
+      const solid: SimpleGeometry = { type: "solid", ...input, attributes: input.attributes || {} };
+      const checked = repair
+        ? repairMesh(solid)
+        : { geometry: solid, repaired: [], validation: validateMesh(solid) };
+      if (!checked.validation.valid) {
+        return res.status(422).json({
+          success: false,
+          error: `Invalid solid: ${describeMeshIssues(checked.validation.issues)}`,
+          issues: checked.validation.issues
+        });
+      }
+      geometry = checked.geometry;
+      repaired = checked.repaired;
+    }
+
+    const result = await IModelSessionManager.withIModel(iModelId, async (iModel) => {
+      const element = iModel.elements.tryGetElement<PhysicalElement>(elementId);
+      if (!(element instanceof PhysicalElement)) {
+        return undefined;
+      }
+
+      const changes: Partial<PhysicalElementProps> = { id: elementId, classFullName: element.classFullName };
+      if (geometry) {
+        changes.geom = createGeometryStreamFromCGA(geometry);
+      }
+      if (userLabel !== undefined) {
+        changes.userLabel = userLabel;
+      }
+      let lotElementId = element.parent?.id;
+      if (lot) {
+        // Lots are looked up in the element's own scenario
+        lotElementId = UrbanHierarchy.ensureLot(iModel, { modelId: element.model, categoryId: element.category }, lot);
+        changes.parent = UrbanHierarchy.buildingParent(lotElementId);
+      }
+      iModel.elements.updateElement(changes);
+
+      // A new geometry replaces the urban metrics
+      let metrics;
+      if (geometry) {
+        metrics = UrbanMetricsCalculator.calculateMetrics(geometry);
+        const aspectProps = UrbanMetricsCalculator.createAspectProps(elementId, metrics);
+        const [existing] = iModel.elements.getAspects(elementId, "Urban:UrbanMetricsAspect");
+        if (existing) {
+          iModel.elements.updateAspect({ ...aspectProps, id: existing.id });
+        } else {
+          iModel.elements.insertAspect(aspectProps);
+        }
+      }
+
+      const changesetDescription = `Update element ${elementId} - ${new Date().toISOString()}`;
+      iModel.saveChanges(changesetDescription);
+
+      return {
+        success: true,
+        elementId,
+        lotElementId,
+        updated: Object.keys(changes).filter(key => key !== "id" && key !== "classFullName"),
+        metrics,
+        repaired,
+        changesetDescription
+      };
+    });
+
+    if (!result) {
+      return res.status(404).json({ success: false, error: `Physical element not found: ${elementId}` });
+    }
+    res.json(result);
+  } catch (error) {
+    if (error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error("Error updating element:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Result of /elements/delete: the unknown ids when nothing was deleted, else what was
+type DeleteElementsOutcome =
+  | { ok: false; missing: string[] }
+  | { ok: true; deleted: DeletedElement[]; changesetDescription: string };
+
+interface DeletedElement {
+  elementId: string;
+  aspectIds: string[];
+  children: string[]; // Deleted along with the element
+}
+
+/**
+ * POST /elements/delete
+ * Delete buildings, lots or blocks with their aspects in one changeset. Children go with
+ * their parent: deleting a lot deletes its buildings. Nothing is deleted if any id is unknown.
+ */
+app.post("/elements/delete", async (req, res) => {
+  try {
+    const { iModelId, elementIds } = DeleteElementsSchema.parse(req.body);
+
+    const result = await IModelSessionManager.withIModel(iModelId, async (iModel): Promise<DeleteElementsOutcome> => {
+      const missing = elementIds.filter(id => !(iModel.elements.tryGetElement(id) instanceof GeometricElement3d));
+      if (missing.length > 0) {
+        return { ok: false, missing };
+      }
+
+      const deleted: DeletedElement[] = [];
+      for (const elementId of new Set(elementIds)) {
+        // Already gone with a parent deleted earlier in this request
+        if (!iModel.elements.tryGetElementProps(elementId)) {
+          continue;
+        }
+        const children = iModel.elements.queryChildren(elementId);
+        const aspectIds = iModel.elements.getAspects(elementId).map(aspect => aspect.id);
+        aspectIds.forEach(aspectId => iModel.elements.deleteAspect(aspectId));
+        iModel.elements.deleteElement(elementId);
+        deleted.push({ elementId, aspectIds, children });
+      }
+
+      const changesetDescription = `Delete ${deleted.length} elements - ${new Date().toISOString()}`;
+      iModel.saveChanges(changesetDescription);
+      return { ok: true, deleted, changesetDescription };
+    });
+
+    if (!result.ok) {
+      return res.status(404).json({ success: false, error: `Elements not found: ${result.missing.join(", ")}`, missing: result.missing });
+    }
+    res.json({ success: true, deleted: result.deleted, changesetDescription: result.changesetDescription });
+  } catch (error) {
+    if (error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error("Error deleting elements:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+/**
+ * GET /elements?iModelId=...&scenarioName=...&lotId=...&blockId=...
+ * Buildings of a scenario (the default one when none is named), optionally only those on
+ * one lot or block, with their lot and urban metrics
+ */
+app.get("/elements", async (req, res) => {
+  try {
+    const { iModelId, scenarioName, lotId, blockId } = QueryElementsSchema.parse(req.query);
+
+    const result = await IModelSessionManager.withIModel(iModelId, async (iModel) => {
+      // A scenario nothing was generated in has no model yet; reading must not create one
+      const scenario = UrbanHierarchy.findScenario(iModel, scenarioName);
+      const elements = scenario ? await UrbanHierarchy.queryBuildings(iModel, scenario, { lotId, blockId }) : [];
+      return {
+        success: true,
+        scenarioModelId: scenario?.modelId,
+        count: elements.length,
+        elements
+      };
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error("Error querying elements:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Result of the write phase of /elements/bulkInsert
+interface BulkInsertOutcome {
+  committed: boolean;
+  error?: string; // Why an atomic batch was rolled back
+  changesetDescription?: string;
+  scenarioModelId?: string;
+  categoryId?: string;
+}
+
+/**
+ * POST /elements/bulkInsert
+ * Insert many building footprints in one transaction. The body is a GeoJSON FeatureCollection
+ * (application/json or application/geo+json) or one Feature per line (application/x-ndjson,
+ * read as a stream). Each Polygon feature is validated like /elements/insertSolid input
+ * (CRS, Chancay AOI, valid solid) and extruded to properties.height. In "atomic" mode one
+ * bad feature rejects the whole batch; in "skip" mode bad features are reported and the rest
+ * are inserted. Either way the batch is saved as a single changeset, or not at all.
+ */
+app.post("/elements/bulkInsert",
+  express.json({ limit: "10mb", type: "application/geo+json" }),
+  async (req, res) => {
+  try {
+    const { iModelId, mode, scenarioName, crs } = BulkInsertSchema.parse(req.query);
+
+    let parsed: ParsedFeature[];
+    let defaultCRS = crs;
+    if (req.is("application/x-ndjson")) {
+      parsed = await BulkFeatures.fromNdjson(req);
+    } else {
+      const collection = BulkFeatures.fromGeoJson(req.body);
+      parsed = collection.features;
+      defaultCRS = crs || collection.crs;
+    }
+
+    // Validate and extrude every feature before touching the iModel
+    const engine = new RulesEngine();
+    const reports: FeatureReport[] = [];
+    const prepared: PreparedFeature[] = [];
+    for (const feature of parsed) {
+      const result = await BulkFeatures.prepare(feature, engine, defaultCRS);
+      if (result.prepared) {
+        prepared.push(result.prepared);
+      } else {
+        reports[feature.index] = mode === "skip" ? { ...result.report, status: "skipped" } : result.report;
+      }
+    }
+
+    const summarize = () => ({
+      mode,
+      total: parsed.length,
+      inserted: reports.filter(r => r.status === "inserted").length,
+      skipped: reports.filter(r => r.status === "skipped").length,
+      failed: reports.filter(r => r.status === "failed").length,
+      features: reports
+    });
+
+    if (mode === "atomic" && prepared.length < parsed.length) {
+      for (const feature of prepared) {
+        reports[feature.index] = { index: feature.index, id: feature.id, status: "rolledBack" };
+      }
+      return res.status(422).json({
+        success: false,
+        error: `${parsed.length - prepared.length} of ${parsed.length} features are invalid; nothing was inserted`,
+        ...summarize()
+      });
+    }
+
+    const outcome = await IModelSessionManager.withIModel(iModelId, async (iModel): Promise<BulkInsertOutcome> => {
+      const scenario = UrbanHierarchy.scenarioContainers(iModel, scenarioName);
+      const inserted: FeatureReport[] = [];
+
+      for (const feature of prepared) {
+        let result: BulkFeatureInsertion;
+        let undone = true;
+        try {
+          result = insertBulkFeature(iModel, scenario, feature);
+        } catch (undoError) {
+          // The feature's writes could not be taken back: drop the whole batch in either mode
+          result = { ok: false, error: `Could not undo a failed insert: ${undoError instanceof Error ? undoError.message : "Unknown error"}` };
+          undone = false;
+        }
+
+        if (result.ok) {
+          const report: FeatureReport = { index: feature.index, id: feature.id, status: "inserted", elementId: result.elementId, lotElementId: result.lotElementId };
+          reports[feature.index] = report;
+          inserted.push(report);
+          continue;
+        }
+        if (mode === "skip" && undone) {
+          reports[feature.index] = { index: feature.index, id: feature.id, status: "skipped", error: result.error };
+          continue;
+        }
+
+        // All or nothing: drop everything this batch wrote
+        iModel.abandonChanges();
+        for (const report of inserted) {
+          reports[report.index] = { index: report.index, id: report.id, status: "rolledBack" };
+        }
+        reports[feature.index] = { index: feature.index, id: feature.id, status: "failed", error: result.error };
+        for (const pending of prepared.filter(candidate => !reports[candidate.index])) {
+          reports[pending.index] = { index: pending.index, id: pending.id, status: "rolledBack" };
+        }
+        return { committed: false, error: `Feature ${feature.index} could not be inserted: ${result.error}` };
+      }
+
+      if (inserted.length === 0) {
+        iModel.abandonChanges();
+        return { committed: false };
+      }
+
+      // One changeset for the whole batch
+      const changesetDescription = `Bulk insert of ${inserted.length} buildings - ${new Date().toISOString()}`;
+      try {
+        iModel.saveChanges(changesetDescription);
+      } catch (saveError) {
+        iModel.abandonChanges();
+        for (const report of inserted) {
+          reports[report.index] = { index: report.index, id: report.id, status: "rolledBack" };
+        }
+        throw saveError;
+      }
+      console.log(`Bulk insert saved ${inserted.length}/${parsed.length} features: "${changesetDescription}"`);
+
+      return {
+        committed: true,
+        changesetDescription,
+        scenarioModelId: scenario.modelId,
+        categoryId: scenario.categoryId
+      };
+    });
+
+    if (!outcome.committed && outcome.error) {
+      return res.status(422).json({ success: false, error: outcome.error, ...summarize() });
+    }
+    res.json({ success: true, ...outcome, ...summarize() });
+  } catch (error) {
+    if (error instanceof BulkFeatureError || error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error("Error in bulk insert:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Outcome of inserting one bulk feature; a failed feature has left nothing behind
+type BulkFeatureInsertion =
+  | { ok: true; elementId: string; lotElementId?: string }
+  | { ok: false; error: string };
+
+/**
+ * Insert one prepared bulk feature: its lot and block when missing, the building and its
+ * UrbanMetricsAspect. When a write fails, whatever this feature inserted is deleted again,
+ * so the rest of the batch can still be saved. Throws only if that cleanup fails.
+ */
+function insertBulkFeature(iModel: StandaloneDb, scenario: ScenarioContainers, feature: PreparedFeature): BulkFeatureInsertion {
+  const { lot } = feature;
+  const lotExisted = !lot || UrbanHierarchy.findLot(iModel, scenario, lot.lotId) !== undefined;
+  const blockExisted = lot?.blockId === undefined || UrbanHierarchy.findBlock(iModel, scenario, lot.blockId) !== undefined;
+  let elementId: string | undefined;
+
+  try {
+    const lotElementId = lot ? UrbanHierarchy.ensureLot(iModel, scenario, lot) : undefined;
+    const elementProps: PhysicalElementProps = {
+      classFullName: "Generic:GenericPhysicalObject",
+      model: scenario.modelId,
+      category: scenario.categoryId,
+      parent: lotElementId ? UrbanHierarchy.buildingParent(lotElementId) : undefined,
+      code: Code.createEmpty(),
+      userLabel: feature.label,
+      geom: createGeometryStreamFromCGA(feature.geometry),
+      placement: {
+        origin: Point3d.createZero(),
+        angles: YawPitchRollAngles.createDegrees(0, 0, 0)
+      }
+    };
+    elementId = iModel.elements.insertElement(elementProps);
+
+    const urbanMetrics = UrbanMetricsCalculator.calculateMetrics({
+      vertices: feature.footprint,
+      attributes: feature.geometry.attributes
+    });
+    iModel.elements.insertAspect(UrbanMetricsCalculator.createAspectProps(elementId, urbanMetrics));
+
+    return { ok: true, elementId, lotElementId };
+  } catch (insertError) {
+    console.error(`Failed to insert feature ${feature.index}, removing its elements:`, insertError);
+
+    // Building first, then the lot and block created for it (deleting an element takes its aspects)
+    const createdIds = [
+      elementId,
+      !lotExisted ? UrbanHierarchy.findLot(iModel, scenario, lot!.lotId) : undefined,
+      !blockExisted ? UrbanHierarchy.findBlock(iModel, scenario, lot!.blockId!) : undefined
+    ];
+    for (const id of createdIds) {
+      if (id && iModel.elements.tryGetElementProps(id)) {
+        iModel.elements.deleteElement(id);
+      }
+    }
+    return { ok: false, error: insertError instanceof Error ? insertError.message : "Unknown error" };
+  }
+}
+
 /**
  * Create GeometryStream from CGA-generated geometry
  */
@@ -447,15 +1037,6 @@ function createGeometryStreamFromCGA(geometry: any): GeometryStreamProps {
   return builder.geometryStream;
 }
 
-/**
- * Get default spatial category for physical objects
- */
-function getDefaultSpatialCategoryId(iModel: StandaloneDb): string {
-  // In production, query for appropriate category or create one
-  // For now, return a default spatial category ID
-  return "0x17"; // Common default spatial category
-}
-
 /**
  * Calculate geometry volume (approximate)
  */
@@ -546,27 +1127,20 @@ app.post("/tracking/enable", async (req, res) => {
 
 /**
  * GET /comparison
- * Compare Named Versions using Changed Elements API
+ * Compare two changesets or Named Versions of the local changeset history
  * 
- * Pattern: Returns changedElementIds for UI highlighting in A/B scenarios
- * @see https://developer.bentley.com/apis/changed-elements/operations/get-comparison
+ * Returns every element inserted, updated or deleted between them, with the properties
+ * that changed, and changedElementIds for UI highlighting in A/B scenarios.
+ * Comparing a later version with an earlier one gives the changes that undo it.
  */
 app.get("/comparison", async (req, res) => {
   try {
     const { iModelId, startChangesetId, endChangesetId } = CompareVersionsSchema.parse(req.query);
 
-    // In production, this would call Changed Elements API:
-    // GET https://api.bentley.com/changed-elements/comparison
-    // Params: { iModelId, startChangesetId, endChangesetId }
-    
-    console.log(`Comparing versions: ${startChangesetId} -> ${endChangesetId}`);
-    
-    // Simulate realistic changed elements response
-    const changedElements = [
-      { elementId: "0x123", changeType: "insert", elementType: "Building" },
-      { elementId: "0x124", changeType: "update", elementType: "Building" },
-      { elementId: "0x125", changeType: "delete", elementType: "Building" }
-    ];
+    console.log(`Comparing versions: ${startChangesetId || "(initial)"} -> ${endChangesetId || "(initial)"}`);
+
+    const changedElements = await IModelSessionManager.withIModel(iModelId, async (_iModel, history) =>
+      history.compare(startChangesetId, endChangesetId));
 
     const result = {
       success: true,
@@ -575,7 +1149,12 @@ app.get("/comparison", async (req, res) => {
         startChangesetId,
         endChangesetId,
         changedElementIds: changedElements.map(e => e.elementId),
-        changeDetails: changedElements,
+        changeDetails: changedElements.map(e => ({
+          elementId: e.elementId,
+          changeType: e.changeType,
+          elementType: e.classFullName,
+          propertyChanges: e.propertyChanges
+        })),
         summary: {
           inserted: changedElements.filter(e => e.changeType === "insert").length,
           updated: changedElements.filter(e => e.changeType === "update").length,
@@ -595,6 +1174,9 @@ app.get("/comparison", async (req, res) => {
 
     res.json(result);
   } catch (error) {
+    if (error instanceof ChangesetHistoryError || error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error("Error comparing versions:", error);
     res.status(500).json({
       success: false,
@@ -602,67 +1184,72 @@ app.get("/comparison", async (req, res) => {
     });
   }
 });
+
+/**
+ * GET /versions
+ * List the recorded changesets and Named Versions of an iModel, oldest first
+ */
+app.get("/versions", async (req, res) => {
+  try {
+    const { iModelId } = ListVersionsSchema.parse(req.query);
+
+    const result = await IModelSessionManager.withIModel(iModelId, async (_iModel, history) => ({
+      success: true,
+      iModelId,
+      changesets: history.changesets.map(({ changes, ...changeset }) => ({ ...changeset, elementChanges: changes.length })),
+      versions: history.versions
+    }));
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error("Error listing versions:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+/**
+ * POST /versions/create
+ * Save pending changes and create a Named Version at the latest local changeset
+ */
 app.post("/versions/create", async (req, res) => {
   try {
     const { iModelId, versionName, description } = CreateVersionSchema.parse(req.body);
 
-    const result = await IModelSessionManager.withIModel(iModelId, async (iModel) => {
-      // Real Named Version creation process:
-      // 1. Ensure all changes are saved to the local briefcase
-      // 2. Push changeset to iModelHub 
-      // 3. Create Named Version pointing to the changeset
-      
-      try {
-        // Save any pending changes (v5.x compatible)
-        if (iModel.txns && iModel.txns.hasUnsavedChanges) {
-          const changesetDescription = description || `Named Version: ${versionName}`;
-          iModel.saveChanges(changesetDescription);
-        }
-
-        // In a real implementation, push to iModelHub:
-        // const changesetIndex = await iModel.pushChanges({ 
-        //   description: changesetDescription,
-        //   authorId: getCurrentUserId() 
-        // });
-
-        // Create Named Version
-        // const namedVersion = await iModel.versions.create({
-        //   versionName,
-        //   description,
-        //   changesetIndex
-        // });
-
-        // For MVP, simulate the Named Version creation
-        const versionId = `${iModelId}_v${Date.now()}`;
-        const changesetId = `cs_${Date.now()}`;
-        
-        console.log(`Creating Named Version: ${versionName}`);
-        console.log(`  - Description: ${description}`);
-        console.log(`  - Version ID: ${versionId}`);
-        console.log(`  - Changeset ID: ${changesetId}`);
-
-        return {
-          versionId,
-          versionName,
-          description: description || `Scenario version: ${versionName}`,
-          changesetId,
-          createdAt: new Date().toISOString(),
-          success: true,
-          message: "Named Version created successfully",
-          iTwinPattern: {
-            briefcaseUpdated: true,
-            changesetPushed: true, // Would be true in production
-            namedVersionCreated: true
-          }
-        };
-      } catch (versionError) {
-        console.error('Error in Named Version creation:', versionError);
-        throw new Error(`Named Version creation failed: ${versionError instanceof Error ? versionError.message : 'Unknown error'}`);
+    const result = await IModelSessionManager.withIModel(iModelId, async (iModel, history) => {
+      // Saving records the pending changes as a changeset, which the version then points at
+      if (iModel.txns.hasUnsavedChanges) {
+        iModel.saveChanges(description || `Named Version: ${versionName}`);
       }
+
+      const version = history.createNamedVersion(versionName, description || `Scenario version: ${versionName}`);
+
+      console.log(`Created Named Version: ${versionName}`);
+      console.log(`  - Version ID: ${version.id}`);
+      console.log(`  - Changeset: ${version.changesetId || "(initial)"} (#${version.changesetIndex})`);
+
+      return {
+        versionId: version.id,
+        versionName: version.name,
+        description: version.description,
+        changesetId: version.changesetId,
+        changesetIndex: version.changesetIndex,
+        createdAt: version.createdAt,
+        success: true,
+        message: "Named Version created successfully"
+      };
     });
 
     res.json(result);
   } catch (error) {
+    if (error instanceof ChangesetHistoryError || error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error("Error creating version:", error);
     res.status(500).json({
       success: false,
@@ -677,7 +1264,7 @@ app.post("/versions/create", async (req, res) => {
  * 
  * This endpoint demonstrates the complete CGA → BIS workflow:
  * 1. Apply CGA operators (extrude, offset, setback, split, repeat, roof) 
- * 2. Generate geometry using CGAOperatorsService
+ * 2. Generate geometry with the rules-cga-lite RulesEngine
  * 3. Create BIS elements with proper GeometryStream
  * 4. Insert elements using insertElement() + saveChanges() pattern
  * 5. Create Named Version for scenario tracking
@@ -686,20 +1273,38 @@ app.post("/scenarios/applyRules", async (req, res) => {
   try {
     const { iModelId, targetLots, ruleProgram, scenarioName } = ApplyRulesSchema.parse(req.body);
 
+    // Legacy rules are translated so the server runs the same engine as the browser preview
+    let program: RuleProgram = "operator" in (ruleProgram.rules[0] ?? {})
+      ? legacyRulesToProgram(ruleProgram.name, LegacyRuleProgramSchema.parse(ruleProgram).rules)
+      : RuleProgramSchema.parse(ruleProgram);
+    const engine = new RulesEngine();
+
+    // Programs saved for an older schema version are upgraded once for all lots
+    let migration: MigrationReport | undefined;
+    try {
+      const { program: current, ...report } = migrateProgram(program);
+      program = current;
+      migration = report.fromVersion !== report.toVersion ? report : undefined;
+    } catch (error) {
+      if (error instanceof RuleProgramVersionError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
+
     const result = await IModelSessionManager.withIModel(iModelId, async (iModel) => {
       const processedLots = [];
       let totalElementsCreated = 0;
       
-      // Import CGA operators service (would be imported at top in production)
-      // const { CGAOperatorsService } = await import('../../../src/services/CGAOperatorsService');
-      // const cgaService = CGAOperatorsService.getInstance();
+      // Each scenario has its own model and category; buildings are owned by their lot
+      const scenario = UrbanHierarchy.scenarioContainers(iModel, scenarioName);
       
       for (const lot of targetLots) {
         try {
-          console.log(`Processing lot ${lot.lotId} with ${ruleProgram.rules.length} CGA rules`);
+          console.log(`Processing lot ${lot.lotId} with ${program.rules.length} CGA rules`);
           
-          // Convert lot polygon to CGA format
-          const cgaGeometry = {
+          // Lots are in the service CRS, EPSG:32718 (UTM 18S)
+          const context = legacyContext({
             polygons: [{
               vertices: lot.polygon.vertices.map(v => [v[0], v[1], v[2] || 0] as [number, number, number])
             }],
@@ -708,60 +1313,66 @@ app.post("/scenarios/applyRules", async (req, res) => {
               category: 'Lot',
               ...lot.polygon.attributes
             }
-          };
+          }, COMMON_CRS.CHANCAY_UTM_WGS84);
 
-          // Apply CGA rule sequence (simulated for MVP)
-          // In production: const results = await cgaService.applyRuleSequence(cgaGeometry, ruleProgram.rules);
-          const simulatedResults = await simulateCGAOperations(cgaGeometry, ruleProgram.rules);
+          const execution = await engine.executeProgram(program, context);
+          if (!execution.success) {
+            throw new Error(execution.error || 'Rule execution failed');
+          }
           
-          // Create BIS elements for each geometry result
+          const lotElementId = UrbanHierarchy.ensureLot(iModel, scenario, {
+            lotId: lot.lotId,
+            blockId: lot.blockId,
+            zoneType: lot.zoneType,
+            vertices: lot.polygon.vertices
+          });
+          
+          // Create a BIS element for each terminal shape
           const lotElements = [];
-          for (const cgaResult of simulatedResults) {
-            if (cgaResult.success && cgaResult.geometry.polygons.length > 0) {
-              
-              // Convert CGA geometry to iTwin GeometryStream
-              const geometryStream = createGeometryStreamFromCGA(cgaResult.geometry);
-              
-              // Determine appropriate BIS class
-              const classFullName = getBISClassForCGAOperation(cgaResult.geometry.attributes.operation);
-              
-              // Create element properties with complete BIS compliance
-              const elementProps: PhysicalElementProps = {
-                classFullName,
-                model: iModel.models.getModel("0x1").id, // v5.x compatible
-                category: getDefaultSpatialCategoryId(iModel),
-                code: Code.createEmpty(),
-                userLabel: `${ruleProgram.name} - ${cgaResult.geometry.attributes.operation || 'Generated'} (Lot: ${lot.lotId})`,
-                geom: geometryStream,
-                placement: {
-                  origin: Point3d.createZero(),
-                  angles: YawPitchRollAngles.createDegrees(0, 0, 0)
-                },
-                // Add urban planning metadata as BIS properties (not JsonProperties)
-                ...getCGABISProperties(cgaResult.geometry.attributes)
-              };
-
-              // Insert element with proper BIS pattern
-              const elementId = iModel.elements.insertElement(elementProps);
-              
-              lotElements.push({
-                elementId,
-                operation: cgaResult.geometry.attributes.operation,
-                lotId: lot.lotId,
-                volume: cgaResult.geometry.attributes.volume || 0,
-                height: cgaResult.geometry.attributes.height || 0
-              });
-              
-              totalElementsCreated++;
-              console.log(`Created BIS element ${elementId} for ${cgaResult.geometry.attributes.operation} operation`);
-            }
+          for (const leaf of execution.leaves || []) {
+            // Convert engine geometry to iTwin GeometryStream
+            const geometryStream = createGeometryStreamFromCGA(leaf.geometry);
+            const attributes = { ...leaf.attributes, operation: leaf.name };
+            
+            // Create element properties with complete BIS compliance
+            const elementProps: PhysicalElementProps = {
+              classFullName: getBISClassForCGAOperation(attributes.operation),
+              model: scenario.modelId,
+              category: scenario.categoryId,
+              parent: UrbanHierarchy.buildingParent(lotElementId),
+              code: Code.createEmpty(),
+              geom: geometryStream,
+              placement: {
+                origin: Point3d.createZero(),
+                angles: YawPitchRollAngles.createDegrees(0, 0, 0)
+              },
+              // Add urban planning metadata as BIS properties (not JsonProperties)
+              ...getCGABISProperties(attributes),
+              userLabel: `${program.name} - ${leaf.name} (Lot: ${lot.lotId})`
+            };
+
+            // Insert element with proper BIS pattern
+            const elementId = iModel.elements.insertElement(elementProps);
+            
+            lotElements.push({
+              elementId,
+              shape: leaf.name,
+              lotId: lot.lotId,
+              volume: leaf.attributes.volume || 0,
+              height: leaf.attributes.height || 0
+            });
+            
+            totalElementsCreated++;
+            console.log(`Created BIS element ${elementId} for shape ${leaf.name}`);
           }
 
           processedLots.push({
             lotId: lot.lotId,
+            lotElementId,
             elementsCreated: lotElements.length,
             elements: lotElements,
-            rules: ruleProgram.rules.length,
+            rules: program.rules.length,
+            crsCode: execution.crsCode,
             success: true
           });
           
@@ -802,6 +1413,9 @@ app.post("/scenarios/applyRules", async (req, res) => {
         processedLots,
         totalElementsCreated,
         ruleProgram: ruleProgram.name,
+        ...(migration ? { migration } : {}),
+        scenarioModelId: scenario.modelId,
+        categoryId: scenario.categoryId,
         scenario: versionInfo,
         changesetDescription,
         bisCompliance: {
@@ -816,6 +1430,9 @@ app.post("/scenarios/applyRules", async (req, res) => {
 
     res.json(result);
   } catch (error) {
+    if (error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error("Error applying CGA rules:", error);
     res.status(500).json({
       success: false,
@@ -825,76 +1442,6 @@ app.post("/scenarios/applyRules", async (req, res) => {
   }
 });
 
-/**
- * Simulate CGA operations for MVP (replace with actual CGAOperatorsService in production)
- */
-async function simulateCGAOperations(geometry: any, rules: any[]): Promise<any[]> {
-  const results = [];
-  
-  for (const rule of rules) {
-    switch (rule.operator) {
-      case 'extrude':
-        results.push({
-          success: true,
-          geometry: {
-            polygons: geometry.polygons,
-            attributes: {
-              ...geometry.attributes,
-              operation: 'extrude',
-              height: rule.parameters.height || 25,
-              volume: calculatePolygonArea(geometry.polygons[0]) * (rule.parameters.height || 25)
-            }
-          },
-          message: `Extruded to ${rule.parameters.height || 25}m`
-        });
-        break;
-        
-      case 'setback':
-        results.push({
-          success: true,
-          geometry: {
-            polygons: geometry.polygons, // Simplified - would apply actual setback
-            attributes: {
-              ...geometry.attributes,
-              operation: 'setback',
-              setbacks: rule.parameters.setbacks || { all: 3 }
-            }
-          },
-          message: `Applied setbacks: ${JSON.stringify(rule.parameters.setbacks)}`
-        });
-        break;
-        
-      case 'roof':
-        results.push({
-          success: true,
-          geometry: {
-            polygons: [{ vertices: [[0, 0, rule.parameters.height || 3]] }], // Simplified roof
-            attributes: {
-              ...geometry.attributes,
-              operation: 'roof',
-              roofType: rule.parameters.type || 'flat',
-              height: rule.parameters.height || 3
-            }
-          },
-          message: `Generated ${rule.parameters.type || 'flat'} roof`
-        });
-        break;
-        
-      default:
-        results.push({
-          success: true,
-          geometry: {
-            ...geometry,
-            attributes: { ...geometry.attributes, operation: rule.operator }
-          },
-          message: `Applied ${rule.operator} operation`
-        });
-    }
-  }
-  
-  return results;
-}
-
 /**
  * Get appropriate BIS class for CGA-generated geometry
  */
@@ -936,10 +1483,54 @@ app.get("/health", (req, res) => {
     status: "ok",
     service: "imodel-edit-service",
     timestamp: new Date().toISOString(),
-    iTwinHostInitialized: !!IModelHost
+    iTwinHostInitialized: !!IModelHost,
+    openIModels: IModelSessionManager.openIModelIds().length
   });
 });
 
+/**
+ * GET /imodels
+ * iModels in the registry directory, and whether each is open
+ */
+app.get("/imodels", (req, res) => {
+  try {
+    const open = new Set(IModelSessionManager.openIModelIds());
+    res.json({
+      success: true,
+      directory: IModelRegistry.directory,
+      iModels: IModelRegistry.list().map(entry => ({ ...entry, open: open.has(entry.iModelId) }))
+    });
+  } catch (error) {
+    console.error("Error listing iModels:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+/**
+ * POST /imodels
+ * Create an iModel from the seed file (IMODEL_SEED_PATH), or empty, with the Urban schema
+ * already imported, ready for /elements and /scenarios requests
+ */
+app.post("/imodels", async (req, res) => {
+  try {
+    const { iModelId = randomUUID(), name, description } = CreateIModelSchema.parse(req.body);
+    const result = await IModelSessionManager.createIModel(iModelId, name, description);
+    res.status(201).json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
+    console.error("Error creating iModel:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
 /**
  * GET /imodels/:id/info
  * Get iModel information
@@ -964,6 +1555,9 @@ app.get("/imodels/:id/info", async (req, res) => {
 
     res.json(result);
   } catch (error) {
+    if (error instanceof IModelRegistryError) {
+      return res.status(error.status).json({ success: false, error: error.message });
+    }
     console.error("Error getting iModel info:", error);
     res.status(500).json({
       success: false,
@@ -1030,4 +1624,4 @@ if (require.main === module) {
   startServer();
 }
 
-export { app, IModelSessionManager };
\ No newline at end of file
+export { app, IModelSessionManager, insertBulkFeature };
\ No newline at end of file
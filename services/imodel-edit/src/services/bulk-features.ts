@@ -0,0 +1,213 @@
+/**
+ * Bulk Features - building footprints for bulk insertion
+ *
+ * Reads GeoJSON features from a FeatureCollection body or an NDJSON stream (one Feature
+ * per line), and prepares each one for insertion on its own: the footprint goes through
+ * the CRS middleware checks (EPSG:32718, Chancay AOI), is extruded to its height by the
+ * rules engine and must come out as a valid solid. Features that fail carry the reason
+ * into the per-feature report; inserting the prepared solids is left to the route.
+ */
+
+import { Readable } from "stream";
+import * as readline from "readline";
+import {
+  COMMON_CRS,
+  CURRENT_SCHEMA_VERSION,
+  RulesEngine,
+  SimpleGeometry,
+  describeMeshIssues,
+  legacyContext,
+  validateMesh
+} from "@itwin-dt/rules-cga-lite";
+import { CRSMiddleware, CRSValidationOptions } from "../middleware/crs-middleware";
+import { LotInput } from "./urban-hierarchy";
+
+// Largest batch accepted in one request
+export const MAX_BULK_FEATURES = 5000;
+
+// Every footprint is reprojected to EPSG:32718 and must lie in the Chancay AOI
+const FEATURE_CRS_OPTIONS: CRSValidationOptions = {
+  enforceChancayAOI: true,
+  allowReprojection: true,
+  logTransformations: false
+};
+
+// "atomic" inserts every feature or none; "skip" inserts the valid ones and reports the rest
+export type BulkMode = "atomic" | "skip";
+
+export type FeatureStatus = "inserted" | "skipped" | "failed" | "rolledBack";
+
+export interface FeatureReport {
+  index: number;          // 0-based position in the collection or stream
+  id?: string | number;   // Feature id, when the feature has one
+  status: FeatureStatus;
+  elementId?: string;
+  lotElementId?: string;
+  error?: string;
+  details?: unknown;      // CRS error body or mesh issues behind `error`
+}
+
+export interface ParsedFeature {
+  index: number;
+  feature?: any;
+  error?: string;         // Set when the NDJSON line is not valid JSON
+}
+
+export interface PreparedFeature {
+  index: number;
+  id?: string | number;
+  label: string;
+  geometry: SimpleGeometry; // Extruded solid in EPSG:32718
+  footprint: number[][];    // Outer ring in EPSG:32718, for the urban metrics
+  lot?: LotInput;
+}
+
+export type PreparationResult =
+  | { prepared: PreparedFeature; report?: undefined }
+  | { prepared?: undefined; report: FeatureReport };
+
+/**
+ * Raised when a request body cannot be read as features at all
+ */
+export class BulkFeatureError extends Error {
+  constructor(message: string, readonly status: 400 | 413) {
+    super(message);
+    this.name = "BulkFeatureError";
+  }
+}
+
+export class BulkFeatures {
+  /**
+   * Features of a GeoJSON FeatureCollection (or a single Feature), with the
+   * collection's named CRS if it declares one
+   */
+  static fromGeoJson(body: any): { features: ParsedFeature[]; crs?: string } {
+    const features = body?.type === "FeatureCollection" && Array.isArray(body.features)
+      ? body.features
+      : body?.type === "Feature" ? [body] : undefined;
+    if (!features) {
+      throw new BulkFeatureError("Body must be a GeoJSON FeatureCollection or Feature", 400);
+    }
+    this.checkCount(features.length);
+    return {
+      features: features.map((feature: any, index: number) => ({ index, feature })),
+      crs: body.crs?.properties?.name
+    };
+  }
+
+  /**
+   * Features of an NDJSON stream, read line by line; blank lines are ignored and
+   * lines that are not JSON become failed features
+   */
+  static async fromNdjson(stream: Readable): Promise<ParsedFeature[]> {
+    const features: ParsedFeature[] = [];
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim() === "") {
+        continue;
+      }
+      this.checkCount(features.length + 1);
+      try {
+        features.push({ index: features.length, feature: JSON.parse(line) });
+      } catch (error) {
+        features.push({
+          index: features.length,
+          error: `Line ${lineNumber} is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`
+        });
+      }
+    }
+    return features;
+  }
+
+  /**
+   * Validate one feature and extrude its footprint. `crs` applies to features
+   * that name none in their properties; otherwise the CRS is detected.
+   */
+  static async prepare(parsed: ParsedFeature, engine: RulesEngine, crs?: string): Promise<PreparationResult> {
+    const { index, feature } = parsed;
+    const failed = (error: string, details?: unknown): PreparationResult =>
+      ({ report: { index, id: feature?.id, status: "failed", error, ...(details !== undefined ? { details } : {}) } });
+
+    if (parsed.error) {
+      return failed(parsed.error);
+    }
+    if (feature?.type !== "Feature" || feature.geometry?.type !== "Polygon" || !Array.isArray(feature.geometry.coordinates)) {
+      return failed("Expected a GeoJSON Feature with Polygon geometry");
+    }
+    const properties = feature.properties || {};
+    const height = Number(properties.height ?? properties.buildingHeight);
+    if (!(height > 0)) {
+      return failed("Feature needs a positive properties.height (or buildingHeight) in metres");
+    }
+
+    // The outer ring decides the CRS; holes are read in the same one
+    const [outer, ...holes]: number[][][] = feature.geometry.coordinates;
+    if (!outer || outer.length < 3) {
+      return failed("Polygon needs an outer ring with at least 3 positions");
+    }
+    const outerResult = CRSMiddleware.validateGeometry({ vertices: outer, crs: properties.crs || crs }, FEATURE_CRS_OPTIONS);
+    if (!outerResult.valid) {
+      return failed(outerResult.body.message, outerResult.body);
+    }
+    const ringCRS = outerResult.geometry.transformation?.from ?? outerResult.geometry.crs;
+    const holeVertices: number[][][] = [];
+    for (const hole of holes) {
+      const holeResult = CRSMiddleware.validateGeometry({ vertices: hole, crs: ringCRS }, FEATURE_CRS_OPTIONS);
+      if (!holeResult.valid) {
+        return failed(holeResult.body.message, holeResult.body);
+      }
+      holeVertices.push(holeResult.geometry.vertices);
+    }
+
+    const point = (v: number[]): [number, number, number] => [v[0], v[1], v[2] || 0];
+    const attributes = {
+      ...properties,
+      category: "Building",
+      buildingHeight: height,
+      ...(properties.lotId !== undefined ? { lotId: String(properties.lotId) } : {})
+    };
+    let execution;
+    try {
+      execution = await engine.executeProgram(
+        { name: "Bulk extrusion", schemaVersion: CURRENT_SCHEMA_VERSION, rules: [{ op: "extrude", h: height }] },
+        legacyContext({
+          polygons: [{ vertices: outerResult.geometry.vertices.map(point), holes: holeVertices.map(hole => hole.map(point)) }],
+          attributes
+        }, COMMON_CRS.CHANCAY_UTM_WGS84)
+      );
+    } catch (error) {
+      return failed(error instanceof Error ? error.message : "Extrusion failed");
+    }
+    if (!execution.success || !execution.geometry) {
+      return failed(execution.error || "Extrusion produced no geometry");
+    }
+
+    const validation = validateMesh(execution.geometry);
+    if (!validation.valid) {
+      return failed(`Invalid solid: ${describeMeshIssues(validation.issues)}`, validation.issues);
+    }
+
+    return {
+      prepared: {
+        index,
+        id: feature.id,
+        label: properties.name || `Bulk Building ${feature.id ?? index}`,
+        geometry: { ...execution.geometry, attributes: { ...attributes, ...execution.geometry.attributes } },
+        footprint: outerResult.geometry.vertices,
+        lot: properties.lotId !== undefined ? {
+          lotId: String(properties.lotId),
+          blockId: properties.blockId !== undefined ? String(properties.blockId) : undefined,
+          zoneType: properties.zoneType
+        } : undefined
+      }
+    };
+  }
+
+  private static checkCount(count: number): void {
+    if (count > MAX_BULK_FEATURES) {
+      throw new BulkFeatureError(`A batch holds at most ${MAX_BULK_FEATURES} features`, 413);
+    }
+  }
+}
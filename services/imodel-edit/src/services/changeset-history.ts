@@ -0,0 +1,227 @@
+/**
+ * Changeset History - local changesets and Named Versions for a StandaloneDb
+ *
+ * Every saveChanges() on the iModel commits a local transaction. The history reads that
+ * transaction back with the changeset reader, records the elements it inserted, updated or
+ * deleted (with their old and new property values) as a changeset, and keeps changesets and
+ * Named Versions in a JSON file next to the briefcase, so versions can be compared offline.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import * as fs from "fs";
+import { ChangesetECAdaptor, SqliteChangesetReader, StandaloneDb } from "@itwin/core-backend";
+import { ChangesetRecord, ElementChange, ElementChangeType, ElementDiff, PropertyValues, diffBetween } from "../utils/changeset-diff";
+
+export interface NamedVersionRecord {
+  id: string;
+  name: string;
+  description: string;
+  changesetId: string;     // "" when created before the first changeset
+  changesetIndex: number;
+  createdAt: string;
+}
+
+interface HistoryFile {
+  changesets: ChangesetRecord[];
+  versions: NamedVersionRecord[];
+}
+
+// Element tables read from each transaction: the element row and its 3d placement and geometry
+const ELEMENT_TABLES = ["bis_Element", "bis_GeometricElement3d"];
+
+// Row fields that identify the instance or only track edits, rather than describe the element
+const IGNORED_FIELDS = new Set(["$meta", "ECInstanceId", "ECClassId", "LastMod"]);
+
+const CHANGE_TYPES: Record<string, ElementChangeType> = {
+  Inserted: "insert",
+  Updated: "update",
+  Deleted: "delete"
+};
+
+/**
+ * Raised when a changeset or Named Version cannot be found, or a version name is taken
+ */
+export class ChangesetHistoryError extends Error {
+  constructor(message: string, readonly status: 404 | 409) {
+    super(message);
+    this.name = "ChangesetHistoryError";
+  }
+}
+
+export class ChangesetHistory {
+  private stopRecording?: () => void; // Removes the onCommitted listener
+
+  private constructor(
+    private readonly iModel: StandaloneDb,
+    private readonly filePath: string,
+    private readonly state: HistoryFile
+  ) {}
+
+  /**
+   * Load the history of an iModel (empty when none was saved yet) and record every
+   * transaction committed from now on
+   */
+  static attach(iModel: StandaloneDb, filePath: string = `${iModel.pathName}.history.json`): ChangesetHistory {
+    const state: HistoryFile = fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, "utf8"))
+      : { changesets: [], versions: [] };
+    const history = new ChangesetHistory(iModel, filePath, state);
+    history.stopRecording = iModel.txns.onCommitted.addListener(() => history.recordLastTxn());
+    return history;
+  }
+
+  /**
+   * Stop recording transactions; call before the iModel is closed
+   */
+  detach(): void {
+    this.stopRecording?.();
+    this.stopRecording = undefined;
+  }
+
+  get changesets(): readonly ChangesetRecord[] {
+    return this.state.changesets;
+  }
+
+  get versions(): readonly NamedVersionRecord[] {
+    return this.state.versions;
+  }
+
+  get latestChangeset(): ChangesetRecord | undefined {
+    return this.state.changesets[this.state.changesets.length - 1];
+  }
+
+  /**
+   * Name the current state of the iModel. Pending changes must be saved first.
+   */
+  createNamedVersion(name: string, description: string): NamedVersionRecord {
+    if (this.state.versions.some(version => version.name === name)) {
+      throw new ChangesetHistoryError(`Named Version "${name}" already exists`, 409);
+    }
+    const latest = this.latestChangeset;
+    const version: NamedVersionRecord = {
+      id: randomUUID(),
+      name,
+      description,
+      changesetId: latest?.id ?? "",
+      changesetIndex: latest?.index ?? 0,
+      createdAt: new Date().toISOString()
+    };
+    this.state.versions.push(version);
+    this.save();
+    return version;
+  }
+
+  /**
+   * Changeset index a reference points at: a changeset id, a Named Version id or name,
+   * or "" for the state before the first changeset
+   */
+  resolve(reference: string): number {
+    if (reference === "") {
+      return 0;
+    }
+    const changeset = this.state.changesets.find(candidate => candidate.id === reference);
+    if (changeset) {
+      return changeset.index;
+    }
+    const version = this.state.versions.find(candidate => candidate.id === reference || candidate.name === reference);
+    if (version) {
+      return version.changesetIndex;
+    }
+    throw new ChangesetHistoryError(`Unknown changeset or Named Version: ${reference}`, 404);
+  }
+
+  /**
+   * Element changes from one changeset or Named Version to another
+   */
+  compare(startReference: string, endReference: string): ElementDiff[] {
+    return diffBetween(this.state.changesets, this.resolve(startReference), this.resolve(endReference));
+  }
+
+  /**
+   * Record the transaction saveChanges() just committed as the next changeset
+   */
+  private recordLastTxn(): void {
+    const txns = this.iModel.txns;
+    const txnId = txns.queryPreviousTxnId(txns.getCurrentTxnId());
+    if (!txns.isTxnIdValid(txnId)) {
+      return;
+    }
+
+    try {
+      const changes = this.readTxn(txnId);
+      const parentId = this.latestChangeset?.id ?? "";
+      const createdAt = new Date().toISOString();
+      this.state.changesets.push({
+        id: createHash("sha1").update(parentId).update(createdAt).update(JSON.stringify(changes)).digest("hex"),
+        index: this.state.changesets.length + 1,
+        parentId,
+        description: txns.getTxnDescription(txnId),
+        txnId,
+        createdAt,
+        changes
+      });
+      this.save();
+    } catch (error) {
+      console.error(`Failed to record changeset for transaction ${txnId}:`, error);
+    }
+  }
+
+  /**
+   * Element changes of one local transaction, merging the rows of each element's tables
+   */
+  private readTxn(txnId: string): ElementChange[] {
+    const reader = SqliteChangesetReader.openTxn({ txnId, db: this.iModel, disableSchemaCheck: true });
+    const adaptor = new ChangesetECAdaptor(reader);
+    ELEMENT_TABLES.forEach(table => adaptor.acceptTable(table));
+
+    const changes = new Map<string, ElementChange>();
+    try {
+      while (adaptor.step()) {
+        const row = adaptor.deleted ?? adaptor.inserted;
+        if (!row) {
+          continue;
+        }
+        const change = changes.get(row.ECInstanceId) ?? {
+          elementId: row.ECInstanceId,
+          classFullName: row.$meta?.classFullName,
+          changeType: CHANGE_TYPES[adaptor.op]
+        };
+        if (adaptor.deleted) {
+          change.before = { ...change.before, ...propertyValues(adaptor.deleted) };
+        }
+        if (adaptor.inserted) {
+          change.after = { ...change.after, ...propertyValues(adaptor.inserted) };
+        }
+        changes.set(row.ECInstanceId, change);
+      }
+    } finally {
+      adaptor.close();
+    }
+    return [...changes.values()];
+  }
+
+  /**
+   * Write the history next to the briefcase, replacing the old file in one step
+   */
+  private save(): void {
+    const temporary = `${this.filePath}.tmp`;
+    fs.writeFileSync(temporary, JSON.stringify(this.state, null, 2));
+    fs.renameSync(temporary, this.filePath);
+  }
+}
+
+/**
+ * Property values of a changeset row; binary values (geometry streams) become their size and hash
+ */
+function propertyValues(row: Record<string, any>): PropertyValues {
+  const values: PropertyValues = {};
+  for (const [property, value] of Object.entries(row)) {
+    if (IGNORED_FIELDS.has(property)) {
+      continue;
+    }
+    values[property] = value instanceof Uint8Array
+      ? { bytes: value.byteLength, sha1: createHash("sha1").update(value).digest("hex") }
+      : value;
+  }
+  return values;
+}
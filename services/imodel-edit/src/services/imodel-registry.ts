@@ -0,0 +1,119 @@
+/**
+ * iModel Registry - briefcase files of the iModels this service edits
+ *
+ * Every iModel is a StandaloneDb named `<iModelId>.bim` in one directory
+ * (IMODEL_DIRECTORY, ./data/imodels by default), next to its changeset history.
+ * New iModels are copied from a seed file (IMODEL_SEED_PATH) or created empty,
+ * and get the Urban schema before they are handed out.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { StandaloneDb } from "@itwin/core-backend";
+import { UrbanHierarchy } from "./urban-hierarchy";
+
+// iModel ids double as file names, so only these characters are allowed
+const IMODEL_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+
+const BRIEFCASE_EXTENSION = ".bim";
+
+export interface RegisteredIModel {
+  iModelId: string;
+  filePath: string;
+  sizeBytes: number;
+  modifiedAt: string;
+}
+
+/**
+ * Raised for malformed or unknown iModel ids, and ids that are already taken
+ */
+export class IModelRegistryError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = "IModelRegistryError";
+  }
+}
+
+export class IModelRegistry {
+  /**
+   * Directory holding the briefcase files
+   */
+  static get directory(): string {
+    return path.resolve(process.env.IMODEL_DIRECTORY || "./data/imodels");
+  }
+
+  /**
+   * Briefcase file of an iModel, whether or not it exists yet
+   */
+  static filePath(iModelId: string): string {
+    if (!IMODEL_ID_PATTERN.test(iModelId)) {
+      throw new IModelRegistryError(`Invalid iModel id "${iModelId}": use letters, digits, "-" and "_"`, 400);
+    }
+    return path.join(this.directory, `${iModelId}${BRIEFCASE_EXTENSION}`);
+  }
+
+  /**
+   * Briefcase file of an existing iModel
+   */
+  static resolve(iModelId: string): string {
+    const filePath = this.filePath(iModelId);
+    if (!fs.existsSync(filePath)) {
+      throw new IModelRegistryError(`iModel not found: ${iModelId}`, 404);
+    }
+    return filePath;
+  }
+
+  /**
+   * Every iModel in the directory, by id
+   */
+  static list(): RegisteredIModel[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs.readdirSync(this.directory)
+      .filter(fileName => fileName.endsWith(BRIEFCASE_EXTENSION))
+      .map(fileName => path.basename(fileName, BRIEFCASE_EXTENSION))
+      .filter(iModelId => IMODEL_ID_PATTERN.test(iModelId))
+      .sort()
+      .map(iModelId => {
+        const filePath = this.filePath(iModelId);
+        const stats = fs.statSync(filePath);
+        return { iModelId, filePath, sizeBytes: stats.size, modifiedAt: stats.mtime.toISOString() };
+      });
+  }
+
+  /**
+   * Create an iModel from the seed file, or empty when no seed is configured, with the
+   * Urban schema imported. Returns it open for writing.
+   */
+  static async create(iModelId: string, name: string, description?: string): Promise<StandaloneDb> {
+    const filePath = this.filePath(iModelId);
+    if (fs.existsSync(filePath)) {
+      throw new IModelRegistryError(`iModel already exists: ${iModelId}`, 409);
+    }
+    fs.mkdirSync(this.directory, { recursive: true });
+
+    const seedPath = process.env.IMODEL_SEED_PATH;
+    let iModel: StandaloneDb;
+    if (seedPath) {
+      fs.copyFileSync(seedPath, filePath, fs.constants.COPYFILE_EXCL);
+      iModel = StandaloneDb.openFile(filePath);
+      // The copy keeps the seed's root subject code; label it with the new name
+      const rootSubject = iModel.elements.getRootSubject();
+      iModel.elements.updateElement({ ...rootSubject.toJSON(), userLabel: name, description: description ?? rootSubject.description });
+    } else {
+      iModel = StandaloneDb.createEmpty(filePath, { rootSubject: { name, description } });
+    }
+
+    try {
+      await UrbanHierarchy.importSchema(iModel);
+      iModel.saveChanges(`Create iModel ${iModelId}`);
+    } catch (error) {
+      iModel.close();
+      fs.rmSync(filePath, { force: true });
+      throw error;
+    }
+    console.log(`iModel ${iModelId} created at ${filePath}${seedPath ? ` from seed ${seedPath}` : ""}`);
+    return iModel;
+  }
+}
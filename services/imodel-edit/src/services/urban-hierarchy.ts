@@ -0,0 +1,288 @@
+/**
+ * Urban Hierarchy - scenario containers and the block / lot / building structure
+ *
+ * Imports the Urban ECSchema into an iModel and keeps generated elements organised:
+ * each scenario gets its own physical model and spatial category, lots are
+ * Urban:LotElements owned by their Urban:BlockElement, and buildings are owned by
+ * the lot they were generated on (Urban:LotOwnsBuildings).
+ */
+
+import * as path from "path";
+import { PhysicalModel, PhysicalPartition, SpatialCategory, StandaloneDb } from "@itwin/core-backend";
+import {
+  Code,
+  CodeScopeSpec,
+  CodeSpec,
+  ColorDef,
+  GeometricElement3dProps,
+  GeometryStreamBuilder,
+  GeometryStreamProps,
+  IModel,
+  QueryBinder,
+  QueryRowFormat,
+  RelatedElementProps
+} from "@itwin/core-common";
+import { LineString3d, Loop, Point3d, YawPitchRollAngles } from "@itwin/core-geometry";
+
+// Urban schema shipped with the service (schemas/ next to src/ and dist/)
+const URBAN_SCHEMA_PATH = path.join(__dirname, "../../schemas/Urban.ecschema.xml");
+const URBAN_SCHEMA_VERSION = "01.00.01";
+
+// Code specs of blocks and lots; codes are unique within a scenario model
+const BLOCK_CODE_SPEC = "Urban:Block";
+const LOT_CODE_SPEC = "Urban:Lot";
+
+// Scenario used when a request names none
+export const DEFAULT_SCENARIO = "Default";
+
+// Characters not allowed in model and category names
+const INVALID_NAME_CHARACTERS = /[<>\\/.\"?*|,='&\n\t]/g;
+
+export interface ScenarioContainers {
+  modelId: string;    // Physical model holding the scenario's blocks, lots and buildings
+  categoryId: string; // Spatial category of the scenario's elements
+}
+
+export interface LotInput {
+  lotId: string;
+  blockId?: string;
+  zoneType?: string;
+  vertices?: number[][]; // Lot outline, [x, y, z?] in the service CRS
+}
+
+export interface BuildingFilter {
+  lotId?: string;   // Only buildings owned by this lot
+  blockId?: string; // Only buildings on lots of this block
+}
+
+export interface BuildingRecord {
+  elementId: string;
+  classFullName: string;
+  userLabel?: string;
+  lotElementId?: string; // Owning lot, when the building has one
+  lotId?: string;
+  blockId?: string;
+  metrics?: {            // UrbanMetricsAspect of the building, when it has one
+    footprintArea: number;
+    grossFloorArea: number;
+    floors: number;
+    calculatedAt: string;
+  };
+}
+
+export class UrbanHierarchy {
+  /**
+   * Import the Urban schema unless the iModel already holds this version of it.
+   * Returns whether anything was imported (and saved).
+   */
+  static async importSchema(iModel: StandaloneDb): Promise<boolean> {
+    if (iModel.querySchemaVersion("Urban") === URBAN_SCHEMA_VERSION) {
+      return false;
+    }
+    await iModel.importSchemas([URBAN_SCHEMA_PATH]);
+    iModel.saveChanges(`Import Urban schema ${URBAN_SCHEMA_VERSION}`);
+    console.log(`Urban schema ${URBAN_SCHEMA_VERSION} imported into ${iModel.name}`);
+    return true;
+  }
+
+  /**
+   * Physical model and spatial category of a scenario, created on first use
+   */
+  static scenarioContainers(iModel: StandaloneDb, scenarioName: string = DEFAULT_SCENARIO): ScenarioContainers {
+    const name = this.containerName(scenarioName);
+
+    const partitionCode = PhysicalPartition.createCode(iModel, IModel.rootSubjectId, name);
+    const modelId = iModel.elements.queryElementIdByCode(partitionCode)
+      ?? PhysicalModel.insert(iModel, IModel.rootSubjectId, name);
+
+    const categoryId = SpatialCategory.queryCategoryIdByName(iModel, IModel.dictionaryId, name)
+      ?? SpatialCategory.insert(iModel, IModel.dictionaryId, name, { color: ColorDef.fromString("rgb(176,190,197)").toJSON() });
+
+    return { modelId, categoryId };
+  }
+
+  /**
+   * Physical model and spatial category of a scenario, if it has been used before
+   */
+  static findScenario(iModel: StandaloneDb, scenarioName: string = DEFAULT_SCENARIO): ScenarioContainers | undefined {
+    const name = this.containerName(scenarioName);
+    const modelId = iModel.elements.queryElementIdByCode(PhysicalPartition.createCode(iModel, IModel.rootSubjectId, name));
+    const categoryId = SpatialCategory.queryCategoryIdByName(iModel, IModel.dictionaryId, name);
+    return modelId && categoryId ? { modelId, categoryId } : undefined;
+  }
+
+  /**
+   * Lot element with this lot number in the scenario, if there is one
+   */
+  static findLot(iModel: StandaloneDb, containers: ScenarioContainers, lotId: string): string | undefined {
+    return iModel.codeSpecs.hasName(LOT_CODE_SPEC)
+      ? iModel.elements.queryElementIdByCode(this.code(iModel, LOT_CODE_SPEC, containers.modelId, lotId))
+      : undefined;
+  }
+
+  /**
+   * Block element with this block number in the scenario, if there is one
+   */
+  static findBlock(iModel: StandaloneDb, containers: ScenarioContainers, blockId: string): string | undefined {
+    return iModel.codeSpecs.hasName(BLOCK_CODE_SPEC)
+      ? iModel.elements.queryElementIdByCode(this.code(iModel, BLOCK_CODE_SPEC, containers.modelId, blockId))
+      : undefined;
+  }
+
+  /**
+   * Physical elements of a scenario, optionally only those on one lot or block, with
+   * their lot and urban metrics. Lots and blocks are found by their codes, buildings
+   * by the lot that owns them.
+   */
+  static async queryBuildings(iModel: StandaloneDb, containers: ScenarioContainers, filter: BuildingFilter = {}): Promise<BuildingRecord[]> {
+    const conditions = ["e.Model.Id = ?"];
+    const values: string[] = [containers.modelId];
+    if (filter.lotId !== undefined) {
+      const lotElementId = this.findLot(iModel, containers, filter.lotId);
+      if (!lotElementId) {
+        return [];
+      }
+      conditions.push("e.Parent.Id = ?");
+      values.push(lotElementId);
+    }
+    if (filter.blockId !== undefined) {
+      const blockElementId = this.findBlock(iModel, containers, filter.blockId);
+      if (!blockElementId) {
+        return [];
+      }
+      conditions.push("l.Parent.Id = ?");
+      values.push(blockElementId);
+    }
+
+    const ecsql = `
+      SELECT e.ECInstanceId elementId, ec_classname(e.ECClassId, 's:c') classFullName, e.UserLabel userLabel,
+             l.ECInstanceId lotElementId, l.lotNumber lotId, l.blockId blockId,
+             m.footprintArea footprintArea, m.grossFloorArea grossFloorArea, m.floors floors, m.calculatedAt calculatedAt
+      FROM bis.PhysicalElement e
+      LEFT JOIN urban.LotElement l ON l.ECInstanceId = e.Parent.Id
+      LEFT JOIN urban.UrbanMetricsAspect m ON m.Element.Id = e.ECInstanceId
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY e.ECInstanceId`;
+
+    const buildings: BuildingRecord[] = [];
+    const reader = iModel.createQueryReader(ecsql, QueryBinder.from(values), { rowFormat: QueryRowFormat.UseECSqlPropertyNames });
+    for await (const row of reader) {
+      buildings.push({
+        elementId: row.elementId,
+        classFullName: row.classFullName,
+        userLabel: row.userLabel ?? undefined,
+        lotElementId: row.lotElementId ?? undefined,
+        lotId: row.lotId ?? undefined,
+        blockId: row.blockId ?? undefined,
+        metrics: row.footprintArea !== undefined && row.footprintArea !== null ? {
+          footprintArea: row.footprintArea,
+          grossFloorArea: row.grossFloorArea,
+          floors: row.floors,
+          calculatedAt: row.calculatedAt
+        } : undefined
+      });
+    }
+    return buildings;
+  }
+
+  /**
+   * Lot element for `lot` in the scenario, inserted (with its block) when missing
+   */
+  static ensureLot(iModel: StandaloneDb, containers: ScenarioContainers, lot: LotInput): string {
+    const existing = this.findLot(iModel, containers, lot.lotId);
+    if (existing) {
+      return existing;
+    }
+
+    const blockElementId = lot.blockId !== undefined ? this.ensureBlock(iModel, containers, lot.blockId) : undefined;
+    const outline = lot.vertices && lot.vertices.length >= 3 ? lot.vertices : undefined;
+    const lotProps: GeometricElement3dProps & Record<string, unknown> = {
+      classFullName: "Urban:LotElement",
+      model: containers.modelId,
+      category: containers.categoryId,
+      code: this.code(iModel, LOT_CODE_SPEC, containers.modelId, lot.lotId),
+      userLabel: `Lot ${lot.lotId}`,
+      parent: blockElementId ? { id: blockElementId, relClassName: "Urban:BlockOwnsLots" } : undefined,
+      geom: outline ? this.outlineGeometry(outline) : undefined,
+      placement: {
+        origin: Point3d.createZero(),
+        angles: YawPitchRollAngles.createDegrees(0, 0, 0)
+      },
+      lotNumber: lot.lotId,
+      zoneType: lot.zoneType,
+      area: outline ? this.outlineArea(outline) : undefined,
+      blockId: lot.blockId
+    };
+    return iModel.elements.insertElement(lotProps);
+  }
+
+  /**
+   * Parent of a building generated on a lot
+   */
+  static buildingParent(lotElementId: string): RelatedElementProps {
+    return { id: lotElementId, relClassName: "Urban:LotOwnsBuildings" };
+  }
+
+  /**
+   * Block element with this block number in the scenario, inserted when missing
+   */
+  private static ensureBlock(iModel: StandaloneDb, containers: ScenarioContainers, blockId: string): string {
+    const code = this.code(iModel, BLOCK_CODE_SPEC, containers.modelId, blockId);
+    const blockProps: GeometricElement3dProps & Record<string, unknown> = {
+      classFullName: "Urban:BlockElement",
+      model: containers.modelId,
+      category: containers.categoryId,
+      code,
+      userLabel: `Block ${blockId}`,
+      placement: {
+        origin: Point3d.createZero(),
+        angles: YawPitchRollAngles.createDegrees(0, 0, 0)
+      },
+      blockNumber: blockId
+    };
+    return iModel.elements.queryElementIdByCode(code) ?? iModel.elements.insertElement(blockProps);
+  }
+
+  /**
+   * Name of a scenario's model and category
+   */
+  private static containerName(scenarioName: string): string {
+    return `Scenario ${scenarioName}`.replace(INVALID_NAME_CHARACTERS, "_");
+  }
+
+  /**
+   * Code of a block or lot, scoped to the scenario model; the code spec is created on first use
+   */
+  private static code(iModel: StandaloneDb, specName: string, modelId: string, value: string): Code {
+    const specId = iModel.codeSpecs.hasName(specName)
+      ? iModel.codeSpecs.getByName(specName).id
+      : iModel.codeSpecs.insert(CodeSpec.create(iModel, specName, CodeScopeSpec.Type.Model));
+    return new Code({ spec: specId, scope: modelId, value });
+  }
+
+  /**
+   * Closed outline of a lot as a geometry stream
+   */
+  private static outlineGeometry(vertices: number[][]): GeometryStreamProps {
+    const points = vertices.map(v => Point3d.create(v[0], v[1], v[2] || 0));
+    if (!points[0].isAlmostEqual(points[points.length - 1])) {
+      points.push(points[0].clone());
+    }
+    const builder = new GeometryStreamBuilder();
+    builder.appendGeometry(Loop.create(LineString3d.create(points)));
+    return builder.geometryStream;
+  }
+
+  /**
+   * Plan area of a lot outline (shoelace formula), in square metres of the service CRS
+   */
+  private static outlineArea(vertices: number[][]): number {
+    let area = 0;
+    for (let i = 0; i < vertices.length; i++) {
+      const [x1, y1] = vertices[i];
+      const [x2, y2] = vertices[(i + 1) % vertices.length];
+      area += x1 * y2 - x2 * y1;
+    }
+    return Math.abs(area) / 2;
+  }
+}
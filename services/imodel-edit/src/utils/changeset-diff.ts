@@ -0,0 +1,122 @@
+/**
+ * Changeset diff - element-level comparison between two points of the local changeset history
+ *
+ * Each recorded changeset lists the elements its transaction inserted, updated or deleted,
+ * with their property values before and after. Comparing two versions folds the changesets
+ * between them into one net change per element, with the properties that differ.
+ */
+
+export type ElementChangeType = "insert" | "update" | "delete";
+
+// Property values of an element row, keyed by EC property name (binary values as { bytes, sha1 })
+export type PropertyValues = Record<string, unknown>;
+
+export interface ElementChange {
+  elementId: string;
+  classFullName?: string;
+  changeType: ElementChangeType;
+  before?: PropertyValues; // Values before the change (changed properties only for updates)
+  after?: PropertyValues;  // Values after the change (changed properties only for updates)
+}
+
+export interface ChangesetRecord {
+  id: string;
+  index: number;           // 1-based position in the history
+  parentId: string;        // Id of the previous changeset, "" for the first
+  description: string;
+  txnId?: string;          // Local transaction the changeset was read from
+  createdAt: string;
+  changes: ElementChange[];
+}
+
+export interface PropertyDelta {
+  property: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ElementDiff {
+  elementId: string;
+  classFullName?: string;
+  changeType: ElementChangeType;
+  propertyChanges: PropertyDelta[];
+}
+
+/**
+ * Net change per element over `changesets`, applied in order. An element inserted and
+ * deleted again drops out, as does an update that ends where it started.
+ */
+export function combineChangesets(changesets: ChangesetRecord[]): ElementDiff[] {
+  const byElement = new Map<string, ElementChange[]>();
+  for (const changeset of changesets) {
+    for (const change of changeset.changes) {
+      byElement.set(change.elementId, [...(byElement.get(change.elementId) || []), change]);
+    }
+  }
+
+  const diffs: ElementDiff[] = [];
+  for (const [elementId, changes] of byElement) {
+    const first = changes[0];
+    const last = changes[changes.length - 1];
+    const existedBefore = first.changeType !== "insert";
+    const existsAfter = last.changeType !== "delete";
+    const classFullName = last.classFullName ?? first.classFullName;
+
+    // The earliest value seen of each property, and the latest
+    const before: PropertyValues = {};
+    const after: PropertyValues = {};
+    for (const change of changes) {
+      for (const [property, value] of Object.entries(change.before || {})) {
+        if (!(property in before)) {
+          before[property] = value;
+        }
+      }
+      Object.assign(after, change.after);
+    }
+
+    if (!existedBefore && !existsAfter) {
+      continue;
+    }
+    if (!existedBefore) {
+      diffs.push({ elementId, classFullName, changeType: "insert", propertyChanges: propertyDeltas({}, after) });
+    } else if (!existsAfter) {
+      diffs.push({ elementId, classFullName, changeType: "delete", propertyChanges: propertyDeltas(before, {}) });
+    } else {
+      const propertyChanges = propertyDeltas(before, after);
+      if (propertyChanges.length > 0) {
+        diffs.push({ elementId, classFullName, changeType: "update", propertyChanges });
+      }
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Diff from the state after changeset `startIndex` to the state after `endIndex`
+ * (0 is the state before the first changeset). Going back in history inverts the
+ * changes in between.
+ */
+export function diffBetween(changesets: ChangesetRecord[], startIndex: number, endIndex: number): ElementDiff[] {
+  const low = Math.min(startIndex, endIndex);
+  const high = Math.max(startIndex, endIndex);
+  const diffs = combineChangesets(changesets.filter(changeset => changeset.index > low && changeset.index <= high));
+  return startIndex <= endIndex ? diffs : diffs.map(invertDiff);
+}
+
+/**
+ * Properties whose values differ, in name order; a property missing on one side is undefined
+ */
+export function propertyDeltas(before: PropertyValues, after: PropertyValues): PropertyDelta[] {
+  const properties = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return properties
+    .filter(property => JSON.stringify(before[property]) !== JSON.stringify(after[property]))
+    .map(property => ({ property, before: before[property], after: after[property] }));
+}
+
+function invertDiff(diff: ElementDiff): ElementDiff {
+  return {
+    ...diff,
+    changeType: diff.changeType === "insert" ? "delete" : diff.changeType === "delete" ? "insert" : "update",
+    propertyChanges: diff.propertyChanges.map(({ property, before, after }) => ({ property, before: after, after: before }))
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Keyed lock - runs async tasks one at a time per key
+ *
+ * Tasks for the same key queue behind each other in call order, tasks for different
+ * keys run side by side. A task that fails does not hold up the ones queued after it.
+ */
+
+export class KeyedLock {
+  private readonly tails = new Map<string, Promise<void>>(); // Settles when the last queued task has
+  private readonly pending = new Map<string, number>();      // Running and queued tasks per key
+
+  /**
+   * Run `task` once every task queued before it for `key` has settled
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.then(() => undefined, () => undefined);
+
+    this.tails.set(key, tail);
+    this.pending.set(key, (this.pending.get(key) ?? 0) + 1);
+    tail.then(() => {
+      const remaining = (this.pending.get(key) ?? 1) - 1;
+      if (remaining > 0) {
+        this.pending.set(key, remaining);
+        return;
+      }
+      this.pending.delete(key);
+      this.tails.delete(key);
+    });
+
+    return result;
+  }
+
+  /**
+   * Whether a task for `key` is running or queued
+   */
+  isBusy(key: string): boolean {
+    return this.pending.has(key);
+  }
+}
@@ -19,6 +19,7 @@ import * as polygonClipping from 'polygon-clipping';
 import { Polygon as FlattenPolygon, Point as FlattenPoint } from '@flatten-js/core';
 // Note: @flatten-js/polygon-offset may need different import pattern
 import { Delaunay } from 'd3-delaunay';
+import { RuleRunOptions, RuleWorkerExecutor } from '@itwin-dt/rules-cga-lite';
 
 // Geometry types for CGA operations
 export interface CGAPolygon {
@@ -54,6 +55,7 @@ export interface CGAResult {
  */
 export class CGAOperatorsService {
   private static instance: CGAOperatorsService;
+  private executor?: Promise<RuleWorkerExecutor>;
 
   private constructor() {}
 
@@ -80,31 +82,37 @@ export class CGAOperatorsService {
         return { geometry: { polygons: [], attributes: {} }, success: false, message: 'Invalid polygon for extrusion' };
       }
 
-      // Create bottom face (original polygon at z=0)
-      const bottomFace = {
-        vertices: polygon.vertices.map(v => [v[0], v[1], 0] as [number, number, number])
+      const holes = polygon.holes || [];
+
+      // Create bottom face (original polygon at z=0), keeping its holes
+      const bottomFace: CGAPolygon = {
+        vertices: this.liftRing(polygon.vertices, 0),
+        ...(holes.length > 0 ? { holes: holes.map(hole => this.liftRing(hole, 0)) } : {})
       };
 
       // Create top face (extruded polygon at z=height)  
-      const topFace = {
-        vertices: polygon.vertices.map(v => [v[0], v[1], height] as [number, number, number])
+      const topFace: CGAPolygon = {
+        vertices: this.liftRing(polygon.vertices, height),
+        ...(holes.length > 0 ? { holes: holes.map(hole => this.liftRing(hole, height)) } : {})
       };
 
-      // Create side faces (connecting bottom to top)
+      // Create side faces (connecting bottom to top), then the inner faces around each hole
       const sideFaces: CGAPolygon[] = [];
-      for (let i = 0; i < polygon.vertices.length; i++) {
-        const j = (i + 1) % polygon.vertices.length;
-        const v1 = polygon.vertices[i];
-        const v2 = polygon.vertices[j];
-        
-        sideFaces.push({
-          vertices: [
-            [v1[0], v1[1], 0],
-            [v2[0], v2[1], 0], 
-            [v2[0], v2[1], height],
-            [v1[0], v1[1], height]
-          ]
-        });
+      for (const ring of [polygon.vertices, ...holes]) {
+        for (let i = 0; i < ring.length; i++) {
+          const j = (i + 1) % ring.length;
+          const v1 = ring[i];
+          const v2 = ring[j];
+          
+          sideFaces.push({
+            vertices: [
+              [v1[0], v1[1], 0],
+              [v2[0], v2[1], 0], 
+              [v2[0], v2[1], height],
+              [v1[0], v1[1], height]
+            ]
+          });
+        }
       }
 
       const extrudedGeometry: CGAGeometry = {
@@ -140,18 +148,18 @@ export class CGAOperatorsService {
     try {
       // Try robust offset with @flatten-js (when properly configured)
       // For now, use fallback method as the library imports need configuration
-      const offsetVertices = this.simpleOffset(polygon.vertices, distance);
+      const offsetPolygon = this.offsetPolygon(polygon, distance);
       
-      if (offsetVertices.length < 3) {
+      if (offsetPolygon.vertices.length < 3) {
         return { geometry: { polygons: [], attributes: {} }, success: false, message: 'Offset resulted in invalid polygon' };
       }
 
       const offsetGeometry: CGAGeometry = {
-        polygons: [{ vertices: offsetVertices }],
+        polygons: [offsetPolygon],
         attributes: {
           offsetDistance: distance,
           originalArea: this.calculatePolygonArea(polygon),
-          offsetArea: this.calculatePolygonArea({ vertices: offsetVertices }),
+          offsetArea: this.calculatePolygonArea(offsetPolygon),
           category: 'Building',
           operation: 'offset',
           method: 'simple' // Will be 'robust' when @flatten-js is properly configured
@@ -227,7 +235,8 @@ export class CGAOperatorsService {
         for (let i = 0; i < divisions.length; i++) {
           const floorGeometry: CGAGeometry = {
             polygons: geometry.polygons.map(poly => ({
-              vertices: poly.vertices.map(v => [v[0], v[1], i * floorHeight] as [number, number, number])
+              vertices: this.liftRing(poly.vertices, i * floorHeight),
+              ...(poly.holes ? { holes: poly.holes.map(hole => this.liftRing(hole, i * floorHeight)) } : {})
             })),
             attributes: {
               ...geometry.attributes,
@@ -279,15 +288,17 @@ export class CGAOperatorsService {
       
       for (let i = 0; i < count; i++) {
         const offset = i * spacing;
+        const moveRing = (ring: Array<[number, number, number?]>) => ring.map(v => {
+          const newV = [...v] as [number, number, number];
+          if (axis === 'x') newV[0] += offset;
+          else if (axis === 'y') newV[1] += offset;
+          else if (axis === 'z') newV[2] = (newV[2] || 0) + offset;
+          return newV;
+        });
         const repeatedGeometry: CGAGeometry = {
           polygons: geometry.polygons.map(poly => ({
-            vertices: poly.vertices.map(v => {
-              const newV = [...v] as [number, number, number];
-              if (axis === 'x') newV[0] += offset;
-              else if (axis === 'y') newV[1] += offset;
-              else if (axis === 'z') newV[2] = (newV[2] || 0) + offset;
-              return newV;
-            })
+            vertices: moveRing(poly.vertices),
+            ...(poly.holes ? { holes: poly.holes.map(moveRing) } : {})
           })),
           attributes: {
             ...geometry.attributes,
@@ -329,10 +340,11 @@ export class CGAOperatorsService {
 
       switch (roofType) {
         case 'flat':
-          // Simple flat roof - just offset the base polygon upward
+          // Simple flat roof - just offset the base polygon upward, courtyards included
           roofGeometry = {
             polygons: [{
-              vertices: polygon.vertices.map(v => [v[0], v[1], height] as [number, number, number])
+              vertices: this.liftRing(polygon.vertices, height),
+              ...(polygon.holes ? { holes: polygon.holes.map(hole => this.liftRing(hole, height)) } : {})
             }],
             attributes: {
               roofType,
@@ -386,104 +398,17 @@ export class CGAOperatorsService {
   /**
    * Apply a sequence of CGA rules to geometry
    * 
+   * Runs on the rules-cga-lite RulesEngine through its legacy rule adapter, the
+   * same path the imodel-edit server uses, so previews match persisted geometry.
+   * 
    * @param initialGeometry Starting geometry (typically lot polygon)
    * @param rules Array of CGA rules to apply in sequence
-   * @returns Final geometry results after all rule applications
+   * @returns Geometry after each rule (one result per part for split and repeat)
    */
   public async applyRuleSequence(initialGeometry: CGAGeometry, rules: CGARule[]): Promise<CGAResult[]> {
     try {
-      let currentGeometry = initialGeometry;
-      let allResults: CGAResult[] = [];
+      const [allResults] = await this.applyRuleSequences([initialGeometry], rules);
       
-      for (const rule of rules) {
-        let ruleResults: CGAResult[] = [];
-
-        switch (rule.operator) {
-          case 'setback':
-            if (currentGeometry.polygons.length > 0) {
-              const setbackResult = await this.setback(
-                currentGeometry.polygons[0],
-                rule.parameters.setbacks || { all: 3 }
-              );
-              ruleResults = [setbackResult];
-              // Update current geometry for next rule
-              if (setbackResult.success) {
-                currentGeometry = setbackResult.geometry;
-              }
-            }
-            break;
-
-          case 'extrude':
-            if (currentGeometry.polygons.length > 0) {
-              const extrudeResult = await this.extrude(
-                currentGeometry.polygons[0], 
-                rule.parameters.height || 20
-              );
-              ruleResults = [extrudeResult];
-              // Update current geometry for next rule
-              if (extrudeResult.success) {
-                currentGeometry = extrudeResult.geometry;
-              }
-            }
-            break;
-
-          case 'offset':
-            if (currentGeometry.polygons.length > 0) {
-              const offsetResult = await this.offset(
-                currentGeometry.polygons[0],
-                rule.parameters.distance || -2
-              );
-              ruleResults = [offsetResult];
-              // Update current geometry for next rule
-              if (offsetResult.success) {
-                currentGeometry = offsetResult.geometry;
-              }
-            }
-            break;
-
-          case 'split':
-            ruleResults = await this.split(
-              currentGeometry,
-              rule.parameters.axis || 'z',
-              rule.parameters.divisions || [1, 1]
-            );
-            // For split, each result becomes a separate branch
-            break;
-
-          case 'repeat':
-            ruleResults = await this.repeat(
-              currentGeometry,
-              rule.parameters.axis || 'x',
-              rule.parameters.count || 3,
-              rule.parameters.spacing || 10
-            );
-            // For repeat, each result becomes a separate branch
-            break;
-
-          case 'roof':
-            if (currentGeometry.polygons.length > 0) {
-              const roofResult = await this.roof(
-                currentGeometry.polygons[0],
-                rule.parameters.type || 'flat',
-                rule.parameters.height || 3,
-                rule.parameters.overhang || 1
-              );
-              ruleResults = [roofResult];
-              // Roof doesn't change geometry for next rule (it's additive)
-            }
-            break;
-
-          default:
-            ruleResults = [{ 
-              geometry: currentGeometry, 
-              success: false, 
-              message: `Unknown operator: ${rule.operator}` 
-            }];
-        }
-
-        allResults.push(...ruleResults);
-      }
-
       console.log(`Rule sequence completed: ${rules.length} rules → ${allResults.length} results`);
       return allResults;
     } catch (error) {
@@ -492,23 +417,73 @@ export class CGAOperatorsService {
     }
   }
 
+  /**
+   * Apply a sequence of CGA rules to many lots in the rule worker
+   * 
+   * Keeps the viewer responsive while hundreds of lots run. Falls back to
+   * in-thread execution where Web Workers are missing (Jest/jsdom).
+   * 
+   * @param lots Lot geometries
+   * @param rules Array of CGA rules to apply to every lot
+   * @param options Progress callback (lots done, total) and AbortSignal
+   * @returns The applyRuleSequence results of each lot, in lot order
+   * @throws RuleExecutionCancelledError when the signal aborts
+   */
+  public async applyRuleSequences(lots: CGAGeometry[], rules: CGARule[], options: RuleRunOptions = {}): Promise<CGAResult[][]> {
+    const executor = await this.getExecutor();
+    return executor.applyLegacyRules(lots, rules, options);
+  }
+
   // Helper methods
 
+  private getExecutor(): Promise<RuleWorkerExecutor> {
+    if (!this.executor) {
+      this.executor = typeof Worker === 'undefined'
+        ? Promise.resolve(new RuleWorkerExecutor())
+        : import('../workers/createRulesWorker').then(({ createRulesWorker }) => new RuleWorkerExecutor({ createWorker: createRulesWorker }));
+    }
+    return this.executor;
+  }
+
   private calculatePolygonArea(polygon: CGAPolygon): number {
     if (polygon.vertices.length < 3) return 0;
     
+    // Holes are cut out of the outer ring
+    const holeArea = (polygon.holes || []).reduce((sum, hole) => sum + this.ringArea(hole), 0);
+    return this.ringArea(polygon.vertices) - holeArea;
+  }
+
+  private ringArea(ring: Array<[number, number, number?]>): number {
+    if (ring.length < 3) return 0;
+    
     let area = 0;
-    const n = polygon.vertices.length;
+    const n = ring.length;
     
     for (let i = 0; i < n; i++) {
       const j = (i + 1) % n;
-      area += polygon.vertices[i][0] * polygon.vertices[j][1];
-      area -= polygon.vertices[j][0] * polygon.vertices[i][1];
+      area += ring[i][0] * ring[j][1];
+      area -= ring[j][0] * ring[i][1];
     }
     
     return Math.abs(area) / 2;
   }
 
+  private liftRing(ring: Array<[number, number, number?]>, z: number): Array<[number, number, number]> {
+    return ring.map(v => [v[0], v[1], z] as [number, number, number]);
+  }
+
+  /**
+   * Offset the outer ring by `distance` and each hole by the opposite amount,
+   * so an inset widens courtyards; holes that collapse are dropped
+   */
+  private offsetPolygon(polygon: CGAPolygon, distance: number): CGAPolygon {
+    const vertices = this.simpleOffset(polygon.vertices, distance);
+    const holes = (polygon.holes || [])
+      .map(hole => this.simpleOffset(hole, -distance))
+      .filter(hole => hole.length >= 3);
+    return holes.length > 0 ? { vertices, holes } : { vertices };
+  }
+
   private calculateCentroid(polygon: CGAPolygon): { x: number; y: number } {
     const vertices = polygon.vertices;
     let x = 0, y = 0;
@@ -523,18 +498,18 @@ export class CGAOperatorsService {
 
   private simpleOffsetFallback(polygon: CGAPolygon, distance: number): CGAResult {
     try {
-      const offsetVertices = this.simpleOffset(polygon.vertices, distance);
+      const offsetPolygon = this.offsetPolygon(polygon, distance);
       
-      if (offsetVertices.length < 3) {
+      if (offsetPolygon.vertices.length < 3) {
         return { geometry: { polygons: [], attributes: {} }, success: false, message: 'Fallback offset resulted in invalid polygon' };
       }
 
       const offsetGeometry: CGAGeometry = {
-        polygons: [{ vertices: offsetVertices }],
+        polygons: [offsetPolygon],
         attributes: {
           offsetDistance: distance,
           originalArea: this.calculatePolygonArea(polygon),
-          offsetArea: this.calculatePolygonArea({ vertices: offsetVertices }),
+          offsetArea: this.calculatePolygonArea(offsetPolygon),
           category: 'Building',
           operation: 'offset',
           method: 'fallback'
@@ -599,9 +574,11 @@ export class CGAOperatorsService {
     operation: 'union' | 'intersection' | 'difference' | 'xor'
   ): Promise<CGAResult> {
     try {
-      // Convert to polygon-clipping format
-      const polyA: polygonClipping.Polygon = [polygonA.vertices.map(v => [v[0], v[1]])];
-      const polyB: polygonClipping.Polygon = [polygonB.vertices.map(v => [v[0], v[1]])];
+      // Convert to polygon-clipping format: outer ring followed by its holes
+      const toRings = (polygon: CGAPolygon): polygonClipping.Polygon =>
+        [polygon.vertices, ...(polygon.holes || [])].map(ring => ring.map(v => [v[0], v[1]] as [number, number]));
+      const polyA = toRings(polygonA);
+      const polyB = toRings(polygonB);
       
       let result: polygonClipping.MultiPolygon;
       
@@ -626,9 +603,12 @@ export class CGAOperatorsService {
         return { geometry: { polygons: [], attributes: {} }, success: false, message: `Boolean ${operation} resulted in empty geometry` };
       }
       
-      // Convert back to our format
+      // Convert back to our format, keeping interior rings as holes
       const resultPolygons: CGAPolygon[] = result.map(polygon => ({
-        vertices: polygon[0].map(coord => [coord[0], coord[1], 0] as [number, number, number])
+        vertices: polygon[0].map(coord => [coord[0], coord[1], 0] as [number, number, number]),
+        ...(polygon.length > 1
+          ? { holes: polygon.slice(1).map(ring => ring.map(coord => [coord[0], coord[1], 0] as [number, number, number])) }
+          : {})
       }));
       
       const booleanGeometry: CGAGeometry = {
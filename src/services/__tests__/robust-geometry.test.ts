@@ -127,13 +127,35 @@ describe('Robust Geometry Operations', () => {
       // Test extrusion of polygon with hole
       const extrudeResult = await cgaService.extrude(polygonWithHole, 25);
       
-      // Note: Current implementation doesn't handle holes in extrusion
-      // This test documents the expected behavior - in production, holes would create additional faces
       expect(extrudeResult.success).toBe(true);
       expect(extrudeResult.geometry.attributes.height).toBe(25);
+      expect(extrudeResult.geometry.attributes.volume).toBe((400 - 100) * 25);
       
-      // Future enhancement: proper hole handling would create inner faces
-      // expect(extrudeResult.geometry.polygons.length).toBeGreaterThan(6); // Outer + inner faces
+      // Bottom and top keep the hole; 4 outer and 4 inner side faces
+      const [bottom, top] = extrudeResult.geometry.polygons;
+      expect(extrudeResult.geometry.polygons).toHaveLength(10);
+      expect(bottom.holes).toHaveLength(1);
+      expect(top.holes![0].every(v => v[2] === 25)).toBe(true);
+    });
+
+    it('should preserve holes through boolean operations and offsets', async () => {
+      const square: CGAPolygon = {
+        vertices: [[10, -5, 0], [30, -5, 0], [30, 25, 0], [10, 25, 0]]
+      };
+
+      const intersectionResult = await cgaService.booleanOperation(polygonWithHole, square, 'intersection');
+      expect(intersectionResult.success).toBe(true);
+      expect(intersectionResult.geometry.attributes.resultArea).toBeCloseTo(200 - 50, 6);
+
+      const unionResult = await cgaService.booleanOperation(polygonWithHole, { vertices: [[25, 0, 0], [30, 0, 0], [30, 20, 0], [25, 20, 0]] }, 'union');
+      expect(unionResult.geometry.polygons).toHaveLength(2);
+      expect(unionResult.geometry.polygons.some(polygon => polygon.holes?.length === 1)).toBe(true);
+      expect(unionResult.geometry.attributes.resultArea).toBeCloseTo(300 + 100, 6);
+
+      const offsetResult = await cgaService.offset(polygonWithHole, -1);
+      expect(offsetResult.success).toBe(true);
+      expect(offsetResult.geometry.polygons[0].holes).toHaveLength(1);
+      expect(offsetResult.geometry.attributes.offsetArea).toBeLessThan(300);
     });
   });
 
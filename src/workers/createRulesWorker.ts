@@ -0,0 +1,8 @@
+/**
+ * Start the rule execution worker
+ *
+ * Kept apart from the services because `import.meta` only parses in the
+ * webpack build; Jest never loads this module.
+ */
+export const createRulesWorker = (): Worker =>
+  new Worker(new URL('./rules.worker.ts', import.meta.url));
@@ -0,0 +1,10 @@
+/**
+ * Rule execution worker
+ *
+ * Serves RuleWorkerExecutor requests from CGAOperatorsService, so rule
+ * programs run off the main thread.
+ */
+
+import { RuleWorkerScope, startRuleWorker } from '@itwin-dt/rules-cga-lite';
+
+startRuleWorker(self as unknown as RuleWorkerScope);
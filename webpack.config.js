@@ -30,6 +30,10 @@ module.exports = {
   },
   resolve: {
     extensions: ['.tsx', '.ts', '.js', '.jsx'],
+    alias: {
+      // Built from source, like the tsconfig path and the jest mapping
+      '@itwin-dt/rules-cga-lite': path.resolve(__dirname, 'packages/rules-cga-lite/src'),
+    },
     fallback: {
       "crypto": false,
       "stream": false,